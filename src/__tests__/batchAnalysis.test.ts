@@ -0,0 +1,58 @@
+import { analyzeBatchImage, batchFailure, batchToCsv, summarizeBatch } from '../lib/batchAnalysis';
+import { heuristicEstimator } from '../lib/treadEstimator';
+import { createImageData } from '../lib/imageUtils';
+
+/**
+ * Vertical grooves; a small `contrast` reads as worn-out tread.
+ */
+function treadImage(contrast: number): ImageData {
+    const size = 120;
+    const data = new Uint8ClampedArray(size * size * 4);
+    for (let p = 0; p < size * size; p++) {
+        const v = (p % size) % 10 < 4 ? 110 - contrast / 2 : 110 + contrast / 2;
+        data.set([v, v, v, 255], p * 4);
+    }
+    return createImageData(data, size, size);
+}
+
+const options = { estimator: heuristicEstimator, milesPerYear: 12000 };
+
+describe('Batch Analysis', () => {
+    it('should report depth, score, risk, dates and image quality per file', async () => {
+        const row = await analyzeBatchImage('front-left.jpg', treadImage(120), options);
+        expect(row).toMatchObject({ file: 'front-left.jpg', status: 'ok', bucket: 'NEW', riskLevel: 'Safe', estimator: 'heuristic' });
+        expect(row.legalMinimumDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        expect(row.imageAcceptable).toBe(true);
+        expect(row.healthScore).toBeGreaterThan(70);
+    });
+
+    it('should count Replace Now tires and failures in the summary', async () => {
+        const rows = [
+            await analyzeBatchImage('good.jpg', treadImage(120), options),
+            await analyzeBatchImage('bald.jpg', treadImage(4), options),
+            batchFailure('broken.jpg', new Error('Input buffer contains unsupported image format')),
+        ];
+        expect(rows[1].riskLevel).toBe('Replace Now');
+        expect(summarizeBatch(rows)).toEqual({ total: 3, analyzed: 2, failed: 1, replaceNow: 1 });
+    });
+
+    it('should write one CSV line per file with a header', async () => {
+        const csv = batchToCsv([
+            await analyzeBatchImage('good.jpg', treadImage(120), options),
+            batchFailure('odd, "name".jpg', 'bad'),
+        ]);
+        const lines = csv.trim().split('\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[0].startsWith('file,status,bucket,depth32nds')).toBe(true);
+        expect(lines[1].startsWith('good.jpg,ok,NEW,')).toBe(true);
+        expect(lines[2]).toBe('"odd, ""name"".jpg",error,,,,,,,,,,,,,,,,,,,,bad');
+    });
+
+    it('should give depths in mm in a metric report', async () => {
+        const row = await analyzeBatchImage('good.jpg', treadImage(120), { ...options, units: 'metric' });
+        expect(row.depthMm).toBeCloseTo(row.depth32nds! * 25.4 / 32, 1);
+        const [header, line] = batchToCsv([row], 'metric').trim().split('\n');
+        expect(header.startsWith('file,status,bucket,depthMm,uncertaintyMm,')).toBe(true);
+        expect(line.split(',')[3]).toBe(String(row.depthMm));
+    });
+});
@@ -0,0 +1,116 @@
+import { measureWithCoin, measureWithGauge, fuseCalibration } from '../lib/calibration';
+import { buildTreadEstimate } from '../lib/treadEstimator';
+import { resolveScanDepth } from '../lib/tireAnalysis';
+import { MM_PER_32ND, REFERENCE_COINS } from '../lib/constants';
+
+/**
+ * Dark tread with a coin of `diameterPx` whose bottom `hiddenPx` rows are
+ * inside the groove (not drawn).
+ */
+function coinImage(rgb: [number, number, number], diameterPx: number, hiddenPx: number): ImageData {
+    const width = 200;
+    const height = 200;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const r = diameterPx / 2;
+    const cx = 100;
+    const cy = 60 + r;
+    const surfaceY = cy + r - hiddenPx;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = (y * width + x) * 4;
+            const inCoin = (x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 <= r * r && y + 0.5 < surfaceY;
+            const [cr, cg, cb] = inCoin ? rgb : [35, 35, 38];
+            data[idx] = cr;
+            data[idx + 1] = cg;
+            data[idx + 2] = cb;
+            data[idx + 3] = 255;
+        }
+    }
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+describe('Calibration', () => {
+    describe('measureWithCoin', () => {
+        it('should measure groove depth from a partly hidden penny', () => {
+            const diameterPx = 100;
+            const hiddenPx = 25; // a quarter of the diameter
+            const measurement = measureWithCoin(coinImage([184, 115, 51], diameterPx, hiddenPx), 'penny');
+
+            const expected = (REFERENCE_COINS.penny.diameterMm * 0.25) / MM_PER_32ND;
+            expect(measurement).not.toBeNull();
+            expect(measurement!.method).toBe('penny');
+            expect(measurement!.depth32nds).toBeCloseTo(expected, 0);
+            expect(measurement!.confidence).toBeGreaterThan(0.6);
+        });
+
+        it('should measure a quarter', () => {
+            const measurement = measureWithCoin(coinImage([200, 200, 205], 120, 20), 'quarter');
+            const expected = (REFERENCE_COINS.quarter.diameterMm * (20 / 120)) / MM_PER_32ND;
+            expect(measurement!.depth32nds).toBeCloseTo(expected, 0);
+        });
+
+        it('should return null when no coin is present', () => {
+            const blank = coinImage([35, 35, 38], 100, 0);
+            expect(measureWithCoin(blank, 'penny')).toBeNull();
+        });
+
+        it('should not mistake a silver coin for a penny', () => {
+            expect(measureWithCoin(coinImage([200, 200, 205], 100, 20), 'penny')).toBeNull();
+        });
+    });
+
+    describe('measureWithGauge', () => {
+        it('should trust a gauge reading fully', () => {
+            const m = measureWithGauge(5.5);
+            expect(m).toEqual({ method: 'gauge', depth32nds: 5.5, uncertainty32nds: 0.25, confidence: 1 });
+        });
+
+        it('should keep readings deeper than the estimator scale', () => {
+            // A new LT tire at 11/32", a winter tire at 12/32"
+            expect(measureWithGauge(11).depth32nds).toBe(11);
+            expect(measureWithGauge(12.5).depth32nds).toBe(12.5);
+            expect(measureWithGauge(40).depth32nds).toBe(20);
+        });
+
+        it('should analyze a calibrated depth above 10/32" as is', () => {
+            const calibration = measureWithGauge(11);
+            const resolved = resolveScanDepth({
+                position: 'FL',
+                bucket: 'NEW',
+                depthRange: { min: 10.75, max: 11.25 },
+                depth32nds: 11,
+                uncertainty32nds: 0.25,
+                confidence: 0.95,
+                imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+                calibration,
+                tireProfile: { size: 'LT265/70R17' },
+            });
+            expect(resolved.depth32nds).toBe(11);
+            expect(resolved.depthRange).toEqual({ min: 10.8, max: 11.3 });
+            expect(fuseCalibration(buildTreadEstimate(10, 0.8), measureWithGauge(12)).depthRange32nds.max).toBeGreaterThan(10);
+        });
+    });
+
+    describe('fuseCalibration', () => {
+        it('should pull the estimate towards the measurement and raise confidence', () => {
+            const estimate = buildTreadEstimate(7.5, 0.65);
+            const fused = fuseCalibration(estimate, measureWithGauge(5));
+
+            expect(fused.depth32nds).toBeLessThan(6);
+            expect(fused.depth32nds).toBeGreaterThanOrEqual(5);
+            expect(fused.uncertainty32nds).toBeLessThan(estimate.uncertainty32nds);
+            expect(fused.confidence).toBeGreaterThan(estimate.confidence);
+            expect(fused.bucket).toBe('MODERATE');
+            expect(fused.calibration?.method).toBe('gauge');
+        });
+
+        it('should weigh a doubtful detection less', () => {
+            const estimate = buildTreadEstimate(7.5, 0.65);
+            const sure = fuseCalibration(estimate, { method: 'penny', depth32nds: 5, uncertainty32nds: 0.5, confidence: 1 });
+            const unsure = fuseCalibration(estimate, { method: 'penny', depth32nds: 5, uncertainty32nds: 0.5, confidence: 0.6 });
+            expect(unsure.depth32nds).toBeGreaterThan(sure.depth32nds);
+            expect(unsure.confidence).toBeLessThan(sure.confidence);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { advanceAutoCapture, assessLiveFrame, INITIAL_AUTO_CAPTURE } from '../lib/captureGuidance';
+import { createImageData } from '../lib/imageUtils';
+import type { LiveFrameGuidance } from '../types';
+
+const SIZE = 90;
+
+/**
+ * A frame of vertical tread stripes inside `tread` (x0, x1, y0, y1 as
+ * fractions of the frame), flat gray elsewhere.
+ */
+function frame(
+    { dark = 30, light = 150, background = 90 } = {},
+    tread: [number, number, number, number] = [0, 1, 0, 1]
+): ImageData {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    const [x0, x1, y0, y1] = tread.map(f => f * SIZE);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const inTread = x >= x0 && x < x1 && y >= y0 && y < y1;
+            const v = inTread ? (x % 10 < 4 ? dark : light) : background;
+            data.set([v, v, v, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+function guidance(ready: boolean, overall = 0.8): LiveFrameGuidance {
+    return {
+        quality: { blur: 1, brightness: 1, contrast: 1, overall, acceptable: true },
+        hints: ready ? [] : ['too-blurry'],
+        ready,
+    };
+}
+
+describe('Capture Guidance', () => {
+    describe('assessLiveFrame', () => {
+        it('should pass a sharp, well-lit frame full of tread', () => {
+            const result = assessLiveFrame(frame());
+            expect(result.hints).toEqual([]);
+            expect(result.ready).toBe(true);
+        });
+
+        it('should ask for light in a dark frame', () => {
+            const result = assessLiveFrame(frame({ dark: 5, light: 40 }));
+            expect(result.hints[0]).toBe('too-dark');
+            expect(result.ready).toBe(false);
+        });
+
+        it('should flag glare', () => {
+            expect(assessLiveFrame(frame({ dark: 200, light: 255 })).hints).toContain('too-bright');
+        });
+
+        it('should flag a blurry frame', () => {
+            const result = assessLiveFrame(frame({ dark: 85, light: 95 }));
+            expect(result.hints).toContain('too-blurry');
+            expect(result.ready).toBe(false);
+        });
+
+        it('should ask to move closer when the tread is small', () => {
+            expect(assessLiveFrame(frame({}, [0.34, 0.66, 0.34, 0.66])).hints).toContain('move-closer');
+        });
+
+        it('should notice tread off to one side', () => {
+            const result = assessLiveFrame(frame({}, [0, 0.33, 0, 1]));
+            expect(result.hints).toContain('not-centered');
+            expect(result.hints).not.toContain('move-closer');
+        });
+    });
+
+    describe('advanceAutoCapture', () => {
+        it('should capture once frames pass for the stable period', () => {
+            let step = advanceAutoCapture(INITIAL_AUTO_CAPTURE, guidance(true, 0.7), 0, 1000);
+            expect(step.isBest).toBe(true);
+            expect(step.capture).toBe(false);
+
+            step = advanceAutoCapture(step.state, guidance(true, 0.6), 500, 1000);
+            expect(step.isBest).toBe(false);
+            expect(step.progress).toBeCloseTo(0.5);
+
+            step = advanceAutoCapture(step.state, guidance(true, 0.9), 1000, 1000);
+            expect(step.isBest).toBe(true);
+            expect(step.capture).toBe(true);
+        });
+
+        it('should start over after a failing frame', () => {
+            let step = advanceAutoCapture(INITIAL_AUTO_CAPTURE, guidance(true), 0, 1000);
+            step = advanceAutoCapture(step.state, guidance(false), 600, 1000);
+            expect(step.state).toEqual(INITIAL_AUTO_CAPTURE);
+            step = advanceAutoCapture(step.state, guidance(true), 1100, 1000);
+            expect(step.capture).toBe(false);
+            expect(step.progress).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { lookupClimate, resolveClimate, climateWearModifier, climateLabel } from '../lib/climate';
+import { predictWearTimeline } from '../lib/wearModel';
+import { CLIMATE_WEAR } from '../lib/constants';
+import type { WearPredictionInput } from '../types';
+
+describe('Climate', () => {
+    describe('lookupClimate', () => {
+        it('should tell Seattle from Phoenix by ZIP3', () => {
+            const seattle = lookupClimate('98101')!;
+            const phoenix = lookupClimate('85001')!;
+            expect(seattle.region).toBe('Seattle, WA');
+            expect(seattle.country).toBe('US');
+            expect(seattle.climate).toBe('moderate');
+            expect(phoenix.region).toBe('Phoenix, AZ');
+            expect(phoenix.climate).toBe('hot');
+            expect(phoenix.normals.precipDays).toBeLessThan(seattle.normals.precipDays);
+        });
+
+        it('should accept ZIP+4 and a bare ZIP3', () => {
+            expect(lookupClimate('98101-1234')?.region).toBe('Seattle, WA');
+            expect(lookupClimate('981')?.region).toBe('Seattle, WA');
+        });
+
+        it('should look up Canadian postal codes by the longest FSA prefix', () => {
+            expect(lookupClimate('M5V 3L9')?.region).toBe('Toronto, ON');
+            expect(lookupClimate('v6b1a1')?.region).toBe('Vancouver, BC');
+            expect(lookupClimate('V1Y 1A1')?.region).toBe('Kelowna, BC');
+            expect(lookupClimate('R3C 4T3')?.climate).toBe('cold');
+            expect(lookupClimate('M5V 3L9')?.country).toBe('CA');
+        });
+
+        it('should look up UK postcodes by area', () => {
+            const london = lookupClimate('SW1A 1AA')!;
+            expect(london.country).toBe('UK');
+            expect(london.region).toBe('London');
+            expect(lookupClimate('E1 6AN')?.region).toBe('London');
+        });
+
+        it('should return null for codes it does not know', () => {
+            expect(lookupClimate(undefined)).toBeNull();
+            expect(lookupClimate('')).toBeNull();
+            expect(lookupClimate('hello')).toBeNull();
+            expect(lookupClimate('D1A 1A1')).toBeNull(); // no Canadian FSA starts with D
+            expect(lookupClimate('ZZ1 1ZZ')).toBeNull();
+        });
+    });
+
+    describe('resolveClimate', () => {
+        it('should fall back to neutral without normals', () => {
+            expect(resolveClimate('hello')).toEqual({ climate: 'neutral' });
+            expect(resolveClimate('85001').climateNormals?.meanTempC).toBeGreaterThan(20);
+        });
+    });
+
+    describe('climateWearModifier', () => {
+        it('should wear faster in hot, dry Phoenix than in mild, wet Seattle', () => {
+            const phoenix = climateWearModifier(lookupClimate('85001')!.normals);
+            const seattle = climateWearModifier(lookupClimate('98101')!.normals);
+            expect(phoenix).toBeGreaterThan(seattle);
+            expect(phoenix).toBeGreaterThan(1.1);
+            expect(seattle).toBeCloseTo(1, 1);
+        });
+
+        it('should add wear for snowy winters and stay within its clamp', () => {
+            const mild = { meanTempC: 10, seasonalRangeC: 20, precipDays: 110, snowDays: 0 };
+            const snowy = { ...mild, snowDays: 60 };
+            expect(climateWearModifier(snowy)).toBeGreaterThan(climateWearModifier(mild));
+            expect(climateWearModifier({ ...mild, meanTempC: 60 })).toBe(CLIMATE_WEAR.max);
+            expect(climateWearModifier({ ...mild, precipDays: 2000 })).toBe(CLIMATE_WEAR.min);
+        });
+    });
+
+    describe('climateLabel', () => {
+        it('should call a snowy but mild-on-average place cold', () => {
+            expect(climateLabel({ meanTempC: 10, seasonalRangeC: 28, precipDays: 120, snowDays: 20 })).toBe('cold');
+            expect(climateLabel({ meanTempC: 10, seasonalRangeC: 28, precipDays: 120, snowDays: 5 })).toBe('moderate');
+        });
+    });
+
+    describe('wear model', () => {
+        const base: WearPredictionInput = {
+            depthRange: { min: 6, max: 8 },
+            currentDepth32nds: 7,
+            milesPerYear: 12000,
+            climate: 'neutral',
+            rotation: 'normal',
+            drivingStyle: 'normal',
+        };
+
+        it('should use the normals instead of the climate bucket', () => {
+            const phoenix = predictWearTimeline({ ...base, ...resolveClimate('85001') });
+            const seattle = predictWearTimeline({ ...base, ...resolveClimate('98101') });
+            expect(phoenix.wearRatePer1000Miles).toBeGreaterThan(seattle.wearRatePer1000Miles);
+            expect(phoenix.remainingMonths).toBeLessThan(seattle.remainingMonths);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+import { parseDotCode, tireAgeFromDotCode, recognizeDotCode } from '../lib/dotCode';
+import { createImageData } from '../lib/imageUtils';
+
+const NOW = new Date(Date.UTC(2026, 5, 15));
+
+// Same 5×7 font the recognizer matches against, plus a blocky stand-in for letters
+const FONT: Record<string, string[]> = {
+    '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+    '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+    '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+    '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+    'X': ['10001', '11011', '01110', '00100', '01110', '11011', '10001'],
+};
+
+/**
+ * Render light embossed text on dark rubber, with a little noise.
+ */
+function sidewallImage(text: string, scale = 4): ImageData {
+    const width = (text.length * 7 + 8) * scale;
+    const height = 24 * scale;
+    const data = new Uint8ClampedArray(width * height * 4);
+    let seed = 7;
+    const noise = () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed / 2147483647 - 0.5) * 20;
+    };
+
+    for (let p = 0; p < width * height; p++) {
+        const v = 40 + noise();
+        data.set([v, v, v, 255], p * 4);
+    }
+
+    [...text].forEach((char, i) => {
+        const rows = FONT[char];
+        if (!rows) return;
+        rows.forEach((row, gy) => [...row].forEach((bit, gx) => {
+            if (bit !== '1') return;
+            for (let dy = 0; dy < scale; dy++) {
+                for (let dx = 0; dx < scale; dx++) {
+                    const x = (4 + i * 7 + gx) * scale + dx;
+                    const y = (8 + gy) * scale + dy;
+                    const v = 170 + noise();
+                    data.set([v, v, v, 255], (y * width + x) * 4);
+                }
+            }
+        }));
+    });
+
+    return createImageData(data, width, height);
+}
+
+describe('DOT Date Code', () => {
+    describe('parseDotCode', () => {
+        it('should take the trailing week/year group', () => {
+            expect(parseDotCode('DOT U2LL LMLR 4419', NOW)).toEqual({ code: '4419', week: 44, year: 2019 });
+        });
+
+        it('should accept a bare four-digit code', () => {
+            expect(parseDotCode('0321', NOW)).toEqual({ code: '0321', week: 3, year: 2021 });
+        });
+
+        it('should reject impossible weeks and future dates', () => {
+            expect(parseDotCode('5519', NOW)).toBeNull();
+            expect(parseDotCode('0000', NOW)).toBeNull();
+            expect(parseDotCode('4028', NOW)).toBeNull();
+            expect(parseDotCode('DOT XXXX', NOW)).toBeNull();
+        });
+
+        it('should skip an invalid trailing group for an earlier valid one', () => {
+            expect(parseDotCode('1218 9999', NOW)?.code).toBe('1218');
+        });
+    });
+
+    describe('tireAgeFromDotCode', () => {
+        it('should compute age in whole months', () => {
+            const age = tireAgeFromDotCode({ code: '0124', week: 1, year: 2024 }, 'manual', NOW);
+            expect(age.ageMonths).toBe(29);
+            expect(age.overAgeLimit).toBe(false);
+            expect(age.source).toBe('manual');
+        });
+
+        it('should flag tires over six years old', () => {
+            const age = tireAgeFromDotCode({ code: '1019', week: 10, year: 2019 }, 'ocr', NOW);
+            expect(age.ageMonths).toBeGreaterThanOrEqual(72);
+            expect(age.overAgeLimit).toBe(true);
+        });
+    });
+
+    describe('recognizeDotCode', () => {
+        it('should read the date code from rendered sidewall text', () => {
+            const result = recognizeDotCode(sidewallImage('XX 4419'), NOW);
+            expect(result?.code).toBe('4419');
+            expect(result?.week).toBe(44);
+            expect(result?.year).toBe(2019);
+            expect(result?.confidence).toBeGreaterThan(0.75);
+        });
+
+        it('should tell a narrow 1 from other digits', () => {
+            expect(recognizeDotCode(sidewallImage('1221'), NOW)?.code).toBe('1221');
+        });
+
+        it('should return null when there is no code to read', () => {
+            expect(recognizeDotCode(sidewallImage('XXXX'), NOW)).toBeNull();
+            expect(recognizeDotCode(sidewallImage(''), NOW)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import {
+    DEFAULT_ESTIMATOR,
+    getTreadEstimator,
+    hasTreadEstimator,
+    listTreadEstimators,
+    registerTreadEstimator,
+    resolveEstimatorName,
+} from '../lib/estimatorRegistry';
+import type { TreadEstimator } from '../types';
+
+function makeImageData(width: number, height: number, fill: (x: number, y: number) => number): ImageData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const lum = fill(x, y);
+            const idx = (y * width + x) * 4;
+            data[idx] = data[idx + 1] = data[idx + 2] = lum;
+            data[idx + 3] = 255;
+        }
+    }
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+const stubEstimator: TreadEstimator = {
+    name: 'stub',
+    label: 'Stub',
+    async estimate() {
+        return {
+            estimate: { bucket: 'LOW', depth32nds: 3, uncertainty32nds: 1, depthRange32nds: { min: 2, max: 4 }, confidence: 0.6 },
+            diagnostics: {},
+        };
+    },
+};
+
+describe('Estimator Registry', () => {
+    beforeAll(() => {
+        registerTreadEstimator(stubEstimator);
+    });
+
+    it('should register the heuristic as the default backend', () => {
+        expect(DEFAULT_ESTIMATOR).toBe('heuristic');
+        expect(getTreadEstimator().name).toBe('heuristic');
+        expect(listTreadEstimators().map(e => e.name)).toEqual(expect.arrayContaining(['heuristic', 'stub']));
+    });
+
+    it('should reject duplicate names', () => {
+        expect(() => registerTreadEstimator(stubEstimator)).toThrow();
+    });
+
+    it('should throw for unknown estimators', () => {
+        expect(hasTreadEstimator('nope')).toBe(false);
+        expect(() => getTreadEstimator('nope')).toThrow('Unknown tread estimator');
+    });
+
+    describe('resolveEstimatorName', () => {
+        const original = process.env.NEXT_PUBLIC_TREAD_ESTIMATOR;
+        afterEach(() => {
+            process.env.NEXT_PUBLIC_TREAD_ESTIMATOR = original;
+        });
+
+        it('should prefer an explicit request', () => {
+            process.env.NEXT_PUBLIC_TREAD_ESTIMATOR = 'heuristic';
+            expect(resolveEstimatorName('stub')).toBe('stub');
+        });
+
+        it('should fall back to configuration, then the default', () => {
+            process.env.NEXT_PUBLIC_TREAD_ESTIMATOR = 'stub';
+            expect(resolveEstimatorName('nope')).toBe('stub');
+            delete process.env.NEXT_PUBLIC_TREAD_ESTIMATOR;
+            expect(resolveEstimatorName(null)).toBe(DEFAULT_ESTIMATOR);
+        });
+    });
+
+    describe('heuristic backend', () => {
+        it('should return an estimate with diagnostics', async () => {
+            // Vertical grooves: dark 4px stripes every 12px
+            const imageData = makeImageData(96, 96, (x) => (x % 12 < 4 ? 30 : 160));
+            const result = await getTreadEstimator('heuristic').estimate({ imageData });
+
+            expect(result.estimate.confidence).toBeGreaterThanOrEqual(0.55);
+            expect(result.estimate.confidence).toBeLessThanOrEqual(0.9);
+            expect(result.diagnostics).toEqual(expect.objectContaining({
+                edgeDensity: expect.any(Number),
+                textureVariance: expect.any(Number),
+                contrastRatio: expect.any(Number),
+                treadSignal: expect.any(Number),
+            }));
+        });
+
+        it('should read a flat image as critically worn', async () => {
+            const imageData = makeImageData(64, 64, () => 120);
+            const result = await getTreadEstimator('heuristic').estimate({ imageData });
+            expect(result.estimate.bucket).toBe('CRITICAL');
+        });
+    });
+});
@@ -0,0 +1,88 @@
+import { buildFleetOverview, fleetTireStatus, forecastReplacements } from '../lib/fleet';
+import type { FleetVehicle, ScanRecord, TirePosition } from '../types';
+
+const NOW = new Date();
+
+function scan(vehicleId: string, position: TirePosition, depth32nds: number, odometerMiles = 30000, daysAgo = 0): ScanRecord {
+    return {
+        id: `${vehicleId}-${position}-${odometerMiles}`,
+        vehicleId,
+        position,
+        scannedAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+        odometerMiles,
+        depth32nds,
+        bucket: 'MODERATE',
+    };
+}
+
+const van: FleetVehicle = { id: 'Van 1', name: 'Van 1', milesPerYear: 24000, tireSize: 'LT245/75R16', tirePriceUsd: 250 };
+const sedan: FleetVehicle = { id: 'Sedan', name: 'Sedan', milesPerYear: 12000, tireSize: '225/45R17' };
+
+describe('Fleet', () => {
+    describe('fleetTireStatus', () => {
+        it('should wear an old scan forward to today', () => {
+            const fresh = fleetTireStatus([scan('Sedan', 'FL', 6)], sedan, NOW);
+            const stale = fleetTireStatus([scan('Sedan', 'FL', 6, 30000, 365)], sedan, NOW);
+            expect(fresh.wearPrediction.currentDepth32nds).toBeCloseTo(6, 5);
+            expect(stale.wearPrediction.currentDepth32nds).toBeLessThan(6);
+            expect(stale.healthScore.score).toBeLessThanOrEqual(fresh.healthScore.score);
+        });
+
+        it('should use the fitted wear rate once there is enough history', () => {
+            const status = fleetTireStatus([
+                scan('Sedan', 'FL', 8, 20000),
+                scan('Sedan', 'FL', 6, 30000),
+            ], sedan, NOW);
+            expect(status.wearPrediction.wearRateSource).toBe('fitted');
+            expect(status.lastScan.depth32nds).toBe(6);
+        });
+    });
+
+    describe('buildFleetOverview', () => {
+        it('should sort vehicles by soonest legal minimum and include scan-only vehicles', () => {
+            const fleet = buildFleetOverview([sedan], [
+                scan('Sedan', 'FL', 8),
+                scan('Van 1', 'RL', 3),
+                scan('Van 1', 'FL', 7),
+            ], NOW);
+
+            expect(fleet.map(s => s.vehicle.id)).toEqual(['Van 1', 'Sedan']);
+            expect(fleet[0].vehicle.milesPerYear).toBe(12000); // defaults for an unregistered vehicle
+            expect(fleet[0].tires.map(t => t.position)).toEqual(['RL', 'FL']);
+        });
+
+        it('should put registered vehicles with no scans last', () => {
+            const fleet = buildFleetOverview([van, sedan], [scan('Sedan', 'FL', 8)], NOW);
+            expect(fleet.map(s => s.vehicle.id)).toEqual(['Sedan', 'Van 1']);
+            expect(fleet[1].soonestLegalMinimumDate).toBeNull();
+        });
+    });
+
+    describe('forecastReplacements', () => {
+        it('should count overdue tires in the first month with sizes and spend', () => {
+            const fleet = buildFleetOverview([van, sedan], [
+                scan('Van 1', 'FL', 1.5),
+                scan('Van 1', 'FR', 1.8),
+                scan('Sedan', 'RL', 2),
+            ], NOW);
+            const forecast = forecastReplacements(fleet, 12, NOW);
+
+            expect(forecast.months).toHaveLength(12);
+            const [first] = forecast.months;
+            expect(first.tireCount).toBe(3);
+            expect(first.sizes).toEqual({ 'LT245/75R16': 2, '225/45R17': 1 });
+            expect(first.estimatedSpendUsd).toBe(250 * 2 + 180);
+            expect(forecast.totalTires).toBe(3);
+        });
+
+        it('should leave out spares and tires due beyond the horizon', () => {
+            const fleet = buildFleetOverview([sedan], [
+                scan('Sedan', 'SPARE', 1),
+                scan('Sedan', 'FL', 10),
+            ], NOW);
+            const forecast = forecastReplacements(fleet, 6, NOW);
+            expect(forecast.totalTires).toBe(0);
+            expect(forecast.totalSpendUsd).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { fuseFrameEstimates, type FrameEstimate } from '../lib/frameFusion';
+import { analyzeTreadFrames } from '../lib/imageAnalysis';
+import { createImageData } from '../lib/imageUtils';
+import { heuristicEstimator } from '../lib/treadEstimator';
+
+const SIZE = 80;
+
+function frame(depth32nds: number, { uncertainty32nds = 1, confidence = 0.7, quality = 0.8 } = {}): FrameEstimate {
+    return {
+        estimate: {
+            bucket: 'MODERATE',
+            depth32nds,
+            uncertainty32nds,
+            depthRange32nds: { min: depth32nds - uncertainty32nds, max: depth32nds + uncertainty32nds },
+            confidence,
+        },
+        imageQuality: { blur: quality, brightness: quality, contrast: quality, overall: quality, acceptable: true },
+    };
+}
+
+/**
+ * Tread stripes, or a flat gray frame when `flat` is set.
+ */
+function pixels({ flat = false } = {}): ImageData {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const v = flat ? 128 : x % 10 < 4 ? 30 : 150;
+            data.set([v, v, v, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+describe('Frame Fusion', () => {
+    describe('fuseFrameEstimates', () => {
+        it('should pass a single frame through unchanged', () => {
+            const only = frame(6);
+            const fused = fuseFrameEstimates([only]);
+            expect(fused.estimate).toBe(only.estimate);
+            expect(fused.weights).toEqual([1]);
+            expect(fused.agreement).toBe(1);
+        });
+
+        it('should narrow the uncertainty and raise confidence when frames agree', () => {
+            const fused = fuseFrameEstimates([frame(6), frame(6.2), frame(5.9)]);
+            expect(fused.estimate.depth32nds).toBeCloseTo(6, 0);
+            expect(fused.estimate.uncertainty32nds).toBeLessThan(1);
+            expect(fused.estimate.confidence).toBeGreaterThan(0.7);
+            expect(fused.agreement).toBeGreaterThan(0.8);
+        });
+
+        it('should lower confidence and widen to the spread when frames disagree', () => {
+            const fused = fuseFrameEstimates([frame(4), frame(8)]);
+            expect(fused.estimate.confidence).toBeLessThan(0.7);
+            expect(fused.estimate.uncertainty32nds).toBeGreaterThanOrEqual(fused.spread32nds);
+            expect(fused.agreement).toBe(0);
+        });
+
+        it('should weight sharper frames more', () => {
+            const fused = fuseFrameEstimates([frame(5, { quality: 0.9 }), frame(7, { quality: 0.3 })]);
+            expect(fused.weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+            expect(fused.weights[0]).toBeGreaterThan(fused.weights[1]);
+            expect(fused.estimate.depth32nds).toBeLessThan(6);
+        });
+
+        it('should require a frame', () => {
+            expect(() => fuseFrameEstimates([])).toThrow();
+        });
+    });
+
+    describe('analyzeTreadFrames', () => {
+        it('should reject frames that fail the quality check', async () => {
+            const analysis = await analyzeTreadFrames(
+                [pixels({ flat: true }), pixels(), pixels()],
+                { estimator: heuristicEstimator }
+            );
+            const frames = analysis.frameFusion!.frames;
+            expect(frames.map(f => f.used)).toEqual([false, true, true]);
+            expect(frames[0].depth32nds).toBeUndefined();
+            expect(analysis.diagnostics.framesUsed).toBe(2);
+            expect(analysis.frameFusion!.agreement).toBe(1);
+        });
+
+        it('should skip fusion for a single frame', async () => {
+            const analysis = await analyzeTreadFrames([pixels()], { estimator: heuristicEstimator });
+            expect(analysis.frameFusion).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { analyzeGrooveProfile, grooveProfileEstimator } from '../lib/grooveProfile';
+import { getTreadEstimator } from '../lib/estimatorRegistry';
+import { detectWearBars } from '../lib/wearBars';
+import { fromTreadCoordinates } from '../lib/treadRegion';
+import { analyzeTreadImage } from '../lib/imageAnalysis';
+import { createImageData } from '../lib/imageUtils';
+import { DEFAULT_TREAD_REGION } from '../lib/constants';
+
+const SIZE = 160;
+
+interface Bar {
+    groove: number;
+    from: number;   // rows
+    to: number;
+    lum: number;
+}
+
+/**
+ * An upright tread: light ribs with four 12 px circumferential grooves, and
+ * optional wear bars filling a stretch of a groove.
+ */
+function tread({ rib = 160, groove = 60, bars = [] as Bar[] } = {}): ImageData {
+    const grooveStarts = [20, 58, 96, 134];
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const g = grooveStarts.findIndex(start => x >= start && x < start + 12);
+            let v = g < 0 ? rib : groove;
+            for (const bar of bars) {
+                if (bar.groove === g && y >= bar.from && y < bar.to) v = bar.lum;
+            }
+            data.set([v, v, v, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+describe('Groove Profile', () => {
+    describe('analyzeGrooveProfile', () => {
+        it('should find each circumferential groove', () => {
+            const { grooves, wearBars, ribLevel } = analyzeGrooveProfile(tread());
+            expect(grooves).toHaveLength(4);
+            expect(ribLevel).toBe(160);
+            expect(grooves[0].center).toBeCloseTo(26 / SIZE, 1);
+            for (const groove of grooves) {
+                expect(groove.width).toBeGreaterThan(0.06);
+                expect(groove.width).toBeLessThan(0.1);
+                expect(groove.darkness).toBeGreaterThan(0.5);
+                expect(groove.continuity).toBe(1);
+                expect(groove.darknessAlong).toHaveLength(24);
+            }
+            expect(wearBars).toEqual([]);
+        });
+
+        it('should report nothing on a smooth surface', () => {
+            expect(analyzeGrooveProfile(tread({ groove: 160 })).grooves).toEqual([]);
+        });
+
+        it('should mark a wear bar flush with the tread', () => {
+            const profile = analyzeGrooveProfile(tread({ bars: [{ groove: 1, from: 70, to: 84, lum: 160 }] }));
+            expect(profile.wearBars).toHaveLength(1);
+            expect(profile.wearBars[0]).toMatchObject({ groove: 1, flush: true });
+            expect(profile.wearBars[0].position).toBeCloseTo(77 / SIZE, 1);
+            // One bar on its own is not a row of indicators
+            expect(detectWearBars(profile).flush).toBe(false);
+        });
+
+        it('should tell a bar still below the tread from a flush one', () => {
+            const profile = analyzeGrooveProfile(tread({ bars: [{ groove: 2, from: 110, to: 124, lum: 130 }] }));
+            expect(profile.wearBars).toHaveLength(1);
+            expect(profile.wearBars[0].flush).toBe(false);
+        });
+    });
+
+    describe('grooveProfileEstimator', () => {
+        it('should be registered', () => {
+            expect(getTreadEstimator('groove-profile')).toBe(grooveProfileEstimator);
+        });
+
+        it('should read darker grooves as deeper', async () => {
+            const deep = await grooveProfileEstimator.estimate({ imageData: tread({ groove: 40 }) });
+            const shallow = await grooveProfileEstimator.estimate({ imageData: tread({ groove: 125 }) });
+            expect(deep.estimate.depth32nds).toBeGreaterThan(shallow.estimate.depth32nds);
+            expect(deep.diagnostics.grooveCount).toBe(4);
+        });
+
+        it('should cap the depth when wear bars are flush', async () => {
+            const result = await grooveProfileEstimator.estimate({
+                imageData: tread({
+                    bars: [0, 1, 2, 3].map(groove => ({ groove, from: 40, to: 50, lum: 160 })),
+                }),
+            });
+            expect(result.estimate.depth32nds).toBeLessThanOrEqual(2);
+            expect(result.diagnostics.wearBarsFlush).toBe(1);
+        });
+
+        it('should fall back on texture without grooves', async () => {
+            const result = await grooveProfileEstimator.estimate({ imageData: tread({ groove: 160 }) });
+            expect(result.diagnostics.grooveCount).toBe(0);
+            expect(result.estimate.confidence).toBeGreaterThanOrEqual(0.55);
+        });
+    });
+
+    describe('overlay coordinates', () => {
+        it('should map upright-crop points back onto the photo', () => {
+            const region = { ...DEFAULT_TREAD_REGION, x: 0.2, y: 0.1, width: 0.6, height: 0.8 };
+            expect(fromTreadCoordinates(region, 0.5, 0)).toEqual({ x: 0.5, y: 0.1 });
+
+            const sideways = { ...region, orientation: 'horizontal' as const };
+            // Across the crop runs bottom-to-top in the photo, along it left-to-right
+            const point = fromTreadCoordinates(sideways, 0, 0.5);
+            expect(point.x).toBeCloseTo(0.5, 10);
+            expect(point.y).toBeCloseTo(0.9, 10);
+        });
+
+        it('should come with every image analysis', async () => {
+            const analysis = await analyzeTreadImage(tread(), { estimator: grooveProfileEstimator });
+            expect(analysis.grooveProfile.grooves.length).toBeGreaterThan(0);
+            expect(analysis.estimator).toBe('groove-profile');
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import sharp from 'sharp';
+import { decodeImage, decodeBase64Image } from '../lib/imageDecode';
+import { analyzeTreadImage } from '../lib/imageAnalysis';
+import { heuristicEstimator } from '../lib/treadEstimator';
+
+/**
+ * Raw RGBA tread stripes, the pixels a canvas would hand the estimator.
+ */
+function stripePixels(width: number, height: number): Buffer {
+    const data = Buffer.alloc(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const v = x % 10 < 4 ? 30 : 150;
+            data.set([v, v, v, 255], (y * width + x) * 4);
+        }
+    }
+    return data;
+}
+
+function encodePng(width: number, height: number): Promise<Buffer> {
+    return sharp(stripePixels(width, height), { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+describe('Server-side Image Analysis', () => {
+    describe('decodeImage', () => {
+        it('should decode a PNG to RGBA pixels', async () => {
+            const imageData = await decodeImage(await encodePng(80, 60));
+            expect(imageData.width).toBe(80);
+            expect(imageData.height).toBe(60);
+            expect(imageData.data.length).toBe(80 * 60 * 4);
+            expect(Array.from(imageData.data.slice(0, 4))).toEqual([30, 30, 30, 255]);
+        });
+
+        it('should decode a JPEG', async () => {
+            const jpeg = await sharp(stripePixels(64, 64), { raw: { width: 64, height: 64, channels: 4 } }).jpeg().toBuffer();
+            const imageData = await decodeImage(jpeg);
+            expect(imageData.width).toBe(64);
+            expect(imageData.data.length).toBe(64 * 64 * 4);
+        });
+
+        it('should cap each side like the scan page canvas', async () => {
+            const imageData = await decodeImage(await encodePng(1000, 300));
+            expect(imageData.width).toBe(640);
+            expect(imageData.height).toBe(300);
+        });
+
+        it('should reject data that is not an image', async () => {
+            await expect(decodeImage(Buffer.from('not an image'))).rejects.toThrow();
+            await expect(decodeImage(Buffer.alloc(0))).rejects.toThrow('Image is empty');
+        });
+
+        it('should reject an image too thin to hold any tread', async () => {
+            await expect(decodeImage(await encodePng(2000, 3))).rejects.toThrow('smaller than 16×16');
+        });
+    });
+
+    describe('decodeBase64Image', () => {
+        it('should accept plain base64 and data URLs', async () => {
+            const base64 = (await encodePng(40, 40)).toString('base64');
+            expect((await decodeBase64Image(base64)).width).toBe(40);
+            expect((await decodeBase64Image(`data:image/png;base64,${base64}`)).width).toBe(40);
+        });
+
+        it('should reject invalid base64', async () => {
+            await expect(decodeBase64Image('***')).rejects.toThrow('not valid base64');
+        });
+    });
+
+    describe('analyzeTreadImage', () => {
+        it('should give the same estimate as running the estimator on the canvas pixels', async () => {
+            const decoded = await decodeImage(await encodePng(120, 120));
+            const direct = await heuristicEstimator.estimate({ imageData: decoded });
+            const analysis = await analyzeTreadImage(decoded, { estimator: heuristicEstimator });
+
+            expect(analysis.treadEstimate).toEqual(direct.estimate);
+            expect(analysis.estimator).toBe('heuristic');
+            expect(analysis.wearPattern.pattern).toBe('even');
+            expect(analysis.calibrationFailed).toBe(false);
+        });
+
+        it('should fuse a gauge reading', async () => {
+            const decoded = await decodeImage(await encodePng(120, 120));
+            const plain = await analyzeTreadImage(decoded, { estimator: heuristicEstimator });
+            const analysis = await analyzeTreadImage(decoded, {
+                estimator: heuristicEstimator,
+                calibration: 'gauge',
+                gaugeReading32nds: 5,
+            });
+            expect(analysis.treadEstimate.calibration?.method).toBe('gauge');
+            expect(Math.abs(analysis.treadEstimate.depth32nds - 5)).toBeLessThan(Math.abs(plain.treadEstimate.depth32nds - 5));
+            expect(analysis.treadEstimate.uncertainty32nds).toBeLessThan(plain.treadEstimate.uncertainty32nds);
+        });
+
+        it('should flag a requested coin that is not in the photo', async () => {
+            const decoded = await decodeImage(await encodePng(120, 120));
+            const analysis = await analyzeTreadImage(decoded, { estimator: heuristicEstimator, calibration: 'penny' });
+            expect(analysis.calibrationFailed).toBe(true);
+            expect(analysis.treadEstimate.calibration).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import {
+    formatThreshold,
+    getJurisdictionRules,
+    isWinterRulePeriod,
+    resolveJurisdiction,
+    weatherThresholds,
+} from '../lib/jurisdiction';
+import { calculateWeatherRisk } from '../lib/weatherRisk';
+import { predictWearTimeline } from '../lib/wearModel';
+import type { JurisdictionCode, WearPrediction } from '../types';
+
+function predictionAt(depth32nds: number, jurisdiction?: JurisdictionCode): WearPrediction {
+    return predictWearTimeline({
+        depthRange: { min: depth32nds - 1, max: depth32nds + 1 },
+        currentDepth32nds: depth32nds,
+        milesPerYear: 12000,
+        rotation: 'normal',
+        drivingStyle: 'normal',
+        climate: 'neutral',
+        jurisdiction,
+    });
+}
+
+describe('Jurisdiction', () => {
+    describe('resolveJurisdiction', () => {
+        it('should infer the region from the postal code', () => {
+            expect(resolveJurisdiction(undefined, '85001')).toBe('US');
+            expect(resolveJurisdiction(undefined, 'M5V 3L9')).toBe('CA');
+            expect(resolveJurisdiction(undefined, 'H2X 1Y4')).toBe('CA-QC');
+            expect(resolveJurisdiction(undefined, 'V6B 1A1')).toBe('CA-BC');
+            expect(resolveJurisdiction(undefined, 'SW1A 1AA')).toBe('UK');
+        });
+
+        it('should prefer an explicit code', () => {
+            expect(resolveJurisdiction('AT', '85001')).toBe('AT');
+        });
+
+        it('should fall back to the US rules', () => {
+            expect(resolveJurisdiction()).toBe('US');
+            expect(resolveJurisdiction('XX', 'nowhere')).toBe('US');
+        });
+    });
+
+    describe('weatherThresholds', () => {
+        it('should keep the familiar US depths', () => {
+            expect(weatherThresholds(getJurisdictionRules('US'))).toEqual({
+                dry: { warning: 4, critical: 2 },
+                wet: { warning: 5, critical: 3 },
+                snow: { warning: 6, critical: 4 },
+            });
+        });
+
+        it('should not let snow go below a winter-tire minimum', () => {
+            const { snow } = weatherThresholds(getJurisdictionRules('AT'));
+            expect(snow.critical).toBeCloseTo(5.04, 2); // 4 mm
+            expect(snow.warning).toBeGreaterThan(snow.critical);
+        });
+    });
+
+    describe('isWinterRulePeriod', () => {
+        it('should handle periods that wrap the new year', () => {
+            const quebec = getJurisdictionRules('CA-QC');
+            expect(isWinterRulePeriod(quebec, new Date(2026, 11, 1))).toBe(true);
+            expect(isWinterRulePeriod(quebec, new Date(2027, 2, 15))).toBe(true);
+            expect(isWinterRulePeriod(quebec, new Date(2027, 2, 16))).toBe(false);
+            expect(isWinterRulePeriod(quebec, new Date(2026, 6, 1))).toBe(false);
+        });
+
+        it('should be false where there is no winter rule', () => {
+            expect(isWinterRulePeriod(getJurisdictionRules('US'), new Date(2026, 0, 15))).toBe(false);
+        });
+    });
+
+    describe('formatThreshold', () => {
+        it('should use the region\'s unit', () => {
+            expect(formatThreshold(2, getJurisdictionRules('US'))).toBe('2/32"');
+            expect(formatThreshold(getJurisdictionRules('UK').legalMinimum32nds, getJurisdictionRules('UK'))).toBe('1.6 mm');
+        });
+    });
+
+    describe('predictWearTimeline', () => {
+        it('should reach a stricter legal minimum sooner', () => {
+            const us = predictionAt(6, 'US');
+            const uk = predictionAt(6, 'UK');
+            expect(uk.jurisdiction).toBe('UK');
+            expect(uk.legalMinimumDate.getTime()).toBeLessThanOrEqual(us.legalMinimumDate.getTime());
+            expect(us.winterMinimumDate).toBeUndefined();
+        });
+
+        it('should date the winter-tire minimum before the legal minimum', () => {
+            const austria = predictionAt(8, 'AT');
+            expect(austria.winterMinimumDate).toBeDefined();
+            expect(austria.winterMinimumDate!.getTime()).toBeLessThan(austria.legalMinimumDate.getTime());
+        });
+    });
+
+    describe('calculateWeatherRisk', () => {
+        it('should flag tread below the winter minimum in snow', () => {
+            const result = calculateWeatherRisk(4.5, 'Safe', 'snow', 'AT');
+            expect(result.adjustedRiskLevel).toBe('Replace Now');
+            expect(result.description).toContain('4 mm winter-tire minimum in Austria');
+            expect(calculateWeatherRisk(4.5, 'Safe', 'snow', 'US').adjustedRiskLevel).not.toBe('Replace Now');
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import { planRotations, rotationTireFromPrediction, simulateRotation, type RotationTire } from '../lib/rotationPlanner';
+import { buildWearCurve, predictWearTimeline } from '../lib/wearModel';
+import { LEGAL_MINIMUM_DEPTH } from '../lib/constants';
+import type { RoadPosition } from '../types';
+
+const NOW = new Date(Date.UTC(2026, 5, 15));
+
+function tiresAt(depths: Record<RoadPosition, number>): Record<RoadPosition, RotationTire> {
+    const entries = Object.entries(depths).map(([position, depth32nds]) => [
+        position,
+        { depth32nds, wearCurve: buildWearCurve(depth32nds) },
+    ]);
+    return Object.fromEntries(entries) as Record<RoadPosition, RotationTire>;
+}
+
+const EVEN = tiresAt({ FL: 8, FR: 8, RL: 8, RR: 8 });
+const WORN_FRONTS = tiresAt({ FL: 5, FR: 5, RL: 8, RR: 8 });
+
+describe('Rotation Planner', () => {
+    describe('simulateRotation', () => {
+        it('should wear the curb-side driven front out first without rotations', () => {
+            const simulation = simulateRotation(EVEN, null, { milesPerYear: 12000, drivetrain: 'FWD' }, NOW);
+            expect(simulation.firstWornTire).toBe('FR');
+            expect(simulation.rotations).toHaveLength(0);
+            expect(simulation.finalDepths.FR).toBeCloseTo(LEGAL_MINIMUM_DEPTH, 1);
+            expect(simulation.finalDepths.RL).toBeGreaterThan(4);
+        });
+
+        it('should put the curb on the left where traffic drives on the left', () => {
+            const simulation = simulateRotation(EVEN, null, { milesPerYear: 12000, drivetrain: 'FWD', jurisdiction: 'UK' }, NOW);
+            expect(simulation.firstWornTire).toBe('FL');
+        });
+
+        it('should rotate at every interval until the first tire is worn out', () => {
+            const simulation = simulateRotation(EVEN, 'forward-cross', { milesPerYear: 12000, drivetrain: 'FWD', intervalMiles: 6000 }, NOW);
+            expect(simulation.rotations.length).toBeGreaterThan(3);
+            simulation.rotations.forEach((rotation, i) => {
+                expect(rotation.number).toBe(i + 1);
+                expect(rotation.milesFromNow).toBe(6000 * (i + 1));
+            });
+            // 6,000 miles at 12,000 a year is six months
+            const months = (simulation.rotations[0].date.getTime() - NOW.getTime()) / (30.44 * 24 * 60 * 60 * 1000);
+            expect(months).toBeCloseTo(6, 0);
+            expect(simulation.legalMinimumDate.getTime()).toBeGreaterThan(simulation.rotations.at(-1)!.date.getTime());
+            // Rotating evens the tires out
+            const depths = Object.values(simulation.finalDepths);
+            expect(Math.max(...depths) - Math.min(...depths)).toBeLessThan(1);
+        });
+    });
+
+    describe('planRotations', () => {
+        it('should beat never rotating', () => {
+            const plan = planRotations(WORN_FRONTS, { milesPerYear: 12000, drivetrain: 'FWD' }, NOW);
+            expect(plan.simulations).toHaveLength(4);
+            expect(plan.recommended).toBe(plan.simulations[0]);
+            expect(plan.recommended.milesToLegalMinimum).toBeGreaterThan(plan.noRotation.milesToLegalMinimum);
+            expect(plan.gainMonths).toBeGreaterThan(0);
+            expect(plan.noRotation.firstWornTire).toBe('FR');
+        });
+
+        it('should prefer the usual pattern for the drivetrain when patterns tie', () => {
+            expect(planRotations(EVEN, { milesPerYear: 12000, drivetrain: 'FWD' }, NOW).recommended.pattern).toBe('forward-cross');
+            expect(planRotations(EVEN, { milesPerYear: 12000, drivetrain: 'RWD' }, NOW).recommended.pattern).toBe('rearward-cross');
+        });
+
+        it('should keep same-side swaps behind the cross patterns', () => {
+            const plan = planRotations(EVEN, { milesPerYear: 12000, drivetrain: 'FWD' }, NOW);
+            expect(plan.simulations.at(-1)!.pattern).toBe('front-to-back');
+        });
+
+        it('should stop at once when a tire is already at the limit', () => {
+            const plan = planRotations(tiresAt({ FL: 2, FR: 6, RL: 6, RR: 6 }), { milesPerYear: 12000 }, NOW);
+            expect(plan.recommended.milesToLegalMinimum).toBe(0);
+            expect(plan.recommended.firstWornTire).toBe('FL');
+            expect(plan.drivetrain).toBe('FWD');
+        });
+    });
+
+    describe('rotationTireFromPrediction', () => {
+        it('should take the axle rate back out of an unrotated prediction', () => {
+            const predict = (rotation: 'normal' | 'skip-rotations') => predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                milesPerYear: 12000,
+                climate: 'neutral',
+                rotation,
+                drivingStyle: 'normal',
+                position: 'FL',
+                drivetrain: 'FWD',
+            });
+            const skipped = predict('skip-rotations');
+            expect(skipped.wearCurve.ratePer1000Miles).toBeGreaterThan(predict('normal').wearCurve.ratePer1000Miles);
+
+            const tire = rotationTireFromPrediction(skipped);
+            expect(tire.depth32nds).toBe(7);
+            expect(tire.wearCurve.ratePer1000Miles).toBeCloseTo(predict('normal').wearCurve.ratePer1000Miles, 6);
+        });
+    });
+});
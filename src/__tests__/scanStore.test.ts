@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { deleteVehicle, loadAllScans, loadVehicles, saveScan, saveVehicle } from '../lib/scanStore';
+import type { ScanRecord } from '../types';
+
+const record = (i: number): ScanRecord => ({
+    id: `scan-${i}`,
+    vehicleId: 'car',
+    position: 'FL',
+    scannedAt: new Date(2026, 0, 1 + i).toISOString(),
+    odometerMiles: 1000 * i,
+    depth32nds: 8 - i * 0.1,
+    bucket: 'NEW',
+});
+
+describe('Scan Store', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'treadsight-'));
+        process.env.TREADSIGHT_DATA_DIR = dir;
+    });
+
+    afterEach(async () => {
+        delete process.env.TREADSIGHT_DATA_DIR;
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep every record when saves overlap', async () => {
+        await Promise.all(Array.from({ length: 20 }, (_, i) => saveScan(record(i))));
+        expect((await loadAllScans()).map(r => r.id).sort()).toEqual(
+            Array.from({ length: 20 }, (_, i) => `scan-${i}`).sort()
+        );
+        expect(await fs.readdir(dir)).toEqual(['scans.json']);
+    });
+
+    it('should apply overlapping vehicle updates in order', async () => {
+        await Promise.all([
+            saveVehicle({ id: 'a', name: 'A', milesPerYear: 12000 }),
+            saveVehicle({ id: 'b', name: 'B', milesPerYear: 12000 }),
+            deleteVehicle('a'),
+        ]);
+        expect((await loadVehicles()).map(v => v.id)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,96 @@
+import { monthlyWeather, seasonalExposure } from '../lib/seasonalExposure';
+import { predictWearTimeline } from '../lib/wearModel';
+import { lookupClimate, resolveClimate } from '../lib/climate';
+import type { WearPrediction } from '../types';
+
+const NOW = new Date(2026, 5, 15);
+
+function predictionAt(depth32nds: number, postalCode: string): WearPrediction {
+    return predictWearTimeline({
+        depthRange: { min: depth32nds - 1, max: depth32nds + 1 },
+        currentDepth32nds: depth32nds,
+        milesPerYear: 12000,
+        rotation: 'normal',
+        drivingStyle: 'normal',
+        ...resolveClimate(postalCode),
+    });
+}
+
+describe('Seasonal Exposure', () => {
+    describe('monthlyWeather', () => {
+        it('should put snow in the winter months only', () => {
+            const months = monthlyWeather(lookupClimate('55401')!.normals);
+            expect(months).toHaveLength(12);
+            expect(months[0].snowProbability).toBeGreaterThan(0.3);
+            expect(months[6].snowProbability).toBe(0);
+            expect(months[0].meanTempC).toBeLessThan(months[6].meanTempC);
+        });
+
+        it('should keep the annual snow and rain days', () => {
+            const { normals } = lookupClimate('55401')!;
+            const months = monthlyWeather(normals);
+            const days = (key: 'snowProbability' | 'precipProbability') =>
+                months.reduce((sum, month) => sum + month[key] * 365.25 / 12, 0);
+            expect(days('snowProbability')).toBeCloseTo(normals.snowDays, -1);
+            expect(days('precipProbability')).toBeCloseTo(normals.precipDays, -1);
+        });
+
+        it('should lean rain toward the wet season', () => {
+            const months = monthlyWeather(lookupClimate('98101')!.normals);
+            expect(months[0].precipProbability).toBeGreaterThan(months[6].precipProbability * 1.5);
+        });
+
+        it('should still give mild climates a little snow in their coldest months', () => {
+            const months = monthlyWeather(lookupClimate('SW1A 1AA')!.normals);
+            expect(months[0].snowProbability).toBeGreaterThan(0);
+            expect(months[6].snowProbability).toBe(0);
+        });
+    });
+
+    describe('seasonalExposure', () => {
+        it('should warn about entering a snowy winter on thin tread', () => {
+            const prediction = predictionAt(6, '55401');
+            const exposure = seasonalExposure(prediction, prediction.climateNormals!, NOW);
+            expect(exposure.months).toHaveLength(12);
+            expect(exposure.months[0].depth32nds).toBe(6);
+            expect(exposure.winterEntry?.month).toBe(10); // November
+            expect(exposure.winterEntry!.depth32nds).toBeLessThan(6);
+            expect(exposure.winterEntry!.condition).toBe('snow');
+            expect(exposure.highlights[0]).toMatch(/enter winter \(November\) at \d\.\d\/32" — below the 6\/32" snow warning/);
+        });
+
+        it('should project depth down month by month', () => {
+            const prediction = predictionAt(8, '55401');
+            const { months } = seasonalExposure(prediction, prediction.climateNormals!, NOW);
+            for (let i = 1; i < months.length; i++) {
+                expect(months[i].depth32nds).toBeLessThanOrEqual(months[i - 1].depth32nds);
+                expect(months[i].date.getDate()).toBe(1);
+            }
+        });
+
+        it('should judge summer months dry and winter months in snow', () => {
+            const prediction = predictionAt(5, '55401');
+            const { months } = seasonalExposure(prediction, prediction.climateNormals!, NOW);
+            const july = months.find(month => month.month === 6)!;
+            const january = months.find(month => month.month === 0)!;
+            expect(july.condition).not.toBe('snow');
+            expect(january.condition).toBe('snow');
+            expect(january.riskLevel).toBe('Replace Now');
+        });
+
+        it('should have no winter in Phoenix', () => {
+            const prediction = predictionAt(5, '85001');
+            const exposure = seasonalExposure(prediction, prediction.climateNormals!, NOW);
+            expect(exposure.winterEntry).toBeNull();
+            expect(exposure.months.every(month => month.condition === 'dry')).toBe(true);
+        });
+
+        it('should call out the rainy season on worn tread', () => {
+            const prediction = predictionAt(5, '98101');
+            const exposure = seasonalExposure(prediction, prediction.climateNormals!, NOW);
+            expect(exposure.highlights.some(note => /wet roads/.test(note))).toBe(true);
+            const firstWet = exposure.months.find(month => month.condition === 'wet');
+            expect(firstWet && firstWet.month >= 8).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { estimateStopping, hydroplaningOnsetMph } from '../lib/stoppingDistance';
+
+describe('Stopping Distance', () => {
+    describe('estimateStopping', () => {
+        it('should stop a new tire from 60 mph on dry pavement in about 150 ft', () => {
+            const result = estimateStopping(10, 'dry', 60);
+            expect(result.brakingDistanceFt).toBeGreaterThan(140);
+            expect(result.brakingDistanceFt).toBeLessThan(160);
+            expect(result.reactionDistanceFt).toBe(132); // 88 ft/s for 1.5 s
+            expect(result.stoppingDistanceFt).toBe(result.reactionDistanceFt + result.brakingDistanceFt);
+            expect(result.hydroplaningSpeedMph).toBeNull();
+            expect(result.hydroplaningRisk).toBe(false);
+        });
+
+        it('should barely change dry braking as the tread wears', () => {
+            expect(estimateStopping(3, 'dry', 60).brakingDistanceFt).toBe(estimateStopping(9, 'dry', 60).brakingDistanceFt);
+        });
+
+        it('should lengthen wet braking as the tread wears', () => {
+            const fresh = estimateStopping(8, 'wet', 60);
+            const worn = estimateStopping(3, 'wet', 60);
+            const bald = estimateStopping(1, 'wet', 60);
+            expect(fresh.brakingDistanceFt).toBeGreaterThan(estimateStopping(8, 'dry', 60).brakingDistanceFt);
+            expect(worn.brakingDistanceFt).toBeGreaterThan(fresh.brakingDistanceFt);
+            expect(bald.brakingDistanceFt).toBeGreaterThan(worn.brakingDistanceFt);
+            expect(worn.friction).toBeLessThan(fresh.friction);
+        });
+
+        it('should grow faster than linearly with speed', () => {
+            const slow = estimateStopping(6, 'wet', 30);
+            const fast = estimateStopping(6, 'wet', 60);
+            expect(fast.brakingDistanceFt).toBeGreaterThan(slow.brakingDistanceFt * 4);
+        });
+
+        it('should take longest in snow', () => {
+            expect(estimateStopping(6, 'snow', 45).brakingDistanceFt)
+                .toBeGreaterThan(estimateStopping(6, 'wet', 45).brakingDistanceFt);
+        });
+
+        it('should stop winter tires shorter in snow and longer on dry pavement', () => {
+            expect(estimateStopping(8, 'snow', 45, 'winter').brakingDistanceFt)
+                .toBeLessThan(estimateStopping(8, 'snow', 45).brakingDistanceFt);
+            expect(estimateStopping(8, 'dry', 45, 'winter').brakingDistanceFt)
+                .toBeGreaterThan(estimateStopping(8, 'dry', 45).brakingDistanceFt);
+        });
+
+        it('should flag hydroplaning risk above the onset speed', () => {
+            const worn = estimateStopping(2, 'wet', 60);
+            expect(worn.hydroplaningSpeedMph).toBeLessThan(60);
+            expect(worn.hydroplaningRisk).toBe(true);
+            expect(estimateStopping(8, 'wet', 60).hydroplaningRisk).toBe(false);
+        });
+    });
+
+    describe('hydroplaningOnsetMph', () => {
+        it('should rise with tread depth up to a cap', () => {
+            expect(hydroplaningOnsetMph(2)).toBeLessThan(hydroplaningOnsetMph(6));
+            expect(hydroplaningOnsetMph(10)).toBe(hydroplaningOnsetMph(12));
+            expect(hydroplaningOnsetMph(2)).toBeGreaterThan(40);
+            expect(hydroplaningOnsetMph(10)).toBeLessThan(80);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import { parseTireSize, resolveTireProfile, validateTireProfile, validateVehicleProfile } from '../lib/tireProfile';
+import { resolveScanDepth } from '../lib/tireAnalysis';
+import type { TireScanInput } from '../types';
+
+function scanAt(depth32nds: number, extra: Partial<TireScanInput> = {}): TireScanInput {
+    return {
+        position: 'FL',
+        bucket: 'HEALTHY',
+        depthRange: { min: depth32nds - 1, max: depth32nds + 1 },
+        depth32nds,
+        uncertainty32nds: 1,
+        confidence: 0.8,
+        imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+        ...extra,
+    };
+}
+
+describe('Tire Profile', () => {
+    describe('parseTireSize', () => {
+        it('should parse P-metric and Euro-metric sizes with a service description', () => {
+            const size = parseTireSize('p225/45 r17 94w');
+            expect(size).toMatchObject({
+                text: 'P225/45R17 94W',
+                service: 'P',
+                widthMm: 225,
+                aspectRatio: 45,
+                construction: 'R',
+                rimDiameterIn: 17,
+                loadIndex: 94,
+                speedRating: 'W',
+                lightTruck: false,
+            });
+            expect(size!.overallDiameterIn).toBeCloseTo(25, 0);
+            expect(parseTireSize('225/45ZR17')).toMatchObject({ service: null, speedRating: 'Z' });
+        });
+
+        it('should recognize LT-metric and flotation sizes as light truck', () => {
+            expect(parseTireSize('LT245/75R16 120/116S')).toMatchObject({ service: 'LT', loadIndex: 120, speedRating: 'S', lightTruck: true });
+            expect(parseTireSize('245/75R16LT')?.lightTruck).toBe(true);
+
+            const flotation = parseTireSize('31x10.50R15LT 109Q');
+            expect(flotation).toMatchObject({ overallDiameterIn: 31, rimDiameterIn: 15, lightTruck: true, loadIndex: 109 });
+            expect(flotation!.widthMm).toBe(267);
+        });
+
+        it('should reject text that is not a size', () => {
+            expect(parseTireSize('')).toBeNull();
+            expect(parseTireSize('Michelin Defender')).toBeNull();
+            expect(parseTireSize('225/45')).toBeNull();
+            expect(parseTireSize('15x31R17')).toBeNull();
+        });
+    });
+
+    describe('resolveTireProfile', () => {
+        it('should default to an all-season 10/32" tire', () => {
+            expect(resolveTireProfile()).toMatchObject({ tireCategory: 'all-season', newTreadDepth32nds: 10, size: null });
+        });
+
+        it('should start LT tires at 11/32" even with another season type', () => {
+            expect(resolveTireProfile({ size: 'LT245/75R16' })).toMatchObject({ tireCategory: 'light-truck', newTreadDepth32nds: 11 });
+            expect(resolveTireProfile({ size: 'LT245/75R16', category: 'all-season' }).newTreadDepth32nds).toBe(11);
+            expect(resolveTireProfile({ size: 'LT245/75R16', category: 'winter' }).newTreadDepth32nds).toBe(12);
+            expect(resolveTireProfile({ size: 'LT245/75R16', newTreadDepth32nds: 15 }).newTreadDepth32nds).toBe(15);
+        });
+    });
+
+    describe('validation', () => {
+        it('should flag invalid tire profile fields', () => {
+            expect(validateTireProfile({ size: '225/45R17', treadwear: 500, traction: 'AA', temperature: 'A' })).toBeNull();
+            expect(validateTireProfile({ size: 'big' })).toMatch(/size/);
+            expect(validateTireProfile({ treadwear: 5 })).toMatch(/treadwear/);
+            expect(validateTireProfile({ newTreadDepth32nds: 40 })).toMatch(/new tread depth/);
+            expect(validateTireProfile({ category: 'toString' as never })).toMatch(/category/);
+            expect(validateTireProfile(5 as never)).toBe('Invalid tire profile');
+            expect(validateTireProfile({ size: 225 as never })).toMatch(/size/);
+            expect(validateTireProfile({ brand: ['Michelin'] as never })).toMatch(/brand/);
+        });
+
+        it('should flag invalid vehicle profile fields', () => {
+            const now = new Date(Date.UTC(2026, 5, 15));
+            expect(validateVehicleProfile({ make: 'Ford', year: 2027, drivetrain: '4WD', curbWeightLb: 5200 }, now)).toBeNull();
+            expect(validateVehicleProfile({ year: 2030 }, now)).toMatch(/year/);
+            expect(validateVehicleProfile({ curbWeightLb: 200 }, now)).toMatch(/curb weight/);
+            expect(validateVehicleProfile(5 as never, now)).toBe('Invalid vehicle profile');
+            expect(validateVehicleProfile({ model: { name: 'F-150' } as never }, now)).toMatch(/model/);
+        });
+    });
+
+    describe('resolveScanDepth', () => {
+        it('should rescale uncalibrated estimates to the tire new depth', () => {
+            const passenger = resolveScanDepth(scanAt(10));
+            const lt = resolveScanDepth(scanAt(10, { tireProfile: { size: 'LT245/75R16' } }));
+            expect(passenger.depth32nds).toBe(10);
+            expect(lt.depth32nds).toBe(11);
+            expect(lt.depthRange.max).toBe(11);
+        });
+
+        it('should leave calibrated depths alone', () => {
+            const calibration = { method: 'gauge' as const, depth32nds: 10, uncertainty32nds: 0.5, confidence: 0.95 };
+            expect(resolveScanDepth(scanAt(10, { tireProfile: { size: 'LT245/75R16' }, calibration })).depth32nds).toBe(10);
+        });
+    });
+});
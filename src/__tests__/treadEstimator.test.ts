@@ -0,0 +1,52 @@
+import { buildTreadEstimate, bucketForDepth, calculateTreadSignal, depthInterval } from '../lib/treadEstimator';
+import { createImageData } from '../lib/imageUtils';
+
+describe('Tread Estimator', () => {
+    describe('bucketForDepth', () => {
+        it('should map continuous depths to buckets', () => {
+            expect(bucketForDepth(9.2)).toBe('NEW');
+            expect(bucketForDepth(6.9)).toBe('HEALTHY');
+            expect(bucketForDepth(6.1)).toBe('HEALTHY');
+            expect(bucketForDepth(5.9)).toBe('MODERATE');
+            expect(bucketForDepth(2.5)).toBe('LOW');
+            expect(bucketForDepth(1.2)).toBe('CRITICAL');
+        });
+
+        it('should put bucket edges in the deeper bucket', () => {
+            expect(bucketForDepth(8)).toBe('NEW');
+            expect(bucketForDepth(2)).toBe('LOW');
+        });
+    });
+
+    describe('depthInterval', () => {
+        it('should clamp to the physical range', () => {
+            expect(depthInterval(0.4, 0.8)).toEqual({ min: 0, max: 1.2 });
+            expect(depthInterval(9.7, 0.8)).toEqual({ min: 8.9, max: 10 });
+        });
+    });
+
+    describe('buildTreadEstimate', () => {
+        it('should keep distinct depths within the same bucket apart', () => {
+            const a = buildTreadEstimate(6.9, 0.8);
+            const b = buildTreadEstimate(6.1, 0.8);
+            expect(a.bucket).toBe(b.bucket);
+            expect(a.depth32nds).toBeGreaterThan(b.depth32nds);
+        });
+
+        it('should widen the interval as confidence drops', () => {
+            const confident = buildTreadEstimate(6.4, 0.9);
+            const unsure = buildTreadEstimate(6.4, 0.55);
+            expect(confident.uncertainty32nds).toBe(0.5);
+            expect(unsure.uncertainty32nds).toBe(1.5);
+            expect(unsure.depthRange32nds).toEqual({ min: 4.9, max: 7.9 });
+        });
+    });
+
+    describe('calculateTreadSignal', () => {
+        it('should read a sliver of an image as no signal rather than NaN', () => {
+            const sliver = createImageData(new Uint8ClampedArray(640 * 2 * 4).fill(128), 640, 2);
+            expect(calculateTreadSignal(sliver).edgeDensity).toBe(0);
+            expect(Number.isFinite(calculateTreadSignal(sliver).treadSignal)).toBe(true);
+        });
+    });
+});
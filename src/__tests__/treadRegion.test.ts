@@ -0,0 +1,144 @@
+import {
+    adjustTreadRegion,
+    clampTreadRegion,
+    cropToTreadRegion,
+    detectTreadRegion,
+    isTreadRegion,
+} from '../lib/treadRegion';
+import { analyzeTreadImage } from '../lib/imageAnalysis';
+import { createImageData, rotateQuarterTurn } from '../lib/imageUtils';
+import { estimateTreadBucket, heuristicEstimator } from '../lib/treadEstimator';
+import { DEFAULT_TREAD_REGION } from '../lib/constants';
+import type { TreadRegion } from '../types';
+
+const SIZE = 160;
+
+/**
+ * Tread stripes inside `band` (x0, x1, y0, y1 as fractions of the frame),
+ * flat gray elsewhere. Vertical grooves unless `horizontal`.
+ */
+function photo(band: [number, number, number, number] = [0, 1, 0, 1], horizontal = false): ImageData {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    const [x0, x1, y0, y1] = band.map(f => f * SIZE);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const inBand = x >= x0 && x < x1 && y >= y0 && y < y1;
+            const v = inBand ? ((horizontal ? y : x) % 10 < 4 ? 30 : 150) : 100;
+            data.set([v, v, v, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+const region = (overrides: Partial<TreadRegion> = {}): TreadRegion => ({ ...DEFAULT_TREAD_REGION, source: 'detected', ...overrides });
+
+describe('Tread Region', () => {
+    describe('detectTreadRegion', () => {
+        it('should find a band of grooves between flat background', () => {
+            const found = detectTreadRegion(photo([0.3, 0.7, 0, 1]));
+            expect(found.source).toBe('detected');
+            expect(found.orientation).toBe('vertical');
+            // A cell or two of margin (10 px cells) on each side
+            expect(found.x).toBeGreaterThanOrEqual(0.15);
+            expect(found.x).toBeLessThanOrEqual(0.3);
+            expect(found.x + found.width).toBeGreaterThanOrEqual(0.7);
+            expect(found.x + found.width).toBeLessThanOrEqual(0.85);
+            expect(found.height).toBe(1);
+            expect(found.confidence).toBeGreaterThan(0.6);
+        });
+
+        it('should bound the band in both directions', () => {
+            const found = detectTreadRegion(photo([0.25, 0.75, 0.2, 0.8]));
+            expect(found.y).toBeGreaterThanOrEqual(0.1);
+            expect(found.y).toBeLessThanOrEqual(0.2);
+            expect(found.y + found.height).toBeLessThanOrEqual(0.9);
+        });
+
+        it('should notice grooves running across the frame', () => {
+            expect(detectTreadRegion(photo([0, 1, 0.3, 0.7], true)).orientation).toBe('horizontal');
+        });
+
+        it('should fall back to the centre of a featureless frame', () => {
+            expect(detectTreadRegion(photo([0, 0, 0, 0]))).toEqual(DEFAULT_TREAD_REGION);
+        });
+    });
+
+    describe('cropToTreadRegion', () => {
+        it('should cut out the band', () => {
+            const crop = cropToTreadRegion(photo(), region({ x: 0.25, y: 0, width: 0.5, height: 1 }));
+            expect(crop.width).toBe(80);
+            expect(crop.height).toBe(160);
+        });
+
+        it('should turn sideways grooves upright', () => {
+            const crop = cropToTreadRegion(photo(), region({ x: 0, y: 0.25, width: 1, height: 0.5, orientation: 'horizontal' }));
+            expect(crop.width).toBe(80);
+            expect(crop.height).toBe(160);
+        });
+    });
+
+    describe('rotateQuarterTurn', () => {
+        it('should turn the image clockwise', () => {
+            // 2×1: left pixel 10, right pixel 20 → 1×2: top 10, bottom 20
+            const data = new Uint8ClampedArray([10, 10, 10, 255, 20, 20, 20, 255]);
+            const turned = rotateQuarterTurn(createImageData(data, 2, 1));
+            expect(turned.width).toBe(1);
+            expect(turned.height).toBe(2);
+            expect(turned.data[0]).toBe(10);
+            expect(turned.data[4]).toBe(20);
+        });
+    });
+
+    describe('adjusting by hand', () => {
+        it('should move the band but keep it in the frame', () => {
+            const moved = adjustTreadRegion(region({ x: 0.2, y: 0.1, width: 0.5, height: 0.8 }), 'move', 0.6, 0);
+            expect(moved.x).toBe(0.5);
+            expect(moved.width).toBe(0.5);
+            expect(moved.source).toBe('manual');
+        });
+
+        it('should resize from a corner and keep the opposite one', () => {
+            const start = region({ x: 0.2, y: 0.1, width: 0.5, height: 0.8 });
+            const resized = adjustTreadRegion(start, 'nw', 0.1, 0.1);
+            expect(resized.x).toBeCloseTo(0.3, 3);
+            expect(resized.x + resized.width).toBeCloseTo(0.7, 3);
+            expect(resized.y + resized.height).toBeCloseTo(0.9, 3);
+
+            const squashed = adjustTreadRegion(start, 'se', -0.9, 0);
+            expect(squashed.width).toBe(0.2);
+            expect(squashed.x).toBe(0.2);
+        });
+
+        it('should clamp a region into the image', () => {
+            const clamped = clampTreadRegion(region({ x: 0.9, y: -0.2, width: 0.05, height: 1.4 }));
+            expect(clamped).toMatchObject({ x: 0.8, y: 0, width: 0.2, height: 1 });
+        });
+    });
+
+    describe('isTreadRegion', () => {
+        it('should accept only regions inside the frame', () => {
+            expect(isTreadRegion(DEFAULT_TREAD_REGION)).toBe(true);
+            expect(isTreadRegion(region({ x: 0.6, width: 0.6 }))).toBe(false);
+            expect(isTreadRegion({ ...DEFAULT_TREAD_REGION, orientation: 'diagonal' })).toBe(false);
+            expect(isTreadRegion(null)).toBe(false);
+        });
+    });
+
+    describe('analysis', () => {
+        it('should estimate the tread without the background', async () => {
+            const tread = estimateTreadBucket(photo()).depth32nds;
+            const padded = photo([0.3, 0.7, 0, 1]);
+            const analysis = await analyzeTreadImage(padded, { estimator: heuristicEstimator });
+
+            expect(analysis.treadRegion.source).toBe('detected');
+            expect(Math.abs(analysis.treadEstimate.depth32nds - tread))
+                .toBeLessThan(Math.abs(estimateTreadBucket(padded).depth32nds - tread));
+        });
+
+        it('should use a region the user set', async () => {
+            const manual = region({ x: 0.1, y: 0.1, width: 0.3, height: 0.3, source: 'manual' });
+            const analysis = await analyzeTreadImage(photo(), { estimator: heuristicEstimator, treadRegion: manual });
+            expect(analysis.treadRegion).toBe(manual);
+        });
+    });
+});
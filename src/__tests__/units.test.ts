@@ -0,0 +1,135 @@
+import {
+    convertInput,
+    depthFromUnits,
+    depthToUnits,
+    displayMeasurements,
+    distanceFromUnits,
+    distanceToUnits,
+    formatDepth,
+    formatDepthLimit,
+    formatDistance,
+    formatLength,
+    formatSpeed,
+    formatWearRate,
+    isUnitSystem,
+    nearestOption,
+    speedFromUnits,
+    speedToUnits,
+    wearRateToUnits,
+} from '../lib/units';
+import { formatThreshold, getJurisdictionRules } from '../lib/jurisdiction';
+import { buildAnalysis } from '../lib/tireAnalysis';
+import type { TireScanInput } from '../types';
+
+function scanAt(depth32nds: number): TireScanInput {
+    return {
+        position: 'FL',
+        bucket: 'MODERATE',
+        depthRange: { min: depth32nds - 1, max: depth32nds + 1 },
+        depth32nds,
+        uncertainty32nds: 1,
+        confidence: 0.8,
+        imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+    };
+}
+
+describe('Units', () => {
+    describe('conversions', () => {
+        it('should round-trip depths', () => {
+            for (const depth of [0, 1.6, 2, 5.5, 10, 12]) {
+                expect(depthFromUnits(depthToUnits(depth, 'metric'), 'metric')).toBeCloseTo(depth, 10);
+                expect(depthFromUnits(depthToUnits(depth, 'imperial'), 'imperial')).toBe(depth);
+            }
+        });
+
+        it('should round-trip distances and speeds', () => {
+            for (const miles of [0, 1, 6000, 12000, 123456]) {
+                expect(distanceFromUnits(distanceToUnits(miles, 'metric'), 'metric')).toBeCloseTo(miles, 8);
+            }
+            expect(speedFromUnits(speedToUnits(60, 'metric'), 'metric')).toBeCloseTo(60, 10);
+        });
+
+        it('should use the standard factors', () => {
+            expect(depthToUnits(32, 'metric')).toBeCloseTo(25.4, 10);
+            expect(distanceToUnits(1, 'metric')).toBeCloseTo(1.609344, 10);
+        });
+
+        it('should keep a wear rate consistent with depth and distance', () => {
+            // 1/32" per 1,000 mi is 0.79 mm per 1,609 km, so 0.49 mm per 1,000 km
+            expect(wearRateToUnits(1, 'metric')).toBeCloseTo(0.7938 / 1.609344, 3);
+            expect(wearRateToUnits(0.5, 'imperial')).toBe(0.5);
+        });
+    });
+
+    describe('formatting', () => {
+        it('should format in either system', () => {
+            expect(formatDepth(5, 'imperial')).toBe('5.0/32"');
+            expect(formatDepth(5.04, 'metric')).toBe('4.0 mm');
+            expect(formatDistance(12000, 'imperial')).toBe('12,000 mi');
+            expect(formatDistance(12000, 'metric')).toBe('19,312 km');
+            expect(formatSpeed(60, 'metric')).toBe('97 km/h');
+            expect(formatLength(100, 'metric')).toBe('30 m');
+            expect(formatWearRate(0.5, 'imperial')).toBe('0.50/32" per 1,000 mi');
+        });
+
+        it('should quote limits the way they are written', () => {
+            expect(formatDepthLimit(2, 'imperial')).toBe('2/32"');
+            expect(formatDepthLimit(2, 'metric')).toBe('1.6 mm');
+        });
+
+        it('should let the chosen units override the region in thresholds', () => {
+            const uk = getJurisdictionRules('UK');
+            expect(formatThreshold(uk.legalMinimum32nds, uk)).toBe('1.6 mm');
+            expect(formatThreshold(2, getJurisdictionRules('US'), 'metric')).toBe('1.6 mm');
+            expect(formatThreshold(2, uk, 'imperial')).toBe('2/32"');
+        });
+    });
+
+    describe('convertInput', () => {
+        it('should re-express typed values and survive a round trip', () => {
+            expect(convertInput('12000', 'distance', 'imperial', 'metric')).toBe('19312');
+            expect(convertInput('19312', 'distance', 'metric', 'imperial')).toBe('12000');
+            expect(convertInput('6', 'depth', 'imperial', 'metric')).toBe('4.8');
+            expect(convertInput('4.8', 'depth', 'metric', 'imperial')).toBe('6');
+        });
+
+        it('should leave blanks and text alone', () => {
+            expect(convertInput('', 'distance', 'imperial', 'metric')).toBe('');
+            expect(convertInput('abc', 'depth', 'imperial', 'metric')).toBe('abc');
+            expect(convertInput('7', 'depth', 'metric', 'metric')).toBe('7');
+        });
+    });
+
+    describe('nearestOption', () => {
+        it('should snap to the closest choice', () => {
+            expect(nearestOption([50, 70, 100, 120], speedToUnits(60, 'metric'))).toBe(100);
+            expect(nearestOption([30, 45, 60, 70], speedToUnits(100 / 1.609344, 'imperial'))).toBe(60);
+        });
+    });
+
+    describe('isUnitSystem', () => {
+        it('should accept only known systems', () => {
+            expect(isUnitSystem('metric')).toBe(true);
+            expect(isUnitSystem('imperial')).toBe(true);
+            expect(isUnitSystem('si')).toBe(false);
+            expect(isUnitSystem(undefined)).toBe(false);
+        });
+    });
+
+    describe('displayMeasurements', () => {
+        it('should convert an analysis without changing its model', () => {
+            const analysis = buildAnalysis(scanAt(6), { milesPerYear: 12000, climate: 'neutral', units: 'metric' });
+            expect(analysis.units).toBe('metric');
+            expect(analysis.treadEstimate.depth32nds).toBe(6);
+
+            const metric = displayMeasurements(analysis, 'metric');
+            expect(metric.depthUnit).toBe('mm');
+            expect(metric.depth).toBeCloseTo(4.76, 2);
+            expect(metric.distancePerYear).toBe(19312);
+
+            const imperial = displayMeasurements(analysis, 'imperial');
+            expect(imperial.depth).toBe(6);
+            expect(imperial.distancePerYear).toBe(12000);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { computeVehicleRollup, axleDepth } from '../lib/vehicleRollup';
+import { predictWearTimeline } from '../lib/wearModel';
+import { computeHealthScore } from '../lib/healthScore';
+import { SIDE_MISMATCH_THRESHOLD, TREAD_BUCKETS } from '../lib/constants';
+import type { AnalysisResult, TreadBucket } from '../types';
+
+function makeAnalysis(bucket: TreadBucket): AnalysisResult {
+    const depthRange = TREAD_BUCKETS[bucket];
+    const wearPrediction = predictWearTimeline({
+        depthRange,
+        milesPerYear: 12000,
+        climate: 'neutral',
+        rotation: 'normal',
+        drivingStyle: 'normal',
+    });
+    return {
+        treadEstimate: {
+            bucket,
+            depth32nds: wearPrediction.currentDepth32nds,
+            uncertainty32nds: 1,
+            depthRange32nds: depthRange,
+            confidence: 0.8,
+        },
+        wearPrediction,
+        healthScore: computeHealthScore(wearPrediction.currentDepth32nds, bucket),
+        imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+        estimator: 'heuristic',
+    };
+}
+
+describe('Vehicle Rollup', () => {
+    describe('computeVehicleRollup', () => {
+        it('should pick the lowest-scoring tire as worst', () => {
+            const rollup = computeVehicleRollup({
+                FL: makeAnalysis('HEALTHY'),
+                FR: makeAnalysis('LOW'),
+                RL: makeAnalysis('NEW'),
+                RR: makeAnalysis('NEW'),
+            });
+            expect(rollup.worstPosition).toBe('FR');
+            expect(rollup.worstRiskLevel).toBe('Plan Soon');
+        });
+
+        it('should flag a significant front/rear imbalance and replace the worn axle first', () => {
+            const rollup = computeVehicleRollup({
+                FL: makeAnalysis('MODERATE'),
+                FR: makeAnalysis('MODERATE'),
+                RL: makeAnalysis('NEW'),
+                RR: makeAnalysis('NEW'),
+            });
+            expect(rollup.axleImbalance.frontDepth32nds).toBe(5);
+            expect(rollup.axleImbalance.rearDepth32nds).toBe(9);
+            expect(rollup.axleImbalance.significant).toBe(true);
+            expect(rollup.replaceFirst).toBe('front');
+        });
+
+        it('should not flag evenly worn axles', () => {
+            const rollup = computeVehicleRollup({
+                FL: makeAnalysis('HEALTHY'),
+                FR: makeAnalysis('HEALTHY'),
+                RL: makeAnalysis('HEALTHY'),
+                RR: makeAnalysis('HEALTHY'),
+            });
+            expect(rollup.axleImbalance.difference32nds).toBe(0);
+            expect(rollup.axleImbalance.significant).toBe(false);
+            expect(rollup.sideToSideMismatch).toEqual([]);
+        });
+
+        it('should report left/right mismatch on the same axle', () => {
+            const rollup = computeVehicleRollup({
+                FL: makeAnalysis('NEW'),
+                FR: makeAnalysis('MODERATE'),
+                RL: makeAnalysis('HEALTHY'),
+                RR: makeAnalysis('HEALTHY'),
+            });
+            expect(rollup.sideToSideMismatch).toEqual(['FL', 'FR']);
+        });
+
+        it('should count a left/right gap of exactly the threshold as a mismatch', () => {
+            const atDepth = (depth32nds: number): AnalysisResult => {
+                const analysis = makeAnalysis('HEALTHY');
+                return { ...analysis, wearPrediction: { ...analysis.wearPrediction, currentDepth32nds: depth32nds } };
+            };
+            const rollup = computeVehicleRollup({
+                FL: atDepth(7),
+                FR: atDepth(7 - SIDE_MISMATCH_THRESHOLD),
+                RL: atDepth(7),
+                RR: atDepth(7 - SIDE_MISMATCH_THRESHOLD + 0.5),
+            });
+            expect(rollup.sideToSideMismatch).toEqual(['FL', 'FR']);
+        });
+
+        it('should count the spare as worst tire but not towards an axle', () => {
+            const rollup = computeVehicleRollup({
+                FL: makeAnalysis('HEALTHY'),
+                FR: makeAnalysis('HEALTHY'),
+                RL: makeAnalysis('HEALTHY'),
+                RR: makeAnalysis('HEALTHY'),
+                SPARE: makeAnalysis('CRITICAL'),
+            });
+            expect(rollup.worstPosition).toBe('SPARE');
+            expect(rollup.axleImbalance.frontDepth32nds).toBe(7);
+            expect(rollup.axleImbalance.rearDepth32nds).toBe(7);
+        });
+
+        it('should throw without any tires', () => {
+            expect(() => computeVehicleRollup({})).toThrow();
+        });
+    });
+
+    describe('axleDepth', () => {
+        it('should return null for an axle with no scans', () => {
+            expect(axleDepth({ FL: makeAnalysis('NEW') }, 'rear')).toBeNull();
+        });
+
+        it('should average the tires present', () => {
+            expect(axleDepth({ FL: makeAnalysis('NEW'), FR: makeAnalysis('HEALTHY') }, 'front')).toBe(8);
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { detectWearBars } from '../lib/wearBars';
+import { analyzeGrooveProfile } from '../lib/grooveProfile';
+import { buildAnalysis, resolveScanDepth } from '../lib/tireAnalysis';
+import { generateExplanation } from '../lib/llmClient';
+import { analyzeTreadFrames } from '../lib/imageAnalysis';
+import { heuristicEstimator } from '../lib/treadEstimator';
+import { createImageData } from '../lib/imageUtils';
+import type { GrooveMeasurement, GrooveProfile, TireScanInput, WearBarMark } from '../types';
+
+const groove = (center: number): GrooveMeasurement => ({
+    center,
+    width: 0.08,
+    darkness: 0.6,
+    continuity: 1,
+    darknessAlong: [],
+});
+
+function profile(wearBars: WearBarMark[], grooveCount = 4): GrooveProfile {
+    return {
+        grooves: Array.from({ length: grooveCount }, (_, i) => groove((i + 0.5) / grooveCount)),
+        wearBars,
+        ribLevel: 160,
+    };
+}
+
+const bar = (groove: number, position: number, flush = true): WearBarMark => ({ groove, position, flush });
+
+function scanAt(depth32nds: number, grooveProfile?: GrooveProfile): TireScanInput {
+    return {
+        position: 'FL',
+        bucket: 'HEALTHY',
+        depthRange: { min: depth32nds - 1, max: depth32nds + 1 },
+        depth32nds,
+        uncertainty32nds: 1,
+        confidence: 0.8,
+        imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+        grooveProfile,
+    };
+}
+
+const SIZE = 160;
+
+/**
+ * An upright tread with four grooves; `barGrooves` get a light bar across
+ * rows 70–84.
+ */
+function tread(barGrooves: number[], barLum = 160): ImageData {
+    const grooveStarts = [20, 58, 96, 134];
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const g = grooveStarts.findIndex(start => x >= start && x < start + 12);
+            const v = g < 0 ? 160 : barGrooves.includes(g) && y >= 70 && y < 84 ? barLum : 60;
+            data.set([v, v, v, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+describe('Wear Bars', () => {
+    describe('detectWearBars', () => {
+        it('should find a row of bars lined up across the grooves', () => {
+            const found = detectWearBars(profile([bar(0, 0.5), bar(1, 0.52), bar(2, 0.49), bar(3, 0.51)]));
+            expect(found.rows).toHaveLength(1);
+            expect(found.rows[0].grooves).toEqual([0, 1, 2, 3]);
+            expect(found.rows[0].position).toBeCloseTo(0.505, 3);
+            expect(found.flush).toBe(true);
+        });
+
+        it('should ignore a light spot in a single groove', () => {
+            expect(detectWearBars(profile([bar(2, 0.3)]))).toEqual({ rows: [], flush: false });
+        });
+
+        it('should keep rows at different points along the tread apart', () => {
+            const found = detectWearBars(profile([bar(0, 0.2, false), bar(1, 0.22, false), bar(0, 0.7), bar(3, 0.71)]));
+            expect(found.rows.map(row => row.flush)).toEqual([false, true]);
+            expect(found.flush).toBe(true);
+        });
+
+        it('should not call a row flush when most of its bars are below the tread', () => {
+            const found = detectWearBars(profile([bar(0, 0.5), bar(1, 0.5, false), bar(2, 0.5, false)]));
+            expect(found.rows).toHaveLength(1);
+            expect(found.flush).toBe(false);
+        });
+
+        it('should not trust a single groove to show the indicators', () => {
+            expect(detectWearBars(profile([bar(0, 0.4)], 1))).toEqual({ rows: [], flush: false });
+        });
+
+        it('should read the indicators from a photo', () => {
+            expect(detectWearBars(analyzeGrooveProfile(tread([0, 1, 2, 3]))).flush).toBe(true);
+            expect(detectWearBars(analyzeGrooveProfile(tread([0, 1, 2, 3], 130))).flush).toBe(false);
+            expect(detectWearBars(analyzeGrooveProfile(tread([1]))).rows).toEqual([]);
+        });
+
+        it('should take the verdict from a frame that was used, not a rejected first one', async () => {
+            const flat = createImageData(new Uint8ClampedArray(SIZE * SIZE * 4).fill(128), SIZE, SIZE);
+            const analysis = await analyzeTreadFrames([flat, tread([0, 1, 2, 3]), tread([0, 1, 2, 3])], {
+                estimator: heuristicEstimator,
+            });
+            expect(analysis.frameFusion!.frames[0].used).toBe(false);
+            expect(analysis.grooveProfile.grooves).toEqual([]);
+            expect(analysis.wearBars.flush).toBe(true);
+        });
+    });
+
+    describe('safety override', () => {
+        const flush = profile([bar(0, 0.5), bar(1, 0.5), bar(2, 0.5)]);
+
+        it('should force a healthy-looking tire to Replace Now', () => {
+            const analysis = buildAnalysis(scanAt(7, flush), { milesPerYear: 12000, climate: 'neutral' });
+            expect(analysis.treadEstimate.bucket).toBe('CRITICAL');
+            expect(analysis.treadEstimate.depth32nds).toBe(2);
+            expect(analysis.treadEstimate.depthRange32nds.max).toBeLessThanOrEqual(2);
+            expect(analysis.healthScore.riskLevel).toBe('Replace Now');
+            expect(analysis.wearBars?.flush).toBe(true);
+        });
+
+        it('should follow the scan\'s own verdict over its drawn profile', () => {
+            const scan = { ...scanAt(7, flush), wearBars: { rows: [], flush: false } };
+            expect(resolveScanDepth(scan).bucket).toBe('HEALTHY');
+        });
+
+        it('should not raise a depth already below the bars', () => {
+            expect(resolveScanDepth(scanAt(1.5, flush)).depth32nds).toBe(1.5);
+        });
+
+        it('should leave the estimate alone when the bars are below the tread', () => {
+            const below = profile([bar(0, 0.5, false), bar(1, 0.5, false)]);
+            const analysis = buildAnalysis(scanAt(7, below), { milesPerYear: 12000, climate: 'neutral' });
+            expect(analysis.treadEstimate.bucket).toBe('HEALTHY');
+            expect(analysis.healthScore.riskLevel).not.toBe('Replace Now');
+            expect(analysis.wearBars?.rows).toHaveLength(1);
+        });
+
+        it('should say so in the explanation', async () => {
+            delete process.env.OPENAI_API_KEY;
+            const analysis = buildAnalysis(scanAt(7, flush), { milesPerYear: 12000, climate: 'neutral', units: 'imperial' });
+            const explanation = await generateExplanation(analysis);
+            expect(explanation.keyInsights[0]).toContain('Wear bars are flush');
+            expect(explanation.recommendedAction).toMatch(/immediately/);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { fitWearRate, sortScanHistory } from '../lib/wearHistory';
+import type { ScanRecord } from '../types';
+
+function scan(odometerMiles: number, depth32nds: number, scannedAt = '2026-01-01T00:00:00.000Z'): ScanRecord {
+    return {
+        id: `${odometerMiles}-${depth32nds}`,
+        vehicleId: 'civic',
+        position: 'FL',
+        scannedAt,
+        odometerMiles,
+        depth32nds,
+        bucket: 'HEALTHY',
+    };
+}
+
+describe('Wear History', () => {
+    describe('fitWearRate', () => {
+        it('should return null with fewer than two scans', () => {
+            expect(fitWearRate([scan(10000, 8)])).toBeNull();
+        });
+
+        it('should return null when scans are too close together', () => {
+            expect(fitWearRate([scan(10000, 8), scan(10400, 7.5)])).toBeNull();
+        });
+
+        it('should fit the observed loss per 1000 miles', () => {
+            const fit = fitWearRate([scan(10000, 9), scan(15000, 8), scan(20000, 7)]);
+            expect(fit).not.toBeNull();
+            expect(fit!.ratePer1000Miles).toBeCloseTo(0.2, 3);
+            expect(fit!.scanCount).toBe(3);
+            expect(fit!.milesSpan).toBe(10000);
+        });
+
+        it('should ignore scans that show tread growing', () => {
+            expect(fitWearRate([scan(10000, 6), scan(15000, 7)])).toBeNull();
+        });
+
+        it('should clamp implausible rates', () => {
+            const fit = fitWearRate([scan(10000, 9), scan(11000, 2)]);
+            expect(fit!.ratePer1000Miles).toBe(1.0);
+        });
+    });
+
+    describe('sortScanHistory', () => {
+        it('should order by odometer, then scan time', () => {
+            const sorted = sortScanHistory([
+                scan(20000, 7),
+                scan(10000, 9, '2026-02-01T00:00:00.000Z'),
+                scan(10000, 9.1, '2026-01-01T00:00:00.000Z'),
+            ]);
+            expect(sorted.map(r => r.depth32nds)).toEqual([9.1, 9, 7]);
+        });
+    });
+});
@@ -1,9 +1,18 @@
 import {
     predictWearTimeline,
     depthAtTime,
-    dateAtTime,
     getMonthlyWearRate,
+    buildWearCurve,
+    scaleWearCurve,
+    depthAtMiles,
+    milesAtDepth,
+    depthAfterMiles,
+    monthsToDepth,
+    simulateWearDates,
+    vehicleLoadModifier,
+    rotationWearModifier,
 } from '../lib/wearModel';
+import type { DatePercentiles } from '../types';
 
 describe('Wear Model', () => {
     describe('predictWearTimeline', () => {
@@ -19,8 +28,8 @@ describe('Wear Model', () => {
             expect(result.currentDepth32nds).toBe(9);
             expect(result.remainingMonths).toBeGreaterThan(24);
             expect(result.wearRatePer1000Miles).toBeGreaterThan(0);
-            expect(result.confidenceBand).toBeGreaterThanOrEqual(0.15);
-            expect(result.confidenceBand).toBeLessThanOrEqual(0.20);
+            expect(result.confidenceBand).toBeGreaterThan(0);
+            expect(result.confidenceBand).toBeLessThan(1);
         });
 
         it('should return shorter timeline for aggressive driving', () => {
@@ -83,6 +92,27 @@ describe('Wear Model', () => {
             expect(skipRotation.wearRatePer1000Miles).toBeGreaterThan(normal.wearRatePer1000Miles);
         });
 
+        it('should wear unrotated tires at their axle rate for the drivetrain', () => {
+            const base = { depthRange: { min: 6, max: 6 }, milesPerYear: 12000, climate: 'neutral', rotation: 'skip-rotations', drivingStyle: 'normal' } as const;
+            const front = predictWearTimeline({ ...base, position: 'FL', drivetrain: 'FWD' });
+            const rear = predictWearTimeline({ ...base, position: 'RR', drivetrain: 'FWD' });
+            expect(front.wearRatePer1000Miles / rear.wearRatePer1000Miles).toBeGreaterThanOrEqual(1.5);
+            expect(front.wearRatePer1000Miles / rear.wearRatePer1000Miles).toBeLessThanOrEqual(2);
+            expect(front.drivetrain).toBe('FWD');
+
+            // Rotated tires average out across the axles
+            const rotated = predictWearTimeline({ ...base, rotation: 'normal', position: 'FL', drivetrain: 'FWD' });
+            expect(rotated.wearRatePer1000Miles).toBeCloseTo(predictWearTimeline({ ...base, rotation: 'normal' }).wearRatePer1000Miles, 10);
+        });
+
+        it('should shift wear between axles by drivetrain', () => {
+            expect(rotationWearModifier('skip-rotations', 'RL', 'RWD')).toBeGreaterThan(rotationWearModifier('skip-rotations', 'FL', 'RWD'));
+            expect(rotationWearModifier('skip-rotations', 'FL', 'AWD')).toBeGreaterThan(rotationWearModifier('skip-rotations', 'RL', 'AWD'));
+            expect(rotationWearModifier('skip-rotations', 'FR')).toBe(rotationWearModifier('skip-rotations', 'FR', 'FWD'));
+            expect(rotationWearModifier('skip-rotations')).toBe(1.15); // position unknown
+            expect(rotationWearModifier('normal', 'FL', 'FWD')).toBe(1);
+        });
+
         it('should handle hot climate modifier', () => {
             const neutral = predictWearTimeline({
                 depthRange: { min: 6, max: 8 },
@@ -115,6 +145,54 @@ describe('Wear Model', () => {
             expect(result.remainingMonths).toBeLessThanOrEqual(12);
         });
 
+        it('should start from the continuous depth when provided', () => {
+            const deep = predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                currentDepth32nds: 6.9,
+                milesPerYear: 12000,
+                climate: 'neutral',
+                rotation: 'normal',
+                drivingStyle: 'normal',
+            });
+            const shallow = predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                currentDepth32nds: 6.1,
+                milesPerYear: 12000,
+                climate: 'neutral',
+                rotation: 'normal',
+                drivingStyle: 'normal',
+            });
+
+            expect(deep.currentDepth32nds).toBe(6.9);
+            expect(deep.remainingMonths).toBeGreaterThan(shallow.remainingMonths);
+        });
+
+        it('should use a fitted wear rate when provided', () => {
+            const result = predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                milesPerYear: 12000,
+                climate: 'hot',
+                rotation: 'normal',
+                drivingStyle: 'aggressive',
+                fittedWearRatePer1000Miles: 0.25,
+            });
+
+            expect(result.wearRatePer1000Miles).toBe(0.25);
+            expect(result.wearRateSource).toBe('fitted');
+        });
+
+        it('should report the default rate source without history', () => {
+            const result = predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                milesPerYear: 12000,
+                climate: 'neutral',
+                rotation: 'normal',
+                drivingStyle: 'normal',
+            });
+
+            expect(result.wearRateSource).toBe('default');
+        });
+
         it('dates should be in chronological order', () => {
             const result = predictWearTimeline({
                 depthRange: { min: 8, max: 10 },
@@ -129,27 +207,140 @@ describe('Wear Model', () => {
     });
 
     describe('depthAtTime', () => {
+        const curve = buildWearCurve(8);
+
         it('should return current depth at t=0', () => {
-            expect(depthAtTime(8, 0, 36, 0.2)).toBe(8);
+            expect(depthAtTime(curve, 8, 0, 36, 12000)).toBe(8);
         });
 
         it('should return 0 or positive at t=1', () => {
-            const depth = depthAtTime(8, 1, 36, 0.2);
+            const depth = depthAtTime(curve, 8, 1, 36, 12000);
             expect(depth).toBeGreaterThanOrEqual(0);
         });
 
-        it('should decrease depth linearly', () => {
-            const d1 = depthAtTime(8, 0.25, 40, 0.2);
-            const d2 = depthAtTime(8, 0.50, 40, 0.2);
-            const d3 = depthAtTime(8, 0.75, 40, 0.2);
+        it('should decrease depth over time', () => {
+            const d1 = depthAtTime(curve, 8, 0.25, 40, 12000);
+            const d2 = depthAtTime(curve, 8, 0.50, 40, 12000);
+            const d3 = depthAtTime(curve, 8, 0.75, 40, 12000);
             expect(d1).toBeGreaterThan(d2);
             expect(d2).toBeGreaterThan(d3);
         });
 
         it('should never return negative depth', () => {
-            const depth = depthAtTime(2, 1, 100, 1);
+            const depth = depthAtTime(curve, 2, 1, 100, 50000);
             expect(depth).toBeGreaterThanOrEqual(0);
         });
+
+        it('should reach the legal minimum exactly when the prediction says', () => {
+            const prediction = predictWearTimeline({
+                depthRange: { min: 6, max: 8 },
+                currentDepth32nds: 7,
+                milesPerYear: 15000,
+                climate: 'hot',
+                rotation: 'normal',
+                drivingStyle: 'normal',
+                tireCategory: 'performance',
+                treadwear: 300,
+            });
+            const months = monthsToDepth(prediction.wearCurve, 7, 2, prediction.milesPerYear);
+            expect(Math.round(months)).toBe(prediction.remainingMonths);
+            expect(depthAtTime(prediction.wearCurve, 7, 1, months, prediction.milesPerYear)).toBeCloseTo(2, 1);
+        });
+    });
+
+    describe('wear curves', () => {
+        it('should wear faster during break-in than later', () => {
+            const curve = buildWearCurve(10);
+            const firstLoss = curve.newDepth32nds - depthAtMiles(curve, 3000);
+            const laterLoss = depthAtMiles(curve, 30000) - depthAtMiles(curve, 33000);
+            expect(firstLoss).toBeGreaterThan(laterLoss * 1.5);
+        });
+
+        it('should invert depth and miles', () => {
+            const curve = buildWearCurve(10, { tireCategory: 'winter' });
+            for (const miles of [500, 5000, 40000]) {
+                expect(milesAtDepth(curve, depthAtMiles(curve, miles))).toBeCloseTo(miles, 0);
+            }
+            expect(depthAfterMiles(curve, 6, 0)).toBe(6);
+            expect(depthAfterMiles(curve, 6, 10000)).toBeLessThan(6);
+        });
+
+        it('should last longer with a higher UTQG treadwear rating', () => {
+            const base = { depthRange: { min: 8, max: 8 }, milesPerYear: 12000, climate: 'neutral', rotation: 'normal', drivingStyle: 'normal' } as const;
+            const soft = predictWearTimeline({ ...base, treadwear: 300 });
+            const hard = predictWearTimeline({ ...base, treadwear: 700 });
+            expect(hard.remainingMonths).toBeGreaterThan(soft.remainingMonths);
+        });
+
+        it('should differ by tire category', () => {
+            const base = { depthRange: { min: 8, max: 8 }, milesPerYear: 12000, climate: 'neutral', rotation: 'normal', drivingStyle: 'normal' } as const;
+            const touring = predictWearTimeline({ ...base, tireCategory: 'touring' });
+            const performance = predictWearTimeline({ ...base, tireCategory: 'performance' });
+            expect(performance.remainingMonths).toBeLessThan(touring.remainingMonths);
+            expect(predictWearTimeline({ ...base, tireCategory: 'winter' }).wearCurve.newDepth32nds).toBe(12);
+        });
+
+        it('should start from the profile new depth and wear faster on heavier vehicles', () => {
+            const base = { depthRange: { min: 8, max: 8 }, milesPerYear: 12000, climate: 'neutral', rotation: 'normal', drivingStyle: 'normal' } as const;
+            expect(predictWearTimeline({ ...base, newTreadDepth32nds: 11 }).wearCurve.newDepth32nds).toBe(11);
+            const light = predictWearTimeline({ ...base, curbWeightLb: 2800 });
+            const heavy = predictWearTimeline({ ...base, curbWeightLb: 6000 });
+            expect(heavy.remainingMonths).toBeLessThan(light.remainingMonths);
+            expect(vehicleLoadModifier(undefined)).toBe(1);
+            expect(vehicleLoadModifier(20000)).toBe(1.3);
+        });
+
+        it('should follow the same profile faster when scaled', () => {
+            const curve = buildWearCurve(9);
+            const fast = scaleWearCurve(curve, 2);
+            expect(depthAtMiles(fast, 10000)).toBeCloseTo(depthAtMiles(curve, 20000), 6);
+        });
+    });
+
+    describe('Monte Carlo date distribution', () => {
+        const input = {
+            depthRange: { min: 6, max: 8 },
+            currentDepth32nds: 7,
+            milesPerYear: 12000,
+            climate: 'neutral',
+            rotation: 'normal',
+            drivingStyle: 'normal',
+        } as const;
+        const spread = ({ p10, p90 }: DatePercentiles) => p90.getTime() - p10.getTime();
+
+        it('should order P10 ≤ P50 ≤ P90 for every threshold', () => {
+            const { dateDistribution } = predictWearTimeline(input);
+            for (const dates of [dateDistribution.wetTractionDrop, dateDistribution.legalMinimum, dateDistribution.tireDead]) {
+                expect(dates.p10.getTime()).toBeLessThanOrEqual(dates.p50.getTime());
+                expect(dates.p50.getTime()).toBeLessThanOrEqual(dates.p90.getTime());
+            }
+            expect(dateDistribution.samples).toBeGreaterThan(0);
+            expect(spread(dateDistribution.legalMinimum)).toBeGreaterThan(0);
+        });
+
+        it('should be reproducible for a given seed', () => {
+            const now = new Date(2026, 0, 15);
+            const a = simulateWearDates({ ...input, seed: 7 }, 7, now);
+            const b = simulateWearDates({ ...input, seed: 7 }, 7, now);
+            const c = simulateWearDates({ ...input, seed: 8 }, 7, now);
+            expect(a).toEqual(b);
+            expect(a.seed).toBe(7);
+            expect(c.legalMinimum).not.toEqual(a.legalMinimum);
+        });
+
+        it('should widen with a less certain starting depth', () => {
+            const now = new Date(2026, 0, 15);
+            const sure = simulateWearDates({ ...input, depthUncertainty32nds: 0.25 }, 7, now);
+            const unsure = simulateWearDates({ ...input, depthUncertainty32nds: 1.5 }, 7, now);
+            expect(spread(unsure.legalMinimum)).toBeGreaterThan(spread(sure.legalMinimum));
+        });
+
+        it('should be narrower with a fitted wear rate', () => {
+            const measured = { ...input, depthUncertainty32nds: 0.25 };
+            const guessed = predictWearTimeline(measured);
+            const fitted = predictWearTimeline({ ...measured, fittedWearRatePer1000Miles: 0.14 });
+            expect(fitted.confidenceBand).toBeLessThan(guessed.confidenceBand);
+        });
     });
 
     describe('getMonthlyWearRate', () => {
@@ -0,0 +1,93 @@
+import { detectWearPattern } from '../lib/wearPattern';
+import { createImageData } from '../lib/imageUtils';
+import { buildAnalysis } from '../lib/tireAnalysis';
+import { generateExplanation } from '../lib/llmClient';
+import type { TireScanInput } from '../types';
+
+const SIZE = 120;
+
+/**
+ * Synthetic tread: vertical grooves whose contrast is set per pixel, so a
+ * worn region shows up as low-contrast, shallow grooves.
+ */
+function treadImage(amplitudeAt: (x: number, y: number) => number): ImageData {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const groove = x % 8 < 3 ? -1 : 1;
+            const value = 110 + groove * amplitudeAt(x, y);
+            const i = (y * SIZE + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = value;
+            data[i + 3] = 255;
+        }
+    }
+    return createImageData(data, SIZE, SIZE);
+}
+
+const band = (x: number) => (x < SIZE * 0.3 ? 'inner' : x >= SIZE * 0.7 ? 'outer' : 'center');
+
+describe('Wear Pattern', () => {
+    it('should report even wear for uniform tread', () => {
+        const result = detectWearPattern(treadImage(() => 60));
+        expect(result.pattern).toBe('even');
+        expect(result.severity).toBe('none');
+        expect(result.evenWear).toBe(true);
+        expect(result.likelyCauses).toEqual([]);
+    });
+
+    it('should detect center wear', () => {
+        const result = detectWearPattern(treadImage(x => (band(x) === 'center' ? 10 : 60)));
+        expect(result.pattern).toBe('center');
+        expect(result.evenWear).toBe(false);
+        expect(result.bandSignals.center).toBeLessThan(result.bandSignals.inner);
+        expect(result.likelyCauses[0]).toMatch(/over-inflation/i);
+    });
+
+    it('should detect wear on both shoulders', () => {
+        const result = detectWearPattern(treadImage(x => (band(x) === 'center' ? 60 : 10)));
+        expect(result.pattern).toBe('both-shoulders');
+        expect(result.likelyCauses[0]).toMatch(/under-inflation/i);
+    });
+
+    it('should tell inner from outer shoulder wear', () => {
+        expect(detectWearPattern(treadImage(x => (band(x) === 'inner' ? 10 : 60))).pattern).toBe('inner-shoulder');
+        expect(detectWearPattern(treadImage(x => (band(x) === 'outer' ? 10 : 60))).pattern).toBe('outer-shoulder');
+    });
+
+    it('should grade severity by how much weaker the worn band is', () => {
+        const mild = detectWearPattern(treadImage(x => (band(x) === 'outer' ? 30 : 60)));
+        const severe = detectWearPattern(treadImage(x => (band(x) === 'outer' ? 5 : 60)));
+        expect(['mild', 'moderate']).toContain(mild.severity);
+        expect(severe.severity).toBe('severe');
+    });
+
+    it('should detect cupping as alternating strips around the circumference', () => {
+        const stripHeight = SIZE / 6;
+        const result = detectWearPattern(treadImage((_, y) => (Math.floor(y / stripHeight) % 2 === 0 ? 60 : 12)));
+        expect(result.pattern).toBe('cupping');
+        expect(result.likelyCauses).toContain('Worn shocks or struts');
+    });
+
+    it('should explain a pattern that arrives without causes', async () => {
+        delete process.env.OPENAI_API_KEY;
+        const scan: TireScanInput = {
+            position: 'FL',
+            bucket: 'HEALTHY',
+            depthRange: { min: 6, max: 8 },
+            depth32nds: 7,
+            uncertainty32nds: 1,
+            confidence: 0.8,
+            imageQuality: { blur: 1, brightness: 1, contrast: 1, overall: 1, acceptable: true },
+            wearPattern: {
+                pattern: 'center',
+                severity: 'moderate',
+                bandSignals: { inner: 0.6, center: 0.3, outer: 0.6 },
+                evenWear: false,
+                likelyCauses: [],
+            },
+        };
+        const analysis = buildAnalysis(scan, { milesPerYear: 12000, climate: 'neutral' });
+        const explanation = await generateExplanation(analysis);
+        expect(explanation.keyInsights[0]).toMatch(/^Center wear detected \(moderate\) — over-inflation/);
+    });
+});
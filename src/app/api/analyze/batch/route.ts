@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTreadEstimator, hasTreadEstimator, resolveEstimatorName } from '@/lib/estimatorRegistry';
+import { decodeImage, decodeBase64Image } from '@/lib/imageDecode';
+import { analyzeBatchImage, batchFailure, batchToCsv, summarizeBatch } from '@/lib/batchAnalysis';
+import { MAX_BATCH_IMAGES } from '@/lib/constants';
+import { distanceFromUnits, isUnitSystem } from '@/lib/units';
+import type { BatchResultRow } from '@/types';
+
+/**
+ * POST /api/analyze/batch
+ *
+ * Analyzes many tread photos in one request and returns a report row per
+ * image (bucket, depth, score, risk, dates, image quality).
+ *
+ * Multipart: every file field is an image, named by its file name. JSON:
+ * `{ images: [{ name, image }] }` with base64 or data-URL images. Either way
+ * `milesPerYear`, `zip` and `estimator` apply to all images, and
+ * `format=csv` (field or query) returns CSV instead of JSON.
+ *
+ * `units=metric` adds depths in mm to each row (and puts them in the CSV in
+ * place of 32nds); `kmPerYear` can stand in for `milesPerYear`.
+ *
+ * An image that can't be decoded gets an error row; the rest still run.
+ */
+export async function POST(request: NextRequest) {
+    let images: { name: string; image: string | Blob }[];
+    let fields: Record<string, unknown>;
+    try {
+        ({ images, fields } = await readBatch(request));
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid request body' },
+            { status: 400 }
+        );
+    }
+
+    if (images.length === 0) {
+        return NextResponse.json(
+            { error: 'At least one image is required' },
+            { status: 400 }
+        );
+    }
+    if (images.length > MAX_BATCH_IMAGES) {
+        return NextResponse.json(
+            { error: `At most ${MAX_BATCH_IMAGES} images per batch` },
+            { status: 400 }
+        );
+    }
+
+    const estimator = typeof fields.estimator === 'string' ? fields.estimator : undefined;
+    if (estimator != null && !hasTreadEstimator(estimator)) {
+        return NextResponse.json(
+            { error: `Unknown tread estimator: ${estimator}` },
+            { status: 400 }
+        );
+    }
+
+    const units = fields.units ?? 'imperial';
+    if (!isUnitSystem(units)) {
+        return NextResponse.json(
+            { error: `Invalid units: ${units}` },
+            { status: 400 }
+        );
+    }
+
+    const kmPerYear = fields.milesPerYear == null ? fields.kmPerYear : undefined;
+    const milesPerYear = kmPerYear != null
+        ? distanceFromUnits(Number(kmPerYear), 'metric')
+        : Number(fields.milesPerYear ?? 12000);
+    if (!Number.isFinite(milesPerYear) || milesPerYear <= 0) {
+        return NextResponse.json(
+            { error: kmPerYear != null ? 'Invalid kmPerYear' : 'Invalid milesPerYear' },
+            { status: 400 }
+        );
+    }
+
+    const options = {
+        estimator: getTreadEstimator(resolveEstimatorName(estimator)),
+        milesPerYear,
+        zip: typeof fields.zip === 'string' ? fields.zip : undefined,
+        units,
+    };
+
+    const rows: BatchResultRow[] = [];
+    for (const { name, image } of images) {
+        try {
+            const imageData = typeof image === 'string'
+                ? await decodeBase64Image(image)
+                : await decodeImage(Buffer.from(await image.arrayBuffer()));
+            rows.push(await analyzeBatchImage(name, imageData, options));
+        } catch (error) {
+            rows.push(batchFailure(name, error));
+        }
+    }
+
+    const format = request.nextUrl.searchParams.get('format') ?? fields.format;
+    if (format === 'csv') {
+        return new NextResponse(batchToCsv(rows, units), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': 'attachment; filename="treadsight-batch.csv"',
+            },
+        });
+    }
+
+    return NextResponse.json({ results: rows, summary: summarizeBatch(rows) });
+}
+
+async function readBatch(request: NextRequest) {
+    const contentType = request.headers.get('content-type') ?? '';
+
+    if (contentType.startsWith('multipart/form-data')) {
+        const form = await request.formData();
+        const images: { name: string; image: Blob }[] = [];
+        const fields: Record<string, unknown> = {};
+        for (const [key, value] of form.entries()) {
+            if (value instanceof Blob) {
+                images.push({ name: value instanceof File && value.name ? value.name : key, image: value });
+            } else {
+                fields[key] = value;
+            }
+        }
+        return { images, fields };
+    }
+
+    const { images = [], ...fields } = await request.json() as { images?: { name?: string; image: string }[] };
+    return {
+        images: images.map((entry, i) => ({ name: entry.name ?? `image-${i + 1}`, image: entry.image })),
+        fields: fields as Record<string, unknown>,
+    };
+}
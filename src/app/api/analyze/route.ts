@@ -1,81 +1,221 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { predictWearTimeline } from '@/lib/wearModel';
-import { computeHealthScore } from '@/lib/healthScore';
-import { TREAD_BUCKETS, BUCKET_ORDER } from '@/lib/constants';
-import type { TreadBucket, DepthRange, TreadEstimate, ImageQuality, WearPredictionInput } from '@/types';
+import { computeVehicleRollup } from '@/lib/vehicleRollup';
+import { loadScanHistory, saveScan } from '@/lib/scanStore';
+import { getTreadEstimator, hasTreadEstimator, resolveEstimatorName } from '@/lib/estimatorRegistry';
+import { parseDotCode } from '@/lib/dotCode';
+import { analyzeTreadFrames, toScanInput } from '@/lib/imageAnalysis';
+import { buildAnalysis, resolveScanDepth, serializeAnalysis, type AnalysisContext } from '@/lib/tireAnalysis';
+import { decodeImage, decodeBase64Image } from '@/lib/imageDecode';
+import { resolveClimate } from '@/lib/climate';
+import { isJurisdictionCode, resolveJurisdiction } from '@/lib/jurisdiction';
+import { depthFromUnits, distanceFromUnits, isUnitSystem } from '@/lib/units';
+import { validateTireProfile, validateVehicleProfile } from '@/lib/tireProfile';
+import { isTreadRegion } from '@/lib/treadRegion';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    BUCKET_ORDER,
+    MAX_SCAN_FRAMES,
+    TIRE_POSITIONS,
+    MAX_CALIBRATED_DEPTH,
+    MAX_TREAD_DEPTH,
+    REFERENCE_COINS,
+    TIRE_CATEGORIES,
+    UTQG_TREADWEAR_RANGE,
+} from '@/lib/constants';
+import type {
+    AnalysisResult,
+    CalibrationMethod,
+    GrooveProfile,
+    ScanRecord,
+    TireScanInput,
+    TireCategory,
+    TirePosition,
+    TireProfile,
+    UnitSystem,
+    VehicleProfile,
+    WearPattern,
+} from '@/types';
 
 /**
  * POST /api/analyze
  *
  * Accepts image analysis data and returns full tire analysis.
- * The actual image analysis (tread estimation) happens client-side via canvas.
- * This endpoint takes the client-side estimation and runs wear prediction + scoring.
+ * The scan page estimates tread client-side via canvas and posts the result;
+ * this endpoint runs wear prediction + scoring on it.
+ *
+ * Integrations can instead post the photo itself — an `image` (base64 or data
+ * URL) in JSON, or a multipart upload — and the server decodes and analyzes
+ * it with the same pipeline, ignoring any client-supplied estimates. Options:
+ * `estimator`, `calibrationMethod` and `gaugeReading32nds`. Several photos of
+ * the same tire (`images` in JSON, or repeated `image` parts) are checked for
+ * quality, estimated one by one and fused; the per-frame results come back
+ * as `frameFusion`. The tread band is found automatically (`treadRegion` in
+ * the response); send a `treadRegion` to use your own crop instead.
+ *
+ * Wear bars seen flush across the grooves (`wearBars` in the response) force
+ * the tire to CRITICAL / Replace Now, whatever the depth estimate says.
+ *
+ * For a vehicle scan, post `tires: TireScanInput[]` instead of a single
+ * bucket/depthRange; the response is then a `VehicleAnalysisResult`.
+ *
+ * With `vehicleId` + `odometerMiles`, each scan is saved to the local history
+ * store and, once a tire has enough history, its wear rate is fitted from the
+ * observed depth loss instead of the default.
+ *
+ * An optional `wearPattern` (from `detectWearPattern`) marks uneven wear,
+ * which lowers the health score.
+ *
+ * An optional `dotCode` (the sidewall WWYY date code, read by OCR or typed)
+ * gives the tire's age, which feeds the health score and flags tires over
+ * six years old.
+ *
+ * Optional `tireCategory` and UTQG `treadwear` pick the wear curve. Sent at
+ * the top level they apply to every tire in a vehicle scan.
+ *
+ * A `tireProfile` (size, brand/model, UTQG grades, new tread depth, season
+ * type) supersedes those two fields and sets the tire's new depth; a
+ * `vehicleProfile` (make/model/year, drivetrain, curb weight) adjusts the
+ * wear rate. In multipart bodies both are JSON strings.
+ *
+ * An optional `jurisdiction` (e.g. `UK`, `AT`, `CA-QC`) sets the legal
+ * minimum and winter-tire rules; without it the region follows `zip`.
+ *
+ * Metric clients can send `kmPerYear`, `odometerKm` and `gaugeReadingMm`
+ * instead of the imperial fields. With `units: 'metric'` each analysis also
+ * carries its headline numbers in mm and km (`measurements`); the other
+ * fields stay in 32nds and miles.
  */
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
+        let body: Record<string, unknown>;
+        try {
+            body = await readBody(request);
+        } catch {
+            return NextResponse.json(
+                { error: 'Invalid request body' },
+                { status: 400 }
+            );
+        }
+
+        const invalidField = [body, ...(Array.isArray(body.tires) ? body.tires : [])]
+            .map(invalidNumericField)
+            .find(field => field != null);
+        if (invalidField) {
+            return NextResponse.json({ error: `Invalid ${invalidField}` }, { status: 400 });
+        }
 
         const {
-            bucket,
-            depthRange,
-            confidence,
-            imageQuality,
+            tires,
             milesPerYear = 12000,
             zip,
+            vehicleId,
+            odometerMiles,
+            tireCategory,
+            treadwear,
+            tireProfile,
+            vehicleProfile,
+            jurisdiction,
+            units,
         } = body as {
-            bucket: TreadBucket;
-            depthRange: DepthRange;
-            confidence: number;
-            imageQuality: ImageQuality;
+            tires?: RawScan[];
             milesPerYear?: number;
             zip?: string;
+            vehicleId?: string;
+            odometerMiles?: number;
+            tireCategory?: TireCategory;
+            treadwear?: number;
+            tireProfile?: TireProfile;
+            vehicleProfile?: VehicleProfile;
+            jurisdiction?: string;
+            units?: UnitSystem;
         };
 
-        // Validate bucket
-        if (!BUCKET_ORDER.includes(bucket)) {
-            return NextResponse.json(
-                { error: 'Invalid tread bucket' },
-                { status: 400 }
-            );
+        const invalidVehicle = vehicleProfile != null ? validateVehicleProfile(vehicleProfile) : null;
+        if (invalidVehicle) {
+            return NextResponse.json({ error: invalidVehicle }, { status: 400 });
+        }
+
+        if (jurisdiction != null && jurisdiction !== '' && !isJurisdictionCode(jurisdiction)) {
+            return NextResponse.json({ error: `Unknown jurisdiction: ${jurisdiction}` }, { status: 400 });
+        }
+
+        if (units != null && !isUnitSystem(units)) {
+            return NextResponse.json({ error: `Invalid units: ${units}` }, { status: 400 });
         }
 
-        // Determine climate from ZIP (simplified for MVP)
-        const climate = zipToClimate(zip);
+        // Climate normals for the US ZIP, Canadian or UK postal code
+        const { climate, climateNormals } = resolveClimate(zip);
 
-        // Run wear prediction
-        const wearInput: WearPredictionInput = {
-            depthRange,
+        // History is only tracked when we know which vehicle and how far it has gone
+        const trackHistory = typeof vehicleId === 'string' && vehicleId.trim() !== '' &&
+            typeof odometerMiles === 'number' && odometerMiles >= 0;
+        const context: ScanContext = {
             milesPerYear,
             climate,
-            rotation: 'normal',
-            drivingStyle: 'normal',
+            climateNormals,
+            jurisdiction: resolveJurisdiction(jurisdiction, zip),
+            vehicleProfile,
+            units,
+            history: trackHistory ? { vehicleId: vehicleId!.trim(), odometerMiles: odometerMiles! } : undefined,
         };
 
-        const wearPrediction = predictWearTimeline(wearInput);
+        if (Array.isArray(tires)) {
+            if (tires.length === 0) {
+                return NextResponse.json(
+                    { error: 'At least one tire is required' },
+                    { status: 400 }
+                );
+            }
 
-        // Compute health score
-        const healthScore = computeHealthScore(
-            wearPrediction.currentDepth32nds,
-            bucket
-        );
+            // Check every tire before any is saved to history, so a rejected
+            // request leaves nothing behind for a retry to duplicate
+            const scans: TireScanInput[] = [];
+            for (const raw of tires) {
+                const resolved = await resolveScan({ tireCategory, treadwear, tireProfile, ...raw });
+                if ('error' in resolved) {
+                    return NextResponse.json({ error: resolved.error }, { status: 400 });
+                }
+                const tire = resolved.scan;
+                const invalid = validateScan(tire);
+                if (invalid) {
+                    return NextResponse.json({ error: invalid }, { status: 400 });
+                }
+                if (scans.some(scan => scan.position === tire.position)) {
+                    return NextResponse.json(
+                        { error: `Duplicate tire position: ${tire.position}` },
+                        { status: 400 }
+                    );
+                }
+                scans.push(tire);
+            }
 
-        const treadEstimate: TreadEstimate = {
-            bucket,
-            depthRange32nds: depthRange,
-            confidence,
-        };
+            const results: Partial<Record<TirePosition, AnalysisResult>> = {};
+            for (const tire of scans) {
+                results[tire.position] = await analyzeTire(tire, context);
+            }
+
+            const rollup = computeVehicleRollup(results);
+            const serializedTires: Partial<Record<TirePosition, ReturnType<typeof serializeAnalysis>>> = {};
+            for (const [position, analysis] of Object.entries(results) as [TirePosition, AnalysisResult][]) {
+                serializedTires[position] = serializeAnalysis(analysis);
+            }
+
+            return NextResponse.json({ tires: serializedTires, rollup });
+        }
+
+        const resolved = await resolveScan({ ...(body as RawScan), position: (body.position as TirePosition) ?? 'FL' });
+        if ('error' in resolved) {
+            return NextResponse.json({ error: resolved.error }, { status: 400 });
+        }
+
+        const invalid = validateScan(resolved.scan);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
+        const analysis = await analyzeTire(resolved.scan, context);
 
-        return NextResponse.json({
-            treadEstimate,
-            wearPrediction: {
-                ...wearPrediction,
-                wetTractionDropDate: wearPrediction.wetTractionDropDate.toISOString(),
-                legalMinimumDate: wearPrediction.legalMinimumDate.toISOString(),
-                tireDeadDate: wearPrediction.tireDeadDate.toISOString(),
-            },
-            healthScore,
-            imageQuality,
-        });
+        return NextResponse.json(serializeAnalysis(analysis));
     } catch (error) {
         console.error('Analysis error:', error);
         return NextResponse.json(
@@ -85,23 +225,316 @@ export async function POST(request: NextRequest) {
     }
 }
 
-function zipToClimate(zip?: string): 'cold' | 'moderate' | 'hot' | 'neutral' {
-    if (!zip) return 'neutral';
-
-    const prefix = parseInt(zip.substring(0, 3), 10);
-    if (isNaN(prefix)) return 'neutral';
-
-    // Very rough US ZIP-based climate mapping
-    if (prefix >= 0 && prefix <= 99) return 'cold';       // Northeast
-    if (prefix >= 100 && prefix <= 199) return 'cold';     // NY area
-    if (prefix >= 200 && prefix <= 299) return 'moderate'; // Mid-Atlantic
-    if (prefix >= 300 && prefix <= 399) return 'hot';      // Southeast
-    if (prefix >= 400 && prefix <= 499) return 'moderate'; // Midwest
-    if (prefix >= 500 && prefix <= 599) return 'cold';     // Upper Midwest
-    if (prefix >= 600 && prefix <= 699) return 'moderate'; // Central
-    if (prefix >= 700 && prefix <= 799) return 'hot';      // South/TX
-    if (prefix >= 800 && prefix <= 899) return 'moderate'; // Mountain
-    if (prefix >= 900 && prefix <= 999) return 'hot';      // West Coast/SW
-
-    return 'neutral';
+const CALIBRATION_METHODS: CalibrationMethod[] = ['penny', 'quarter', 'gauge'];
+const WEAR_PATTERNS: WearPattern[] = ['even', 'center', 'both-shoulders', 'inner-shoulder', 'outer-shoulder', 'cupping'];
+
+// Multipart fields that arrive as strings but are numbers in JSON
+const NUMERIC_FIELDS = ['milesPerYear', 'odometerMiles', 'gaugeReading32nds', 'treadwear', 'kmPerYear', 'odometerKm', 'gaugeReadingMm'];
+// Of those, the ones that must be above zero rather than at least zero
+const POSITIVE_FIELDS = ['milesPerYear', 'kmPerYear', 'treadwear'];
+// Multipart fields that arrive as JSON strings
+const JSON_FIELDS = ['tireProfile', 'vehicleProfile', 'treadRegion'];
+
+/**
+ * A scan as posted: either client-side estimates (TireScanInput) or an
+ * `image` for the server to analyze, plus the options that analysis needs.
+ */
+type RawScan = Partial<TireScanInput> & {
+    image?: string | Blob;
+    images?: (string | Blob)[];
+    calibrationMethod?: CalibrationMethod;
+    gaugeReading32nds?: number;
+};
+
+interface ScanContext extends AnalysisContext {
+    history?: { vehicleId: string; odometerMiles: number };
+}
+
+/**
+ * Parse a JSON or multipart body into one shape. In multipart, `image` is the
+ * single-tire photo (repeat it for several frames) and files named by
+ * position (`FL`, `FR`, …) make a vehicle scan; every other field applies to
+ * the whole request.
+ */
+async function readBody(request: NextRequest): Promise<Record<string, unknown>> {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.startsWith('multipart/form-data')) {
+        const body = await request.json();
+        if (Array.isArray(body.tires)) body.tires = body.tires.map(withMetricInputs);
+        return withMetricInputs(body);
+    }
+
+    const form = await request.formData();
+    const body: Record<string, unknown> = {};
+    const tires: RawScan[] = [];
+    const images: Blob[] = [];
+
+    for (const [key, value] of form.entries()) {
+        if (key === 'image' && value instanceof Blob) {
+            images.push(value);
+        } else if (TIRE_POSITIONS.includes(key as TirePosition) && value instanceof Blob) {
+            tires.push({ position: key as TirePosition, image: value });
+        } else if (NUMERIC_FIELDS.includes(key) && typeof value === 'string') {
+            body[key] = parseFloat(value);
+        } else if (JSON_FIELDS.includes(key) && typeof value === 'string') {
+            body[key] = JSON.parse(value);
+        } else {
+            body[key] = value;
+        }
+    }
+
+    if (images.length === 1) body.image = images[0];
+    else if (images.length > 1) body.images = images;
+
+    const converted = withMetricInputs(body);
+    if (tires.length > 0) {
+        // Request-wide options apply to each tire
+        const { estimator, calibrationMethod, gaugeReading32nds } = converted as RawScan;
+        converted.tires = tires.map(tire => ({ ...tire, estimator, calibrationMethod, gaugeReading32nds }));
+    }
+    return converted;
+}
+
+/**
+ * Fill the imperial fields from their metric alternatives. When both are
+ * sent, the imperial one wins.
+ */
+function withMetricInputs(fields: Record<string, unknown>): Record<string, unknown> {
+    const converted = { ...fields };
+    // A bad metric value is left for `invalidNumericField` to report by its own name
+    if (isFiniteNumber(fields.kmPerYear) && fields.milesPerYear == null) {
+        converted.milesPerYear = Math.round(distanceFromUnits(fields.kmPerYear, 'metric'));
+    }
+    if (isFiniteNumber(fields.odometerKm) && fields.odometerMiles == null) {
+        converted.odometerMiles = Math.round(distanceFromUnits(fields.odometerKm, 'metric'));
+    }
+    if (isFiniteNumber(fields.gaugeReadingMm) && fields.gaugeReading32nds == null) {
+        converted.gaugeReading32nds = Math.round(depthFromUnits(fields.gaugeReadingMm, 'metric') * 10) / 10;
+    }
+    return converted;
+}
+
+/**
+ * Turn a posted scan into a TireScanInput. When an image is included it is
+ * decoded and analyzed here, and any client-supplied estimates are ignored.
+ */
+async function resolveScan(raw: RawScan): Promise<{ scan: TireScanInput } | { error: string }> {
+    const {
+        image,
+        images,
+        position,
+        estimator,
+        calibrationMethod,
+        gaugeReading32nds,
+        dotCode,
+        dotCodeSource,
+        tireCategory,
+        treadwear,
+        tireProfile,
+        treadRegion,
+    } = raw;
+    const photos = Array.isArray(images) ? images : image != null ? [image] : [];
+    if (photos.length === 0) {
+        return { scan: raw as TireScanInput };
+    }
+    if (photos.length > MAX_SCAN_FRAMES) {
+        return { error: `At most ${MAX_SCAN_FRAMES} images per tire` };
+    }
+
+    if (estimator != null && !hasTreadEstimator(estimator)) {
+        return { error: `Unknown tread estimator: ${estimator}` };
+    }
+    if (calibrationMethod != null && !CALIBRATION_METHODS.includes(calibrationMethod)) {
+        return { error: `Invalid calibration method: ${calibrationMethod}` };
+    }
+    if (calibrationMethod === 'gauge' && !isValidDepth(gaugeReading32nds ?? NaN, MAX_CALIBRATED_DEPTH)) {
+        return { error: 'Gauge calibration needs gaugeReading32nds' };
+    }
+    if (treadRegion != null && !isTreadRegion(treadRegion)) {
+        return { error: 'Invalid tread region' };
+    }
+
+    const frames: ImageData[] = [];
+    for (const photo of photos) {
+        try {
+            frames.push(typeof photo === 'string'
+                ? await decodeBase64Image(photo)
+                : await decodeImage(Buffer.from(await photo.arrayBuffer())));
+        } catch (error) {
+            return { error: `Could not decode image: ${error instanceof Error ? error.message : 'unknown error'}` };
+        }
+    }
+
+    const analysis = await analyzeTreadFrames(frames, {
+        estimator: getTreadEstimator(resolveEstimatorName(estimator)),
+        calibration: calibrationMethod,
+        gaugeReading32nds,
+        treadRegion,
+        metadata: {
+            source: 'server',
+            fileName: photos[0] instanceof File ? photos[0].name : undefined,
+        },
+    });
+    if (analysis.calibrationFailed && calibrationMethod && calibrationMethod !== 'gauge') {
+        return { error: `Could not find the ${REFERENCE_COINS[calibrationMethod].label.toLowerCase()} in the image` };
+    }
+
+    return {
+        scan: { ...toScanInput(analysis, position as TirePosition), dotCode, dotCodeSource, tireCategory, treadwear, tireProfile },
+    };
+}
+
+/**
+ * Returns an error message for an invalid scan, or null.
+ */
+function validateScan(scan: TireScanInput): string | null {
+    if (!TIRE_POSITIONS.includes(scan.position)) {
+        return `Invalid tire position: ${scan.position}`;
+    }
+    if (!BUCKET_ORDER.includes(scan.bucket)) {
+        return 'Invalid tread bucket';
+    }
+    // Calibrated depths are absolute; uncalibrated ones are on the estimator's scale
+    const maxDepth = scan.calibration ? MAX_CALIBRATED_DEPTH : MAX_TREAD_DEPTH;
+    if (!isValidDepth(scan.depth32nds, maxDepth)) {
+        return 'Invalid tread depth';
+    }
+    if (!isValidDepth(scan.uncertainty32nds, maxDepth)) {
+        return 'Invalid depth uncertainty';
+    }
+    // The range stands in for whichever of depth and uncertainty is missing
+    const needsRange = scan.depth32nds == null || scan.uncertainty32nds == null;
+    if ((needsRange || scan.depthRange != null) && !isValidDepthRange(scan.depthRange, maxDepth)) {
+        return 'Invalid depth range';
+    }
+    if (scan.calibration != null && !CALIBRATION_METHODS.includes(scan.calibration.method)) {
+        return `Invalid calibration method: ${scan.calibration.method}`;
+    }
+    if (scan.estimator != null && !hasTreadEstimator(scan.estimator)) {
+        return `Unknown tread estimator: ${scan.estimator}`;
+    }
+    if (scan.wearPattern != null && !WEAR_PATTERNS.includes(scan.wearPattern.pattern)) {
+        return `Invalid wear pattern: ${scan.wearPattern.pattern}`;
+    }
+    if (scan.wearPattern != null && !isStringArray(scan.wearPattern.likelyCauses)) {
+        return 'Invalid wear pattern causes';
+    }
+    if (scan.frameFusion != null && !Array.isArray(scan.frameFusion.frames)) {
+        return 'Invalid frame details';
+    }
+    if (scan.treadRegion != null && !isTreadRegion(scan.treadRegion)) {
+        return 'Invalid tread region';
+    }
+    if (scan.grooveProfile != null && !isValidGrooveProfile(scan.grooveProfile)) {
+        return 'Invalid groove profile';
+    }
+    if (scan.wearBars != null && !(Array.isArray(scan.wearBars.rows) && typeof scan.wearBars.flush === 'boolean')) {
+        return 'Invalid wear bars';
+    }
+    if (!isValidDotCode(scan.dotCode)) {
+        return `Invalid DOT date code: ${scan.dotCode}`;
+    }
+    if (scan.tireCategory != null && !Object.hasOwn(TIRE_CATEGORIES, scan.tireCategory)) {
+        return `Invalid tire category: ${scan.tireCategory}`;
+    }
+    if (!isValidTreadwear(scan.treadwear)) {
+        return `Invalid UTQG treadwear: ${scan.treadwear}`;
+    }
+    if (scan.tireProfile != null) {
+        return validateTireProfile(scan.tireProfile);
+    }
+    return null;
+}
+
+async function analyzeTire(
+    scan: TireScanInput,
+    context: ScanContext
+): Promise<AnalysisResult> {
+    const { history, ...analysisContext } = context;
+
+    // Build this tire's history, including the scan being analyzed
+    let records: ScanRecord[] | undefined;
+    if (history) {
+        const { depth32nds, bucket } = resolveScanDepth(scan);
+        const record: ScanRecord = {
+            id: uuidv4(),
+            vehicleId: history.vehicleId,
+            position: scan.position,
+            scannedAt: new Date().toISOString(),
+            odometerMiles: history.odometerMiles,
+            depth32nds,
+            bucket,
+            dotCode: scan.dotCode || undefined,
+            evenWear: scan.wearPattern?.evenWear,
+        };
+        try {
+            records = [...await loadScanHistory(history.vehicleId, scan.position), record];
+            await saveScan(record);
+        } catch (error) {
+            // History is a nice-to-have — never fail the analysis over it
+            console.error('Scan history unavailable:', error);
+            records = records ?? [record];
+        }
+    }
+
+    return buildAnalysis(scan, analysisContext, records);
+}
+
+/**
+ * The first numeric field that isn't a usable number (say, `milesPerYear=abc`
+ * in a multipart body), or null.
+ */
+function invalidNumericField(fields: unknown): string | null {
+    if (typeof fields !== 'object' || fields == null) return null;
+    for (const key of NUMERIC_FIELDS) {
+        const value = (fields as Record<string, unknown>)[key];
+        if (value == null) continue;
+        if (!isFiniteNumber(value) || value < 0 || (value === 0 && POSITIVE_FIELDS.includes(key))) {
+            return key;
+        }
+    }
+    return null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidDepth(depth32nds: unknown, maxDepth32nds: number = MAX_TREAD_DEPTH): boolean {
+    if (depth32nds == null) return true;
+    return typeof depth32nds === 'number' && Number.isFinite(depth32nds) &&
+        depth32nds >= 0 && depth32nds <= maxDepth32nds;
+}
+
+function isValidDepthRange(range: unknown, maxDepth32nds: number): boolean {
+    if (typeof range !== 'object' || range == null) return false;
+    const { min, max } = range as Record<string, unknown>;
+    return isFiniteNumber(min) && isFiniteNumber(max) &&
+        min >= 0 && min <= max && max <= maxDepth32nds;
+}
+
+// Every wear bar has to point at one of the profile's grooves
+function isValidGrooveProfile(profile: GrooveProfile): boolean {
+    const { grooves, wearBars } = profile;
+    if (!Array.isArray(grooves) || !Array.isArray(wearBars)) return false;
+    return wearBars.every(bar =>
+        typeof bar === 'object' && bar != null &&
+        Number.isInteger(bar.groove) && bar.groove >= 0 && bar.groove < grooves.length &&
+        isFiniteNumber(bar.position) && typeof bar.flush === 'boolean'
+    );
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isValidTreadwear(treadwear: unknown): boolean {
+    if (treadwear == null) return true;
+    return typeof treadwear === 'number' && Number.isFinite(treadwear) &&
+        treadwear >= UTQG_TREADWEAR_RANGE.min && treadwear <= UTQG_TREADWEAR_RANGE.max;
+}
+
+function isValidDotCode(dotCode: unknown): boolean {
+    if (dotCode == null || dotCode === '') return true;
+    return typeof dotCode === 'string' && parseDotCode(dotCode) != null;
 }
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateExplanation } from '@/lib/llmClient';
+import { reviveWearPrediction } from '@/lib/tireAnalysis';
+import { isUnitSystem } from '@/lib/units';
 import type { AnalysisResult, WeatherMode } from '@/types';
 
 /**
@@ -7,6 +9,7 @@ import type { AnalysisResult, WeatherMode } from '@/types';
  *
  * Generates an AI explanation for the tire analysis results.
  * Falls back to template-based explanation if OpenAI key is not configured.
+ * An optional `units` (`imperial` or `metric`) sets the units of the text.
  */
 export async function POST(request: NextRequest) {
     try {
@@ -15,9 +18,11 @@ export async function POST(request: NextRequest) {
         const {
             analysis,
             weatherMode = 'dry',
+            units,
         } = body as {
             analysis: AnalysisResult;
             weatherMode?: WeatherMode;
+            units?: string;
         };
 
         if (!analysis || !analysis.treadEstimate || !analysis.wearPrediction || !analysis.healthScore) {
@@ -27,18 +32,20 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (units != null && !isUnitSystem(units)) {
+            return NextResponse.json(
+                { error: `Invalid units: ${units}` },
+                { status: 400 }
+            );
+        }
+
         // Reconstruct dates from ISO strings
         const analysisWithDates: AnalysisResult = {
             ...analysis,
-            wearPrediction: {
-                ...analysis.wearPrediction,
-                wetTractionDropDate: new Date(analysis.wearPrediction.wetTractionDropDate),
-                legalMinimumDate: new Date(analysis.wearPrediction.legalMinimumDate),
-                tireDeadDate: new Date(analysis.wearPrediction.tireDeadDate),
-            },
+            wearPrediction: reviveWearPrediction({ ...analysis.wearPrediction }),
         };
 
-        const explanation = await generateExplanation(analysisWithDates, weatherMode);
+        const explanation = await generateExplanation(analysisWithDates, weatherMode, units);
 
         return NextResponse.json(explanation);
     } catch (error) {
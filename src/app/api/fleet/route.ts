@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadAllScans, loadVehicles } from '@/lib/scanStore';
+import { buildFleetOverview, forecastReplacements } from '@/lib/fleet';
+import { FLEET_FORECAST_MONTHS, MAX_FLEET_FORECAST_MONTHS } from '@/lib/constants';
+
+/**
+ * GET /api/fleet[?months=12]
+ *
+ * Every vehicle's tires at their latest scan (health score + wear
+ * prediction), vehicles sorted by the soonest legal-minimum date, and a
+ * month-by-month replacement forecast with sizes and spend.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const monthsParam = request.nextUrl.searchParams.get('months');
+        const months = monthsParam == null ? FLEET_FORECAST_MONTHS : Number(monthsParam);
+        if (!Number.isInteger(months) || months < 1 || months > MAX_FLEET_FORECAST_MONTHS) {
+            return NextResponse.json(
+                { error: `months must be a whole number from 1 to ${MAX_FLEET_FORECAST_MONTHS}` },
+                { status: 400 }
+            );
+        }
+
+        const [vehicles, scans] = await Promise.all([loadVehicles(), loadAllScans()]);
+        const now = new Date();
+        const fleet = buildFleetOverview(vehicles, scans, now);
+
+        return NextResponse.json({ vehicles: fleet, forecast: forecastReplacements(fleet, months, now) });
+    } catch (error) {
+        console.error('Fleet lookup error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load fleet' },
+            { status: 500 }
+        );
+    }
+}
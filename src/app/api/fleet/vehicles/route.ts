@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteVehicle, loadVehicles, saveVehicle } from '@/lib/scanStore';
+import { DEFAULT_MILES_PER_YEAR } from '@/lib/constants';
+import type { FleetVehicle } from '@/types';
+
+/**
+ * GET /api/fleet/vehicles — registered fleet vehicles.
+ */
+export async function GET() {
+    try {
+        return NextResponse.json({ vehicles: await loadVehicles() });
+    } catch (error) {
+        console.error('Vehicle lookup error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load vehicles' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/fleet/vehicles
+ *
+ * Adds or updates a vehicle: `{ id, name?, milesPerYear?, zip?, tireSize?,
+ * tirePriceUsd? }`. `id` is the vehicle name used when scanning, which is
+ * how scans are matched to it.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        let body: Record<string, unknown>;
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json(
+                { error: 'Invalid request body' },
+                { status: 400 }
+            );
+        }
+
+        const id = typeof body.id === 'string' ? body.id.trim() : '';
+        if (!id) {
+            return NextResponse.json(
+                { error: 'id is required' },
+                { status: 400 }
+            );
+        }
+
+        const milesPerYear = body.milesPerYear ?? DEFAULT_MILES_PER_YEAR;
+        if (typeof milesPerYear !== 'number' || !Number.isFinite(milesPerYear) || milesPerYear <= 0) {
+            return NextResponse.json(
+                { error: 'Invalid milesPerYear' },
+                { status: 400 }
+            );
+        }
+
+        const tirePriceUsd = body.tirePriceUsd;
+        if (tirePriceUsd != null && (typeof tirePriceUsd !== 'number' || !Number.isFinite(tirePriceUsd) || tirePriceUsd < 0)) {
+            return NextResponse.json(
+                { error: 'Invalid tirePriceUsd' },
+                { status: 400 }
+            );
+        }
+
+        const vehicle: FleetVehicle = {
+            id,
+            name: optionalString(body.name) ?? id,
+            milesPerYear,
+            zip: optionalString(body.zip),
+            tireSize: optionalString(body.tireSize)?.toUpperCase(),
+            tirePriceUsd: tirePriceUsd as number | undefined,
+            updatedAt: new Date().toISOString(),
+        };
+        await saveVehicle(vehicle);
+
+        return NextResponse.json({ vehicle });
+    } catch (error) {
+        console.error('Vehicle save error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save vehicle' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/fleet/vehicles?id=… — removes the fleet entry; scans are kept.
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const id = request.nextUrl.searchParams.get('id')?.trim();
+        if (!id) {
+            return NextResponse.json(
+                { error: 'id is required' },
+                { status: 400 }
+            );
+        }
+        if (!await deleteVehicle(id)) {
+            return NextResponse.json(
+                { error: `Unknown vehicle: ${id}` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ deleted: id });
+    } catch (error) {
+        console.error('Vehicle delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete vehicle' },
+            { status: 500 }
+        );
+    }
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
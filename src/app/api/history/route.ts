@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadScanHistory, loadVehicleScans } from '@/lib/scanStore';
+import { fitWearRate } from '@/lib/wearHistory';
+import { TIRE_POSITIONS } from '@/lib/constants';
+import type { TirePosition } from '@/types';
+
+/**
+ * GET /api/history?vehicleId=…[&position=FL]
+ *
+ * Returns saved scans for a vehicle, oldest first. With a position, also
+ * returns the wear rate fitted from that tire's history (null if too little).
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = request.nextUrl;
+        const vehicleId = searchParams.get('vehicleId')?.trim();
+        const position = searchParams.get('position') as TirePosition | null;
+
+        if (!vehicleId) {
+            return NextResponse.json(
+                { error: 'vehicleId is required' },
+                { status: 400 }
+            );
+        }
+
+        if (position == null) {
+            return NextResponse.json({ scans: await loadVehicleScans(vehicleId) });
+        }
+
+        if (!TIRE_POSITIONS.includes(position)) {
+            return NextResponse.json(
+                { error: `Invalid tire position: ${position}` },
+                { status: 400 }
+            );
+        }
+
+        const scans = await loadScanHistory(vehicleId, position);
+        return NextResponse.json({ scans, fit: fitWearRate(scans) });
+    } catch (error) {
+        console.error('History lookup error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load scan history' },
+            { status: 500 }
+        );
+    }
+}
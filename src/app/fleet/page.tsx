@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Loader2, AlertCircle, Plus, Trash2 } from 'lucide-react';
+import FleetVehicleCard from '@/components/fleet/FleetVehicleCard';
+import ReplacementForecastCard from '@/components/fleet/ReplacementForecastCard';
+import UnitToggle from '@/components/UnitToggle';
+import { useUnitSystem } from '@/hooks/useUnitSystem';
+import { reviveWearPrediction } from '@/lib/tireAnalysis';
+import { convertInput, distanceFromUnits, distanceToUnits } from '@/lib/units';
+import { DEFAULT_MILES_PER_YEAR } from '@/lib/constants';
+import type { FleetVehicle, FleetVehicleStatus, ReplacementForecast, UnitSystem } from '@/types';
+
+interface VehicleDraft {
+    id: string;
+    /** Annual distance as typed, in the display unit */
+    distancePerYear: string;
+    zip: string;
+    tireSize: string;
+    tirePriceUsd: string;
+    isNew: boolean;
+}
+
+
+const INPUT_CLASS = 'w-full px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-sm text-white placeholder-[#555570] transition-colors';
+
+/**
+ * Restore Date fields on a fleet status parsed from JSON.
+ */
+function reviveStatus(status: FleetVehicleStatus): FleetVehicleStatus {
+    for (const tire of status.tires) {
+        reviveWearPrediction(tire.wearPrediction);
+    }
+    status.soonestLegalMinimumDate = status.soonestLegalMinimumDate && new Date(status.soonestLegalMinimumDate);
+    return status;
+}
+
+function emptyDraft(units: UnitSystem): VehicleDraft {
+    return {
+        id: '',
+        distancePerYear: String(Math.round(distanceToUnits(DEFAULT_MILES_PER_YEAR, units))),
+        zip: '',
+        tireSize: '',
+        tirePriceUsd: '',
+        isNew: true,
+    };
+}
+
+function draftFor(vehicle: FleetVehicle, units: UnitSystem): VehicleDraft {
+    return {
+        id: vehicle.id,
+        distancePerYear: String(Math.round(distanceToUnits(vehicle.milesPerYear, units))),
+        zip: vehicle.zip ?? '',
+        tireSize: vehicle.tireSize ?? '',
+        tirePriceUsd: vehicle.tirePriceUsd != null ? String(vehicle.tirePriceUsd) : '',
+        isNew: false,
+    };
+}
+
+export default function FleetPage() {
+    const router = useRouter();
+    const [fleet, setFleet] = useState<FleetVehicleStatus[] | null>(null);
+    const [forecast, setForecast] = useState<ReplacementForecast | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [draft, setDraft] = useState<VehicleDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [units, setUnits] = useUnitSystem();
+
+    const handleUnitsChange = useCallback((next: UnitSystem) => {
+        setDraft(prev => prev && {
+            ...prev,
+            distancePerYear: convertInput(prev.distancePerYear, 'distance', units, next),
+        });
+        setUnits(next);
+    }, [units, setUnits]);
+
+    const loadFleet = useCallback(async () => {
+        try {
+            const response = await fetch('/api/fleet');
+            if (!response.ok) throw new Error('Fleet request failed');
+            const data = await response.json() as { vehicles: FleetVehicleStatus[]; forecast: ReplacementForecast };
+            setFleet(data.vehicles.map(reviveStatus));
+            setForecast(data.forecast);
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError('Could not load the fleet. Please try again.');
+        }
+    }, []);
+
+    useEffect(() => {
+        loadFleet();
+    }, [loadFleet]);
+
+    const handleSave = useCallback(async () => {
+        if (!draft || !draft.id.trim()) return;
+        setSaving(true);
+        try {
+            const response = await fetch('/api/fleet/vehicles', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    id: draft.id.trim(),
+                    milesPerYear: Math.round(distanceFromUnits(Number(draft.distancePerYear), units)) || undefined,
+                    zip: draft.zip,
+                    tireSize: draft.tireSize,
+                    tirePriceUsd: draft.tirePriceUsd !== '' ? Number(draft.tirePriceUsd) : undefined,
+                }),
+            });
+            if (!response.ok) {
+                const { error: message } = await response.json() as { error?: string };
+                throw new Error(message ?? 'Save failed');
+            }
+            setDraft(null);
+            await loadFleet();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Save failed');
+        } finally {
+            setSaving(false);
+        }
+    }, [draft, units, loadFleet]);
+
+    const handleDelete = useCallback(async (id: string) => {
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/fleet/vehicles?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+            if (!response.ok && response.status !== 404) throw new Error('Delete failed');
+            setDraft(null);
+            await loadFleet();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Delete failed');
+        } finally {
+            setSaving(false);
+        }
+    }, [loadFleet]);
+
+    return (
+        <main className="min-h-screen flex flex-col px-4 py-6 max-w-2xl mx-auto">
+            {/* Header */}
+            <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex items-center gap-4 mb-8"
+            >
+                <button
+                    onClick={() => router.push('/')}
+                    className="p-2 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"
+                >
+                    <ArrowLeft className="w-5 h-5" />
+                </button>
+                <div className="flex-1">
+                    <h1 className="text-xl font-bold">Fleet</h1>
+                    <p className="text-sm text-[#8888a0]">Every vehicle, soonest replacement first</p>
+                </div>
+                <UnitToggle units={units} onChange={handleUnitsChange} />
+                <button
+                    onClick={() => setDraft(emptyDraft(units))}
+                    className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-sm transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    Vehicle
+                </button>
+            </motion.div>
+
+            {error && (
+                <div className="flex items-center gap-2 p-3 mb-6 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            {/* Add / edit vehicle */}
+            <AnimatePresence>
+                {draft && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="overflow-hidden mb-6"
+                    >
+                        <div className="rounded-2xl border border-cyan-500/20 bg-white/[0.02] p-5 space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                                <input
+                                    value={draft.id}
+                                    onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+                                    disabled={!draft.isNew}
+                                    placeholder="Vehicle name (as scanned)"
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    type="number"
+                                    value={draft.distancePerYear}
+                                    onChange={(e) => setDraft({ ...draft, distancePerYear: e.target.value })}
+                                    placeholder={units === 'metric' ? 'Kilometres per year' : 'Miles per year'}
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    value={draft.tireSize}
+                                    onChange={(e) => setDraft({ ...draft, tireSize: e.target.value })}
+                                    placeholder="Tire size, e.g. 225/45R17"
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    type="number"
+                                    value={draft.tirePriceUsd}
+                                    onChange={(e) => setDraft({ ...draft, tirePriceUsd: e.target.value })}
+                                    placeholder="Price per tire ($)"
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    value={draft.zip}
+                                    onChange={(e) => setDraft({ ...draft, zip: e.target.value })}
+                                    placeholder="ZIP / postal code"
+                                    maxLength={10}
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleSave}
+                                    disabled={saving || !draft.id.trim()}
+                                    className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-cyan-500 to-emerald-500 text-black text-sm font-semibold disabled:opacity-40"
+                                >
+                                    {saving ? 'Saving…' : 'Save'}
+                                </button>
+                                {!draft.isNew && (
+                                    <button
+                                        onClick={() => handleDelete(draft.id)}
+                                        disabled={saving}
+                                        className="px-3 rounded-xl bg-red-500/10 text-red-300 hover:bg-red-500/20 transition-colors"
+                                        aria-label="Remove vehicle"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setDraft(null)}
+                                    className="px-4 rounded-xl bg-white/5 hover:bg-white/10 text-sm transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {fleet == null ? (
+                !error && (
+                    <div className="flex-1 flex items-center justify-center">
+                        <Loader2 className="w-6 h-6 text-cyan-400 animate-spin" />
+                    </div>
+                )
+            ) : fleet.length === 0 ? (
+                <p className="text-sm text-[#8888a0] text-center mt-12">
+                    No vehicles yet. Add one, or scan a tire with a vehicle name and odometer reading.
+                </p>
+            ) : (
+                <div className="space-y-4">
+                    {forecast && <ReplacementForecastCard forecast={forecast} />}
+                    {fleet.map(status => (
+                        <FleetVehicleCard
+                            key={status.vehicle.id}
+                            status={status}
+                            units={units}
+                            onEdit={() => setDraft(draftFor(status.vehicle, units))}
+                        />
+                    ))}
+                </div>
+            )}
+        </main>
+    );
+}
@@ -86,6 +86,12 @@ export default function HomePage() {
               <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-cyan-500 to-emerald-500 opacity-0 group-hover:opacity-20 blur-xl transition-opacity duration-300" />
             </button>
           </Link>
+          <Link
+            href="/fleet"
+            className="block mt-4 text-center text-sm text-[#8888a0] hover:text-white transition-colors"
+          >
+            Managing several vehicles? Open the fleet view
+          </Link>
         </motion.div>
 
         {/* Quick Stats */}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, Share2, Gauge } from 'lucide-react';
@@ -14,10 +14,29 @@ import AccelerationMode from '@/components/results/AccelerationMode';
 import CTAPanel from '@/components/results/CTAPanel';
 import ConfidenceSection from '@/components/results/ConfidenceSection';
 import ExplanationCard from '@/components/results/ExplanationCard';
+import TireSelector from '@/components/results/TireSelector';
+import VehicleRollupCard from '@/components/results/VehicleRollupCard';
+import RotationPlanCard from '@/components/results/RotationPlanCard';
+import HistoryChart from '@/components/results/HistoryChart';
+import WearPatternCard from '@/components/results/WearPatternCard';
+import FrameDetailsCard from '@/components/results/FrameDetailsCard';
+import TireAgeCard from '@/components/results/TireAgeCard';
+import SeasonalRiskCalendar from '@/components/results/SeasonalRiskCalendar';
+import StoppingDistanceCard from '@/components/results/StoppingDistanceCard';
+import UnitToggle from '@/components/UnitToggle';
 import { useTimeTravelState } from '@/hooks/useTimeTravelState';
-import { getMonthlyWearRate } from '@/lib/wearModel';
+import { useUnitSystem } from '@/hooks/useUnitSystem';
+import { reviveWearPrediction } from '@/lib/tireAnalysis';
 import { RISK_COLORS, RISK_GLOW_COLORS } from '@/lib/constants';
-import type { AnalysisResult, LLMExplanation } from '@/types';
+import type { AnalysisResult, LLMExplanation, TirePosition, VehicleAnalysisResult } from '@/types';
+
+/**
+ * Restore Date fields on an analysis parsed from sessionStorage.
+ */
+function reviveAnalysis(parsed: AnalysisResult): AnalysisResult {
+    reviveWearPrediction(parsed.wearPrediction);
+    return parsed;
+}
 
 export default function ResultsPage() {
     const router = useRouter();
@@ -27,9 +46,24 @@ export default function ResultsPage() {
     const [explanationLoading, setExplanationLoading] = useState(false);
     const [mounted, setMounted] = useState(false);
 
+    // Vehicle scan (null for a single-tire scan)
+    const [vehicle, setVehicle] = useState<VehicleAnalysisResult | null>(null);
+    const [vehicleImages, setVehicleImages] = useState<Partial<Record<TirePosition, string>>>({});
+    const [selectedPosition, setSelectedPosition] = useState<TirePosition | null>(null);
+    const [units, setUnits] = useUnitSystem();
+
     const {
         state,
         totalMonths,
+        markers,
+        thresholdLabels,
+        winterRuleNote,
+        bands,
+        axleDivergence,
+        skipRotationsFactor,
+        skipRotationsImpactMonths,
+        stopping,
+        setSpeedMph,
         setT,
         weatherMode,
         setWeatherMode,
@@ -37,17 +71,33 @@ export default function ResultsPage() {
         toggleSkipRotations,
         aggressiveDriving,
         toggleAggressiveDriving,
-    } = useTimeTravelState({ analysis });
-
-    // Compute monthly wear rate for TimeTravel threshold calculation
-    const monthlyWearRate = useMemo(() => {
-        if (!analysis) return 0;
-        return getMonthlyWearRate(analysis.wearPrediction.wearRatePer1000Miles, 12000);
-    }, [analysis]);
+    } = useTimeTravelState({ analysis, units });
 
     // Load analysis from sessionStorage
     useEffect(() => {
         setMounted(true);
+        const storedVehicle = sessionStorage.getItem('treadsight_vehicle');
+        const storedVehicleImages = sessionStorage.getItem('treadsight_vehicle_images');
+
+        if (storedVehicle && storedVehicleImages) {
+            try {
+                const parsed: VehicleAnalysisResult = JSON.parse(storedVehicle);
+                for (const tire of Object.values(parsed.tires)) {
+                    if (tire) reviveAnalysis(tire);
+                }
+                const images = JSON.parse(storedVehicleImages);
+                const position = parsed.rollup.worstPosition;
+                setVehicle(parsed);
+                setVehicleImages(images);
+                setSelectedPosition(position);
+                setAnalysis(parsed.tires[position] ?? null);
+                setImageSrc(images[position] ?? '');
+            } catch {
+                router.push('/scan');
+            }
+            return;
+        }
+
         const storedAnalysis = sessionStorage.getItem('treadsight_analysis');
         const storedImage = sessionStorage.getItem('treadsight_image');
 
@@ -57,17 +107,21 @@ export default function ResultsPage() {
         }
 
         try {
-            const parsed = JSON.parse(storedAnalysis);
-            parsed.wearPrediction.wetTractionDropDate = new Date(parsed.wearPrediction.wetTractionDropDate);
-            parsed.wearPrediction.legalMinimumDate = new Date(parsed.wearPrediction.legalMinimumDate);
-            parsed.wearPrediction.tireDeadDate = new Date(parsed.wearPrediction.tireDeadDate);
-            setAnalysis(parsed);
+            setAnalysis(reviveAnalysis(JSON.parse(storedAnalysis)));
             setImageSrc(storedImage);
         } catch {
             router.push('/scan');
         }
     }, [router]);
 
+    const handleSelectTire = useCallback((position: TirePosition) => {
+        if (!vehicle?.tires[position]) return;
+        setSelectedPosition(position);
+        setAnalysis(vehicle.tires[position]!);
+        setImageSrc(vehicleImages[position] ?? '');
+        setT(0);
+    }, [vehicle, vehicleImages, setT]);
+
     // Fetch explanation
     const fetchExplanation = useCallback(async () => {
         if (!analysis) return;
@@ -76,7 +130,7 @@ export default function ResultsPage() {
             const response = await fetch('/api/explain', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ analysis, weatherMode }),
+                body: JSON.stringify({ analysis, weatherMode, units }),
             });
             if (response.ok) {
                 const data = await response.json();
@@ -87,7 +141,7 @@ export default function ResultsPage() {
         } finally {
             setExplanationLoading(false);
         }
-    }, [analysis, weatherMode]);
+    }, [analysis, weatherMode, units]);
 
     useEffect(() => {
         if (analysis) {
@@ -128,6 +182,51 @@ export default function ResultsPage() {
 
     const ambient = ambientColors[state.currentRisk] || ambientColors['Safe'];
 
+    const historyChart = analysis.history && analysis.history.length > 0 && (
+        <HistoryChart
+            history={analysis.history}
+            currentDepth={analysis.wearPrediction.currentDepth32nds}
+            wearRatePer1000Miles={analysis.wearPrediction.wearRatePer1000Miles}
+            wearCurve={analysis.wearPrediction.wearCurve}
+            wearRateSource={analysis.wearPrediction.wearRateSource}
+            units={units}
+        />
+    );
+
+    const wearPatternCard = analysis.wearPattern && (
+        <WearPatternCard wearPattern={analysis.wearPattern} />
+    );
+
+    const frameDetailsCard = analysis.frameFusion && (
+        <FrameDetailsCard frameFusion={analysis.frameFusion} units={units} />
+    );
+
+    const tireAgeCard = analysis.tireAge && <TireAgeCard tireAge={analysis.tireAge} />;
+
+    const seasonalCalendar = <SeasonalRiskCalendar wearPrediction={analysis.wearPrediction} units={units} />;
+
+    const stoppingCard = stopping && (
+        <StoppingDistanceCard
+            today={stopping.today}
+            atSlider={stopping.atSlider}
+            onSpeedChange={setSpeedMph}
+            units={units}
+        />
+    );
+
+    const vehiclePanel = vehicle && selectedPosition && (
+        <div className="space-y-4">
+            <TireSelector
+                tires={vehicle.tires}
+                selectedPosition={selectedPosition}
+                worstPosition={vehicle.rollup.worstPosition}
+                onSelect={handleSelectTire}
+            />
+            <VehicleRollupCard rollup={vehicle.rollup} units={units} />
+            <RotationPlanCard tires={vehicle.tires} units={units} />
+        </div>
+    );
+
     return (
         <motion.main
             initial={{ opacity: 0 }}
@@ -160,16 +259,19 @@ export default function ResultsPage() {
                         <Gauge className="w-4 h-4 text-cyan-400" />
                         <span className="text-sm font-semibold">TreadSight</span>
                     </div>
-                    <button
-                        onClick={() => {
-                            if (navigator.share) {
-                                navigator.share({ title: 'TreadSight Results', text: `My tire health score: ${state.currentScore}/100` });
-                            }
-                        }}
-                        className="p-2 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"
-                    >
-                        <Share2 className="w-5 h-5" />
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <UnitToggle units={units} onChange={setUnits} />
+                        <button
+                            onClick={() => {
+                                if (navigator.share) {
+                                    navigator.share({ title: 'TreadSight Results', text: `My tire health score: ${state.currentScore}/100` });
+                                }
+                            }}
+                            className="p-2 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"
+                        >
+                            <Share2 className="w-5 h-5" />
+                        </button>
+                    </div>
                 </div>
             </div>
 
@@ -185,6 +287,9 @@ export default function ResultsPage() {
 
                     {/* ── LEFT COLUMN: Tire Image + Controls ── */}
                     <div className="lg:col-span-5 space-y-5 lg:sticky lg:top-20">
+                        {/* Vehicle: tire switcher + rollup */}
+                        {vehiclePanel}
+
                         {/* Score + Risk Badge */}
                         <motion.div
                             initial={{ opacity: 0, y: 20 }}
@@ -196,6 +301,9 @@ export default function ResultsPage() {
                             <RiskBadge riskLevel={state.currentRisk} remainingMonths={totalMonths} />
                         </motion.div>
 
+                        {/* Tire age (DOT code) */}
+                        {tireAgeCard}
+
                         {/* Tire Image Viewer */}
                         <motion.div
                             initial={{ opacity: 0, scale: 0.95 }}
@@ -206,6 +314,10 @@ export default function ResultsPage() {
                                 imageSrc={imageSrc}
                                 t={state.t}
                                 unevenWear={skipRotations}
+                                wearPattern={analysis.wearPattern?.pattern}
+                                treadRegion={analysis.treadRegion}
+                                grooveProfile={analysis.grooveProfile}
+                                wearBars={analysis.wearBars}
                                 riskColor={riskColor}
                                 glowColor={glowColor}
                                 weatherMode={weatherMode}
@@ -238,8 +350,15 @@ export default function ResultsPage() {
                                 currentDate={state.currentDate}
                                 riskLevel={state.currentRisk}
                                 currentDepth={state.currentDepth}
-                                initialDepth={analysis.wearPrediction.currentDepth32nds}
-                                monthlyWearRate={monthlyWearRate}
+                                wetTractionT={markers.wetTractionT}
+                                legalMinimumT={markers.legalMinimumT}
+                                wetTractionBand={bands?.wetTraction}
+                                legalMinimumBand={bands?.legalMinimum}
+                                wetTractionLabel={thresholdLabels.wetTraction}
+                                legalMinimumLabel={thresholdLabels.legalMinimum}
+                                winterRuleNote={winterRuleNote}
+                                stopping={stopping}
+                                units={units}
                             />
                         </motion.div>
 
@@ -252,6 +371,9 @@ export default function ResultsPage() {
                             <WeatherToggle weatherMode={weatherMode} onWeatherChange={setWeatherMode} />
                         </motion.div>
 
+                        {/* Stopping Distance */}
+                        {stoppingCard}
+
                         {/* Acceleration Mode */}
                         <motion.div
                             initial={{ opacity: 0, y: 10 }}
@@ -263,6 +385,11 @@ export default function ResultsPage() {
                                 aggressiveDriving={aggressiveDriving}
                                 onToggleSkipRotations={toggleSkipRotations}
                                 onToggleAggressiveDriving={toggleAggressiveDriving}
+                                skipRotationsFactor={skipRotationsFactor}
+                                skipRotationsImpactMonths={skipRotationsImpactMonths}
+                                axleDivergence={axleDivergence}
+                                legalMinimumLabel={thresholdLabels.legalMinimum}
+                                units={units}
                             />
                         </motion.div>
 
@@ -276,8 +403,27 @@ export default function ResultsPage() {
                                 confidence={analysis.treadEstimate.confidence}
                                 bucket={analysis.treadEstimate.bucket}
                                 confidenceBand={analysis.wearPrediction.confidenceBand}
+                                legalMinimumRange={analysis.wearPrediction.dateDistribution?.legalMinimum}
+                                depth32nds={analysis.treadEstimate.depth32nds}
+                                uncertainty32nds={analysis.treadEstimate.uncertainty32nds}
+                                calibration={analysis.treadEstimate.calibration}
+                                estimator={analysis.estimator}
+                                legalMinimumLabel={thresholdLabels.legalMinimum}
+                                units={units}
                             />
                         </motion.div>
+
+                        {/* Seasonal Risk */}
+                        {seasonalCalendar}
+
+                        {/* Wear Pattern */}
+                        {wearPatternCard}
+
+                        {/* Frame Details */}
+                        {frameDetailsCard}
+
+                        {/* Scan History */}
+                        {historyChart}
                     </div>
 
                     {/* ── RIGHT COLUMN: AI Analysis ── */}
@@ -295,6 +441,9 @@ export default function ResultsPage() {
 
                 {/* ── MOBILE LAYOUT (< lg) ── */}
                 <div className="lg:hidden max-w-lg mx-auto space-y-6">
+                    {/* Vehicle: tire switcher + rollup */}
+                    {vehiclePanel}
+
                     {/* Score + Risk Badge */}
                     <motion.div
                         initial={{ opacity: 0, y: 20 }}
@@ -306,6 +455,9 @@ export default function ResultsPage() {
                         <RiskBadge riskLevel={state.currentRisk} remainingMonths={totalMonths} />
                     </motion.div>
 
+                    {/* Tire age (DOT code) */}
+                    {tireAgeCard}
+
                     {/* Tire Image Viewer */}
                     <motion.div
                         initial={{ opacity: 0, scale: 0.95 }}
@@ -316,6 +468,10 @@ export default function ResultsPage() {
                             imageSrc={imageSrc}
                             t={state.t}
                             unevenWear={skipRotations}
+                            wearPattern={analysis.wearPattern?.pattern}
+                            treadRegion={analysis.treadRegion}
+                            grooveProfile={analysis.grooveProfile}
+                            wearBars={analysis.wearBars}
                             riskColor={riskColor}
                             glowColor={glowColor}
                             weatherMode={weatherMode}
@@ -336,8 +492,15 @@ export default function ResultsPage() {
                             currentDate={state.currentDate}
                             riskLevel={state.currentRisk}
                             currentDepth={state.currentDepth}
-                            initialDepth={analysis.wearPrediction.currentDepth32nds}
-                            monthlyWearRate={monthlyWearRate}
+                            wetTractionT={markers.wetTractionT}
+                            legalMinimumT={markers.legalMinimumT}
+                            wetTractionBand={bands?.wetTraction}
+                            legalMinimumBand={bands?.legalMinimum}
+                            wetTractionLabel={thresholdLabels.wetTraction}
+                            legalMinimumLabel={thresholdLabels.legalMinimum}
+                            winterRuleNote={winterRuleNote}
+                            stopping={stopping}
+                            units={units}
                         />
                     </motion.div>
 
@@ -350,6 +513,9 @@ export default function ResultsPage() {
                         <WeatherToggle weatherMode={weatherMode} onWeatherChange={setWeatherMode} />
                     </motion.div>
 
+                    {/* Stopping Distance */}
+                    {stoppingCard}
+
                     {/* Acceleration Mode */}
                     <motion.div
                         initial={{ opacity: 0, y: 10 }}
@@ -361,6 +527,11 @@ export default function ResultsPage() {
                             aggressiveDriving={aggressiveDriving}
                             onToggleSkipRotations={toggleSkipRotations}
                             onToggleAggressiveDriving={toggleAggressiveDriving}
+                            skipRotationsFactor={skipRotationsFactor}
+                            skipRotationsImpactMonths={skipRotationsImpactMonths}
+                            axleDivergence={axleDivergence}
+                            legalMinimumLabel={thresholdLabels.legalMinimum}
+                            units={units}
                         />
                     </motion.div>
 
@@ -392,9 +563,28 @@ export default function ResultsPage() {
                             confidence={analysis.treadEstimate.confidence}
                             bucket={analysis.treadEstimate.bucket}
                             confidenceBand={analysis.wearPrediction.confidenceBand}
+                            legalMinimumRange={analysis.wearPrediction.dateDistribution?.legalMinimum}
+                            depth32nds={analysis.treadEstimate.depth32nds}
+                            uncertainty32nds={analysis.treadEstimate.uncertainty32nds}
+                            calibration={analysis.treadEstimate.calibration}
+                            estimator={analysis.estimator}
+                            legalMinimumLabel={thresholdLabels.legalMinimum}
+                            units={units}
                         />
                     </motion.div>
 
+                    {/* Seasonal Risk */}
+                    {seasonalCalendar}
+
+                    {/* Wear Pattern */}
+                    {wearPatternCard}
+
+                    {/* Frame Details */}
+                    {frameDetailsCard}
+
+                    {/* Scan History */}
+                    {historyChart}
+
                     {/* Footer */}
                     <div className="text-center py-4">
                         <p className="text-[10px] text-[#555570]">
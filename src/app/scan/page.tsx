@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 import {
@@ -15,57 +15,353 @@ import {
     RefreshCw,
     Check,
     X,
+    Car,
+    CircleDot,
+    History,
+    Ruler,
+    CalendarClock,
+    Scale,
+    Video,
+    Plus,
 } from 'lucide-react';
-import { estimateTreadBucket, assessImageQuality } from '@/lib/treadEstimator';
+import { assessImageQuality } from '@/lib/treadEstimator';
+import { getTreadEstimator, resolveEstimatorName } from '@/lib/estimatorRegistry';
+import {
+    TIRE_POSITIONS,
+    TIRE_POSITION_LABELS,
+    REFERENCE_COINS,
+    MAX_ANALYSIS_DIMENSION,
+    JURISDICTIONS,
+    DEFAULT_MILES_PER_YEAR,
+    MAX_SCAN_FRAMES,
+} from '@/lib/constants';
+import { convertInput, depthFromUnits, distanceFromUnits, distanceToUnits, distanceUnitLabel } from '@/lib/units';
+import VehicleCaptureGrid, { type TireCapture } from '@/components/scan/VehicleCaptureGrid';
+import LiveCamera from '@/components/scan/LiveCamera';
+import TreadRegionEditor from '@/components/scan/TreadRegionEditor';
+import ProfileFields, {
+    parseDraft,
+    toTireProfile,
+    toVehicleProfile,
+    type TireProfileDraft,
+    type VehicleProfileDraft,
+} from '@/components/scan/ProfileFields';
+import { analyzeTreadFrames, analyzeTreadImage } from '@/lib/imageAnalysis';
+import { cropToTreadRegion, detectTreadRegion } from '@/lib/treadRegion';
+import { parseDotCode, recognizeDotCode } from '@/lib/dotCode';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useUnitSystem } from '@/hooks/useUnitSystem';
+import UnitToggle from '@/components/UnitToggle';
+import type { CalibrationMethod, DotCodeSource, TirePosition, TreadRegion, UnitSystem } from '@/types';
+
+type ScanMode = 'single' | 'vehicle';
+
+const CALIBRATION_OPTIONS: { value: CalibrationMethod | 'none'; label: string; hint: string }[] = [
+    { value: 'none', label: 'None', hint: 'Depth is estimated from tread texture alone.' },
+    { value: 'penny', label: 'Penny', hint: 'Push a penny head-first into a main groove, then photograph it straight on.' },
+    { value: 'quarter', label: 'Quarter', hint: 'Push a quarter head-first into a main groove, then photograph it straight on.' },
+    { value: 'gauge', label: 'Gauge', hint: 'Measure a main groove with a tread depth gauge and enter the reading.' },
+];
+
+// The spare is optional; every road tire must be captured for a vehicle scan
+const REQUIRED_POSITIONS: TirePosition[] = ['FL', 'FR', 'RL', 'RR'];
+
+/**
+ * Draw an image onto the processing canvas (each side capped at MAX_ANALYSIS_DIMENSION) and return its pixels.
+ */
+function loadImageData(canvas: HTMLCanvasElement, dataUrl: string): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            canvas.width = Math.min(img.width, MAX_ANALYSIS_DIMENSION);
+            canvas.height = Math.min(img.height, MAX_ANALYSIS_DIMENSION);
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        };
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = dataUrl;
+    });
+}
+
+/**
+ * The estimator chosen via `?estimator=` (or configuration), else the default.
+ */
+function selectedEstimator() {
+    const requested = new URLSearchParams(window.location.search).get('estimator');
+    return getTreadEstimator(resolveEstimatorName(requested));
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (ev) => resolve(ev.target?.result as string);
+        reader.onerror = () => reject(new Error('Failed to read file'));
+        reader.readAsDataURL(file);
+    });
+}
 
 export default function ScanPage() {
     const router = useRouter();
     const fileInputRef = useRef<HTMLInputElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
+    // Several photos of the same tire are fused; the first is the preview
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
-    const [milesPerYear, setMilesPerYear] = useState('12000');
+    const [frames, setFrames] = useState<string[]>([]);
+    const imagePreview = frames[0] ?? null;
+    const addFramesInputRef = useRef<HTMLInputElement>(null);
+    const [liveCamera, setLiveCamera] = useState(false);
+    // Distances and depths are typed in the chosen units; the API takes miles and 32nds
+    const [units, setUnits] = useUnitSystem();
+    const [milesPerYear, setMilesPerYear] = useState('');
     const [zip, setZip] = useState('');
+    // Tire-law region; empty infers it from the postal code
+    const [jurisdiction, setJurisdiction] = useLocalStorage('treadsight_jurisdiction', '');
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [imageQualityOk, setImageQualityOk] = useState<boolean | null>(null);
+    // Whether each frame passed the quality check; null while checking
+    const [frameQuality, setFrameQuality] = useState<boolean[] | null>(null);
+    const imageQualityOk = frameQuality && frameQuality.some(Boolean);
+    // Tread band of the first frame: detected, then adjustable before analyzing
+    const [detectedRegion, setDetectedRegion] = useState<TreadRegion | null>(null);
+    const [treadRegion, setTreadRegion] = useState<TreadRegion | null>(null);
     const [error, setError] = useState<string | null>(null);
 
+    // Scan history — the vehicle name is remembered between visits
+    const [vehicleId, setVehicleId] = useLocalStorage('treadsight_vehicle_id', '');
+    const [odometer, setOdometer] = useState('');
+    const [singlePosition, setSinglePosition] = useState<TirePosition>('FL');
+
+    // Tire and vehicle profiles shape the wear curve — remembered like the vehicle name
+    const [tireProfileJson, setTireProfileJson] = useLocalStorage('treadsight_tire_profile', '{}');
+    const [vehicleProfileJson, setVehicleProfileJson] = useLocalStorage('treadsight_vehicle_profile', '{}');
+    const tireDraft = useMemo(() => parseDraft<TireProfileDraft>(tireProfileJson), [tireProfileJson]);
+    const vehicleDraft = useMemo(() => parseDraft<VehicleProfileDraft>(vehicleProfileJson), [vehicleProfileJson]);
+
+    // Optional absolute-depth calibration (single-tire scans)
+    const [calibrationMode, setCalibrationMode] = useState<CalibrationMethod | 'none'>('none');
+    const [gaugeReading, setGaugeReading] = useState('');
+
+    // Optional tire age from the sidewall DOT date code (single-tire scans)
+    const dotInputRef = useRef<HTMLInputElement>(null);
+    const [dotCode, setDotCode] = useState('');
+    const [dotCodeSource, setDotCodeSource] = useState<DotCodeSource>('manual');
+    const [dotStatus, setDotStatus] = useState<string | null>(null);
+
+    // Vehicle scan state
+    const vehicleInputRef = useRef<HTMLInputElement>(null);
+    const [scanMode, setScanMode] = useState<ScanMode>('single');
+    const [activePosition, setActivePosition] = useState<TirePosition>('FL');
+    const [captures, setCaptures] = useState<Partial<Record<TirePosition, TireCapture>>>({});
+
+    const annualMiles = useMemo(() => {
+        const distance = parseFloat(milesPerYear);
+        return distance > 0 ? Math.round(distanceFromUnits(distance, units)) : DEFAULT_MILES_PER_YEAR;
+    }, [milesPerYear, units]);
+
+    // Only sent when both are present; the server skips history otherwise
+    const historyFields = useMemo(() => {
+        const odometerDistance = parseFloat(odometer);
+        if (!vehicleId.trim() || isNaN(odometerDistance)) return {};
+        return { vehicleId: vehicleId.trim(), odometerMiles: Math.round(distanceFromUnits(odometerDistance, units)) };
+    }, [vehicleId, odometer, units]);
+
+    const tireFields = useMemo(() => ({
+        tireProfile: toTireProfile(tireDraft, units),
+        vehicleProfile: toVehicleProfile(vehicleDraft),
+    }), [tireDraft, vehicleDraft, units]);
+
+    // Switching units re-expresses what's already typed
+    const handleUnitsChange = useCallback((next: UnitSystem) => {
+        setMilesPerYear(value => convertInput(value, 'distance', units, next));
+        setOdometer(value => convertInput(value, 'distance', units, next));
+        setGaugeReading(value => convertInput(value, 'depth', units, next));
+        if (tireDraft.newTreadDepth32nds) {
+            setTireProfileJson(JSON.stringify({
+                ...tireDraft,
+                newTreadDepth32nds: convertInput(tireDraft.newTreadDepth32nds, 'depth', units, next),
+            }));
+        }
+        setUnits(next);
+    }, [units, setUnits, tireDraft, setTireProfileJson]);
+
+    // Show the photos and check each one's quality; the first stays on the processing canvas
+    const showFrames = useCallback(async (dataUrls: string[]) => {
+        setError(null);
+        setFrameQuality(null);
+        setFrames(dataUrls);
+
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const quality: boolean[] = [];
+        for (const [i, dataUrl] of dataUrls.entries()) {
+            const imageData = await loadImageData(i === 0 ? canvas : document.createElement('canvas'), dataUrl);
+            const region = detectTreadRegion(imageData);
+            if (i === 0) {
+                setDetectedRegion(region);
+                setTreadRegion(region);
+            }
+            quality.push(assessImageQuality(cropToTreadRegion(imageData, region)).acceptable);
+        }
+        setFrameQuality(quality);
+    }, []);
+
     const handleFileSelect = useCallback(
-        (e: React.ChangeEvent<HTMLInputElement>) => {
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const files = Array.from(e.target.files ?? []).slice(0, MAX_SCAN_FRAMES);
+            if (files.length === 0) return;
+
+            setImageFile(files[0]);
+            await showFrames(await Promise.all(files.map(readFileAsDataUrl)));
+        },
+        [showFrames]
+    );
+
+    // More photos of the same tire, up to MAX_SCAN_FRAMES in all
+    const handleAddFrames = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const files = Array.from(e.target.files ?? []).slice(0, MAX_SCAN_FRAMES - frames.length);
+            if (addFramesInputRef.current) addFramesInputRef.current.value = '';
+            if (files.length === 0) return;
+            await showFrames([...frames, ...await Promise.all(files.map(readFileAsDataUrl))]);
+        },
+        [frames, showFrames]
+    );
+
+    const handleCameraCapture = useCallback((burst: string[]) => {
+        setImageFile(null);
+        setLiveCamera(false);
+        showFrames(burst);
+    }, [showFrames]);
+
+    const handleVehicleFileSelect = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
             const file = e.target.files?.[0];
-            if (!file) return;
+            const canvas = canvasRef.current;
+            if (!file || !canvas) return;
 
-            setImageFile(file);
             setError(null);
-            setImageQualityOk(null);
-
-            const reader = new FileReader();
-            reader.onload = (ev) => {
-                const dataUrl = ev.target?.result as string;
-                setImagePreview(dataUrl);
-
-                // Check image quality
-                const img = new Image();
-                img.onload = () => {
-                    const canvas = canvasRef.current;
-                    if (!canvas) return;
-
-                    canvas.width = Math.min(img.width, 640);
-                    canvas.height = Math.min(img.height, 640);
-                    const ctx = canvas.getContext('2d')!;
-                    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-                    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                    const quality = assessImageQuality(imageData);
-                    setImageQualityOk(quality.acceptable);
+            const position = activePosition;
+
+            try {
+                const dataUrl = await readFileAsDataUrl(file);
+                const imageData = await loadImageData(canvas, dataUrl);
+
+                // Estimate each tire as it's captured — the canvas only holds one image at a time
+                const { treadEstimate, imageQuality, wearPattern, estimator, treadRegion, grooveProfile } = await analyzeTreadImage(imageData, {
+                    estimator: selectedEstimator(),
+                    metadata: { source: 'upload', fileName: file.name },
+                });
+                const capture: TireCapture = {
+                    preview: dataUrl,
+                    treadEstimate,
+                    imageQuality,
+                    estimator,
+                    wearPattern,
+                    treadRegion,
+                    grooveProfile,
                 };
-                img.src = dataUrl;
-            };
-            reader.readAsDataURL(file);
+
+                setCaptures(prev => ({ ...prev, [position]: capture }));
+                // Advance to the next road tire still missing a photo
+                const nextMissing = REQUIRED_POSITIONS.find(p => p !== position && !captures[p]);
+                if (nextMissing) setActivePosition(nextMissing);
+            } catch (err) {
+                setError(`Could not read the ${TIRE_POSITION_LABELS[position].toLowerCase()} photo.`);
+                console.error(err);
+            } finally {
+                if (vehicleInputRef.current) vehicleInputRef.current.value = '';
+            }
         },
-        []
+        [activePosition, captures]
     );
 
+    const handleDotFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            // Separate canvas — the processing canvas still holds the tread photo
+            const dataUrl = await readFileAsDataUrl(file);
+            const imageData = await loadImageData(document.createElement('canvas'), dataUrl);
+            const result = recognizeDotCode(imageData);
+            if (result) {
+                setDotCode(result.code);
+                setDotCodeSource('ocr');
+                setDotStatus(`Read week ${result.week} of ${result.year} — check it matches the sidewall.`);
+            } else {
+                setDotStatus("Couldn't read the date code. Type the last four digits after \"DOT\".");
+            }
+        } catch (err) {
+            setDotStatus("Couldn't read that photo. Type the last four digits after \"DOT\".");
+            console.error(err);
+        } finally {
+            if (dotInputRef.current) dotInputRef.current.value = '';
+        }
+    }, []);
+
+    const handleSelectPosition = useCallback((position: TirePosition) => {
+        setActivePosition(position);
+        vehicleInputRef.current?.click();
+    }, []);
+
+    const handleVehicleAnalyze = useCallback(async () => {
+        setIsAnalyzing(true);
+        setError(null);
+
+        try {
+            const positions = TIRE_POSITIONS.filter(p => captures[p]);
+            const response = await fetch('/api/analyze', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    tires: positions.map(position => {
+                        const { treadEstimate, imageQuality, estimator, wearPattern, treadRegion, grooveProfile } = captures[position]!;
+                        return {
+                            position,
+                            bucket: treadEstimate.bucket,
+                            depthRange: treadEstimate.depthRange32nds,
+                            depth32nds: treadEstimate.depth32nds,
+                            uncertainty32nds: treadEstimate.uncertainty32nds,
+                            confidence: treadEstimate.confidence,
+                            imageQuality,
+                            estimator,
+                            wearPattern,
+                            treadRegion,
+                            grooveProfile,
+                        };
+                    }),
+                    milesPerYear: annualMiles,
+                    zip: zip || undefined,
+                    jurisdiction: jurisdiction || undefined,
+                    units,
+                    ...tireFields,
+                    ...historyFields,
+                }),
+            });
+
+            if (!response.ok) throw new Error('Analysis failed');
+
+            const vehicleAnalysis = await response.json();
+            const images: Partial<Record<TirePosition, string>> = {};
+            for (const position of positions) {
+                images[position] = captures[position]!.preview;
+            }
+
+            sessionStorage.removeItem('treadsight_analysis');
+            sessionStorage.removeItem('treadsight_image');
+            sessionStorage.setItem('treadsight_vehicle', JSON.stringify(vehicleAnalysis));
+            sessionStorage.setItem('treadsight_vehicle_images', JSON.stringify(images));
+
+            router.push('/results');
+        } catch (err) {
+            setError('Analysis failed. Please try again.');
+            console.error(err);
+        } finally {
+            setIsAnalyzing(false);
+        }
+    }, [captures, annualMiles, zip, jurisdiction, units, tireFields, historyFields, router]);
+
     const handleAnalyze = useCallback(async () => {
         if (!imagePreview || !canvasRef.current) return;
 
@@ -73,13 +369,39 @@ export default function ScanPage() {
         setError(null);
 
         try {
-            // Run client-side tread estimation
+            // Run client-side tread estimation; the canvas holds the first frame
             const canvas = canvasRef.current;
             const ctx = canvas.getContext('2d')!;
             const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            const frameData = [imageData];
+            for (const dataUrl of frames.slice(1)) {
+                frameData.push(await loadImageData(document.createElement('canvas'), dataUrl));
+            }
+
+            const gaugeReading32nds = depthFromUnits(parseFloat(gaugeReading), units);
+            if (calibrationMode === 'gauge' && (isNaN(gaugeReading32nds) || gaugeReading32nds < 0)) {
+                setError(`Enter your tread gauge reading in ${units === 'metric' ? 'millimetres' : '32nds of an inch'}.`);
+                return;
+            }
 
-            const treadEstimate = estimateTreadBucket(imageData);
-            const imageQuality = assessImageQuality(imageData);
+            // Same pipeline the server runs on uploaded images, including frame and calibration fusion
+            const imageAnalysis = await analyzeTreadFrames(frameData, {
+                estimator: selectedEstimator(),
+                calibration: calibrationMode === 'none' ? undefined : calibrationMode,
+                gaugeReading32nds,
+                metadata: imageFile ? { source: 'upload', fileName: imageFile.name } : { source: 'camera' },
+                treadRegion: treadRegion ?? undefined,
+            });
+            const { treadEstimate, imageQuality, wearPattern, estimator, calibrationFailed, frameFusion } = imageAnalysis;
+            if (calibrationFailed && calibrationMode !== 'none' && calibrationMode !== 'gauge') {
+                setError(`We couldn't find the ${REFERENCE_COINS[calibrationMode].label.toLowerCase()} in your photo. Retake it or turn calibration off.`);
+                return;
+            }
+
+            if (dotCode.trim() && !parseDotCode(dotCode)) {
+                setError('That DOT date code isn\'t valid — enter the week and year as four digits, e.g. 4419.');
+                return;
+            }
 
             // Call server for full analysis
             const response = await fetch('/api/analyze', {
@@ -88,10 +410,26 @@ export default function ScanPage() {
                 body: JSON.stringify({
                     bucket: treadEstimate.bucket,
                     depthRange: treadEstimate.depthRange32nds,
+                    depth32nds: treadEstimate.depth32nds,
+                    uncertainty32nds: treadEstimate.uncertainty32nds,
                     confidence: treadEstimate.confidence,
+                    calibration: treadEstimate.calibration,
                     imageQuality,
-                    milesPerYear: parseInt(milesPerYear, 10) || 12000,
+                    estimator,
+                    wearPattern,
+                    frameFusion,
+                    treadRegion: imageAnalysis.treadRegion,
+                    grooveProfile: imageAnalysis.grooveProfile,
+                    wearBars: imageAnalysis.wearBars,
+                    dotCode: dotCode.trim() || undefined,
+                    dotCodeSource: dotCode.trim() ? dotCodeSource : undefined,
+                    position: singlePosition,
+                    milesPerYear: annualMiles,
                     zip: zip || undefined,
+                    jurisdiction: jurisdiction || undefined,
+                    units,
+                    ...tireFields,
+                    ...historyFields,
                 }),
             });
 
@@ -100,6 +438,8 @@ export default function ScanPage() {
             const analysis = await response.json();
 
             // Store results in sessionStorage for the results page
+            sessionStorage.removeItem('treadsight_vehicle');
+            sessionStorage.removeItem('treadsight_vehicle_images');
             sessionStorage.setItem('treadsight_analysis', JSON.stringify(analysis));
             sessionStorage.setItem('treadsight_image', imagePreview);
 
@@ -111,16 +451,146 @@ export default function ScanPage() {
         } finally {
             setIsAnalyzing(false);
         }
-    }, [imagePreview, milesPerYear, zip, router]);
+    }, [imagePreview, frames, imageFile, treadRegion, calibrationMode, gaugeReading, dotCode, dotCodeSource, singlePosition, annualMiles, zip, jurisdiction, units, tireFields, historyFields, router]);
 
     const handleRetake = useCallback(() => {
         setImageFile(null);
-        setImagePreview(null);
-        setImageQualityOk(null);
+        setFrames([]);
+        setFrameQuality(null);
+        setDetectedRegion(null);
+        setTreadRegion(null);
         setError(null);
         if (fileInputRef.current) fileInputRef.current.value = '';
     }, []);
 
+    const missingPositions = REQUIRED_POSITIONS.filter(p => !captures[p]);
+
+    const optionalFields = (
+            <div className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                        {units === 'metric' ? 'Kilometres' : 'Miles'} driven per year
+                    </label>
+                    <div className="relative">
+                        <Gauge className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
+                        <input
+                            type="number"
+                            value={milesPerYear}
+                            onChange={(e) => setMilesPerYear(e.target.value)}
+                            placeholder={String(Math.round(distanceToUnits(DEFAULT_MILES_PER_YEAR, units)))}
+                            className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                        ZIP / postal code <span className="text-[#555570]">(optional)</span>
+                    </label>
+                    <div className="relative">
+                        <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
+                        <input
+                            type="text"
+                            value={zip}
+                            onChange={(e) => setZip(e.target.value)}
+                            placeholder="e.g., 85001, M5V 3L9 or SW1A 1AA"
+                            maxLength={10}
+                            className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                        Tire laws <span className="text-[#555570]">(legal minimum &amp; winter rules)</span>
+                    </label>
+                    <div className="relative">
+                        <Scale className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
+                        <select
+                            value={jurisdiction}
+                            onChange={(e) => setJurisdiction(e.target.value)}
+                            className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white transition-colors"
+                        >
+                            <option value="" className="bg-[#16161f]">From ZIP / postal code</option>
+                            {Object.values(JURISDICTIONS).map(rules => (
+                                <option key={rules.code} value={rules.code} className="bg-[#16161f]">
+                                    {rules.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {/* Tire & vehicle profile — shapes the wear curve */}
+                <ProfileFields
+                    tire={tireDraft}
+                    vehicle={vehicleDraft}
+                    onTireChange={(draft) => setTireProfileJson(JSON.stringify(draft))}
+                    onVehicleChange={(draft) => setVehicleProfileJson(JSON.stringify(draft))}
+                    units={units}
+                />
+
+                {/* Scan history — needs both a vehicle name and an odometer reading */}
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                            Vehicle <span className="text-[#555570]">(optional)</span>
+                        </label>
+                        <div className="relative">
+                            <Car className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
+                            <input
+                                type="text"
+                                value={vehicleId}
+                                onChange={(e) => setVehicleId(e.target.value)}
+                                placeholder="e.g., Civic"
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                            Odometer <span className="text-[#555570]">({distanceUnitLabel(units)})</span>
+                        </label>
+                        <div className="relative">
+                            <History className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
+                            <input
+                                type="number"
+                                value={odometer}
+                                onChange={(e) => setOdometer(e.target.value)}
+                                placeholder="e.g., 42000"
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                {scanMode === 'single' && vehicleId.trim() !== '' && (
+                    <div>
+                        <label className="block text-sm font-medium text-[#8888a0] mb-2">
+                            Tire position
+                        </label>
+                        <select
+                            value={singlePosition}
+                            onChange={(e) => setSinglePosition(e.target.value as TirePosition)}
+                            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white transition-colors"
+                        >
+                            {TIRE_POSITIONS.map(p => (
+                                <option key={p} value={p} className="bg-[#16161f]">
+                                    {TIRE_POSITION_LABELS[p]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                {vehicleId.trim() !== '' && (
+                    <p className="text-xs text-[#555570]">
+                        With two or more scans of the same tire, your wear rate is fitted from real tread loss.
+                    </p>
+                )}
+            </div>
+    );
+
     return (
         <main className="min-h-screen flex flex-col px-4 py-6 max-w-lg mx-auto">
             {/* Header */}
@@ -135,17 +605,115 @@ export default function ScanPage() {
                 >
                     <ArrowLeft className="w-5 h-5" />
                 </button>
-                <div>
+                <div className="flex-1">
                     <h1 className="text-xl font-bold">Scan Your Tire</h1>
                     <p className="text-sm text-[#8888a0]">Take or upload a photo of your tire tread</p>
                 </div>
+                <UnitToggle units={units} onChange={handleUnitsChange} />
             </motion.div>
 
             {/* Hidden canvas for image processing */}
             <canvas ref={canvasRef} className="hidden" />
 
+            {/* Scan mode toggle */}
+            <div className="flex rounded-xl bg-white/[0.03] border border-white/[0.06] p-1 gap-1 mb-6">
+                {([
+                    { mode: 'single', label: 'Single tire', icon: <CircleDot className="w-4 h-4" /> },
+                    { mode: 'vehicle', label: 'Whole vehicle', icon: <Car className="w-4 h-4" /> },
+                ] as const).map(({ mode, label, icon }) => (
+                    <button
+                        key={mode}
+                        onClick={() => {
+                            setScanMode(mode);
+                            setError(null);
+                        }}
+                        className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg text-sm font-medium transition-all duration-300 ${scanMode === mode
+                            ? 'bg-white/[0.06] text-white'
+                            : 'text-[#555570] hover:text-[#8888a0]'
+                            }`}
+                    >
+                        {icon}
+                        {label}
+                    </button>
+                ))}
+            </div>
+
             <AnimatePresence mode="wait">
-                {!imagePreview ? (
+                {scanMode === 'vehicle' ? (
+                    /* ── Vehicle Scan ─────────────────────────────────────── */
+                    <motion.div
+                        key="vehicle"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        className="flex-1 flex flex-col gap-6"
+                    >
+                        <input
+                            ref={vehicleInputRef}
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            onChange={handleVehicleFileSelect}
+                            className="hidden"
+                        />
+
+                        <div>
+                            <p className="text-sm text-[#8888a0] mb-3">
+                                Tap each position to photograph its tread.
+                                {missingPositions.length > 0 && (
+                                    <> Next up: <span className="text-white font-medium">{TIRE_POSITION_LABELS[activePosition]}</span></>
+                                )}
+                            </p>
+                            <VehicleCaptureGrid
+                                captures={captures}
+                                activePosition={activePosition}
+                                onSelectPosition={handleSelectPosition}
+                            />
+                        </div>
+
+                        {optionalFields}
+
+                        {/* Error */}
+                        {error && (
+                            <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+                                <X className="w-4 h-4 text-red-400" />
+                                <span className="text-sm text-red-300">{error}</span>
+                            </div>
+                        )}
+
+                        {/* Analyze Button */}
+                        <button
+                            onClick={handleVehicleAnalyze}
+                            disabled={isAnalyzing || missingPositions.length > 0}
+                            className="w-full py-4 rounded-2xl bg-gradient-to-r from-cyan-500 to-emerald-500 text-black font-bold text-lg transition-all duration-300 hover:scale-[1.02] hover:shadow-[0_0_30px_rgba(0,212,255,0.3)] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 flex items-center justify-center gap-3"
+                        >
+                            {isAnalyzing ? (
+                                <>
+                                    <Loader2 className="w-5 h-5 animate-spin" />
+                                    Analyzing...
+                                </>
+                            ) : missingPositions.length > 0 ? (
+                                <>{missingPositions.length} tire{missingPositions.length > 1 ? 's' : ''} left to capture</>
+                            ) : (
+                                <>
+                                    Analyze Vehicle
+                                    <ChevronRight className="w-5 h-5" />
+                                </>
+                            )}
+                        </button>
+                    </motion.div>
+                ) : !imagePreview && liveCamera ? (
+                    /* ── Live Camera ──────────────────────────────────────── */
+                    <motion.div
+                        key="camera"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        className="flex-1 flex flex-col"
+                    >
+                        <LiveCamera onCapture={handleCameraCapture} onClose={() => setLiveCamera(false)} />
+                    </motion.div>
+                ) : !imagePreview ? (
                     /* ── Upload Zone ──────────────────────────────────────── */
                     <motion.div
                         key="upload"
@@ -159,6 +727,7 @@ export default function ScanPage() {
                             type="file"
                             accept="image/*"
                             capture="environment"
+                            multiple
                             onChange={handleFileSelect}
                             className="hidden"
                             id="tire-upload"
@@ -179,6 +748,14 @@ export default function ScanPage() {
                             </div>
                         </label>
 
+                        <button
+                            onClick={() => setLiveCamera(true)}
+                            className="mt-3 w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-white/5 hover:bg-white/10 border border-white/10 text-sm font-medium transition-colors"
+                        >
+                            <Video className="w-4 h-4 text-cyan-400" />
+                            Live camera with guidance
+                        </button>
+
                         {/* Tips */}
                         <div className="mt-6 space-y-2">
                             <p className="text-xs text-[#555570] font-medium uppercase tracking-wider">Tips for best results</p>
@@ -195,6 +772,10 @@ export default function ScanPage() {
                                     <Check className="w-4 h-4 text-emerald-400 mt-0.5 shrink-0" />
                                     Keep the camera steady for a sharp image
                                 </li>
+                                <li className="flex items-start gap-2">
+                                    <Check className="w-4 h-4 text-emerald-400 mt-0.5 shrink-0" />
+                                    Add 2–4 photos of the same spot for a steadier estimate
+                                </li>
                             </ul>
                         </div>
                     </motion.div>
@@ -209,10 +790,11 @@ export default function ScanPage() {
                     >
                         {/* Image Preview */}
                         <div className="relative rounded-2xl overflow-hidden border border-white/10">
-                            <img
-                                src={imagePreview}
-                                alt="Tire preview"
-                                className="w-full aspect-square object-cover"
+                            <TreadRegionEditor
+                                imageSrc={imagePreview}
+                                region={treadRegion}
+                                detected={detectedRegion}
+                                onChange={setTreadRegion}
                             />
 
                             {/* Quality badge */}
@@ -223,7 +805,12 @@ export default function ScanPage() {
                                             : 'bg-red-500/20 text-red-300 border border-red-500/30'
                                         }`}
                                 >
-                                    {imageQualityOk ? (
+                                    {frames.length > 1 ? (
+                                        <>
+                                            {imageQualityOk ? <Check className="w-3 h-3" /> : <AlertCircle className="w-3 h-3" />}
+                                            {frameQuality!.filter(Boolean).length} of {frames.length} frames usable
+                                        </>
+                                    ) : imageQualityOk ? (
                                         <>
                                             <Check className="w-3 h-3" /> Good quality
                                         </>
@@ -244,6 +831,47 @@ export default function ScanPage() {
                             </button>
                         </div>
 
+                        {/* Frames — each is estimated separately and fused */}
+                        <div className="flex items-center gap-2 overflow-x-auto">
+                            {frames.map((frame, i) => (
+                                <div
+                                    key={i}
+                                    role="img"
+                                    aria-label={`Frame ${i + 1}`}
+                                    style={{ backgroundImage: `url(${frame})` }}
+                                    title={frameQuality ? (frameQuality[i] ? 'Usable' : 'Low quality — left out of the estimate') : undefined}
+                                    className={`w-12 h-12 rounded-lg bg-cover bg-center border-2 shrink-0 ${frameQuality == null
+                                        ? 'border-white/10'
+                                        : frameQuality[i] ? 'border-emerald-500/50' : 'border-red-500/50 opacity-50'
+                                        }`}
+                                />
+                            ))}
+                            {frames.length < MAX_SCAN_FRAMES && (
+                                <>
+                                    <input
+                                        ref={addFramesInputRef}
+                                        type="file"
+                                        accept="image/*"
+                                        capture="environment"
+                                        multiple
+                                        onChange={handleAddFrames}
+                                        className="hidden"
+                                        id="tire-add-frames"
+                                    />
+                                    <label
+                                        htmlFor="tire-add-frames"
+                                        className="w-12 h-12 rounded-lg border-2 border-dashed border-white/10 hover:border-cyan-500/30 flex items-center justify-center shrink-0 cursor-pointer transition-colors"
+                                        title="Add another photo of the same tire"
+                                    >
+                                        <Plus className="w-4 h-4 text-[#8888a0]" />
+                                    </label>
+                                </>
+                            )}
+                            {frames.length === 1 && (
+                                <p className="text-xs text-[#555570]">More photos of the same spot give a steadier estimate.</p>
+                            )}
+                        </div>
+
                         {/* Poor quality warning */}
                         {imageQualityOk === false && (
                             <motion.div
@@ -261,42 +889,85 @@ export default function ScanPage() {
                             </motion.div>
                         )}
 
-                        {/* Optional Fields */}
-                        <div className="space-y-4">
-                            <div>
-                                <label className="block text-sm font-medium text-[#8888a0] mb-2">
-                                    Miles driven per year
-                                </label>
-                                <div className="relative">
-                                    <Gauge className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
-                                    <input
-                                        type="number"
-                                        value={milesPerYear}
-                                        onChange={(e) => setMilesPerYear(e.target.value)}
-                                        placeholder="12000"
-                                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
-                                    />
-                                </div>
+                        {/* Calibration */}
+                        <div>
+                            <label className="flex items-center gap-2 text-sm font-medium text-[#8888a0] mb-2">
+                                <Ruler className="w-4 h-4" />
+                                Calibrate depth <span className="text-[#555570]">(optional)</span>
+                            </label>
+                            <div className="flex rounded-xl bg-white/[0.03] border border-white/[0.06] p-1 gap-1">
+                                {CALIBRATION_OPTIONS.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setCalibrationMode(value)}
+                                        className={`flex-1 py-2 rounded-lg text-xs font-medium transition-all duration-300 ${calibrationMode === value
+                                            ? 'bg-white/[0.06] text-white'
+                                            : 'text-[#555570] hover:text-[#8888a0]'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
+                            <p className="text-xs text-[#555570] mt-2">
+                                {CALIBRATION_OPTIONS.find(o => o.value === calibrationMode)!.hint}
+                            </p>
+                            {calibrationMode === 'gauge' && (
+                                <input
+                                    type="number"
+                                    step={units === 'metric' ? '0.1' : '0.5'}
+                                    min="0"
+                                    max={units === 'metric' ? '10' : '12'}
+                                    value={gaugeReading}
+                                    onChange={(e) => setGaugeReading(e.target.value)}
+                                    placeholder={units === 'metric' ? 'Reading in mm, e.g., 4' : 'Reading in 32nds, e.g., 5'}
+                                    className="mt-2 w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                                />
+                            )}
+                        </div>
 
-                            <div>
-                                <label className="block text-sm font-medium text-[#8888a0] mb-2">
-                                    ZIP code <span className="text-[#555570]">(optional)</span>
-                                </label>
-                                <div className="relative">
-                                    <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#555570]" />
-                                    <input
-                                        type="text"
-                                        value={zip}
-                                        onChange={(e) => setZip(e.target.value)}
-                                        placeholder="e.g., 85001"
-                                        maxLength={5}
-                                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
-                                    />
-                                </div>
+                        {/* Tire age — DOT date code */}
+                        <div>
+                            <label className="flex items-center gap-2 text-sm font-medium text-[#8888a0] mb-2">
+                                <CalendarClock className="w-4 h-4" />
+                                Tire age <span className="text-[#555570]">(optional)</span>
+                            </label>
+                            <input
+                                ref={dotInputRef}
+                                type="file"
+                                accept="image/*"
+                                capture="environment"
+                                onChange={handleDotFileSelect}
+                                className="hidden"
+                            />
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    maxLength={4}
+                                    value={dotCode}
+                                    onChange={(e) => {
+                                        setDotCode(e.target.value.replace(/\D/g, ''));
+                                        setDotCodeSource('manual');
+                                    }}
+                                    placeholder="DOT date, e.g., 4419"
+                                    className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => dotInputRef.current?.click()}
+                                    className="flex items-center gap-1.5 px-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 text-xs font-medium transition-colors"
+                                >
+                                    <Camera className="w-4 h-4" /> Sidewall
+                                </button>
                             </div>
+                            <p className="text-xs text-[#555570] mt-2">
+                                {dotStatus ?? 'The last four digits of the DOT code on the sidewall — week then year. Photograph it or type it in.'}
+                            </p>
                         </div>
 
+                        {optionalFields}
+
                         {/* Error */}
                         {error && (
                             <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20">
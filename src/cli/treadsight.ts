@@ -0,0 +1,155 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { getTreadEstimator, hasTreadEstimator, resolveEstimatorName } from '../lib/estimatorRegistry';
+import { decodeImage } from '../lib/imageDecode';
+import { analyzeBatchImage, batchFailure, batchToCsv, summarizeBatch } from '../lib/batchAnalysis';
+import { distanceFromUnits, isUnitSystem } from '../lib/units';
+import type { BatchResultRow } from '../types';
+
+/**
+ * TreadSight CLI — analyze a folder of tread photos without the UI.
+ *
+ *   npm run treadsight -- analyze ./photos --miles 15000 --zip 85001 --format csv
+ *   npm run treadsight -- analyze ./photos --km 24000 --zip M5V --units metric
+ *
+ * Exit codes: 0 when every tire is fine, 1 when any tire is Replace Now,
+ * 2 for usage or I/O errors.
+ */
+
+const USAGE = `Usage: treadsight analyze <folder> [options]
+
+Options:
+  --miles <n>        Miles driven per year (default 12000)
+  --km <n>           Kilometres driven per year, instead of --miles
+  --units <system>   imperial or metric; metric reports depths in mm (default imperial)
+  --zip <code>       US ZIP, Canadian or UK postal code for the climate adjustment
+  --format <fmt>     csv or json (default json)
+  --estimator <name> Tread estimator backend (default heuristic)
+  --out <file>       Write the report to a file instead of stdout
+  -h, --help         Show this help`;
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+const EXIT_OK = 0;
+const EXIT_REPLACE_NOW = 1;
+const EXIT_USAGE = 2;
+
+async function main(argv: string[]): Promise<number> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                miles: { type: 'string' },
+                km: { type: 'string' },
+                units: { type: 'string', default: 'imperial' },
+                zip: { type: 'string' },
+                format: { type: 'string', default: 'json' },
+                estimator: { type: 'string' },
+                out: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    const { values, positionals } = parsed;
+    const [command, folder] = positionals;
+    if (values.help) {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+    if (command !== 'analyze' || !folder) {
+        console.error(USAGE);
+        return EXIT_USAGE;
+    }
+
+    if (values.miles != null && values.km != null) {
+        console.error('Use either --miles or --km, not both');
+        return EXIT_USAGE;
+    }
+    const milesPerYear = values.km != null
+        ? distanceFromUnits(Number(values.km), 'metric')
+        : Number(values.miles ?? 12000);
+    if (!Number.isFinite(milesPerYear) || milesPerYear <= 0) {
+        console.error(values.km != null ? `Invalid --km: ${values.km}` : `Invalid --miles: ${values.miles}`);
+        return EXIT_USAGE;
+    }
+    const { units } = values;
+    if (!isUnitSystem(units)) {
+        console.error(`Invalid --units: ${units} (expected imperial or metric)`);
+        return EXIT_USAGE;
+    }
+    if (values.format !== 'csv' && values.format !== 'json') {
+        console.error(`Invalid --format: ${values.format} (expected csv or json)`);
+        return EXIT_USAGE;
+    }
+    if (values.estimator && !hasTreadEstimator(values.estimator)) {
+        console.error(`Unknown tread estimator: ${values.estimator}`);
+        return EXIT_USAGE;
+    }
+
+    let files: string[];
+    try {
+        files = (await readdir(folder, { withFileTypes: true }))
+            .filter(entry => entry.isFile() && IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()))
+            .map(entry => entry.name)
+            .sort();
+    } catch (error) {
+        console.error(`Cannot read folder ${folder}: ${(error as Error).message}`);
+        return EXIT_USAGE;
+    }
+    if (files.length === 0) {
+        console.error(`No images found in ${folder}`);
+        return EXIT_USAGE;
+    }
+
+    const options = {
+        estimator: getTreadEstimator(resolveEstimatorName(values.estimator)),
+        milesPerYear,
+        zip: values.zip,
+        units,
+    };
+
+    // One image at a time keeps memory flat on large folders
+    const rows: BatchResultRow[] = [];
+    for (const file of files) {
+        try {
+            const imageData = await decodeImage(await readFile(path.join(folder, file)));
+            rows.push(await analyzeBatchImage(file, imageData, options));
+        } catch (error) {
+            rows.push(batchFailure(file, error));
+        }
+    }
+
+    const summary = summarizeBatch(rows);
+    const report = values.format === 'csv'
+        ? batchToCsv(rows, units)
+        : JSON.stringify({ results: rows, summary }, null, 2) + '\n';
+
+    if (values.out) {
+        await writeFile(values.out, report);
+    } else {
+        process.stdout.write(report);
+    }
+
+    console.error(
+        `Analyzed ${summary.analyzed}/${summary.total} images` +
+        (summary.failed > 0 ? `, ${summary.failed} failed` : '') +
+        (summary.replaceNow > 0 ? `, ${summary.replaceNow} Replace Now` : '')
+    );
+
+    return summary.replaceNow > 0 ? EXIT_REPLACE_NOW : EXIT_OK;
+}
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        console.error(error);
+        process.exit(EXIT_USAGE);
+    }
+);
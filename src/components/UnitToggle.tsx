@@ -0,0 +1,37 @@
+'use client';
+
+import type { UnitSystem } from '@/types';
+
+interface UnitToggleProps {
+    units: UnitSystem;
+    onChange: (units: UnitSystem) => void;
+}
+
+const OPTIONS: { units: UnitSystem; label: string; title: string }[] = [
+    { units: 'imperial', label: 'in · mi', title: '32nds of an inch and miles' },
+    { units: 'metric', label: 'mm · km', title: 'Millimetres and kilometres' },
+];
+
+/**
+ * Imperial / metric switch for page headers.
+ */
+export default function UnitToggle({ units, onChange }: UnitToggleProps) {
+    return (
+        <div className="flex rounded-lg bg-white/[0.03] border border-white/[0.06] p-0.5 gap-0.5" role="group" aria-label="Units">
+            {OPTIONS.map(option => (
+                <button
+                    key={option.units}
+                    onClick={() => onChange(option.units)}
+                    title={option.title}
+                    aria-pressed={units === option.units}
+                    className={`px-2 py-1 rounded-md text-[11px] font-medium transition-colors ${units === option.units
+                        ? 'bg-white/[0.08] text-white'
+                        : 'text-[#555570] hover:text-[#8888a0]'
+                        }`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { Car, Pencil } from 'lucide-react';
+import type { FleetVehicleStatus, UnitSystem } from '@/types';
+import { RISK_COLORS, TIRE_POSITION_LABELS } from '@/lib/constants';
+import { formatDepth, formatDistance } from '@/lib/units';
+
+interface FleetVehicleCardProps {
+    status: FleetVehicleStatus;
+    onEdit: () => void;
+    units?: UnitSystem;
+}
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/**
+ * One fleet vehicle: its tires at their latest scan, soonest legal minimum first.
+ */
+export default function FleetVehicleCard({ status, onEdit, units = 'imperial' }: FleetVehicleCardProps) {
+    const { vehicle, tires, soonestLegalMinimumDate } = status;
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-start justify-between gap-3 mb-4">
+                <div className="flex items-center gap-3">
+                    <Car className="w-5 h-5 text-cyan-400 shrink-0" />
+                    <div>
+                        <h3 className="text-sm font-semibold">{vehicle.name}</h3>
+                        <p className="text-xs text-[#555570]">
+                            {vehicle.tireSize ?? 'Size not set'} · {formatDistance(vehicle.milesPerYear, units)}/yr
+                            {soonestLegalMinimumDate && <> · first tire due {formatDate(soonestLegalMinimumDate)}</>}
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={onEdit}
+                    className="p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                    aria-label={`Edit ${vehicle.name}`}
+                >
+                    <Pencil className="w-3.5 h-3.5 text-[#8888a0]" />
+                </button>
+            </div>
+
+            {tires.length === 0 ? (
+                <p className="text-xs text-[#555570]">No scans yet — scan with this vehicle name to track it.</p>
+            ) : (
+                <div className="space-y-2">
+                    {tires.map(({ position, healthScore, wearPrediction, lastScan }) => {
+                        const color = RISK_COLORS[healthScore.riskLevel];
+                        return (
+                            <div key={position} className="flex items-center gap-3 rounded-xl bg-white/[0.03] px-3 py-2 text-xs">
+                                <span className="w-10 font-semibold text-white">{position}</span>
+                                <span className="w-16 font-mono">{formatDepth(wearPrediction.currentDepth32nds, units)}</span>
+                                <span className="w-20" style={{ color }}>
+                                    {healthScore.score} · {healthScore.riskLevel}
+                                </span>
+                                <span className="flex-1 text-right text-[#8888a0]">
+                                    Legal min {formatDate(wearPrediction.legalMinimumDate)}
+                                </span>
+                                <span
+                                    className="hidden sm:inline text-[#555570]"
+                                    title={`${TIRE_POSITION_LABELS[position]}, last scanned at ${formatDistance(lastScan.odometerMiles, units)}`}
+                                >
+                                    scanned {new Date(lastScan.scannedAt).toLocaleDateString()}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import type { ReplacementForecast } from '@/types';
+
+interface ReplacementForecastCardProps {
+    forecast: ReplacementForecast;
+}
+
+function formatMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(year, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+}
+
+function formatUsd(amount: number): string {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+/**
+ * Tires due each month with the sizes to pre-order and the expected spend.
+ */
+export default function ReplacementForecastCard({ forecast }: ReplacementForecastCardProps) {
+    const { months, totalTires, totalSpendUsd } = forecast;
+    const maxCount = Math.max(1, ...months.map(m => m.tireCount));
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-baseline justify-between mb-4">
+                <h3 className="text-sm font-semibold">Replacement Forecast</h3>
+                <p className="text-xs text-[#8888a0]">
+                    <span className="text-white font-medium">{totalTires}</span> tires ·{' '}
+                    <span className="text-white font-medium">{formatUsd(totalSpendUsd)}</span>
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                {months.map(({ month, tireCount, sizes, estimatedSpendUsd }, i) => (
+                    <div key={month} className="grid grid-cols-[3.5rem_1fr_4.5rem] items-center gap-3 text-xs">
+                        <span className="text-[#8888a0]">{formatMonth(month)}</span>
+                        <div>
+                            <div className="h-2 rounded-full bg-white/[0.04] overflow-hidden">
+                                <div
+                                    className={`h-full rounded-full ${i === 0 && tireCount > 0 ? 'bg-red-400' : 'bg-cyan-400'}`}
+                                    style={{ width: `${(tireCount / maxCount) * 100}%` }}
+                                />
+                            </div>
+                            {tireCount > 0 && (
+                                <p className="mt-1 text-[10px] text-[#555570]">
+                                    {Object.entries(sizes).map(([size, count]) => `${count}× ${size}`).join(', ')}
+                                </p>
+                            )}
+                        </div>
+                        <span className="text-right font-mono">
+                            {tireCount > 0 ? formatUsd(estimatedSpendUsd) : '—'}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <p className="mt-4 text-[10px] text-[#555570]">
+                Tires are counted in the month they reach the legal minimum; the first month includes any already past it.
+                Spares are not included.
+            </p>
+        </div>
+    );
+}
@@ -3,12 +3,20 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { RotateCcw, Flame } from 'lucide-react';
+import type { AxleDivergence, AxleWearState, UnitSystem } from '@/types';
+import { WEAR_MODIFIERS } from '@/lib/constants';
+import { formatDepth } from '@/lib/units';
 
 interface AccelerationModeProps {
     skipRotations: boolean;
     aggressiveDriving: boolean;
     onToggleSkipRotations: () => void;
     onToggleAggressiveDriving: () => void;
+    skipRotationsFactor?: number;      // this tire's wear rate without rotations, vs. rotated
+    skipRotationsImpactMonths?: number; // change in months to the legal minimum
+    axleDivergence?: AxleDivergence | null;
+    legalMinimumLabel?: string;         // e.g. 2/32" or 1.6 mm
+    units?: UnitSystem;
 }
 
 export default function AccelerationMode({
@@ -16,6 +24,11 @@ export default function AccelerationMode({
     aggressiveDriving,
     onToggleSkipRotations,
     onToggleAggressiveDriving,
+    skipRotationsFactor = WEAR_MODIFIERS.rotation['skip-rotations'],
+    skipRotationsImpactMonths = -4,
+    axleDivergence,
+    legalMinimumLabel = '2/32"',
+    units = 'imperial',
 }: AccelerationModeProps) {
     return (
         <div>
@@ -28,8 +41,8 @@ export default function AccelerationMode({
                     onClick={onToggleSkipRotations}
                     icon={<RotateCcw className="w-4 h-4" />}
                     label="Skip Rotations"
-                    sublabel="+15% wear"
-                    impactLabel="−4 months"
+                    sublabel={`${formatPercent(skipRotationsFactor)} wear`}
+                    impactLabel={formatMonths(skipRotationsImpactMonths)}
                     activeColor="amber"
                 />
                 <ToggleButton
@@ -42,10 +55,63 @@ export default function AccelerationMode({
                     activeColor="orange"
                 />
             </div>
+
+            {/* Unrotated fronts and rears drift apart */}
+            <AnimatePresence>
+                {axleDivergence && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <AxleStat label="Fronts" state={axleDivergence.front} highlighted={axleDivergence.axle === 'front'} legalMinimumLabel={legalMinimumLabel} units={units} />
+                            <AxleStat label="Rears" state={axleDivergence.rear} highlighted={axleDivergence.axle === 'rear'} legalMinimumLabel={legalMinimumLabel} units={units} />
+                        </div>
+                        <p className="text-[10px] text-[#555570] mt-1.5">
+                            {axleDivergence.drivetrain} without rotations, from today&apos;s depth
+                            {axleDivergence.axle && ' · highlighted: this tire'}
+                        </p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
         </div>
     );
 }
 
+function AxleStat({ label, state, highlighted, legalMinimumLabel, units }: {
+    label: string;
+    state: AxleWearState;
+    highlighted: boolean;
+    legalMinimumLabel: string;
+    units: UnitSystem;
+}) {
+    return (
+        <div className={`rounded-xl border px-3 py-2 ${highlighted ? 'border-amber-500/30 bg-amber-500/[0.06]' : 'border-white/[0.06] bg-white/[0.02]'}`}>
+            <div className="flex items-baseline justify-between">
+                <span className="text-xs text-[#8888a0]">{label}</span>
+                <span className="text-[10px] text-[#555570]">{formatPercent(state.rateFactor)}</span>
+            </div>
+            <p className="text-sm font-semibold tabular-nums">{formatDepth(state.depth32nds, units)}</p>
+            <p className="text-[10px] text-[#555570]">
+                {Number.isFinite(state.legalMinimumMonths)
+                    ? `${legalMinimumLabel} in ${Math.round(state.legalMinimumMonths)} mo`
+                    : 'No wear'}
+            </p>
+        </div>
+    );
+}
+
+function formatPercent(factor: number): string {
+    const percent = Math.round((factor - 1) * 100);
+    return `${percent >= 0 ? '+' : '−'}${Math.abs(percent)}%`;
+}
+
+function formatMonths(months: number): string {
+    return `${months > 0 ? '+' : months < 0 ? '−' : '±'}${Math.abs(months)} months`;
+}
+
 function ToggleButton({
     active,
     onClick,
@@ -1,20 +1,49 @@
 'use client';
 
-import type { TreadBucket } from '@/types';
+import type { CalibrationMeasurement, DatePercentiles, TreadBucket, UnitSystem } from '@/types';
+import { getTreadEstimator, hasTreadEstimator } from '@/lib/estimatorRegistry';
+import { depthToUnits, formatDepth } from '@/lib/units';
 
 interface ConfidenceSectionProps {
     confidence: number;
     bucket: TreadBucket;
     confidenceBand: number;
+    legalMinimumRange?: DatePercentiles;
+    depth32nds: number;
+    uncertainty32nds: number;
+    calibration?: CalibrationMeasurement;
+    estimator?: string;
+    legalMinimumLabel?: string; // e.g. 2/32" or 1.6 mm
+    units?: UnitSystem;
 }
 
+function formatMonth(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+const CALIBRATION_LABELS: Record<CalibrationMeasurement['method'], string> = {
+    penny: 'Penny reference',
+    quarter: 'Quarter reference',
+    gauge: 'Tread gauge reading',
+};
+
 export default function ConfidenceSection({
     confidence,
     bucket,
     confidenceBand,
+    legalMinimumRange,
+    depth32nds,
+    uncertainty32nds,
+    calibration,
+    estimator,
+    legalMinimumLabel = '2/32"',
+    units = 'imperial',
 }: ConfidenceSectionProps) {
     const confidencePercent = Math.round(confidence * 100);
     const bandPercent = Math.round(confidenceBand * 100);
+    const estimatorLabel = estimator && hasTreadEstimator(estimator)
+        ? getTreadEstimator(estimator).label
+        : estimator;
 
     return (
         <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
@@ -36,18 +65,53 @@ export default function ConfidenceSection({
 
             {/* Info */}
             <div className="space-y-3 text-xs text-[#8888a0]">
+                <div className="flex items-start gap-2">
+                    <span className="w-1.5 h-1.5 rounded-full bg-white mt-1.5 shrink-0" />
+                    <p>
+                        Estimated depth:{' '}
+                        <span className="text-white font-medium font-mono">
+                            {depthToUnits(depth32nds, units).toFixed(1)} ± {formatDepth(uncertainty32nds, units)}
+                        </span>{' '}
+                        — the interval narrows as image confidence rises.
+                    </p>
+                </div>
+                <div className="flex items-start gap-2">
+                    <span className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 ${calibration ? 'bg-emerald-400' : 'bg-[#555570]'}`} />
+                    {calibration ? (
+                        <p>
+                            Calibration: <span className="text-white font-medium">{CALIBRATION_LABELS[calibration.method]}</span> —
+                            measured {formatDepth(calibration.depth32nds, units)} and fused with the photo estimate.
+                        </p>
+                    ) : (
+                        <p>
+                            Calibration: <span className="text-white font-medium">None</span> — depth is relative to
+                            tread texture. Add a coin or gauge reading for an absolute measurement.
+                        </p>
+                    )}
+                </div>
                 <div className="flex items-start gap-2">
                     <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 mt-1.5 shrink-0" />
                     <p>
                         Classification: <span className="text-white font-medium">{bucket}</span> — based on
                         texture analysis, edge density, and contrast patterns in your photo.
+                        {estimatorLabel && (
+                            <> Estimator: <span className="text-white font-medium">{estimatorLabel}</span>.</>
+                        )}
                     </p>
                 </div>
                 <div className="flex items-start gap-2">
                     <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 mt-1.5 shrink-0" />
                     <p>
-                        Prediction band: <span className="text-white font-medium">±{bandPercent}%</span> — accounts for
-                        driving variation, climate, and measurement uncertainty.
+                        Prediction band: <span className="text-white font-medium">±{bandPercent}%</span>
+                        {legalMinimumRange && (
+                            <>
+                                {' '}— {legalMinimumLabel} between{' '}
+                                <span className="text-white font-medium">{formatMonth(legalMinimumRange.p10)}</span> and{' '}
+                                <span className="text-white font-medium">{formatMonth(legalMinimumRange.p90)}</span> in
+                                80% of simulated scenarios
+                            </>
+                        )}
+                        . Simulates uncertainty in the measured depth, your annual mileage, climate and driving style.
                     </p>
                 </div>
                 <div className="flex items-start gap-2">
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Layers } from 'lucide-react';
+import type { FrameFusion, UnitSystem } from '@/types';
+import { depthToUnits, formatDepth } from '@/lib/units';
+
+interface FrameDetailsCardProps {
+    frameFusion: FrameFusion;
+    units?: UnitSystem;
+}
+
+function percent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * How a multi-photo scan was fused: each frame's quality, its own estimate
+ * and weight, or why it was left out. Collapsed by default.
+ */
+export default function FrameDetailsCard({ frameFusion, units = 'imperial' }: FrameDetailsCardProps) {
+    const [expanded, setExpanded] = useState(false);
+    const { frames, spread32nds, agreement } = frameFusion;
+    const usedCount = frames.filter(f => f.used).length;
+    const spreadLabel = units === 'metric'
+        ? `±${depthToUnits(spread32nds, units).toFixed(2)} mm`
+        : `±${spread32nds.toFixed(2)}/32"`;
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <button
+                onClick={() => setExpanded(prev => !prev)}
+                className="w-full flex items-center justify-between"
+                aria-expanded={expanded}
+            >
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <Layers className="w-4 h-4 text-cyan-400" />
+                    Frame Details
+                </h3>
+                <span className="flex items-center gap-2 text-xs text-[#8888a0]">
+                    {usedCount} of {frames.length} used · {percent(agreement)} agreement
+                    <ChevronDown className={`w-3.5 h-3.5 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                </span>
+            </button>
+
+            {expanded && (
+                <div className="mt-4 space-y-2">
+                    {frames.map(frame => (
+                        <div
+                            key={frame.index}
+                            className={`flex items-center gap-3 rounded-xl bg-white/[0.03] px-3 py-2 text-xs ${frame.used ? '' : 'opacity-60'}`}
+                        >
+                            <span className="w-14 font-semibold text-white">Frame {frame.index + 1}</span>
+                            <span
+                                className="w-28 text-[#8888a0]"
+                                title={`Sharpness ${percent(frame.imageQuality.blur)}, brightness ${percent(frame.imageQuality.brightness)}, contrast ${percent(frame.imageQuality.contrast)}`}
+                            >
+                                Quality {percent(frame.imageQuality.overall)}
+                            </span>
+                            {frame.used && frame.depth32nds != null ? (
+                                <>
+                                    <span className="flex-1 font-mono text-white">
+                                        {formatDepth(frame.depth32nds, units)}
+                                        {frame.uncertainty32nds != null && (
+                                            <span className="text-[#555570]"> ± {formatDepth(frame.uncertainty32nds, units)}</span>
+                                        )}
+                                    </span>
+                                    <span className="text-cyan-300">{percent(frame.weight ?? 0)}</span>
+                                </>
+                            ) : (
+                                <span className="flex-1 text-red-300">Rejected — low image quality</span>
+                            )}
+                        </div>
+                    ))}
+                    <p className="text-[11px] text-[#555570] pt-1">
+                        Frames are weighted by confidence and image quality. Spread between frames {spreadLabel}; the
+                        closer they agree, the narrower the fused estimate.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
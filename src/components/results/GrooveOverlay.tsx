@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ScanLine } from 'lucide-react';
+import { fromTreadCoordinates } from '@/lib/treadRegion';
+import { detectWearBars } from '@/lib/wearBars';
+import { DEFAULT_TREAD_REGION } from '@/lib/constants';
+import type { GrooveProfile, TreadRegion, WearBarDetection } from '@/types';
+
+interface GrooveOverlayProps {
+    grooveProfile: GrooveProfile;
+    treadRegion?: TreadRegion;
+    wearBars?: WearBarDetection; // the analysis's verdict, possibly from another frame
+}
+
+const BAR_HALF_LENGTH = 0.02; // along the groove, fraction of the tread
+const ROW_HALF_LENGTH = 0.04; // highlight band around a row of wear bars
+
+/**
+ * Annotates the photo with the measured grooves and wear bars: each major
+ * groove is outlined and numbered, wear bars are marked across it — red
+ * when flush with the tread, amber while still below it. Rows of bars that
+ * line up across the tread — the tread-wear indicators — are highlighted
+ * edge to edge; whether the tire is flagged for replacement is the
+ * analysis's `wearBars` verdict.
+ */
+export default function GrooveOverlay({ grooveProfile, treadRegion = DEFAULT_TREAD_REGION, wearBars: indicators }: GrooveOverlayProps) {
+    const [visible, setVisible] = useState(true);
+    const { grooves, wearBars } = grooveProfile;
+    const indicatorsFlush = indicators?.flush ?? false;
+    // Rows as seen in this photo, for drawing; a lone bar is not a row
+    const { rows, flush: rowsFlush } = detectWearBars(grooveProfile);
+
+    // A box in upright-crop fractions, as percentages of the photo
+    const box = (across0: number, across1: number, along0: number, along1: number) => {
+        const a = fromTreadCoordinates(treadRegion, across0, along0);
+        const b = fromTreadCoordinates(treadRegion, across1, along1);
+        return {
+            left: `${Math.min(a.x, b.x) * 100}%`,
+            top: `${Math.min(a.y, b.y) * 100}%`,
+            width: `${Math.abs(b.x - a.x) * 100}%`,
+            height: `${Math.abs(b.y - a.y) * 100}%`,
+        };
+    };
+
+    const summary = indicatorsFlush
+        ? 'wear bars flush — replace now'
+        : wearBars.length === 0 ? 'no wear bars seen'
+            : rowsFlush ? 'wear bars flush with tread' : 'wear bars below tread';
+
+    return (
+        <>
+            {visible && grooves.map((groove, i) => {
+                const half = groove.width / 2;
+                const label = fromTreadCoordinates(treadRegion, groove.center, 0);
+                return (
+                    <div key={i}>
+                        <div
+                            className="absolute border-x border-dashed border-cyan-300/70 bg-cyan-300/[0.06]"
+                            style={box(groove.center - half, groove.center + half, 0, 1)}
+                        />
+                        <span
+                            className="absolute -translate-x-1/2 px-1 rounded bg-black/70 text-[9px] font-semibold text-cyan-200"
+                            style={{ left: `${label.x * 100}%`, top: `${label.y * 100}%` }}
+                            title={`Groove ${i + 1}: ${Math.round(groove.darkness * 100)}% darker than the tread`}
+                        >
+                            {i + 1}
+                        </span>
+                    </div>
+                );
+            })}
+
+            {visible && rows.map((row, i) => (
+                <div
+                    key={`row-${i}`}
+                    className={`absolute rounded-sm border ${row.flush
+                        ? 'border-red-500 bg-red-500/20 shadow-[0_0_12px_rgba(239,68,68,0.6)] animate-pulse'
+                        : 'border-amber-400/70 bg-amber-400/10'
+                        }`}
+                    style={box(0, 1, row.position - ROW_HALF_LENGTH, row.position + ROW_HALF_LENGTH)}
+                    title={`Tread-wear indicators across ${row.grooves.length} groove${row.grooves.length === 1 ? '' : 's'}${row.flush ? ', flush with the tread' : ''}`}
+                />
+            ))}
+
+            {visible && wearBars.map((bar, i) => {
+                const groove = grooves[bar.groove];
+                const half = groove.width / 2 + 0.01;
+                return (
+                    <div
+                        key={i}
+                        className={`absolute rounded-sm ${bar.flush ? 'bg-red-500/80' : 'bg-amber-400/70'}`}
+                        style={box(groove.center - half, groove.center + half, bar.position - BAR_HALF_LENGTH, bar.position + BAR_HALF_LENGTH)}
+                        title={bar.flush ? 'Wear bar flush with the tread' : 'Wear bar below the tread'}
+                    />
+                );
+            })}
+
+            <button
+                onClick={() => setVisible(v => !v)}
+                aria-pressed={visible}
+                className={`absolute top-3 left-3 pointer-events-auto flex items-center gap-1.5 px-2.5 py-1 rounded-full backdrop-blur-md text-[10px] font-medium border transition-colors ${indicatorsFlush
+                    ? 'bg-red-500/30 text-red-200 border-red-500/60'
+                    : rowsFlush
+                        ? 'bg-red-500/20 text-red-300 border-red-500/30'
+                        : 'bg-black/60 text-[#8888a0] border-white/10 hover:text-white'
+                    }`}
+            >
+                {indicatorsFlush ? <AlertTriangle className="w-3 h-3" /> : <ScanLine className="w-3 h-3" />}
+                {grooves.length} groove{grooves.length === 1 ? '' : 's'} · {summary}
+            </button>
+        </>
+    );
+}
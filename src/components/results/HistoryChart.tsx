@@ -0,0 +1,136 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { ScanRecord, UnitSystem, WearCurve, WearRateSource } from '@/types';
+import { LEGAL_MINIMUM_DEPTH } from '@/lib/constants';
+import { depthAtMiles, milesAtDepth } from '@/lib/wearModel';
+import { depthToUnits, distanceToUnits, distanceUnitLabel, formatWearRate } from '@/lib/units';
+
+interface HistoryChartProps {
+    history: ScanRecord[];
+    currentDepth: number;
+    wearRatePer1000Miles: number;
+    wearCurve: WearCurve;
+    wearRateSource: WearRateSource;
+    units?: UnitSystem;
+}
+
+const WIDTH = 280;
+const HEIGHT = 140;
+const PAD = { top: 10, right: 10, bottom: 22, left: 28 };
+const CURVE_STEPS = 40;
+
+/**
+ * Measured depth per scan vs. the predicted wear line, plotted against odometer.
+ */
+export default function HistoryChart({
+    history,
+    currentDepth,
+    wearRatePer1000Miles,
+    wearCurve,
+    wearRateSource,
+    units = 'imperial',
+}: HistoryChartProps) {
+    const chart = useMemo(() => {
+        const latest = history[history.length - 1];
+        const firstMiles = history[0].odometerMiles;
+
+        // Where today's depth sits on the curve, in miles since new
+        const curveMilesNow = milesAtDepth(wearCurve, currentDepth);
+        const legalCurveMiles = milesAtDepth(wearCurve, LEGAL_MINIMUM_DEPTH);
+
+        // Predicted curve runs from the first scan to where it crosses the legal minimum
+        const milesToLegal = Number.isFinite(legalCurveMiles)
+            ? Math.max(0, legalCurveMiles - curveMilesNow)
+            : 0;
+        const endMiles = latest.odometerMiles + milesToLegal;
+        const startMiles = Math.min(firstMiles, latest.odometerMiles);
+        const spanMiles = Math.max(1, endMiles - startMiles);
+
+        const maxDepth = Math.max(10, ...history.map(r => r.depth32nds));
+        const x = (miles: number) => PAD.left + ((miles - startMiles) / spanMiles) * (WIDTH - PAD.left - PAD.right);
+        const y = (depth: number) => PAD.top + (1 - depth / maxDepth) * (HEIGHT - PAD.top - PAD.bottom);
+
+        const predictedAt = (miles: number) => depthAtMiles(wearCurve, curveMilesNow + miles - latest.odometerMiles);
+
+        const curvePoints: string[] = [];
+        for (let i = 0; i <= CURVE_STEPS; i++) {
+            const miles = startMiles + (i / CURVE_STEPS) * (endMiles - startMiles);
+            curvePoints.push(`${x(miles).toFixed(1)},${y(predictedAt(miles)).toFixed(1)}`);
+        }
+
+        return {
+            points: history.map(r => ({ id: r.id, cx: x(r.odometerMiles), cy: y(r.depth32nds) })),
+            curve: curvePoints.join(' '),
+            legalY: y(LEGAL_MINIMUM_DEPTH),
+            startMiles,
+            endMiles,
+            maxDepth,
+            y,
+        };
+    }, [history, currentDepth, wearCurve]);
+
+    const formatMiles = (miles: number) => `${Math.round(distanceToUnits(miles, units) / 1000)}k ${distanceUnitLabel(units)}`;
+    const formatAxisDepth = (depth: number) => units === 'metric'
+        ? depthToUnits(depth, units).toFixed(1)
+        : String(Math.round(depth));
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold">Scan History</h3>
+                <span
+                    className={`text-[10px] px-2 py-0.5 rounded-full border ${wearRateSource === 'fitted'
+                        ? 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10'
+                        : 'text-[#8888a0] border-white/10 bg-white/[0.03]'
+                        }`}
+                >
+                    {wearRateSource === 'fitted' ? 'Fitted from your scans' : 'Default wear rate'}
+                </span>
+            </div>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                {/* Depth grid */}
+                {[0, chart.maxDepth / 2, chart.maxDepth].map(depth => (
+                    <g key={depth}>
+                        <line
+                            x1={PAD.left} x2={WIDTH - PAD.right}
+                            y1={chart.y(depth)} y2={chart.y(depth)}
+                            stroke="rgba(255,255,255,0.05)"
+                        />
+                        <text x={PAD.left - 4} y={chart.y(depth) + 3} textAnchor="end" fontSize="8" fill="#555570">
+                            {formatAxisDepth(depth)}
+                        </text>
+                    </g>
+                ))}
+
+                {/* Legal minimum */}
+                <line
+                    x1={PAD.left} x2={WIDTH - PAD.right}
+                    y1={chart.legalY} y2={chart.legalY}
+                    stroke="rgba(239,68,68,0.4)" strokeDasharray="3 3"
+                />
+
+                {/* Predicted wear */}
+                <polyline points={chart.curve} fill="none" stroke="#22d3ee" strokeWidth="1.5" strokeDasharray="4 2" />
+
+                {/* Measured scans */}
+                {chart.points.map(p => (
+                    <circle key={p.id} cx={p.cx} cy={p.cy} r="3.5" fill="#10b981" stroke="#0a0a0f" strokeWidth="1" />
+                ))}
+
+                {/* Odometer axis */}
+                <text x={PAD.left} y={HEIGHT - 6} fontSize="8" fill="#555570">{formatMiles(chart.startMiles)}</text>
+                <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize="8" fill="#555570">
+                    {formatMiles(chart.endMiles)}
+                </text>
+            </svg>
+
+            <p className="text-xs text-[#8888a0] mt-2">
+                {history.length} scan{history.length !== 1 ? 's' : ''} · wear rate{' '}
+                <span className="text-white font-mono">{formatWearRate(wearRatePer1000Miles, units)}</span>
+                {wearRateSource === 'default' && history.length < 2 && ' — scan again after some driving to fit your own rate.'}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { AnalysisResult, RoadPosition, TirePosition, UnitSystem } from '@/types';
+import { planRotations, rotationTireFromPrediction, type RotationTire } from '@/lib/rotationPlanner';
+import {
+    DEFAULT_ROTATION_INTERVAL_MILES,
+    LEGAL_MINIMUM_DEPTH,
+    ROTATION_INTERVAL_OPTIONS,
+    ROTATION_INTERVAL_OPTIONS_KM,
+    ROTATION_PATTERNS,
+    TIRE_POSITION_LABELS,
+} from '@/lib/constants';
+import {
+    distanceFromUnits,
+    distanceToUnits,
+    distanceUnitLabel,
+    formatDepthLimit,
+    formatDistance,
+    nearestOption,
+} from '@/lib/units';
+
+interface RotationPlanCardProps {
+    tires: Partial<Record<TirePosition, AnalysisResult>>;
+    units?: UnitSystem;
+}
+
+const ROAD_POSITIONS: RoadPosition[] = ['FL', 'FR', 'RL', 'RR'];
+
+// Rotations listed before the rest are summarized
+const SHOWN_ROTATIONS = 4;
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/**
+ * Best rotation pattern and schedule for a four-tire scan. Hidden until all
+ * four road positions have been scanned.
+ */
+export default function RotationPlanCard({ tires, units = 'imperial' }: RotationPlanCardProps) {
+    // The picked interval is in display units; the default snaps to the nearest one
+    const [pickedInterval, setPickedInterval] = useState<number | null>(null);
+    const intervalOptions = units === 'metric' ? ROTATION_INTERVAL_OPTIONS_KM : ROTATION_INTERVAL_OPTIONS;
+    const interval = pickedInterval != null && intervalOptions.includes(pickedInterval)
+        ? pickedInterval
+        : nearestOption(intervalOptions, distanceToUnits(DEFAULT_ROTATION_INTERVAL_MILES, units));
+    const intervalMiles = Math.round(distanceFromUnits(interval, units));
+
+    const plan = useMemo(() => {
+        if (!ROAD_POSITIONS.every(position => tires[position])) return null;
+        const rotationTires = Object.fromEntries(ROAD_POSITIONS.map(position => (
+            [position, rotationTireFromPrediction(tires[position]!.wearPrediction)]
+        ))) as Record<RoadPosition, RotationTire>;
+        const { milesPerYear, drivetrain, jurisdiction } = tires.FL!.wearPrediction;
+        return planRotations(rotationTires, { milesPerYear, drivetrain, intervalMiles, jurisdiction });
+    }, [tires, intervalMiles]);
+
+    if (!plan) return null;
+
+    const { recommended, noRotation, simulations, gainMonths } = plan;
+    const pattern = ROTATION_PATTERNS[recommended.pattern!];
+    const upcoming = recommended.rotations.slice(0, SHOWN_ROTATIONS);
+    const remaining = recommended.rotations.length - upcoming.length;
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <RotateCcw className="w-4 h-4 text-cyan-400" />
+                    Rotation Plan
+                </h3>
+                <select
+                    value={interval}
+                    onChange={(e) => setPickedInterval(Number(e.target.value))}
+                    className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-white focus:outline-none"
+                    aria-label="Rotation interval"
+                >
+                    {intervalOptions.map(distance => (
+                        <option key={distance} value={distance} className="bg-[#16161f]">
+                            Every {distance.toLocaleString()} {distanceUnitLabel(units)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="rounded-xl bg-white/[0.03] p-3 mb-4">
+                <p className="text-[10px] text-[#555570] uppercase tracking-wider">
+                    Recommended · {plan.drivetrain}
+                </p>
+                <p className="text-lg font-bold">{pattern.label}</p>
+                <p className="text-xs text-[#8888a0]">{pattern.description}</p>
+            </div>
+
+            <div className="space-y-3 text-xs text-[#8888a0]">
+                <div className="flex items-start gap-2">
+                    <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 mt-1.5 shrink-0" />
+                    <p>
+                        First tire reaches {formatDepthLimit(LEGAL_MINIMUM_DEPTH, units)} around{' '}
+                        <span className="text-white font-medium">{formatDate(recommended.legalMinimumDate)}</span>
+                        {gainMonths > 0
+                            ? ` — ${gainMonths} months later than never rotating (${formatDate(noRotation.legalMinimumDate)}).`
+                            : '.'}
+                    </p>
+                </div>
+                {noRotation.firstWornTire && (
+                    <div className="flex items-start gap-2">
+                        <span className="w-1.5 h-1.5 rounded-full bg-amber-400 mt-1.5 shrink-0" />
+                        <p>
+                            Without rotations the {TIRE_POSITION_LABELS[noRotation.firstWornTire].toLowerCase()} wears out first.
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {upcoming.length > 0 && (
+                <div className="mt-4">
+                    <p className="text-[10px] text-[#555570] uppercase tracking-wider mb-2">Schedule</p>
+                    <ol className="space-y-1 text-xs">
+                        {upcoming.map(rotation => (
+                            <li key={rotation.number} className="flex justify-between">
+                                <span className="text-[#8888a0]">Rotation {rotation.number}</span>
+                                <span className="font-mono">
+                                    {formatDate(rotation.date)} · +{formatDistance(rotation.milesFromNow, units)}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                    {remaining > 0 && (
+                        <p className="text-[10px] text-[#555570] mt-1">
+                            …then {remaining} more every {formatDistance(plan.intervalMiles, units)}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="mt-4 pt-3 border-t border-white/[0.06] space-y-1">
+                {simulations.map(simulation => (
+                    <div key={simulation.pattern} className="flex justify-between text-[11px]">
+                        <span className={simulation === recommended ? 'text-white' : 'text-[#555570]'}>
+                            {ROTATION_PATTERNS[simulation.pattern!].label}
+                        </span>
+                        <span className="font-mono text-[#8888a0]">{formatDate(simulation.legalMinimumDate)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CalendarRange, CloudRain, Snowflake, Sun } from 'lucide-react';
+import type { UnitSystem, WearPrediction, WeatherMode } from '@/types';
+import { seasonalExposure } from '@/lib/seasonalExposure';
+import { depthToUnits, depthUnitLabel } from '@/lib/units';
+import { RISK_COLORS } from '@/lib/constants';
+
+interface SeasonalRiskCalendarProps {
+    wearPrediction: WearPrediction;
+    units?: UnitSystem;
+}
+
+const CONDITION_ICONS: Record<WeatherMode, React.ReactNode> = {
+    dry: <Sun className="w-3 h-3" />,
+    wet: <CloudRain className="w-3 h-3" />,
+    snow: <Snowflake className="w-3 h-3" />,
+};
+
+/**
+ * Next twelve months of weather exposure: projected depth at the start of
+ * each month, colored by the risk in that month's typical weather. Needs the
+ * region's climate normals, so it asks for a postal code without them.
+ */
+export default function SeasonalRiskCalendar({ wearPrediction, units = 'imperial' }: SeasonalRiskCalendarProps) {
+    const { climateNormals } = wearPrediction;
+    const exposure = useMemo(
+        () => climateNormals ? seasonalExposure(wearPrediction, climateNormals, new Date(), units) : null,
+        [wearPrediction, climateNormals, units]
+    );
+
+    if (!exposure) {
+        return (
+            <div className="flex items-center gap-3 px-4 py-3 rounded-2xl border border-white/[0.06] bg-white/[0.02]">
+                <CalendarRange className="w-4 h-4 text-[#8888a0] shrink-0" />
+                <p className="text-xs text-[#8888a0]">
+                    Add a ZIP or postal code when scanning to see which months your tread will be too thin for the weather.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <h3 className="text-sm font-semibold flex items-center gap-2 mb-4">
+                <CalendarRange className="w-4 h-4 text-cyan-400" />
+                Seasonal Risk
+            </h3>
+
+            <div className="grid grid-cols-6 gap-1.5">
+                {exposure.months.map(month => (
+                    <div
+                        key={month.date.getTime()}
+                        title={`${month.description} Rain ${Math.round(month.precipProbability * 100)}% of days, snow ${Math.round(month.snowProbability * 100)}%.`}
+                        className="rounded-lg p-2 text-center border"
+                        style={{
+                            backgroundColor: `${RISK_COLORS[month.riskLevel]}12`,
+                            borderColor: `${RISK_COLORS[month.riskLevel]}30`,
+                        }}
+                    >
+                        <p className="text-[10px] text-[#8888a0]">
+                            {month.date.toLocaleDateString('en-US', { month: 'short' })}
+                        </p>
+                        <p className="text-xs font-mono font-semibold" style={{ color: RISK_COLORS[month.riskLevel] }}>
+                            {units === 'metric' ? depthToUnits(month.depth32nds, units).toFixed(1) : month.depth32nds}
+                        </p>
+                        <p className="flex justify-center text-[#555570] mt-0.5">{CONDITION_ICONS[month.condition]}</p>
+                    </div>
+                ))}
+            </div>
+
+            {exposure.highlights.length > 0 && (
+                <div className="mt-4 space-y-2 text-xs text-[#8888a0]">
+                    {exposure.highlights.map(note => (
+                        <div key={note} className="flex items-start gap-2">
+                            <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 mt-1.5 shrink-0" />
+                            <p>{note}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <p className="text-[10px] text-[#555570] mt-3">
+                Depth in {depthUnitLabel(units)} at the start of each month. Each month is judged in its typical weather for your area.
+            </p>
+        </div>
+    );
+}
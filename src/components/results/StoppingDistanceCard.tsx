@@ -0,0 +1,101 @@
+'use client';
+
+import { Gauge, Waves } from 'lucide-react';
+import type { StoppingEstimate, UnitSystem } from '@/types';
+import { STOPPING_SPEED_OPTIONS_KMH, STOPPING_SPEED_OPTIONS_MPH } from '@/lib/constants';
+import { formatDepth, formatLength, formatSpeed, lengthToUnits, speedFromUnits, speedToUnits } from '@/lib/units';
+
+interface StoppingDistanceCardProps {
+    today: StoppingEstimate;
+    atSlider: StoppingEstimate;
+    onSpeedChange: (speedMph: number) => void;
+    units?: UnitSystem;
+}
+
+const ROAD_LABELS = { dry: 'Dry road', wet: 'Wet road', snow: 'Snow' } as const;
+
+function EstimateColumn({ label, estimate, highlight, units }: {
+    label: string;
+    estimate: StoppingEstimate;
+    highlight?: boolean;
+    units: UnitSystem;
+}) {
+    return (
+        <div className="flex-1 rounded-xl bg-white/[0.03] p-3">
+            <p className="text-[10px] text-[#555570] uppercase tracking-wider">{label}</p>
+            <p className={`text-2xl font-bold font-mono ${highlight ? 'text-amber-300' : 'text-white'}`}>
+                {Math.round(lengthToUnits(estimate.brakingDistanceFt, units))}
+                <span className="text-xs text-[#8888a0] font-normal"> {units === 'metric' ? 'm' : 'ft'}</span>
+            </p>
+            <p className="text-[11px] text-[#8888a0]">
+                {formatLength(estimate.stoppingDistanceFt, units)} with reaction time
+            </p>
+            {estimate.hydroplaningSpeedMph != null && (
+                <p className={`text-[11px] mt-1 flex items-center gap-1 ${estimate.hydroplaningRisk ? 'text-red-300' : 'text-[#8888a0]'}`}>
+                    <Waves className="w-3 h-3" />
+                    Hydroplanes from ~{formatSpeed(estimate.hydroplaningSpeedMph, units)}
+                </p>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Braking distance at the chosen speed in the selected weather, today and at
+ * the Time Travel slider's depth.
+ */
+export default function StoppingDistanceCard({ today, atSlider, onSpeedChange, units = 'imperial' }: StoppingDistanceCardProps) {
+    const moved = atSlider.depth32nds !== today.depth32nds;
+    const extraFt = atSlider.brakingDistanceFt - today.brakingDistanceFt;
+    const speedOptions = units === 'metric' ? STOPPING_SPEED_OPTIONS_KMH : STOPPING_SPEED_OPTIONS_MPH;
+    const speedUnit = units === 'metric' ? 'km/h' : 'mph';
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <Gauge className="w-4 h-4 text-cyan-400" />
+                    Stopping Distance
+                </h3>
+                <select
+                    value={Math.round(speedToUnits(today.speedMph, units))}
+                    onChange={(e) => onSpeedChange(speedFromUnits(Number(e.target.value), units))}
+                    className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-white focus:outline-none"
+                    aria-label="Speed"
+                >
+                    {speedOptions.map(speed => (
+                        <option key={speed} value={speed} className="bg-[#16161f]">
+                            {speed} {speedUnit}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex gap-2">
+                <EstimateColumn label={`Today · ${formatDepth(today.depth32nds, units)}`} estimate={today} units={units} />
+                {moved && (
+                    <EstimateColumn
+                        label={`At ${formatDepth(atSlider.depth32nds, units)}`}
+                        estimate={atSlider}
+                        highlight={extraFt > 0}
+                        units={units}
+                    />
+                )}
+            </div>
+
+            <p className="text-xs text-[#8888a0] mt-3">
+                {ROAD_LABELS[today.weatherMode]} braking from {formatSpeed(today.speedMph, units)}
+                {moved && extraFt > 0 && <> — {formatLength(extraFt, units)} longer once worn to {formatDepth(atSlider.depth32nds, units)}</>}.
+                {!moved && ' Move the Time Travel slider to see how it grows as the tread wears.'}
+            </p>
+            {atSlider.hydroplaningRisk && (
+                <p className="text-xs text-red-300 mt-2">
+                    At {formatSpeed(atSlider.speedMph, units)} this tread can hydroplane in standing water. Slow down in heavy rain.
+                </p>
+            )}
+            <p className="text-[10px] text-[#555570] mt-3">
+                Physics estimate for a typical car with ABS on level pavement. Real distances vary with brakes, load and road surface.
+            </p>
+        </div>
+    );
+}
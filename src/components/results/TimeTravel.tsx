@@ -3,8 +3,9 @@
 import { useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import AnimatedNumber from './AnimatedNumber';
-import type { RiskLevel } from '@/types';
-import { RISK_COLORS, WET_TRACTION_DROP_DEPTH, LEGAL_MINIMUM_DEPTH } from '@/lib/constants';
+import type { RiskLevel, StoppingEstimate, ThresholdBand, UnitSystem } from '@/types';
+import { RISK_COLORS } from '@/lib/constants';
+import { depthToUnits, formatDepth, formatLength, formatSpeed } from '@/lib/units';
 
 interface TimeTravelProps {
     t: number;
@@ -13,8 +14,21 @@ interface TimeTravelProps {
     currentDate: Date;
     riskLevel: RiskLevel;
     currentDepth: number;
-    initialDepth?: number;
-    monthlyWearRate?: number;
+    wetTractionT?: number;  // slider position where the tire reaches the wet-traction depth
+    legalMinimumT?: number; // slider position where it reaches the legal minimum
+    wetTractionLabel?: string;  // e.g. 4/32" or 3 mm
+    legalMinimumLabel?: string; // e.g. 2/32" or 1.6 mm
+    wetTractionBand?: ThresholdBand | null;  // P10–P90 spread around the markers
+    legalMinimumBand?: ThresholdBand | null;
+    stopping?: { today: StoppingEstimate; atSlider: StoppingEstimate } | null; // braking today vs. at the slider's depth
+    winterRuleNote?: string | null; // set when the slider's date and depth break a winter-tire law
+    units?: UnitSystem;
+}
+
+const ROAD_LABELS = { dry: 'dry roads', wet: 'wet roads', snow: 'snow' } as const;
+
+function formatMonth(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
 }
 
 export default function TimeTravel({
@@ -24,33 +38,24 @@ export default function TimeTravel({
     currentDate,
     riskLevel,
     currentDepth,
-    initialDepth = 8,
-    monthlyWearRate = 0.14,
+    wetTractionT: wetThresholdT = 0.6,
+    legalMinimumT: legalThresholdT = 0.9,
+    wetTractionLabel = '4/32"',
+    legalMinimumLabel = '2/32"',
+    wetTractionBand,
+    legalMinimumBand,
+    stopping,
+    winterRuleNote,
+    units = 'imperial',
 }: TimeTravelProps) {
     const riskColor = RISK_COLORS[riskLevel];
 
-    // Compute real threshold positions from wear data
-    const wetThresholdT = useMemo(() => {
-        if (monthlyWearRate <= 0 || totalMonths <= 0) return 0.6;
-        const monthsToWet = Math.max(0, (initialDepth - WET_TRACTION_DROP_DEPTH) / monthlyWearRate);
-        return Math.min(1, Math.max(0, monthsToWet / totalMonths));
-    }, [initialDepth, monthlyWearRate, totalMonths]);
-
-    const legalThresholdT = useMemo(() => {
-        if (monthlyWearRate <= 0 || totalMonths <= 0) return 0.9;
-        const monthsToLegal = Math.max(0, (initialDepth - LEGAL_MINIMUM_DEPTH) / monthlyWearRate);
-        return Math.min(1, Math.max(0, monthsToLegal / totalMonths));
-    }, [initialDepth, monthlyWearRate, totalMonths]);
-
     // Determine if we've crossed thresholds
     const pastWetThreshold = t >= wetThresholdT;
     const pastLegalThreshold = t >= legalThresholdT;
 
     const formattedDate = useMemo(() => {
-        return currentDate.toLocaleDateString('en-US', {
-            month: 'short',
-            year: 'numeric',
-        });
+        return formatMonth(currentDate);
     }, [currentDate]);
 
     const timeLabel = useMemo(() => {
@@ -90,12 +95,12 @@ export default function TimeTravel({
                     <p className="text-xs text-[#555570]">Depth</p>
                     <p className="text-lg font-mono font-bold">
                         <AnimatedNumber
-                            value={currentDepth}
+                            value={depthToUnits(currentDepth, units)}
                             decimals={1}
                             duration={400}
                             className="transition-colors duration-300"
                         />
-                        <span className="text-sm text-[#8888a0]">/32&quot;</span>
+                        <span className="text-sm text-[#8888a0]">{units === 'metric' ? ' mm' : '/32"'}</span>
                     </p>
                 </div>
             </div>
@@ -112,8 +117,27 @@ export default function TimeTravel({
                     className="w-full time-travel-slider"
                 />
 
-                {/* Threshold markers */}
+                {/* Threshold markers, over the shaded P10–P90 range of each date */}
                 <div className="relative h-auto mt-2">
+                    {wetTractionBand && (
+                        <div
+                            className="absolute top-0 h-4 rounded-sm bg-amber-500/15 transition-all duration-500"
+                            style={{
+                                left: `${wetTractionBand.fromT * 100}%`,
+                                width: `${Math.max(0.5, (wetTractionBand.toT - wetTractionBand.fromT) * 100)}%`,
+                            }}
+                        />
+                    )}
+                    {legalMinimumBand && (
+                        <div
+                            className="absolute top-0 h-4 rounded-sm bg-red-500/15 transition-all duration-500"
+                            style={{
+                                left: `${legalMinimumBand.fromT * 100}%`,
+                                width: `${Math.max(0.5, (legalMinimumBand.toT - legalMinimumBand.fromT) * 100)}%`,
+                            }}
+                        />
+                    )}
+
                     {/* Wet traction drop marker */}
                     <div
                         className="absolute top-0 flex flex-col items-center transition-all duration-500"
@@ -121,7 +145,7 @@ export default function TimeTravel({
                     >
                         <div className={`w-0.5 h-4 transition-colors duration-300 ${pastWetThreshold ? 'bg-amber-400' : 'bg-amber-500/40'}`} />
                         <span className={`text-[10px] whitespace-nowrap mt-0.5 transition-all duration-300 ${pastWetThreshold ? 'text-amber-300 font-semibold' : 'text-amber-400/60'}`}>
-                            4/32&quot;
+                            {wetTractionLabel}
                         </span>
                     </div>
 
@@ -132,7 +156,7 @@ export default function TimeTravel({
                     >
                         <div className={`w-0.5 h-4 transition-colors duration-300 ${pastLegalThreshold ? 'bg-red-400' : 'bg-red-500/40'}`} />
                         <span className={`text-[10px] whitespace-nowrap mt-0.5 transition-all duration-300 ${pastLegalThreshold ? 'text-red-300 font-semibold' : 'text-red-400/60'}`}>
-                            2/32&quot;
+                            {legalMinimumLabel}
                         </span>
                     </div>
                 </div>
@@ -142,6 +166,32 @@ export default function TimeTravel({
                     <span className="text-xs text-[#555570]">Today</span>
                     <span className="text-xs text-[#555570]">End of life</span>
                 </div>
+
+                {legalMinimumBand && (
+                    <p className="mt-2 text-[11px] text-[#8888a0]">
+                        {legalMinimumLabel} likely between{' '}
+                        <span className="text-white">{formatMonth(legalMinimumBand.from)}</span> and{' '}
+                        <span className="text-white">{formatMonth(legalMinimumBand.to)}</span>
+                        {wetTractionBand && (
+                            <> · {wetTractionLabel} {formatMonth(wetTractionBand.from)} – {formatMonth(wetTractionBand.to)}</>
+                        )}
+                        <span className="text-[#555570]"> (80% range)</span>
+                    </p>
+                )}
+
+                {stopping && (
+                    <p className="mt-1 text-[11px] text-[#8888a0]">
+                        At {formatSpeed(stopping.today.speedMph, units)} on {ROAD_LABELS[stopping.today.weatherMode]}:{' '}
+                        <span className="text-white">{formatLength(stopping.today.brakingDistanceFt, units)}</span> to stop today
+                        {stopping.atSlider.brakingDistanceFt !== stopping.today.brakingDistanceFt && (
+                            <>
+                                ,{' '}
+                                <span style={{ color: riskColor }}>{formatLength(stopping.atSlider.brakingDistanceFt, units)}</span>
+                                {' '}at {formatDepth(stopping.atSlider.depth32nds, units)}
+                            </>
+                        )}
+                    </p>
+                )}
             </div>
 
             {/* Hydroplaning threshold warning */}
@@ -160,6 +210,18 @@ export default function TimeTravel({
                         </p>
                     </motion.div>
                 )}
+                {winterRuleNote && !pastLegalThreshold && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0, y: -5 }}
+                        animate={{ opacity: 1, height: 'auto', y: 0 }}
+                        exit={{ opacity: 0, height: 0, y: -5 }}
+                        transition={{ duration: 0.3 }}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-sky-500/10 border border-sky-500/20"
+                    >
+                        <span className="text-sm">❄️</span>
+                        <p className="text-xs text-sky-300">{winterRuleNote}</p>
+                    </motion.div>
+                )}
                 {pastLegalThreshold && (
                     <motion.div
                         initial={{ opacity: 0, height: 0, y: -5 }}
@@ -0,0 +1,51 @@
+'use client';
+
+import { CalendarClock, AlertTriangle } from 'lucide-react';
+import type { TireAge } from '@/types';
+import { TIRE_AGE_WARNING_MONTHS } from '@/lib/constants';
+
+interface TireAgeCardProps {
+    tireAge: TireAge;
+}
+
+function formatAge(months: number): string {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    if (years === 0) return `${rest} month${rest !== 1 ? 's' : ''}`;
+    return `${years} yr${years !== 1 ? 's' : ''}${rest > 0 ? ` ${rest} mo` : ''}`;
+}
+
+/**
+ * Tire age from the DOT date code. Over-age tires get a warning that stands
+ * apart from the tread-based risk.
+ */
+export default function TireAgeCard({ tireAge }: TireAgeCardProps) {
+    const { week, year, ageMonths, overAgeLimit, source } = tireAge;
+
+    if (overAgeLimit) {
+        return (
+            <div className="flex items-start gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/25">
+                <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+                <div>
+                    <p className="text-sm font-semibold text-red-300">
+                        Tire is {formatAge(ageMonths)} old — replace regardless of tread
+                    </p>
+                    <p className="text-xs text-red-300/70 mt-1">
+                        Made week {week} of {year}. Rubber hardens and cracks with age; most makers advise replacing
+                        tires older than {TIRE_AGE_WARNING_MONTHS / 12} years even when the tread looks fine.
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3 px-4 py-3 rounded-2xl border border-white/[0.06] bg-white/[0.02]">
+            <CalendarClock className="w-4 h-4 text-[#8888a0] shrink-0" />
+            <p className="text-xs text-[#8888a0]">
+                Tire age <span className="text-white font-medium">{formatAge(ageMonths)}</span> · made week {week} of {year}
+                <span className="text-[#555570]"> ({source === 'ocr' ? 'read from sidewall' : 'entered'})</span>
+            </p>
+        </div>
+    );
+}
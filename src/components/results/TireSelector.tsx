@@ -0,0 +1,58 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import type { AnalysisResult, TirePosition } from '@/types';
+import { RISK_COLORS, TIRE_POSITIONS } from '@/lib/constants';
+
+interface TireSelectorProps {
+    tires: Partial<Record<TirePosition, AnalysisResult>>;
+    selectedPosition: TirePosition;
+    worstPosition: TirePosition;
+    onSelect: (position: TirePosition) => void;
+}
+
+export default function TireSelector({
+    tires,
+    selectedPosition,
+    worstPosition,
+    onSelect,
+}: TireSelectorProps) {
+    const positions = TIRE_POSITIONS.filter(p => tires[p]);
+
+    return (
+        <div>
+            <p className="text-xs font-medium text-[#555570] uppercase tracking-wider mb-2">
+                Tire
+            </p>
+            <div className="flex rounded-xl bg-white/[0.03] border border-white/[0.06] p-1 gap-1">
+                {positions.map((position) => {
+                    const { healthScore } = tires[position]!;
+                    const color = RISK_COLORS[healthScore.riskLevel];
+                    const isSelected = position === selectedPosition;
+
+                    return (
+                        <button
+                            key={position}
+                            onClick={() => onSelect(position)}
+                            className={`relative flex-1 flex flex-col items-center py-2 rounded-lg text-sm font-medium transition-colors duration-300 ${isSelected ? 'text-white' : 'text-[#555570] hover:text-[#8888a0]'}`}
+                        >
+                            {isSelected && (
+                                <motion.div
+                                    layoutId="tire-selected"
+                                    className="absolute inset-0 rounded-lg border"
+                                    style={{ backgroundColor: `${color}15`, borderColor: `${color}30` }}
+                                    transition={{ type: 'spring', duration: 0.4, bounce: 0.15 }}
+                                />
+                            )}
+                            <span className="relative z-10">{position}</span>
+                            <span className="relative z-10 text-[10px] font-mono" style={{ color }}>
+                                {healthScore.score}
+                                {position === worstPosition && positions.length > 1 ? ' ▼' : ''}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
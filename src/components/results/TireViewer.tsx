@@ -4,12 +4,17 @@ import { useRef, useEffect, useCallback, useState } from 'react';
 import { applyDeterioration } from '@/lib/imageDeterioration';
 import ParticleOverlay from './ParticleOverlay';
 import ContactPatch from './ContactPatch';
-import type { WeatherMode } from '@/types';
+import GrooveOverlay from './GrooveOverlay';
+import type { GrooveProfile, TreadRegion, WearBarDetection, WeatherMode, WearPattern } from '@/types';
 
 interface TireViewerProps {
     imageSrc: string;
     t: number;
     unevenWear: boolean;
+    wearPattern?: WearPattern;
+    treadRegion?: TreadRegion;
+    grooveProfile?: GrooveProfile;
+    wearBars?: WearBarDetection;
     riskColor: string;
     glowColor: string;
     weatherMode: WeatherMode;
@@ -67,6 +72,10 @@ export default function TireViewer({
     imageSrc,
     t,
     unevenWear,
+    wearPattern,
+    treadRegion,
+    grooveProfile,
+    wearBars,
     riskColor,
     glowColor,
     weatherMode,
@@ -87,10 +96,12 @@ export default function TireViewer({
         applyDeterioration(ctx, img, {
             t,
             unevenWear,
+            wearPattern,
+            treadRegion,
             width: canvas.width,
             height: canvas.height,
         });
-    }, [t, unevenWear]);
+    }, [t, unevenWear, wearPattern, treadRegion]);
 
     // Load image
     useEffect(() => {
@@ -160,6 +171,16 @@ export default function TireViewer({
                 intensity={0.6 + t * 0.4}
             />
 
+            {/* Measured grooves and wear bars, over the canvas */}
+            {grooveProfile && grooveProfile.grooves.length > 0 && (
+                <div
+                    className="absolute top-0 inset-x-0 mx-auto w-full aspect-square z-[5] pointer-events-none"
+                    style={{ maxWidth: '400px' }}
+                >
+                    <GrooveOverlay grooveProfile={grooveProfile} treadRegion={treadRegion} wearBars={wearBars} />
+                </div>
+            )}
+
             {/* Vignette overlay at high wear */}
             {t > 0.6 && (
                 <div
@@ -0,0 +1,63 @@
+'use client';
+
+import type { UnitSystem, VehicleRollup } from '@/types';
+import { RISK_COLORS, TIRE_POSITION_LABELS } from '@/lib/constants';
+import { formatDepth } from '@/lib/units';
+
+interface VehicleRollupCardProps {
+    rollup: VehicleRollup;
+    units?: UnitSystem;
+}
+
+export default function VehicleRollupCard({ rollup, units = 'imperial' }: VehicleRollupCardProps) {
+    const formatAxleDepth = (depth: number | null) => depth == null ? '—' : formatDepth(depth, units);
+    const { worstPosition, worstScore, worstRiskLevel, axleImbalance, replaceFirst, sideToSideMismatch } = rollup;
+    const worstColor = RISK_COLORS[worstRiskLevel];
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <h3 className="text-sm font-semibold mb-4">Vehicle Summary</h3>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+                <div className="rounded-xl bg-white/[0.03] p-3">
+                    <p className="text-[10px] text-[#555570] uppercase tracking-wider">Front axle</p>
+                    <p className="text-lg font-mono font-bold">{formatAxleDepth(axleImbalance.frontDepth32nds)}</p>
+                </div>
+                <div className="rounded-xl bg-white/[0.03] p-3">
+                    <p className="text-[10px] text-[#555570] uppercase tracking-wider">Rear axle</p>
+                    <p className="text-lg font-mono font-bold">{formatAxleDepth(axleImbalance.rearDepth32nds)}</p>
+                </div>
+            </div>
+
+            <div className="space-y-3 text-xs text-[#8888a0]">
+                <div className="flex items-start gap-2">
+                    <span className="w-1.5 h-1.5 rounded-full mt-1.5 shrink-0" style={{ backgroundColor: worstColor }} />
+                    <p>
+                        Worst tire: <span className="text-white font-medium">{TIRE_POSITION_LABELS[worstPosition]}</span> —
+                        score {worstScore}, <span style={{ color: worstColor }}>{worstRiskLevel}</span>.
+                    </p>
+                </div>
+                {replaceFirst && (
+                    <div className="flex items-start gap-2">
+                        <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 mt-1.5 shrink-0" />
+                        <p>
+                            Replace first: <span className="text-white font-medium">{replaceFirst} pair</span>
+                            {axleImbalance.significant
+                                ? ` — ${formatDepth(axleImbalance.difference32nds, units)} less tread than the other axle.`
+                                : ' — axles are wearing evenly.'}
+                        </p>
+                    </div>
+                )}
+                {sideToSideMismatch.length > 0 && (
+                    <div className="flex items-start gap-2">
+                        <span className="w-1.5 h-1.5 rounded-full bg-amber-400 mt-1.5 shrink-0" />
+                        <p>
+                            Left/right mismatch on {sideToSideMismatch.map(p => TIRE_POSITION_LABELS[p]).join(' / ')} —
+                            check alignment and tire pressures.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import type { WearPatternResult } from '@/types';
+import { WEAR_PATTERN_INFO } from '@/lib/constants';
+
+interface WearPatternCardProps {
+    wearPattern: WearPatternResult;
+}
+
+const SEVERITY_COLORS: Record<WearPatternResult['severity'], string> = {
+    none: '#10b981',
+    mild: '#f59e0b',
+    moderate: '#f97316',
+    severe: '#ef4444',
+};
+
+const BANDS = [
+    { key: 'inner', label: 'Inner' },
+    { key: 'center', label: 'Center' },
+    { key: 'outer', label: 'Outer' },
+] as const;
+
+/**
+ * Detected wear pattern with per-band tread signal and likely causes.
+ */
+export default function WearPatternCard({ wearPattern }: WearPatternCardProps) {
+    const { pattern, severity, bandSignals, likelyCauses } = wearPattern;
+    const color = SEVERITY_COLORS[severity];
+    const maxSignal = Math.max(0.01, bandSignals.inner, bandSignals.center, bandSignals.outer);
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold">Wear Pattern</h3>
+                <span
+                    className="text-[10px] px-2 py-0.5 rounded-full border"
+                    style={{ color, borderColor: `${color}4d`, backgroundColor: `${color}1a` }}
+                >
+                    {WEAR_PATTERN_INFO[pattern].label}
+                    {severity !== 'none' && ` · ${severity}`}
+                </span>
+            </div>
+
+            {/* Tread remaining across the width, inner → outer */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+                {BANDS.map(({ key, label }) => (
+                    <div key={key} className="text-center">
+                        <div className="h-12 rounded-lg bg-white/[0.03] flex items-end overflow-hidden">
+                            <div
+                                className="w-full bg-cyan-400/40"
+                                style={{ height: `${(bandSignals[key] / maxSignal) * 100}%` }}
+                            />
+                        </div>
+                        <p className="text-[10px] text-[#555570] uppercase tracking-wider mt-1">{label}</p>
+                    </div>
+                ))}
+            </div>
+
+            {likelyCauses.length > 0 ? (
+                <ul className="space-y-2 text-xs text-[#8888a0]">
+                    {likelyCauses.map(cause => (
+                        <li key={cause} className="flex items-start gap-2">
+                            <span className="w-1.5 h-1.5 rounded-full mt-1.5 shrink-0" style={{ backgroundColor: color }} />
+                            <p>{cause}</p>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-xs text-[#8888a0]">Tread is wearing evenly across its width.</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { AlertCircle, Camera, Check, X } from 'lucide-react';
+import { useLiveCamera } from '@/hooks/useLiveCamera';
+import { CAPTURE_HINT_MESSAGES } from '@/lib/constants';
+
+interface LiveCameraProps {
+    onCapture: (frames: string[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * In-page camera with live guidance. Shows what to fix ("too dark",
+ * "move closer"…) and captures a short burst automatically once the frame
+ * has been good for a moment; the shutter button captures right away.
+ */
+export default function LiveCamera({ onCapture, onClose }: LiveCameraProps) {
+    const { videoRef, status, guidance, progress, capturing, captureNow } = useLiveCamera({ onCapture });
+
+    const hint = guidance?.hints[0];
+    const ready = guidance?.ready ?? false;
+    const frameColor = ready ? 'border-emerald-400' : hint ? 'border-amber-400/80' : 'border-white/40';
+
+    if (status === 'denied' || status === 'unsupported') {
+        return (
+            <div className="flex-1 min-h-[300px] flex flex-col items-center justify-center gap-3 rounded-3xl border border-white/10 bg-white/[0.02] p-6 text-center">
+                <AlertCircle className="w-8 h-8 text-amber-400" />
+                <p className="text-sm text-[#8888a0]">
+                    {status === 'denied'
+                        ? 'Camera access was blocked. Allow it in your browser settings, or take a photo instead.'
+                        : 'This browser can\'t show a live camera. Take a photo instead.'}
+                </p>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-sm transition-colors"
+                >
+                    Back
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative rounded-3xl overflow-hidden border border-white/10 bg-black">
+            <video
+                ref={videoRef}
+                playsInline
+                muted
+                className="w-full aspect-square object-cover"
+            />
+
+            {/* Aim frame */}
+            <div className={`absolute inset-[12%] rounded-2xl border-2 border-dashed transition-colors duration-300 ${frameColor}`} />
+
+            {/* Guidance */}
+            <div className="absolute top-3 left-3 right-12 flex">
+                {status === 'starting' || capturing ? (
+                    <span className="px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-xs text-[#8888a0]">
+                        {capturing ? 'Capturing…' : 'Starting camera…'}
+                    </span>
+                ) : (
+                    <motion.span
+                        key={hint ?? (ready ? 'ready' : 'aim')}
+                        initial={{ opacity: 0, y: -4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full backdrop-blur-md text-xs font-medium border ${hint
+                            ? 'bg-amber-500/20 text-amber-200 border-amber-500/30'
+                            : 'bg-emerald-500/20 text-emerald-200 border-emerald-500/30'
+                            }`}
+                    >
+                        {hint ? (
+                            <><AlertCircle className="w-3 h-3" /> {CAPTURE_HINT_MESSAGES[hint]}</>
+                        ) : ready ? (
+                            <><Check className="w-3 h-3" /> Hold steady…</>
+                        ) : (
+                            <>Aim at the tread</>
+                        )}
+                    </motion.span>
+                )}
+            </div>
+
+            <button
+                onClick={onClose}
+                className="absolute top-3 right-3 p-1.5 rounded-full bg-black/60 backdrop-blur-md hover:bg-black/80 transition-colors border border-white/10"
+                aria-label="Close camera"
+            >
+                <X className="w-4 h-4" />
+            </button>
+
+            {/* Auto-capture progress + shutter */}
+            <div className="absolute bottom-0 inset-x-0 p-4 flex flex-col items-center gap-3 bg-gradient-to-t from-black/70 to-transparent">
+                <div className="w-1/2 h-1 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                        className="h-full bg-emerald-400 transition-[width] duration-200"
+                        style={{ width: `${Math.round(progress * 100)}%` }}
+                    />
+                </div>
+                <button
+                    onClick={captureNow}
+                    disabled={status !== 'live' || capturing}
+                    className="w-14 h-14 rounded-full bg-white/90 hover:bg-white flex items-center justify-center disabled:opacity-40 transition-colors"
+                    aria-label="Capture now"
+                >
+                    <Camera className="w-6 h-6 text-black" />
+                </button>
+                <p className="text-[11px] text-white/60">Captures automatically when the frame is sharp and steady</p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown } from 'lucide-react';
+import type { TireCategory, TireProfile, UnitSystem, VehicleProfile } from '@/types';
+import {
+    TIRE_CATEGORIES,
+    DEFAULT_TIRE_CATEGORY,
+    UTQG_TREADWEAR_RANGE,
+    UTQG_TRACTION_GRADES,
+    UTQG_TEMPERATURE_GRADES,
+    TIRE_NEW_DEPTH_RANGE,
+    CURB_WEIGHT_RANGE_LB,
+    MIN_MODEL_YEAR,
+    DRIVETRAINS,
+} from '@/lib/constants';
+import { parseTireSize, resolveTireProfile } from '@/lib/tireProfile';
+import { depthFromUnits, depthToUnits, depthUnitLabel, formatDepthLimit } from '@/lib/units';
+
+// Form state is kept as typed text so half-typed values survive a reload;
+// the new tread depth is typed in the chosen units (32nds or mm)
+export type TireProfileDraft = Partial<Record<keyof TireProfile, string>>;
+export type VehicleProfileDraft = Partial<Record<keyof VehicleProfile, string>>;
+
+interface ProfileFieldsProps {
+    tire: TireProfileDraft;
+    vehicle: VehicleProfileDraft;
+    onTireChange: (draft: TireProfileDraft) => void;
+    onVehicleChange: (draft: VehicleProfileDraft) => void;
+    units: UnitSystem;
+}
+
+const INPUT_CLASS = 'w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-cyan-500/30 focus:outline-none focus:ring-1 focus:ring-cyan-500/20 text-white placeholder-[#555570] transition-colors';
+const LABEL_CLASS = 'block text-sm font-medium text-[#8888a0] mb-2';
+
+/**
+ * Parse a draft persisted as JSON; anything unreadable is an empty draft.
+ */
+export function parseDraft<T extends object>(json: string): T {
+    try {
+        const parsed = JSON.parse(json);
+        return parsed && typeof parsed === 'object' ? parsed as T : {} as T;
+    } catch {
+        return {} as T;
+    }
+}
+
+/**
+ * The tire profile to send with a scan. Fields that don't parse or are out
+ * of range are left out rather than failing the scan.
+ */
+export function toTireProfile(draft: TireProfileDraft, units: UnitSystem): TireProfile {
+    const category = draft.category as TireCategory | undefined;
+    const newDepth = parseFloat(draft.newTreadDepth32nds ?? '');
+    return {
+        size: draft.size && parseTireSize(draft.size) ? draft.size.trim() : undefined,
+        brand: draft.brand?.trim() || undefined,
+        model: draft.model?.trim() || undefined,
+        category: category && category in TIRE_CATEGORIES ? category : undefined,
+        treadwear: numberIn(draft.treadwear, UTQG_TREADWEAR_RANGE),
+        traction: UTQG_TRACTION_GRADES.find(grade => grade === draft.traction),
+        temperature: UTQG_TEMPERATURE_GRADES.find(grade => grade === draft.temperature),
+        newTreadDepth32nds: isNaN(newDepth)
+            ? undefined
+            : numberIn(String(Math.round(depthFromUnits(newDepth, units) * 10) / 10), TIRE_NEW_DEPTH_RANGE),
+    };
+}
+
+export function toVehicleProfile(draft: VehicleProfileDraft): VehicleProfile {
+    return {
+        make: draft.make?.trim() || undefined,
+        model: draft.model?.trim() || undefined,
+        year: numberIn(draft.year, { min: MIN_MODEL_YEAR, max: new Date().getFullYear() + 1 }),
+        drivetrain: DRIVETRAINS.find(drivetrain => drivetrain === draft.drivetrain),
+        curbWeightLb: numberIn(draft.curbWeightLb, CURB_WEIGHT_RANGE_LB),
+    };
+}
+
+export default function ProfileFields({ tire, vehicle, onTireChange, onVehicleChange, units }: ProfileFieldsProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    const size = tire.size ? parseTireSize(tire.size) : null;
+    const resolved = resolveTireProfile(toTireProfile(tire, units));
+    const setTire = (field: keyof TireProfile, value: string) => onTireChange({ ...tire, [field]: value });
+    const setVehicle = (field: keyof VehicleProfile, value: string) => onVehicleChange({ ...vehicle, [field]: value });
+
+    return (
+        <div className="space-y-3">
+            {/* Tire type — shapes the wear curve */}
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={LABEL_CLASS}>Tire type</label>
+                    <select
+                        value={tire.category ?? ''}
+                        onChange={(e) => setTire('category', e.target.value)}
+                        className={INPUT_CLASS}
+                    >
+                        <option value="" className="bg-[#16161f]">
+                            {size?.lightTruck ? 'From size (light truck)' : `Not sure (${TIRE_CATEGORIES[DEFAULT_TIRE_CATEGORY].label.toLowerCase()})`}
+                        </option>
+                        {(Object.keys(TIRE_CATEGORIES) as TireCategory[]).map(category => (
+                            <option key={category} value={category} className="bg-[#16161f]">
+                                {TIRE_CATEGORIES[category].label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className={LABEL_CLASS}>
+                        Treadwear <span className="text-[#555570]">(UTQG)</span>
+                    </label>
+                    <input
+                        type="number"
+                        value={tire.treadwear ?? ''}
+                        onChange={(e) => setTire('treadwear', e.target.value)}
+                        placeholder="e.g., 500"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+            </div>
+
+            <button
+                type="button"
+                onClick={() => setExpanded(!expanded)}
+                className="flex items-center gap-1.5 text-xs text-[#8888a0] hover:text-white transition-colors"
+            >
+                <ChevronDown className={`w-3.5 h-3.5 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                Tire &amp; vehicle details
+                <span className="text-[#555570]">· new depth {formatDepthLimit(resolved.newTreadDepth32nds, units)}</span>
+            </button>
+
+            <AnimatePresence>
+                {expanded && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="overflow-hidden space-y-3"
+                    >
+                        <div>
+                            <label className={LABEL_CLASS}>
+                                Size <span className="text-[#555570]">(sidewall)</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={tire.size ?? ''}
+                                onChange={(e) => setTire('size', e.target.value)}
+                                placeholder="e.g., 225/45R17 94W or LT245/75R16"
+                                className={INPUT_CLASS}
+                            />
+                            {tire.size && (
+                                <p className={`text-xs mt-1.5 ${size ? 'text-[#8888a0]' : 'text-amber-400'}`}>
+                                    {size
+                                        ? [
+                                            size.lightTruck ? 'Light truck' : 'Passenger',
+                                            `${size.overallDiameterIn}" tall`,
+                                            size.loadIndex != null && `load index ${size.loadIndex}`,
+                                            size.speedRating && `speed ${size.speedRating}`,
+                                        ].filter(Boolean).join(' · ')
+                                        : 'Size not recognized — it will be ignored'}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <input
+                                type="text"
+                                value={tire.brand ?? ''}
+                                onChange={(e) => setTire('brand', e.target.value)}
+                                placeholder="Brand"
+                                className={INPUT_CLASS}
+                            />
+                            <input
+                                type="text"
+                                value={tire.model ?? ''}
+                                onChange={(e) => setTire('model', e.target.value)}
+                                placeholder="Model"
+                                className={INPUT_CLASS}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className={LABEL_CLASS}>Traction</label>
+                                <select
+                                    value={tire.traction ?? ''}
+                                    onChange={(e) => setTire('traction', e.target.value)}
+                                    className={INPUT_CLASS}
+                                >
+                                    <option value="" className="bg-[#16161f]">—</option>
+                                    {UTQG_TRACTION_GRADES.map(grade => (
+                                        <option key={grade} value={grade} className="bg-[#16161f]">{grade}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={LABEL_CLASS}>Temp.</label>
+                                <select
+                                    value={tire.temperature ?? ''}
+                                    onChange={(e) => setTire('temperature', e.target.value)}
+                                    className={INPUT_CLASS}
+                                >
+                                    <option value="" className="bg-[#16161f]">—</option>
+                                    {UTQG_TEMPERATURE_GRADES.map(grade => (
+                                        <option key={grade} value={grade} className="bg-[#16161f]">{grade}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={LABEL_CLASS}>
+                                    New <span className="text-[#555570]">({depthUnitLabel(units)})</span>
+                                </label>
+                                <input
+                                    type="number"
+                                    value={tire.newTreadDepth32nds ?? ''}
+                                    onChange={(e) => setTire('newTreadDepth32nds', e.target.value)}
+                                    placeholder={String(Math.round(depthToUnits(resolved.newTreadDepth32nds, units) * 10) / 10)}
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3 pt-2">
+                            <input
+                                type="text"
+                                value={vehicle.make ?? ''}
+                                onChange={(e) => setVehicle('make', e.target.value)}
+                                placeholder="Make"
+                                className={INPUT_CLASS}
+                            />
+                            <input
+                                type="text"
+                                value={vehicle.model ?? ''}
+                                onChange={(e) => setVehicle('model', e.target.value)}
+                                placeholder="Model"
+                                className={INPUT_CLASS}
+                            />
+                            <input
+                                type="number"
+                                value={vehicle.year ?? ''}
+                                onChange={(e) => setVehicle('year', e.target.value)}
+                                placeholder="Year"
+                                className={INPUT_CLASS}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className={LABEL_CLASS}>Drivetrain</label>
+                                <select
+                                    value={vehicle.drivetrain ?? ''}
+                                    onChange={(e) => setVehicle('drivetrain', e.target.value)}
+                                    className={INPUT_CLASS}
+                                >
+                                    <option value="" className="bg-[#16161f]">Not sure</option>
+                                    {DRIVETRAINS.map(drivetrain => (
+                                        <option key={drivetrain} value={drivetrain} className="bg-[#16161f]">{drivetrain}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={LABEL_CLASS}>
+                                    Curb weight <span className="text-[#555570]">(lb)</span>
+                                </label>
+                                <input
+                                    type="number"
+                                    value={vehicle.curbWeightLb ?? ''}
+                                    onChange={(e) => setVehicle('curbWeightLb', e.target.value)}
+                                    placeholder="e.g., 3500"
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+function numberIn(text: string | undefined, range: { min: number; max: number }): number | undefined {
+    if (!text) return undefined;
+    const value = Number(text);
+    return Number.isFinite(value) && value >= range.min && value <= range.max ? value : undefined;
+}
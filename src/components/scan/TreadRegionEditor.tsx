@@ -0,0 +1,116 @@
+'use client';
+
+import { useRef } from 'react';
+import { ArrowLeftRight, ArrowUpDown, Crop, RotateCcw } from 'lucide-react';
+import { adjustTreadRegion, type TreadRegionHandle } from '@/lib/treadRegion';
+import type { TreadRegion } from '@/types';
+
+interface TreadRegionEditorProps {
+    imageSrc: string;
+    region: TreadRegion | null;    // null while detection runs
+    detected: TreadRegion | null;  // what Reset goes back to
+    onChange: (region: TreadRegion) => void;
+}
+
+const CORNERS: { handle: TreadRegionHandle; className: string }[] = [
+    { handle: 'nw', className: '-left-2 -top-2 cursor-nwse-resize' },
+    { handle: 'ne', className: '-right-2 -top-2 cursor-nesw-resize' },
+    { handle: 'sw', className: '-left-2 -bottom-2 cursor-nesw-resize' },
+    { handle: 'se', className: '-right-2 -bottom-2 cursor-nwse-resize' },
+];
+
+/**
+ * The photo with its detected tread band outlined. Drag the band to move it,
+ * drag a corner to resize it, or flip the groove direction; only the band is
+ * analyzed.
+ */
+export default function TreadRegionEditor({ imageSrc, region, detected, onChange }: TreadRegionEditorProps) {
+    const boxRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ handle: TreadRegionHandle; x: number; y: number; start: TreadRegion } | null>(null);
+
+    const startDrag = (handle: TreadRegionHandle) => (e: React.PointerEvent) => {
+        if (!region) return;
+        e.preventDefault();
+        e.stopPropagation();
+        dragRef.current = { handle, x: e.clientX, y: e.clientY, start: region };
+        boxRef.current?.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const box = boxRef.current?.getBoundingClientRect();
+        if (!drag || !box) return;
+        onChange(adjustTreadRegion(drag.start, drag.handle, (e.clientX - drag.x) / box.width, (e.clientY - drag.y) / box.height));
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <div
+            ref={boxRef}
+            className="relative overflow-hidden"
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+        >
+            <img src={imageSrc} alt="Tire preview" className="block w-full h-auto" />
+
+            {region && (
+                <>
+                    {/* Tread band — everything outside it is dimmed and ignored */}
+                    <div
+                        onPointerDown={startDrag('move')}
+                        className="absolute border-2 border-cyan-400/80 rounded-md cursor-move touch-none"
+                        style={{
+                            left: `${region.x * 100}%`,
+                            top: `${region.y * 100}%`,
+                            width: `${region.width * 100}%`,
+                            height: `${region.height * 100}%`,
+                            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                        }}
+                    >
+                        {CORNERS.map(({ handle, className }) => (
+                            <div
+                                key={handle}
+                                onPointerDown={startDrag(handle)}
+                                className={`absolute w-4 h-4 rounded-full bg-cyan-400 border-2 border-[#0a0a0f] ${className}`}
+                            />
+                        ))}
+                    </div>
+
+                    {/* Band controls */}
+                    <div className="absolute bottom-3 left-3 flex items-center gap-1.5">
+                        <span className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-xs text-[#8888a0] border border-white/10">
+                            <Crop className="w-3 h-3" />
+                            {region.source === 'manual' ? 'Your crop' : region.source === 'detected' ? 'Tread found' : 'Drag to fit the tread'}
+                        </span>
+                        <button
+                            onClick={() => onChange({
+                                ...region,
+                                orientation: region.orientation === 'vertical' ? 'horizontal' : 'vertical',
+                                source: 'manual',
+                            })}
+                            title={region.orientation === 'vertical' ? 'Grooves run top to bottom' : 'Grooves run side to side'}
+                            aria-label="Flip groove direction"
+                            className="p-1.5 rounded-full bg-black/60 backdrop-blur-md hover:bg-black/80 transition-colors border border-white/10"
+                        >
+                            {region.orientation === 'vertical' ? <ArrowUpDown className="w-3 h-3" /> : <ArrowLeftRight className="w-3 h-3" />}
+                        </button>
+                        {detected && region.source === 'manual' && (
+                            <button
+                                onClick={() => onChange(detected)}
+                                title="Back to the detected tread area"
+                                aria-label="Reset crop"
+                                className="p-1.5 rounded-full bg-black/60 backdrop-blur-md hover:bg-black/80 transition-colors border border-white/10"
+                            >
+                                <RotateCcw className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
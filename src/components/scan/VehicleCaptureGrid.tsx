@@ -0,0 +1,89 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Camera, Check, AlertCircle } from 'lucide-react';
+import type { TirePosition, GrooveProfile, ImageQuality, TreadEstimate, TreadRegion, WearPatternResult } from '@/types';
+import { TIRE_POSITION_LABELS } from '@/lib/constants';
+
+export interface TireCapture {
+    preview: string;
+    treadEstimate: TreadEstimate;
+    imageQuality: ImageQuality;
+    estimator: string;
+    wearPattern: WearPatternResult;
+    treadRegion: TreadRegion;
+    grooveProfile: GrooveProfile;
+}
+
+interface VehicleCaptureGridProps {
+    captures: Partial<Record<TirePosition, TireCapture>>;
+    activePosition: TirePosition;
+    onSelectPosition: (position: TirePosition) => void;
+}
+
+// Top-down layout: front axle on top, spare below the rear axle
+const GRID_ROWS: TirePosition[][] = [
+    ['FL', 'FR'],
+    ['RL', 'RR'],
+    ['SPARE'],
+];
+
+export default function VehicleCaptureGrid({
+    captures,
+    activePosition,
+    onSelectPosition,
+}: VehicleCaptureGridProps) {
+    return (
+        <div className="space-y-3">
+            {GRID_ROWS.map((row, rowIdx) => (
+                <div key={rowIdx} className={`grid gap-3 ${row.length === 2 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {row.map((position) => {
+                        const capture = captures[position];
+                        const isActive = position === activePosition;
+
+                        return (
+                            <motion.button
+                                key={position}
+                                type="button"
+                                onClick={() => onSelectPosition(position)}
+                                whileTap={{ scale: 0.97 }}
+                                className={`relative rounded-2xl overflow-hidden border transition-all duration-300 ${position === 'SPARE' ? 'h-20' : 'aspect-[4/3]'} ${isActive
+                                    ? 'border-cyan-500/50 shadow-[0_0_20px_rgba(0,212,255,0.15)]'
+                                    : 'border-white/10 hover:border-white/20'
+                                    }`}
+                            >
+                                {capture ? (
+                                    <img
+                                        src={capture.preview}
+                                        alt={`${TIRE_POSITION_LABELS[position]} tire`}
+                                        className="absolute inset-0 w-full h-full object-cover"
+                                    />
+                                ) : (
+                                    <div className="absolute inset-0 flex items-center justify-center bg-white/[0.02]">
+                                        <Camera className="w-6 h-6 text-[#555570]" />
+                                    </div>
+                                )}
+
+                                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between px-3 py-2 bg-gradient-to-t from-black/80 to-transparent">
+                                    <span className="text-xs font-semibold">
+                                        {TIRE_POSITION_LABELS[position]}
+                                        {position === 'SPARE' && (
+                                            <span className="text-[#8888a0] font-normal"> (optional)</span>
+                                        )}
+                                    </span>
+                                    {capture && (
+                                        capture.imageQuality.acceptable ? (
+                                            <Check className="w-3.5 h-3.5 text-emerald-400" />
+                                        ) : (
+                                            <AlertCircle className="w-3.5 h-3.5 text-amber-400" />
+                                        )
+                                    )}
+                                </div>
+                            </motion.button>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+}
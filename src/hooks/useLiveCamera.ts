@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { LiveFrameGuidance } from '@/types';
+import { advanceAutoCapture, assessLiveFrame, INITIAL_AUTO_CAPTURE } from '@/lib/captureGuidance';
+import {
+    LIVE_BURST_FRAMES,
+    LIVE_BURST_INTERVAL_MS,
+    LIVE_GUIDANCE_DIMENSION,
+    LIVE_GUIDANCE_INTERVAL_MS,
+} from '@/lib/constants';
+
+export type LiveCameraStatus = 'starting' | 'live' | 'denied' | 'unsupported';
+
+interface UseLiveCameraOptions {
+    onCapture: (frames: string[]) => void; // JPEG data URLs, best first
+}
+
+/**
+ * Draw the center square of the video — what the square preview shows —
+ * onto `canvas` at `size` px per side.
+ */
+function drawCenterSquare(video: HTMLVideoElement, canvas: HTMLCanvasElement, size: number): CanvasRenderingContext2D {
+    const side = Math.min(video.videoWidth, video.videoHeight);
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(
+        video,
+        (video.videoWidth - side) / 2, (video.videoHeight - side) / 2, side, side,
+        0, 0, size, size
+    );
+    return ctx;
+}
+
+function captureFrame(video: HTMLVideoElement): string {
+    const canvas = document.createElement('canvas');
+    drawCenterSquare(video, canvas, Math.min(video.videoWidth, video.videoHeight));
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
+
+/**
+ * Rear camera stream with live quality guidance. A small frame is assessed
+ * every LIVE_GUIDANCE_INTERVAL_MS; the sharpest passing frame is kept and,
+ * once frames have passed for a stable period, handed to `onCapture`
+ * with a short burst of the frames that follow it, for fusion.
+ * The stream stops when the component using the hook unmounts.
+ */
+export function useLiveCamera({ onCapture }: UseLiveCameraOptions) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const bestCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const autoCaptureRef = useRef(INITIAL_AUTO_CAPTURE);
+    const capturedRef = useRef(false);
+    const onCaptureRef = useRef(onCapture);
+
+    const [status, setStatus] = useState<LiveCameraStatus>('starting');
+    const [guidance, setGuidance] = useState<LiveFrameGuidance | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [capturing, setCapturing] = useState(false);
+
+    useEffect(() => {
+        onCaptureRef.current = onCapture;
+    }, [onCapture]);
+
+    // Open the rear camera; stop every track on unmount
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+
+        const start = async () => {
+            if (!navigator.mediaDevices?.getUserMedia) {
+                setStatus('unsupported');
+                return;
+            }
+            try {
+                const opened = await navigator.mediaDevices.getUserMedia({
+                    video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 1280 } },
+                    audio: false,
+                });
+                if (cancelled) {
+                    opened.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = opened;
+                const video = videoRef.current;
+                if (video) {
+                    video.srcObject = opened;
+                    await video.play();
+                }
+                setStatus('live');
+            } catch (err) {
+                console.error('Camera unavailable:', err);
+                if (!cancelled) setStatus('denied');
+            }
+        };
+        start();
+
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    // Keep the first frame, then take the rest of the burst
+    const finish = useCallback(async (first: string) => {
+        if (capturedRef.current) return;
+        capturedRef.current = true;
+        setCapturing(true);
+
+        const frames = [first];
+        for (let i = 1; i < LIVE_BURST_FRAMES; i++) {
+            await new Promise(resolve => window.setTimeout(resolve, LIVE_BURST_INTERVAL_MS));
+            const video = videoRef.current;
+            if (!video || video.readyState < 2) break;
+            frames.push(captureFrame(video));
+        }
+        onCaptureRef.current(frames);
+    }, []);
+
+    // Throttled guidance and auto-capture
+    useEffect(() => {
+        if (status !== 'live') return;
+
+        const timer = window.setInterval(() => {
+            const video = videoRef.current;
+            if (!video || video.readyState < 2 || document.hidden || capturedRef.current) return;
+
+            sampleCanvasRef.current ??= document.createElement('canvas');
+            const ctx = drawCenterSquare(video, sampleCanvasRef.current, LIVE_GUIDANCE_DIMENSION);
+            const frame = assessLiveFrame(ctx.getImageData(0, 0, LIVE_GUIDANCE_DIMENSION, LIVE_GUIDANCE_DIMENSION));
+            const step = advanceAutoCapture(autoCaptureRef.current, frame, performance.now());
+            autoCaptureRef.current = step.state;
+
+            if (step.isBest) {
+                bestCanvasRef.current ??= document.createElement('canvas');
+                drawCenterSquare(video, bestCanvasRef.current, Math.min(video.videoWidth, video.videoHeight));
+            }
+            setGuidance(frame);
+            setProgress(step.progress);
+
+            if (step.capture && bestCanvasRef.current) {
+                finish(bestCanvasRef.current.toDataURL('image/jpeg', 0.92));
+            }
+        }, LIVE_GUIDANCE_INTERVAL_MS);
+
+        return () => window.clearInterval(timer);
+    }, [status, finish]);
+
+    // Shutter button: start the burst from the current frame
+    const captureNow = useCallback(() => {
+        const video = videoRef.current;
+        if (!video || video.readyState < 2) return;
+        finish(captureFrame(video));
+    }, [finish]);
+
+    return { videoRef, status, guidance, progress, capturing, captureNow };
+}
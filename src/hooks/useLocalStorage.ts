@@ -0,0 +1,34 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Same-tab writes don't fire `storage` events, so we broadcast our own
+const LOCAL_EVENT = 'treadsight-local-storage';
+
+function subscribe(onChange: () => void) {
+    window.addEventListener('storage', onChange);
+    window.addEventListener(LOCAL_EVENT, onChange);
+    return () => {
+        window.removeEventListener('storage', onChange);
+        window.removeEventListener(LOCAL_EVENT, onChange);
+    };
+}
+
+/**
+ * A string value persisted in localStorage.
+ * Renders `fallback` on the server and until the client has hydrated.
+ */
+export function useLocalStorage(key: string, fallback: string): [string, (value: string) => void] {
+    const value = useSyncExternalStore(
+        subscribe,
+        () => window.localStorage.getItem(key) ?? fallback,
+        () => fallback
+    );
+
+    const setValue = useCallback((next: string) => {
+        window.localStorage.setItem(key, next);
+        window.dispatchEvent(new Event(LOCAL_EVENT));
+    }, [key]);
+
+    return [value, setValue];
+}
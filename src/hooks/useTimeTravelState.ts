@@ -1,52 +1,175 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import type { TimeTravelState, WeatherMode, RiskLevel, AnalysisResult } from '@/types';
+import type {
+    TimeTravelState,
+    WeatherMode,
+    RiskLevel,
+    AnalysisResult,
+    Axle,
+    AxleDivergence,
+    AxleWearState,
+    DatePercentiles,
+    StoppingEstimate,
+    ThresholdBand,
+    UnitSystem,
+} from '@/types';
 import { scoreFromDepth, getRiskLevelFromScore } from '@/lib/healthScore';
 import { calculateWeatherRisk, adjustRemainingMonths } from '@/lib/weatherRisk';
-import { getMonthlyWearRate, depthAtTime, dateAtTime } from '@/lib/wearModel';
-import { WEAR_MODIFIERS } from '@/lib/constants';
+import { estimateStopping } from '@/lib/stoppingDistance';
+import { formatThreshold, getJurisdictionRules, isWinterRulePeriod } from '@/lib/jurisdiction';
+import { nearestOption, speedFromUnits, speedToUnits } from '@/lib/units';
+import {
+    depthAtTime,
+    dateAtTime,
+    monthsToDepth,
+    monthsUntil,
+    scaleWearCurve,
+    rotationWearModifier,
+    tireAxle,
+} from '@/lib/wearModel';
+import {
+    WEAR_MODIFIERS,
+    AXLE_WEAR_BY_DRIVETRAIN,
+    DEFAULT_STOPPING_SPEED_MPH,
+    STOPPING_SPEED_OPTIONS_KMH,
+    STOPPING_SPEED_OPTIONS_MPH,
+} from '@/lib/constants';
 
 interface UseTimeTravelOptions {
     analysis: AnalysisResult | null;
+    units?: UnitSystem;
 }
 
-export function useTimeTravelState({ analysis }: UseTimeTravelOptions) {
+
+export function useTimeTravelState({ analysis, units = 'imperial' }: UseTimeTravelOptions) {
     const [t, setT] = useState(0);
     const [weatherMode, setWeatherMode] = useState<WeatherMode>('dry');
     const [skipRotations, setSkipRotations] = useState(false);
     const [aggressiveDriving, setAggressiveDriving] = useState(false);
+    const [pickedSpeedMph, setSpeedMph] = useState(DEFAULT_STOPPING_SPEED_MPH);
 
-    // Calculate adjusted wear rate based on toggles
-    const adjustedWearRate = useMemo(() => {
-        if (!analysis) return 0;
-        let rate = analysis.wearPrediction.wearRatePer1000Miles;
-        if (skipRotations) rate *= WEAR_MODIFIERS.rotation['skip-rotations'];
-        if (aggressiveDriving) rate *= WEAR_MODIFIERS.driving.aggressive;
-        return rate;
-    }, [analysis, skipRotations, aggressiveDriving]);
+    // Braking speed snapped to one of the speeds offered in the display units
+    const speedMph = useMemo(() => {
+        const options = units === 'metric' ? STOPPING_SPEED_OPTIONS_KMH : STOPPING_SPEED_OPTIONS_MPH;
+        return speedFromUnits(nearestOption(options, speedToUnits(pickedSpeedMph, units)), units);
+    }, [pickedSpeedMph, units]);
+
+    // The prediction assumes rotated tires; skipping rotations leaves this
+    // tire on its axle, which wears faster or slower depending on drivetrain
+    const skipRotationsFactor = useMemo(() => {
+        if (!analysis) return WEAR_MODIFIERS.rotation['skip-rotations'];
+        const { position, drivetrain } = analysis.wearPrediction;
+        return rotationWearModifier('skip-rotations', position, drivetrain);
+    }, [analysis]);
+
+    // How much faster the simulation toggles wear the tire
+    const speedFactor = useMemo(() => {
+        let factor = 1;
+        if (skipRotations) factor *= skipRotationsFactor;
+        if (aggressiveDriving) factor *= WEAR_MODIFIERS.driving.aggressive;
+        return factor;
+    }, [skipRotations, skipRotationsFactor, aggressiveDriving]);
+
+    // The prediction's wear curve, sped up by the simulation toggles
+    const wearCurve = useMemo(() => {
+        if (!analysis) return null;
+        return scaleWearCurve(analysis.wearPrediction.wearCurve, speedFactor);
+    }, [analysis, speedFactor]);
+
+    // Legal and wet-traction depths for the scan's region
+    const rules = useMemo(() => getJurisdictionRules(analysis?.wearPrediction.jurisdiction), [analysis]);
+    const thresholdLabels = useMemo(() => ({
+        wetTraction: formatThreshold(rules.wetTractionDrop32nds, rules, units),
+        legalMinimum: formatThreshold(rules.legalMinimum32nds, rules, units),
+    }), [rules, units]);
+
+    // Months to each threshold along the adjusted curve
+    const thresholdMonths = useMemo(() => {
+        if (!analysis || !wearCurve) return { wetTraction: 0, legalMinimum: 0 };
+        const { currentDepth32nds, milesPerYear } = analysis.wearPrediction;
+        return {
+            wetTraction: monthsToDepth(wearCurve, currentDepth32nds, rules.wetTractionDrop32nds, milesPerYear),
+            legalMinimum: monthsToDepth(wearCurve, currentDepth32nds, rules.legalMinimum32nds, milesPerYear),
+        };
+    }, [analysis, wearCurve, rules]);
 
     // Calculate total remaining months with adjustments
     const totalMonths = useMemo(() => {
         if (!analysis) return 0;
-        const baseMonths = analysis.wearPrediction.remainingMonths;
-        const adjustedForDriving = skipRotations || aggressiveDriving
-            ? Math.round(baseMonths / (
-                (skipRotations ? WEAR_MODIFIERS.rotation['skip-rotations'] : 1) *
-                (aggressiveDriving ? WEAR_MODIFIERS.driving.aggressive : 1)
-            ))
-            : baseMonths;
-        return adjustRemainingMonths(adjustedForDriving, weatherMode);
-    }, [analysis, skipRotations, aggressiveDriving, weatherMode]);
-
-    const monthlyWearRate = useMemo(() => {
+        const months = Number.isFinite(thresholdMonths.legalMinimum)
+            ? Math.round(thresholdMonths.legalMinimum)
+            : analysis.wearPrediction.remainingMonths;
+        return adjustRemainingMonths(months, weatherMode);
+    }, [analysis, thresholdMonths, weatherMode]);
+
+    // Slider positions of the wet-traction and legal-minimum markers
+    const markers = useMemo(() => {
+        const toT = (months: number) => totalMonths > 0 ? Math.min(1, Math.max(0, months / totalMonths)) : 1;
+        return {
+            wetTractionT: toT(thresholdMonths.wetTraction),
+            legalMinimumT: toT(thresholdMonths.legalMinimum),
+        };
+    }, [thresholdMonths, totalMonths]);
+
+    // Simulated P10–P90 spread of each threshold; the toggles compress it
+    // the same way they compress the curve
+    const bands = useMemo(() => {
+        const distribution = analysis?.wearPrediction.dateDistribution;
+        if (!distribution) return null;
+        const toBand = ({ p10, p90 }: DatePercentiles): ThresholdBand => {
+            const fromMonths = Math.max(0, monthsUntil(p10)) / speedFactor;
+            const toMonths = Math.max(0, monthsUntil(p90)) / speedFactor;
+            const toT = (months: number) => totalMonths > 0 ? Math.min(1, months / totalMonths) : 1;
+            return {
+                fromT: toT(fromMonths),
+                toT: toT(toMonths),
+                from: dateAtTime(1, fromMonths),
+                to: dateAtTime(1, toMonths),
+            };
+        };
+        return {
+            wetTraction: toBand(distribution.wetTractionDrop),
+            legalMinimum: toBand(distribution.legalMinimum),
+        };
+    }, [analysis, speedFactor, totalMonths]);
+
+    // Months gained (+) or lost (−) to the legal minimum by skipping rotations
+    const skipRotationsImpactMonths = useMemo(() => {
         if (!analysis) return 0;
-        return getMonthlyWearRate(adjustedWearRate, 12000);
-    }, [analysis, adjustedWearRate]);
+        const { wearCurve: curve, currentDepth32nds, milesPerYear } = analysis.wearPrediction;
+        const rotated = monthsToDepth(curve, currentDepth32nds, rules.legalMinimum32nds, milesPerYear);
+        const skipped = monthsToDepth(scaleWearCurve(curve, skipRotationsFactor), currentDepth32nds, rules.legalMinimum32nds, milesPerYear);
+        return Number.isFinite(rotated) && Number.isFinite(skipped) ? Math.round(skipped - rotated) : 0;
+    }, [analysis, skipRotationsFactor, rules]);
+
+    // With rotations skipped, fronts and rears drift apart from today's depth
+    const axleDivergence = useMemo((): AxleDivergence | null => {
+        if (!analysis || !skipRotations) return null;
+        const { wearCurve: curve, currentDepth32nds, milesPerYear, position, drivetrain } = analysis.wearPrediction;
+        const drivingFactor = aggressiveDriving ? WEAR_MODIFIERS.driving.aggressive : 1;
+
+        const axleState = (axle: Axle): AxleWearState => {
+            const rateFactor = AXLE_WEAR_BY_DRIVETRAIN[drivetrain][axle];
+            const axleCurve = scaleWearCurve(curve, rateFactor * drivingFactor);
+            return {
+                rateFactor,
+                depth32nds: depthAtTime(axleCurve, currentDepth32nds, t, totalMonths, milesPerYear),
+                legalMinimumMonths: monthsToDepth(axleCurve, currentDepth32nds, rules.legalMinimum32nds, milesPerYear),
+            };
+        };
+
+        return {
+            drivetrain,
+            axle: position ? tireAxle(position) : null,
+            front: axleState('front'),
+            rear: axleState('rear'),
+        };
+    }, [analysis, skipRotations, aggressiveDriving, t, totalMonths, rules]);
 
     // Current state at time t
     const state: TimeTravelState = useMemo(() => {
-        if (!analysis) {
+        if (!analysis || !wearCurve) {
             return {
                 t: 0,
                 currentDate: new Date(),
@@ -60,15 +183,16 @@ export function useTimeTravelState({ analysis }: UseTimeTravelOptions) {
         }
 
         const currentDepth = depthAtTime(
+            wearCurve,
             analysis.wearPrediction.currentDepth32nds,
             t,
             totalMonths,
-            monthlyWearRate
+            analysis.wearPrediction.milesPerYear
         );
 
         const currentScore = scoreFromDepth(currentDepth);
         const baseRisk = getRiskLevelFromScore(currentScore);
-        const weatherResult = calculateWeatherRisk(currentDepth, baseRisk, weatherMode);
+        const weatherResult = calculateWeatherRisk(currentDepth, baseRisk, weatherMode, rules.code, units);
         const currentDate = dateAtTime(t, totalMonths);
 
         return {
@@ -81,7 +205,25 @@ export function useTimeTravelState({ analysis }: UseTimeTravelOptions) {
             skipRotations,
             aggressiveDriving,
         };
-    }, [analysis, t, totalMonths, monthlyWearRate, weatherMode, skipRotations, aggressiveDriving]);
+    }, [analysis, wearCurve, t, totalMonths, weatherMode, skipRotations, aggressiveDriving, rules, units]);
+
+    // Winter-tire law with its own minimum, when the slider's date falls in its period
+    const winterRuleNote = useMemo(() => {
+        const minimum = rules.winter?.minimum32nds;
+        if (!analysis || minimum == null || state.currentDepth >= minimum) return null;
+        if (!isWinterRulePeriod(rules, state.currentDate)) return null;
+        return `Below the ${formatThreshold(minimum, rules, units)} winter-tire minimum in ${rules.name}. ${rules.winter!.description}`;
+    }, [analysis, rules, units, state.currentDepth, state.currentDate]);
+
+    // Braking today vs. at the slider's depth, in the chosen weather
+    const stopping: { today: StoppingEstimate; atSlider: StoppingEstimate } | null = useMemo(() => {
+        if (!analysis) return null;
+        const { currentDepth32nds, tireCategory } = analysis.wearPrediction;
+        return {
+            today: estimateStopping(currentDepth32nds, weatherMode, speedMph, tireCategory),
+            atSlider: estimateStopping(state.currentDepth, weatherMode, speedMph, tireCategory),
+        };
+    }, [analysis, state.currentDepth, weatherMode, speedMph]);
 
     const handleSliderChange = useCallback((newT: number) => {
         setT(Math.max(0, Math.min(1, newT)));
@@ -98,6 +240,16 @@ export function useTimeTravelState({ analysis }: UseTimeTravelOptions) {
     return {
         state,
         totalMonths,
+        markers,
+        thresholdLabels,
+        winterRuleNote,
+        bands,
+        axleDivergence,
+        skipRotationsFactor,
+        skipRotationsImpactMonths,
+        stopping,
+        speedMph,
+        setSpeedMph,
         setT: handleSliderChange,
         weatherMode,
         setWeatherMode,
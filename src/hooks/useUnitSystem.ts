@@ -0,0 +1,18 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { UnitSystem } from '@/types';
+import { DEFAULT_UNIT_SYSTEM } from '@/lib/constants';
+import { isUnitSystem } from '@/lib/units';
+import { useLocalStorage } from './useLocalStorage';
+
+/**
+ * The imperial / metric display preference, shared by every page and
+ * remembered between visits.
+ */
+export function useUnitSystem(): [UnitSystem, (units: UnitSystem) => void] {
+    const [stored, setStored] = useLocalStorage('treadsight_units', DEFAULT_UNIT_SYSTEM);
+    const units = isUnitSystem(stored) ? stored : DEFAULT_UNIT_SYSTEM;
+    const setUnits = useCallback((next: UnitSystem) => setStored(next), [setStored]);
+    return [units, setUnits];
+}
@@ -0,0 +1,144 @@
+import type { BatchResultRow, BatchSummary, TirePosition, TreadEstimator, UnitSystem } from '@/types';
+import { analyzeTreadImage, toScanInput } from './imageAnalysis';
+import { buildAnalysis } from './tireAnalysis';
+import { resolveClimate } from './climate';
+import { resolveJurisdiction } from './jurisdiction';
+import { depthToUnits } from './units';
+
+/**
+ * Batch analysis of tread photos, one report row per file. Shared by
+ * POST /api/analyze/batch and the `treadsight` CLI; callers decode each
+ * image as they go so a large folder never sits in memory at once.
+ */
+
+export interface BatchOptions {
+    estimator: TreadEstimator;
+    milesPerYear: number;
+    zip?: string;
+    position?: TirePosition;
+    units?: UnitSystem; // metric adds depths in mm to each row
+}
+
+export async function analyzeBatchImage(
+    file: string,
+    imageData: ImageData,
+    options: BatchOptions
+): Promise<BatchResultRow> {
+    const { estimator, milesPerYear, zip, position = 'FL', units } = options;
+
+    const imageAnalysis = await analyzeTreadImage(imageData, {
+        estimator,
+        metadata: { source: 'server', fileName: file },
+    });
+    const { treadEstimate, wearPrediction, healthScore, imageQuality, wearPattern } = buildAnalysis(
+        toScanInput(imageAnalysis, position),
+        { milesPerYear, ...resolveClimate(zip), jurisdiction: resolveJurisdiction(undefined, zip) }
+    );
+
+    return {
+        file,
+        status: 'ok',
+        bucket: treadEstimate.bucket,
+        depth32nds: treadEstimate.depth32nds,
+        uncertainty32nds: treadEstimate.uncertainty32nds,
+        ...(units === 'metric' && {
+            depthMm: round2(depthToUnits(treadEstimate.depth32nds, units)),
+            uncertaintyMm: round2(depthToUnits(treadEstimate.uncertainty32nds, units)),
+        }),
+        confidence: round2(treadEstimate.confidence),
+        healthScore: healthScore.score,
+        riskLevel: healthScore.riskLevel,
+        remainingMonths: wearPrediction.remainingMonths,
+        wetTractionDropDate: isoDate(wearPrediction.wetTractionDropDate),
+        legalMinimumDate: isoDate(wearPrediction.legalMinimumDate),
+        legalMinimumDateP10: isoDate(wearPrediction.dateDistribution.legalMinimum.p10),
+        legalMinimumDateP90: isoDate(wearPrediction.dateDistribution.legalMinimum.p90),
+        tireDeadDate: isoDate(wearPrediction.tireDeadDate),
+        imageBlur: round2(imageQuality.blur),
+        imageBrightness: round2(imageQuality.brightness),
+        imageContrast: round2(imageQuality.contrast),
+        imageQuality: round2(imageQuality.overall),
+        imageAcceptable: imageQuality.acceptable,
+        wearPattern: wearPattern?.pattern,
+        estimator: imageAnalysis.estimator,
+    };
+}
+
+/**
+ * Report row for a file that couldn't be read or analyzed.
+ */
+export function batchFailure(file: string, error: unknown): BatchResultRow {
+    return {
+        file,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+    };
+}
+
+export function summarizeBatch(rows: BatchResultRow[]): BatchSummary {
+    return {
+        total: rows.length,
+        analyzed: rows.filter(r => r.status === 'ok').length,
+        failed: rows.filter(r => r.status === 'error').length,
+        replaceNow: rows.filter(r => r.riskLevel === 'Replace Now').length,
+    };
+}
+
+// Column order for CSV output
+const CSV_COLUMNS: (keyof BatchResultRow)[] = [
+    'file',
+    'status',
+    'bucket',
+    'depth32nds',
+    'uncertainty32nds',
+    'confidence',
+    'healthScore',
+    'riskLevel',
+    'remainingMonths',
+    'wetTractionDropDate',
+    'legalMinimumDate',
+    'legalMinimumDateP10',
+    'legalMinimumDateP90',
+    'tireDeadDate',
+    'imageBlur',
+    'imageBrightness',
+    'imageContrast',
+    'imageQuality',
+    'imageAcceptable',
+    'wearPattern',
+    'estimator',
+    'error',
+];
+
+const METRIC_CSV_COLUMNS: Partial<Record<keyof BatchResultRow, keyof BatchResultRow>> = {
+    depth32nds: 'depthMm',
+    uncertainty32nds: 'uncertaintyMm',
+};
+
+/**
+ * One CSV line per row. Metric reports give depths in mm instead of 32nds.
+ */
+export function batchToCsv(rows: BatchResultRow[], units: UnitSystem = 'imperial'): string {
+    const columns = units === 'metric' ? CSV_COLUMNS.map(column => METRIC_CSV_COLUMNS[column] ?? column) : CSV_COLUMNS;
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+        lines.push(columns.map(column => csvCell(row[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+    if (value == null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
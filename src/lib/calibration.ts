@@ -0,0 +1,194 @@
+import type { CalibrationMeasurement, TreadEstimate } from '@/types';
+import {
+    REFERENCE_COINS,
+    MM_PER_32ND,
+    MAX_CALIBRATED_DEPTH,
+    TREAD_GAUGE_UNCERTAINTY,
+    CALIBRATED_CONFIDENCE_MAX,
+    MIN_COIN_DETECTION_CONFIDENCE,
+} from './constants';
+import { bucketForDepth, depthInterval } from './treadEstimator';
+
+/**
+ * Reference-object calibration.
+ *
+ * The user pushes a coin head-first into a groove and photographs it. The
+ * coin's visible width is its full diameter (the groove never hides more than
+ * half of it), so the hidden height — diameter minus visible height — gives
+ * the groove depth in absolute units. A tread gauge reading skips detection.
+ */
+
+export interface CoinDetection {
+    bounds: { x: number; y: number; width: number; height: number };
+    diameterPx: number;
+    visiblePx: number;
+    fillRatio: number; // blob area vs. the expected truncated-circle area
+}
+
+/**
+ * Locate a penny or quarter in the image and measure how much of it is hidden.
+ * Returns null when no plausible coin is found.
+ */
+export function measureWithCoin(
+    imageData: ImageData,
+    coin: 'penny' | 'quarter'
+): (CalibrationMeasurement & { detection: CoinDetection }) | null {
+    const detection = detectCoin(imageData, coin);
+    if (!detection) return null;
+
+    const { diameterPx, visiblePx, fillRatio } = detection;
+    const { diameterMm } = REFERENCE_COINS[coin];
+    const mmPerPx = diameterMm / diameterPx;
+
+    const hiddenMm = Math.max(0, diameterPx - visiblePx) * mmPerPx;
+    const depth32nds = Math.min(MAX_CALIBRATED_DEPTH, hiddenMm / MM_PER_32ND);
+
+    // ±2px of edge error on top of a floor for how the coin sits in the groove
+    const uncertainty32nds = 0.3 + (2 * mmPerPx) / MM_PER_32ND;
+
+    // Shape match drives confidence; tiny coins are penalised
+    const shapeScore = Math.max(0, 1 - Math.abs(1 - fillRatio) * 2);
+    const sizeScore = Math.min(1, diameterPx / 60);
+    const confidence = shapeScore * sizeScore;
+    if (confidence < MIN_COIN_DETECTION_CONFIDENCE) return null;
+
+    return {
+        method: coin,
+        depth32nds: round1(depth32nds),
+        uncertainty32nds: round1(uncertainty32nds),
+        confidence: Math.round(confidence * 100) / 100,
+        detection,
+    };
+}
+
+/**
+ * A manual tread-gauge reading, in 32nds.
+ */
+export function measureWithGauge(reading32nds: number): CalibrationMeasurement {
+    return {
+        method: 'gauge',
+        depth32nds: round1(Math.max(0, Math.min(MAX_CALIBRATED_DEPTH, reading32nds))),
+        uncertainty32nds: TREAD_GAUGE_UNCERTAINTY,
+        confidence: 1,
+    };
+}
+
+/**
+ * Fuse a heuristic estimate with a calibration measurement by inverse-variance
+ * weighting (the measurement's weight scaled by its detection confidence),
+ * and raise the estimate's confidence accordingly.
+ */
+export function fuseCalibration(
+    estimate: TreadEstimate,
+    measurement: CalibrationMeasurement
+): TreadEstimate {
+    const wEstimate = 1 / estimate.uncertainty32nds ** 2;
+    const wMeasured = measurement.confidence / measurement.uncertainty32nds ** 2;
+
+    const depth = round1((estimate.depth32nds * wEstimate + measurement.depth32nds * wMeasured) / (wEstimate + wMeasured));
+    const uncertainty = round1(Math.sqrt(1 / (wEstimate + wMeasured)));
+    const confidence = Math.min(
+        CALIBRATED_CONFIDENCE_MAX,
+        estimate.confidence + (CALIBRATED_CONFIDENCE_MAX - estimate.confidence) * measurement.confidence
+    );
+
+    return {
+        bucket: bucketForDepth(depth),
+        depth32nds: depth,
+        uncertainty32nds: uncertainty,
+        depthRange32nds: depthInterval(depth, uncertainty, MAX_CALIBRATED_DEPTH),
+        confidence: Math.round(confidence * 100) / 100,
+        calibration: measurement,
+    };
+}
+
+// ── Coin Detection ───────────────────────────────────────────────────
+
+function detectCoin(imageData: ImageData, coin: 'penny' | 'quarter'): CoinDetection | null {
+    const { data, width, height } = imageData;
+    const mask = new Uint8Array(width * height);
+
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+        mask[p] = isCoinPixel(data[i], data[i + 1], data[i + 2], coin) ? 1 : 0;
+    }
+
+    const blob = largestBlob(mask, width, height);
+    // Ignore specks — a usable coin covers a decent chunk of the frame
+    if (!blob || blob.area < width * height * 0.004) return null;
+
+    const bw = blob.maxX - blob.minX + 1;
+    const bh = blob.maxY - blob.minY + 1;
+    // The coin may be photographed upright or sideways
+    const diameterPx = Math.max(bw, bh);
+    const visiblePx = Math.min(bw, bh);
+
+    const expectedArea = truncatedCircleArea(diameterPx / 2, diameterPx - visiblePx);
+    const fillRatio = expectedArea > 0 ? blob.area / expectedArea : 0;
+
+    return {
+        bounds: { x: blob.minX, y: blob.minY, width: bw, height: bh },
+        diameterPx,
+        visiblePx,
+        fillRatio,
+    };
+}
+
+function isCoinPixel(r: number, g: number, b: number, coin: 'penny' | 'quarter'): boolean {
+    if (coin === 'penny') {
+        // Copper: warm, red-dominant, brighter than rubber
+        return r > 90 && r >= g && r - b > 35 && g - b > 8;
+    }
+    // Silver: bright and unsaturated against dark rubber
+    const lum = r * 0.299 + g * 0.587 + b * 0.114;
+    return lum > 120 && Math.max(r, g, b) - Math.min(r, g, b) < 30;
+}
+
+function largestBlob(mask: Uint8Array, width: number, height: number) {
+    const visited = new Uint8Array(mask.length);
+    const queue = new Int32Array(mask.length);
+    let best: { area: number; minX: number; maxX: number; minY: number; maxY: number } | null = null;
+
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || visited[start]) continue;
+
+        let head = 0;
+        let tail = 0;
+        queue[tail++] = start;
+        visited[start] = 1;
+        const blob = { area: 0, minX: width, maxX: 0, minY: height, maxY: 0 };
+
+        while (head < tail) {
+            const p = queue[head++];
+            const x = p % width;
+            const y = (p - x) / width;
+            blob.area++;
+            if (x < blob.minX) blob.minX = x;
+            if (x > blob.maxX) blob.maxX = x;
+            if (y < blob.minY) blob.minY = y;
+            if (y > blob.maxY) blob.maxY = y;
+
+            // 4-connected neighbours
+            if (x > 0 && mask[p - 1] && !visited[p - 1]) { visited[p - 1] = 1; queue[tail++] = p - 1; }
+            if (x < width - 1 && mask[p + 1] && !visited[p + 1]) { visited[p + 1] = 1; queue[tail++] = p + 1; }
+            if (y > 0 && mask[p - width] && !visited[p - width]) { visited[p - width] = 1; queue[tail++] = p - width; }
+            if (y < height - 1 && mask[p + width] && !visited[p + width]) { visited[p + width] = 1; queue[tail++] = p + width; }
+        }
+
+        if (!best || blob.area > best.area) best = blob;
+    }
+
+    return best;
+}
+
+/**
+ * Area of a circle of radius r with a segment of height d cut off.
+ */
+function truncatedCircleArea(r: number, d: number): number {
+    const h = Math.min(Math.max(d, 0), 2 * r);
+    const segment = r * r * Math.acos((r - h) / r) - (r - h) * Math.sqrt(Math.max(0, 2 * r * h - h * h));
+    return Math.PI * r * r - segment;
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,107 @@
+import type { CaptureHint, LiveFrameGuidance } from '@/types';
+import { AUTO_CAPTURE_STABLE_MS, LIVE_GUIDANCE_THRESHOLDS } from './constants';
+import { assessImageQuality } from './treadEstimator';
+import { toLuminance } from './imageUtils';
+
+/**
+ * Live camera guidance: judge a small video frame and say what to fix
+ * before it is worth capturing. The frame is split into a 3×3 grid; cells
+ * with enough local contrast are taken to be tread, so too few of them
+ * means the tread doesn't fill the frame, and a flat center cell means it
+ * is off to one side.
+ */
+export function assessLiveFrame(imageData: ImageData): LiveFrameGuidance {
+    const quality = assessImageQuality(imageData);
+    const { minLuminance, maxLuminance, minSharpness, minTreadCells, autoCapture } = LIVE_GUIDANCE_THRESHOLDS;
+    const lum = toLuminance(imageData);
+    const hints: CaptureHint[] = [];
+
+    const meanLuminance = mean(lum) / 255;
+    if (meanLuminance < minLuminance) hints.push('too-dark');
+    else if (meanLuminance > maxLuminance) hints.push('too-bright');
+
+    if (quality.blur < minSharpness) hints.push('too-blurry');
+
+    const treadCells = gridTreadCells(lum, imageData.width, imageData.height);
+    const treadCount = treadCells.filter(Boolean).length;
+    if (treadCount > 0 && !treadCells[4]) hints.push('not-centered');
+    else if (treadCount < minTreadCells) hints.push('move-closer');
+
+    const ready = hints.length === 0
+        && quality.blur >= autoCapture.blur
+        && quality.brightness >= autoCapture.brightness
+        && quality.contrast >= autoCapture.contrast;
+
+    return { quality, hints, ready };
+}
+
+export interface AutoCaptureState {
+    passingSince: number | null; // ms timestamp of the first frame in the current passing run
+    bestScore: number;           // best ImageQuality.overall in the run
+}
+
+export const INITIAL_AUTO_CAPTURE: AutoCaptureState = { passingSince: null, bestScore: 0 };
+
+/**
+ * Track a run of passing frames. `isBest` marks the sharpest frame so far
+ * (the one to keep); `capture` fires once frames have passed for
+ * `stableMs`. Any failing frame starts the run over.
+ */
+export function advanceAutoCapture(
+    state: AutoCaptureState,
+    guidance: LiveFrameGuidance,
+    now: number,
+    stableMs: number = AUTO_CAPTURE_STABLE_MS
+): { state: AutoCaptureState; isBest: boolean; capture: boolean; progress: number } {
+    if (!guidance.ready) {
+        return { state: INITIAL_AUTO_CAPTURE, isBest: false, capture: false, progress: 0 };
+    }
+    const passingSince = state.passingSince ?? now;
+    const isBest = guidance.quality.overall > state.bestScore;
+    const progress = Math.min(1, (now - passingSince) / stableMs);
+    return {
+        state: { passingSince, bestScore: isBest ? guidance.quality.overall : state.bestScore },
+        isBest,
+        capture: progress >= 1,
+        progress,
+    };
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+function gridTreadCells(lum: Float32Array, width: number, height: number): boolean[] {
+    const cells: boolean[] = [];
+    for (let row = 0; row < 3; row++) {
+        for (let col = 0; col < 3; col++) {
+            const x0 = Math.floor((col * width) / 3);
+            const x1 = Math.floor(((col + 1) * width) / 3);
+            const y0 = Math.floor((row * height) / 3);
+            const y1 = Math.floor(((row + 1) * height) / 3);
+            cells.push(cellStdDev(lum, width, x0, x1, y0, y1) >= LIVE_GUIDANCE_THRESHOLDS.cellStdDev);
+        }
+    }
+    return cells;
+}
+
+function cellStdDev(lum: Float32Array, width: number, x0: number, x1: number, y0: number, y1: number): number {
+    let sum = 0;
+    let sumSq = 0;
+    let n = 0;
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const v = lum[y * width + x];
+            sum += v;
+            sumSq += v * v;
+            n++;
+        }
+    }
+    if (n === 0) return 0;
+    const m = sum / n;
+    return Math.sqrt(Math.max(0, sumSq / n - m * m));
+}
+
+function mean(values: Float32Array): number {
+    let sum = 0;
+    for (const v of values) sum += v;
+    return values.length > 0 ? sum / values.length : 0;
+}
@@ -0,0 +1,86 @@
+import type { ClimateLabel, ClimateNormals, ClimateProfile } from '@/types';
+import { US_ZIP3_CLIMATE, CA_FSA_CLIMATE, UK_AREA_CLIMATE } from './climateData';
+import { CLIMATE_WEAR, CLIMATE_LABEL_THRESHOLDS } from './constants';
+
+/**
+ * Climate from a postal code, using the bundled normals in climateData.ts.
+ * US ZIP codes are looked up by their first three digits, Canadian postal
+ * codes by forward sortation area and UK postcodes by area letters.
+ */
+
+// Canadian postal codes never start with D, F, I, O, Q, U, W or Z
+const CA_POSTAL = /^([ABCEGHJ-NPRSTVXY]\d[A-Z])(\d[A-Z]\d)?$/;
+const UK_POSTAL = /^([A-Z]{1,2})\d[A-Z\d]?(\d[A-Z]{2})?$/;
+const US_ZIP = /^(\d{3})(\d{2})?(-?\d{4})?$/;
+
+/**
+ * Climate for a US ZIP, Canadian postal code or UK postcode, or null when
+ * it isn't one of those or falls outside the dataset.
+ */
+export function lookupClimate(postalCode?: string): ClimateProfile | null {
+    if (!postalCode) return null;
+    const code = postalCode.toUpperCase().replace(/\s+/g, '');
+
+    const us = US_ZIP.exec(code);
+    if (us) {
+        const zip3 = parseInt(us[1], 10);
+        const entry = US_ZIP3_CLIMATE.find(range => zip3 >= range.from && zip3 <= range.to);
+        return entry ? profile(postalCode, 'US', entry.region, entry.normals) : null;
+    }
+
+    // Three characters like "M5V" could also start a UK postcode; Canada wins
+    const ca = CA_POSTAL.exec(code);
+    if (ca) {
+        const fsa = ca[1];
+        const entry = CA_FSA_CLIMATE[fsa.slice(0, 2)] ?? CA_FSA_CLIMATE[fsa[0]];
+        return entry ? profile(postalCode, 'CA', entry.region, entry.normals) : null;
+    }
+
+    const uk = UK_POSTAL.exec(code);
+    if (uk) {
+        const entry = UK_AREA_CLIMATE[uk[1]];
+        return entry ? profile(postalCode, 'UK', entry.region, entry.normals) : null;
+    }
+
+    return null;
+}
+
+/**
+ * The climate inputs for the wear model: continuous normals when the
+ * postal code is known, 'neutral' otherwise.
+ */
+export function resolveClimate(postalCode?: string): { climate: ClimateLabel; climateNormals?: ClimateNormals } {
+    const found = lookupClimate(postalCode);
+    return found ? { climate: found.climate, climateNormals: found.normals } : { climate: 'neutral' };
+}
+
+/**
+ * Wear-rate multiplier for a climate: warmer means faster, as do snowy
+ * winters; frequent rain slows wear slightly.
+ */
+export function climateWearModifier(normals: ClimateNormals): number {
+    const { referenceTempC, perDegreeAbove, perSnowDay, referencePrecipDays, perPrecipDay, min, max } = CLIMATE_WEAR;
+    const heat = 1 + perDegreeAbove * Math.max(0, normals.meanTempC - referenceTempC);
+    const snow = 1 + perSnowDay * normals.snowDays;
+    const rain = 1 + perPrecipDay * (normals.precipDays - referencePrecipDays);
+    return Math.min(max, Math.max(min, heat * snow * rain));
+}
+
+/**
+ * Coarse cold / moderate / hot label for a climate.
+ */
+export function climateLabel(normals: ClimateNormals): Exclude<ClimateLabel, 'neutral'> {
+    const { hotMeanTempC, coldMeanTempC, coldSnowDays } = CLIMATE_LABEL_THRESHOLDS;
+    if (normals.meanTempC >= hotMeanTempC) return 'hot';
+    if (normals.meanTempC < coldMeanTempC || normals.snowDays >= coldSnowDays) return 'cold';
+    return 'moderate';
+}
+
+function profile(
+    postalCode: string,
+    country: ClimateProfile['country'],
+    region: string,
+    normals: ClimateNormals
+): ClimateProfile {
+    return { postalCode, country, region, normals, climate: climateLabel(normals) };
+}
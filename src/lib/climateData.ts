@@ -0,0 +1,204 @@
+import type { ClimateNormals } from '@/types';
+
+/**
+ * Bundled climate normals, so climate lookup works offline. Values are
+ * rounded 1991–2020 normals for a representative station in each region:
+ * annual mean temperature, July − January range, days with measurable
+ * precipitation and days with measurable snowfall.
+ */
+
+function normals(
+    meanTempC: number,
+    seasonalRangeC: number,
+    precipDays: number,
+    snowDays: number,
+    precipPeak?: ClimateNormals['precipPeak']
+): ClimateNormals {
+    return { meanTempC, seasonalRangeC, precipDays, snowDays, precipPeak };
+}
+
+// ── United States — ZIP3 ranges (inclusive) ──────────────────────────
+
+export const US_ZIP3_CLIMATE: { from: number; to: number; region: string; normals: ClimateNormals }[] = [
+    { from: 5, to: 5, region: 'Long Island, NY', normals: normals(12.5, 24, 120, 10) },
+    { from: 6, to: 9, region: 'San Juan, PR', normals: normals(27, 3, 200, 0, 'summer') },
+    { from: 10, to: 13, region: 'Springfield, MA', normals: normals(10, 26, 125, 25) },
+    { from: 14, to: 27, region: 'Boston, MA', normals: normals(11, 24, 127, 20) },
+    { from: 28, to: 29, region: 'Providence, RI', normals: normals(10.7, 24, 125, 17) },
+    { from: 30, to: 38, region: 'Concord, NH', normals: normals(8, 28, 125, 30) },
+    { from: 39, to: 49, region: 'Portland, ME', normals: normals(8, 27, 130, 30) },
+    { from: 50, to: 59, region: 'Burlington, VT', normals: normals(7.7, 30, 155, 45) },
+    { from: 60, to: 69, region: 'Hartford, CT', normals: normals(10.5, 27, 125, 22) },
+    { from: 70, to: 89, region: 'Newark, NJ', normals: normals(13, 25, 120, 12) },
+    { from: 100, to: 119, region: 'New York, NY', normals: normals(13, 24, 122, 11) },
+    { from: 120, to: 129, region: 'Albany, NY', normals: normals(8.7, 28, 135, 30) },
+    { from: 130, to: 139, region: 'Syracuse, NY', normals: normals(9, 27, 170, 55) },
+    { from: 140, to: 149, region: 'Buffalo, NY', normals: normals(9, 26, 170, 50) },
+    { from: 150, to: 168, region: 'Pittsburgh, PA', normals: normals(11, 24, 150, 28) },
+    { from: 169, to: 196, region: 'Philadelphia, PA', normals: normals(13.5, 25, 120, 10) },
+    { from: 197, to: 199, region: 'Wilmington, DE', normals: normals(13, 24, 117, 8) },
+    { from: 200, to: 205, region: 'Washington, DC', normals: normals(14.6, 24, 115, 7) },
+    { from: 206, to: 219, region: 'Baltimore, MD', normals: normals(13.5, 24, 115, 9) },
+    { from: 220, to: 246, region: 'Richmond, VA', normals: normals(14.8, 22, 113, 5) },
+    { from: 247, to: 268, region: 'Charleston, WV', normals: normals(13, 22, 150, 18) },
+    { from: 270, to: 289, region: 'Raleigh, NC', normals: normals(16, 21, 110, 3) },
+    { from: 290, to: 299, region: 'Columbia, SC', normals: normals(18, 19, 108, 1, 'summer') },
+    { from: 300, to: 319, region: 'Atlanta, GA', normals: normals(17.5, 19, 113, 1) },
+    { from: 320, to: 329, region: 'Jacksonville, FL', normals: normals(21.5, 15, 115, 0, 'summer') },
+    { from: 330, to: 334, region: 'Miami, FL', normals: normals(25.3, 8, 135, 0, 'summer') },
+    { from: 335, to: 349, region: 'Tampa, FL', normals: normals(23.5, 11, 110, 0, 'summer') },
+    { from: 350, to: 369, region: 'Birmingham, AL', normals: normals(17.5, 19, 115, 1) },
+    { from: 370, to: 385, region: 'Nashville, TN', normals: normals(15.5, 22, 120, 4) },
+    { from: 386, to: 397, region: 'Jackson, MS', normals: normals(18.3, 18, 110, 1) },
+    { from: 398, to: 399, region: 'Albany, GA', normals: normals(19.5, 17, 105, 0) },
+    { from: 400, to: 427, region: 'Louisville, KY', normals: normals(14.5, 24, 125, 8) },
+    { from: 430, to: 439, region: 'Columbus, OH', normals: normals(11.5, 26, 135, 20) },
+    { from: 440, to: 449, region: 'Cleveland, OH', normals: normals(10.5, 26, 155, 40) },
+    { from: 450, to: 459, region: 'Cincinnati, OH', normals: normals(12.5, 25, 130, 14) },
+    { from: 460, to: 479, region: 'Indianapolis, IN', normals: normals(11.8, 26, 125, 18) },
+    { from: 480, to: 492, region: 'Detroit, MI', normals: normals(10, 27, 135, 30) },
+    { from: 493, to: 499, region: 'Grand Rapids, MI', normals: normals(9, 27, 150, 50) },
+    { from: 500, to: 528, region: 'Des Moines, IA', normals: normals(10.5, 30, 105, 24) },
+    { from: 530, to: 549, region: 'Milwaukee, WI', normals: normals(8.9, 28, 125, 30) },
+    { from: 550, to: 567, region: 'Minneapolis, MN', normals: normals(7.8, 32, 115, 37) },
+    { from: 570, to: 577, region: 'Sioux Falls, SD', normals: normals(7.8, 32, 95, 28) },
+    { from: 580, to: 588, region: 'Bismarck, ND', normals: normals(5.5, 35, 90, 35) },
+    { from: 590, to: 599, region: 'Billings, MT', normals: normals(8, 27, 95, 35) },
+    { from: 600, to: 619, region: 'Chicago, IL', normals: normals(10.5, 28, 125, 27) },
+    { from: 620, to: 629, region: 'Springfield, IL', normals: normals(12.5, 27, 115, 14) },
+    { from: 630, to: 658, region: 'St. Louis, MO', normals: normals(13.5, 27, 105, 12) },
+    { from: 660, to: 679, region: 'Wichita, KS', normals: normals(14, 27, 85, 10) },
+    { from: 680, to: 693, region: 'Omaha, NE', normals: normals(10.5, 30, 95, 22) },
+    { from: 700, to: 714, region: 'New Orleans, LA', normals: normals(21, 15, 115, 0, 'summer') },
+    { from: 716, to: 729, region: 'Little Rock, AR', normals: normals(17, 22, 105, 2) },
+    { from: 730, to: 749, region: 'Oklahoma City, OK', normals: normals(16, 24, 85, 4) },
+    { from: 750, to: 769, region: 'Dallas, TX', normals: normals(19.5, 20, 80, 1) },
+    { from: 770, to: 779, region: 'Houston, TX', normals: normals(21.5, 16, 105, 0, 'summer') },
+    { from: 780, to: 789, region: 'San Antonio, TX', normals: normals(21, 16, 80, 0) },
+    { from: 790, to: 799, region: 'El Paso, TX', normals: normals(18, 21, 50, 2, 'summer') },
+    { from: 800, to: 816, region: 'Denver, CO', normals: normals(10.5, 23, 85, 30) },
+    { from: 820, to: 831, region: 'Cheyenne, WY', normals: normals(7.7, 22, 100, 40) },
+    { from: 832, to: 838, region: 'Boise, ID', normals: normals(11.5, 25, 90, 12, 'winter') },
+    { from: 840, to: 847, region: 'Salt Lake City, UT', normals: normals(12, 27, 90, 25) },
+    { from: 850, to: 853, region: 'Phoenix, AZ', normals: normals(24.5, 21, 35, 0, 'summer') },
+    { from: 855, to: 857, region: 'Tucson, AZ', normals: normals(21, 17, 50, 0, 'summer') },
+    { from: 859, to: 860, region: 'Flagstaff, AZ', normals: normals(8, 20, 75, 30, 'summer') },
+    { from: 863, to: 865, region: 'Prescott, AZ', normals: normals(14, 20, 45, 5, 'summer') },
+    { from: 870, to: 884, region: 'Albuquerque, NM', normals: normals(14.5, 24, 60, 6, 'summer') },
+    { from: 889, to: 891, region: 'Las Vegas, NV', normals: normals(21, 26, 25, 0) },
+    { from: 893, to: 898, region: 'Reno, NV', normals: normals(11.5, 21, 50, 10, 'winter') },
+    { from: 900, to: 918, region: 'Los Angeles, CA', normals: normals(18.5, 8, 35, 0, 'winter') },
+    { from: 919, to: 921, region: 'San Diego, CA', normals: normals(18, 7, 40, 0, 'winter') },
+    { from: 922, to: 925, region: 'Riverside, CA', normals: normals(20, 18, 30, 0, 'winter') },
+    { from: 926, to: 928, region: 'Santa Ana, CA', normals: normals(18.5, 9, 35, 0, 'winter') },
+    { from: 930, to: 935, region: 'Bakersfield, CA', normals: normals(19, 20, 35, 0, 'winter') },
+    { from: 936, to: 939, region: 'Fresno, CA', normals: normals(17.5, 19, 45, 0, 'winter') },
+    { from: 940, to: 959, region: 'San Francisco, CA', normals: normals(15.5, 12, 65, 0, 'winter') },
+    { from: 960, to: 961, region: 'Redding, CA', normals: normals(16.5, 20, 75, 2, 'winter') },
+    { from: 967, to: 968, region: 'Honolulu, HI', normals: normals(25.5, 4, 90, 0, 'winter') },
+    { from: 969, to: 969, region: 'Hagåtña, GU', normals: normals(27.5, 1, 200, 0, 'summer') },
+    { from: 970, to: 979, region: 'Portland, OR', normals: normals(12.5, 16, 150, 4, 'winter') },
+    { from: 980, to: 986, region: 'Seattle, WA', normals: normals(11.5, 14, 150, 4, 'winter') },
+    { from: 988, to: 994, region: 'Spokane, WA', normals: normals(9, 24, 110, 25, 'winter') },
+    { from: 995, to: 997, region: 'Anchorage, AK', normals: normals(3, 24, 115, 60) },
+    { from: 998, to: 999, region: 'Juneau, AK', normals: normals(6, 15, 230, 40, 'winter') },
+];
+
+// ── Canada — forward sortation area prefixes (longest match wins) ────
+
+export const CA_FSA_CLIMATE: Record<string, { region: string; normals: ClimateNormals }> = {
+    A: { region: "St. John's, NL", normals: normals(5, 19, 215, 70) },
+    B: { region: 'Halifax, NS', normals: normals(7, 22, 170, 45) },
+    C: { region: 'Charlottetown, PE', normals: normals(6, 25, 175, 55) },
+    E: { region: 'Moncton, NB', normals: normals(5.5, 28, 160, 50) },
+    G: { region: 'Quebec City, QC', normals: normals(4.5, 31, 175, 65) },
+    H: { region: 'Montreal, QC', normals: normals(7, 30, 165, 55) },
+    J: { region: 'Sherbrooke, QC', normals: normals(5, 31, 165, 60) },
+    K: { region: 'Ottawa, ON', normals: normals(6.5, 31, 160, 50) },
+    L: { region: 'Hamilton, ON', normals: normals(8.5, 28, 145, 38) },
+    M: { region: 'Toronto, ON', normals: normals(9, 27, 145, 35) },
+    N: { region: 'London, ON', normals: normals(8.5, 28, 160, 40) },
+    P: { region: 'Sudbury, ON', normals: normals(3.5, 33, 160, 60) },
+    R: { region: 'Winnipeg, MB', normals: normals(3, 38, 115, 50) },
+    S: { region: 'Regina, SK', normals: normals(3, 35, 105, 45) },
+    T: { region: 'Calgary, AB', normals: normals(4.5, 25, 110, 50, 'summer') },
+    V: { region: 'Kelowna, BC', normals: normals(8, 23, 120, 30) },
+    V3: { region: 'Vancouver, BC', normals: normals(10.5, 14, 165, 8, 'winter') },
+    V4: { region: 'Vancouver, BC', normals: normals(10.5, 14, 165, 8, 'winter') },
+    V5: { region: 'Vancouver, BC', normals: normals(10.5, 14, 165, 8, 'winter') },
+    V6: { region: 'Vancouver, BC', normals: normals(10.5, 14, 165, 8, 'winter') },
+    V7: { region: 'Vancouver, BC', normals: normals(10.5, 14, 165, 8, 'winter') },
+    V8: { region: 'Victoria, BC', normals: normals(10, 12, 150, 5, 'winter') },
+    V9: { region: 'Nanaimo, BC', normals: normals(10, 13, 155, 6, 'winter') },
+    X: { region: 'Yellowknife, NT', normals: normals(-4, 40, 115, 90) },
+    Y: { region: 'Whitehorse, YT', normals: normals(-0.5, 30, 120, 80) },
+};
+
+// ── United Kingdom — postcode areas ─────────────────────────────────
+
+const UK_REGIONS: { region: string; areas: string[]; normals: ClimateNormals }[] = [
+    {
+        region: 'London',
+        areas: ['E', 'EC', 'N', 'NW', 'SE', 'SW', 'W', 'WC', 'BR', 'CR', 'DA', 'EN', 'HA', 'IG', 'KT', 'RM', 'SM', 'TW', 'UB', 'WD'],
+        normals: normals(11.8, 13, 108, 4, 'winter'),
+    },
+    {
+        region: 'South East England',
+        areas: ['AL', 'SL', 'RH', 'TN', 'ME', 'CT', 'GU', 'BN', 'PO', 'SO', 'RG', 'OX', 'HP', 'LU', 'SG', 'MK'],
+        normals: normals(10.8, 13, 115, 5, 'winter'),
+    },
+    {
+        region: 'East of England',
+        areas: ['CB', 'IP', 'NR', 'CO', 'CM', 'SS'],
+        normals: normals(10.5, 14, 105, 8),
+    },
+    {
+        region: 'South West England',
+        areas: ['BA', 'BS', 'GL', 'SN', 'SP', 'DT', 'BH', 'EX', 'TQ', 'PL', 'TR', 'TA'],
+        normals: normals(11, 11, 135, 3, 'winter'),
+    },
+    {
+        region: 'Wales',
+        areas: ['CF', 'NP', 'SA', 'LD', 'LL', 'SY'],
+        normals: normals(10.2, 11, 165, 6, 'winter'),
+    },
+    {
+        region: 'Midlands',
+        areas: ['B', 'CV', 'DY', 'WS', 'WV', 'WR', 'HR', 'ST', 'DE', 'NG', 'LE', 'NN', 'PE', 'LN', 'TF'],
+        normals: normals(9.8, 13, 120, 10),
+    },
+    {
+        region: 'North West England',
+        areas: ['M', 'L', 'WA', 'WN', 'BL', 'OL', 'SK', 'PR', 'BB', 'FY', 'LA', 'CA', 'CW', 'CH'],
+        normals: normals(9.8, 12, 150, 10, 'winter'),
+    },
+    {
+        region: 'Yorkshire and North East England',
+        areas: ['LS', 'BD', 'HX', 'HD', 'WF', 'S', 'DN', 'HG', 'YO', 'HU', 'TS', 'DL', 'DH', 'SR', 'NE'],
+        normals: normals(9.5, 13, 130, 14),
+    },
+    {
+        region: 'Southern Scotland',
+        areas: ['G', 'EH', 'ML', 'PA', 'KA', 'FK', 'KY', 'DD', 'DG', 'TD'],
+        normals: normals(8.8, 11, 165, 18, 'winter'),
+    },
+    {
+        region: 'Northern Scotland',
+        areas: ['AB', 'IV', 'PH', 'KW', 'HS', 'ZE'],
+        normals: normals(8, 10, 180, 25, 'winter'),
+    },
+    {
+        region: 'Northern Ireland',
+        areas: ['BT'],
+        normals: normals(9.3, 10, 165, 8, 'winter'),
+    },
+    {
+        region: 'Channel Islands and Isle of Man',
+        areas: ['JE', 'GY', 'IM'],
+        normals: normals(11.5, 10, 140, 3, 'winter'),
+    },
+];
+
+export const UK_AREA_CLIMATE: Record<string, { region: string; normals: ClimateNormals }> = Object.fromEntries(
+    UK_REGIONS.flatMap(({ region, areas, normals: values }) => areas.map(area => [area, { region, normals: values }]))
+);
@@ -1,4 +1,31 @@
-import { TreadBucket, DepthRange, RiskLevel, WeatherMode, CTAAction } from '@/types';
+import {
+    TreadBucket,
+    DepthRange,
+    RiskLevel,
+    WeatherMode,
+    CTAAction,
+    TirePosition,
+    RoadPosition,
+    Axle,
+    WearPattern,
+    TireCategory,
+    UtqgTraction,
+    UtqgTemperature,
+    Drivetrain,
+    RotationPattern,
+    JurisdictionCode,
+    JurisdictionRules,
+    UnitSystem,
+    CaptureHint,
+    TreadRegion,
+} from '@/types';
+
+// ── Units ────────────────────────────────────────────────────────────
+// The model works in 32nds of an inch and miles; metric is display only
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+export const KM_PER_MILE = 1.609344;
+export const M_PER_FOOT = 0.3048;
 
 // ── Tread Depth Buckets ──────────────────────────────────────────────
 
@@ -12,6 +39,47 @@ export const TREAD_BUCKETS: Record<TreadBucket, DepthRange> = {
 
 export const BUCKET_ORDER: TreadBucket[] = ['NEW', 'HEALTHY', 'MODERATE', 'LOW', 'CRITICAL'];
 
+export const MAX_TREAD_DEPTH = 10; // 32nds — deepest depth the estimator reports
+
+// Piecewise-linear tread signal → depth knots; the bucket edges fall on the knots
+export const SIGNAL_DEPTH_KNOTS: { signal: number; depth: number }[] = [
+    { signal: 0, depth: 0 },
+    { signal: 0.2, depth: 2 },
+    { signal: 0.35, depth: 4 },
+    { signal: 0.5, depth: 6 },
+    { signal: 0.7, depth: 8 },
+    { signal: 1.0, depth: 10 },
+];
+
+// Groove darkness (0–1 below the ribs) → depth knots for the groove-profile estimator
+export const GROOVE_DEPTH_KNOTS: { darkness: number; depth: number }[] = [
+    { darkness: 0, depth: 0 },
+    { darkness: 0.12, depth: 2 },
+    { darkness: 0.25, depth: 4 },
+    { darkness: 0.38, depth: 6 },
+    { darkness: 0.5, depth: 8 },
+    { darkness: 0.65, depth: 10 },
+];
+
+// Tread-wear indicator bars sit this far above the groove floor
+export const WEAR_BAR_HEIGHT_32NDS = 2;
+
+// Depth uncertainty (± 32nds) at the best and worst estimator confidence
+export const DEPTH_UNCERTAINTY = { atMaxConfidence: 0.5, atMinConfidence: 1.5 };
+
+// ── Calibration References ──────────────────────────────────────────
+
+export const MM_PER_32ND = 25.4 / 32;
+
+export const REFERENCE_COINS: Record<'penny' | 'quarter', { label: string; diameterMm: number }> = {
+    penny: { label: 'US penny', diameterMm: 19.05 },
+    quarter: { label: 'US quarter', diameterMm: 24.26 },
+};
+
+export const TREAD_GAUGE_UNCERTAINTY = 0.25; // 32nds — a gauge reads to about ±¼/32"
+export const CALIBRATED_CONFIDENCE_MAX = 0.97;
+export const MIN_COIN_DETECTION_CONFIDENCE = 0.6;
+
 // ── Risk Level Thresholds ────────────────────────────────────────────
 
 export const RISK_THRESHOLDS: Record<RiskLevel, DepthRange> = {
@@ -35,6 +103,48 @@ export const RISK_GLOW_COLORS: Record<RiskLevel, string> = {
     'Replace Now': 'rgba(239, 68, 68, 0.5)',
 };
 
+// ── Wear Patterns ───────────────────────────────────────────────────
+
+// A band must read this much weaker (relative) than its comparison to count as worn
+export const WEAR_PATTERN_THRESHOLDS = {
+    mild: 0.15,
+    moderate: 0.25,
+    severe: 0.4,
+    cuppingVariation: 0.3, // coefficient of variation around the circumference
+};
+
+export const WEAR_PATTERN_INFO: Record<WearPattern, { label: string; causes: string[] }> = {
+    'even': {
+        label: 'Even wear',
+        causes: [],
+    },
+    'center': {
+        label: 'Center wear',
+        causes: ['Over-inflation — the center carries most of the load'],
+    },
+    'both-shoulders': {
+        label: 'Shoulder wear',
+        causes: ['Under-inflation — the tire flexes onto its shoulders', 'Frequent hard cornering or overloading'],
+    },
+    'inner-shoulder': {
+        label: 'Inner shoulder wear',
+        causes: ['Negative camber or toe misalignment', 'Worn suspension bushings'],
+    },
+    'outer-shoulder': {
+        label: 'Outer shoulder wear',
+        causes: ['Positive camber or toe misalignment', 'Aggressive cornering'],
+    },
+    'cupping': {
+        label: 'Cupping',
+        causes: ['Worn shocks or struts', 'Wheel out of balance'],
+    },
+};
+
+// ── Tire Age (DOT Date Code) ─────────────────────────────────────────
+
+export const TIRE_AGE_WARNING_MONTHS = 72; // 6 years — replace regardless of tread
+export const DOT_OCR_MIN_CONFIDENCE = 0.75; // mean glyph match needed to trust an OCR read
+
 // ── Weather Modifiers ────────────────────────────────────────────────
 
 export const WEATHER_RISK_MULTIPLIERS: Record<WeatherMode, number> = {
@@ -43,10 +153,51 @@ export const WEATHER_RISK_MULTIPLIERS: Record<WeatherMode, number> = {
     snow: 1.7,
 };
 
-export const WEATHER_DEPTH_THRESHOLDS: Record<WeatherMode, { warning: number; critical: number }> = {
-    dry: { warning: 4, critical: 2 },
-    wet: { warning: 5, critical: 3 },
-    snow: { warning: 6, critical: 4 },
+// ── Stopping Distance ────────────────────────────────────────────────
+
+// Tire–road friction on a new (≥ referenceDepth32nds) and a bald tire. Dry
+// grip barely depends on tread; water and snow need the grooves.
+export const ROAD_FRICTION: Record<WeatherMode, { new: number; worn: number }> = {
+    dry: { new: 0.8, worn: 0.8 },
+    wet: { new: 0.7, worn: 0.38 },
+    snow: { new: 0.3, worn: 0.15 },
+};
+
+// Grip relative to an all-season tire
+export const CATEGORY_GRIP: Record<TireCategory, Record<WeatherMode, number>> = {
+    'all-season': { dry: 1, wet: 1, snow: 1 },
+    touring: { dry: 1, wet: 1.02, snow: 1 },
+    performance: { dry: 1.08, wet: 1.05, snow: 0.7 },
+    winter: { dry: 0.93, wet: 0.97, snow: 1.5 },
+    'light-truck': { dry: 0.95, wet: 0.95, snow: 1.05 },
+};
+
+export const STOPPING_DISTANCE = {
+    reactionTimeS: 1.5,
+    gravityFtPerS2: 32.174,
+    referenceDepth32nds: 10,   // deeper tread adds no grip
+    depthScale32nds: 4,        // grip falls off exponentially below the reference
+    wetSpeedLossPerMph: 0.004, // wet grip drops with speed above 30 mph
+    wetSpeedLossFromMph: 30,
+    tirePressurePsi: 35,
+    hydroplaningCoefficient: 10.35, // NASA: smooth-tire onset mph ≈ 10.35·√psi
+    hydroplaningTreadBase: 0.7,     // onset × (base + perDepth · depth), capped at max
+    hydroplaningTreadPer32nd: 0.05,
+    hydroplaningTreadMax: 1.2,
+};
+
+export const STOPPING_SPEED_OPTIONS_MPH = [30, 45, 60, 70];
+export const STOPPING_SPEED_OPTIONS_KMH = [50, 70, 100, 120];
+export const DEFAULT_STOPPING_SPEED_MPH = 60;
+
+// Seasonal exposure calendar, from the region's climate normals
+export const SEASONAL_EXPOSURE = {
+    months: 12,
+    snowlineC: 3,              // months colder than this on average get the snow days
+    minSnowSpreadC: 3,         // …or the months within this of the coldest, in mild climates
+    precipPeakAmplitude: 0.35, // wet-season months get up to this much more precipitation
+    wetMonthProbability: 0.3,  // a month counts as wet from rain on ~9 days
+    snowMonthProbability: 0.1, // …and as snowy from snow on ~3 days
 };
 
 // ── Score Ranges ─────────────────────────────────────────────────────
@@ -107,7 +258,7 @@ export const WEAR_MODIFIERS = {
     },
     rotation: {
         normal: 1.0,
-        'skip-rotations': 1.15,
+        'skip-rotations': 1.15, // position unknown; see AXLE_WEAR_BY_DRIVETRAIN
     },
     driving: {
         normal: 1.0,
@@ -115,11 +266,352 @@ export const WEAR_MODIFIERS = {
     },
 };
 
+// Continuous climate effect, used instead of WEAR_MODIFIERS.climate when
+// the region's normals are known. Multipliers combine and are clamped.
+export const CLIMATE_WEAR = {
+    referenceTempC: 12,
+    perDegreeAbove: 0.012,     // hot pavement softens the compound
+    perSnowDay: 0.0015,        // winter grit and salt, cold-stiffened rubber
+    referencePrecipDays: 110,
+    perPrecipDay: -0.0003,     // wet roads lubricate the contact patch
+    min: 0.9,
+    max: 1.25,
+};
+
+// Coarse labels from normals, for places that still want a bucket
+export const CLIMATE_LABEL_THRESHOLDS = {
+    hotMeanTempC: 17,
+    coldMeanTempC: 9,
+    coldSnowDays: 15,
+};
+
+// Wear per axle, relative to rotated tires, when tires stay on one axle.
+// Driven and steered axles scrub more: FWD fronts do both and wear ~1.9×
+// their rears. Rotated tires spend equal time on each axle, so the two
+// average to 1.
+export const AXLE_WEAR_BY_DRIVETRAIN: Record<Drivetrain, Record<Axle, number>> = {
+    FWD: { front: 1.3, rear: 0.7 },
+    RWD: { front: 0.95, rear: 1.05 },
+    AWD: { front: 1.1, rear: 0.9 },
+    '4WD': { front: 1.05, rear: 0.95 },
+};
+
+export const DEFAULT_DRIVETRAIN: Drivetrain = 'FWD';
+
+// Wear curve per tire category. `ratePer1000Miles` is the steady rate for a
+// tire with the category's reference UTQG treadwear; break-in is the extra
+// loss in the first few thousand miles as the fresh, tall tread blocks scrub.
+export const TIRE_CATEGORIES: Record<TireCategory, {
+    label: string;
+    newDepth32nds: number;
+    ratePer1000Miles: number;
+    breakIn32nds: number;
+    breakInMiles: number;
+    referenceTreadwear: number;
+}> = {
+    'all-season': { label: 'All-season', newDepth32nds: 10, ratePer1000Miles: BASE_WEAR_RATE_PER_1000_MILES, breakIn32nds: 0.75, breakInMiles: 3000, referenceTreadwear: 500 },
+    touring: { label: 'Touring', newDepth32nds: 10, ratePer1000Miles: 0.12, breakIn32nds: 0.6, breakInMiles: 3000, referenceTreadwear: 600 },
+    performance: { label: 'Performance', newDepth32nds: 10, ratePer1000Miles: 0.2, breakIn32nds: 1.0, breakInMiles: 2500, referenceTreadwear: 300 },
+    winter: { label: 'Winter', newDepth32nds: 12, ratePer1000Miles: 0.2, breakIn32nds: 1.0, breakInMiles: 2500, referenceTreadwear: 400 },
+    'light-truck': { label: 'Light truck', newDepth32nds: 11, ratePer1000Miles: 0.12, breakIn32nds: 0.75, breakInMiles: 4000, referenceTreadwear: 600 },
+};
+
+export const DEFAULT_TIRE_CATEGORY: TireCategory = 'all-season';
+
+// Rate scales with (reference / treadwear)^exponent — UTQG is a relative
+// rating, not a mileage, so it is damped and clamped
+export const TREADWEAR_RATE_EXPONENT = 0.8;
+export const TREADWEAR_RATE_LIMITS = { min: 0.5, max: 2.0 };
+export const UTQG_TREADWEAR_RANGE = { min: 60, max: 1200 };
+
+// Heavier vehicles load the contact patch more: rate scales with
+// (curb weight / reference)^exponent, clamped
+export const VEHICLE_LOAD = {
+    referenceCurbWeightLb: 3500,
+    exponent: 0.5,
+    min: 0.85,
+    max: 1.3,
+};
+
+// Monte Carlo spread of wear dates. Sigmas are for log-normal multipliers
+// unless noted; an unknown climate ('neutral') is drawn from all climates.
+export const WEAR_SIMULATION = {
+    samples: 400,
+    seed: 20240601,
+    mileageSigma: 0.2,         // annual mileage is usually a guess
+    climateSigma: 0.05,        // known climate, year-to-year variation
+    drivingSigma: 0.08,
+    aggressiveShare: 0.15,     // chance a "normal" driver actually drives hard
+    fittedRateSigma: 0.1,      // a fitted rate already includes climate and habits
+};
+
+// ── Tire & Vehicle Profile ──────────────────────────────────────────
+
+export const TIRE_NEW_DEPTH_RANGE = { min: 6, max: 20 };      // 32nds, plausible spec-sheet depths
+// Calibrated depths are absolute, so they reach as deep as a new tire can
+export const MAX_CALIBRATED_DEPTH = TIRE_NEW_DEPTH_RANGE.max;
+export const CURB_WEIGHT_RANGE_LB = { min: 1000, max: 10000 };
+export const MIN_MODEL_YEAR = 1950;
+export const UTQG_TRACTION_GRADES: UtqgTraction[] = ['AA', 'A', 'B', 'C'];
+export const UTQG_TEMPERATURE_GRADES: UtqgTemperature[] = ['A', 'B', 'C'];
+export const DRIVETRAINS: Drivetrain[] = ['FWD', 'RWD', 'AWD', '4WD'];
+
+// ── Scan History Fitting ────────────────────────────────────────────
+
+export const MIN_FIT_SCANS = 2;
+export const MIN_FIT_MILES_SPAN = 1000; // odometer span needed before trusting a fit
+export const FITTED_WEAR_RATE_LIMITS = { min: 0.03, max: 1.0 }; // 32nds per 1000 miles
+
 // ── Legal / Safety Thresholds ────────────────────────────────────────
 
+// US values; other regions come from JURISDICTIONS
 export const WET_TRACTION_DROP_DEPTH = 4; // 32nds
 export const LEGAL_MINIMUM_DEPTH = 2;     // 32nds
 
+function mm(depthMm: number): number {
+    return Math.round((depthMm / MM_PER_32ND) * 100) / 100;
+}
+
+// Tread laws and advice by region. Laws stated in millimetres are kept
+// exact (1.6 mm is 2.02/32", not 2/32").
+export const JURISDICTIONS: Record<JurisdictionCode, JurisdictionRules> = {
+    US: {
+        code: 'US', name: 'United States', depthUnit: '32nds',
+        legalMinimum32nds: LEGAL_MINIMUM_DEPTH, wetTractionDrop32nds: WET_TRACTION_DROP_DEPTH, snowWarning32nds: 6,
+    },
+    CA: {
+        code: 'CA', name: 'Canada', depthUnit: '32nds',
+        legalMinimum32nds: 2, wetTractionDrop32nds: 4, snowWarning32nds: 6,
+    },
+    'CA-QC': {
+        code: 'CA-QC', name: 'Quebec', depthUnit: '32nds',
+        legalMinimum32nds: 2, wetTractionDrop32nds: 4, snowWarning32nds: 6,
+        winter: {
+            from: { month: 11, day: 1 }, to: { month: 2, day: 15 }, required: true,
+            description: 'Winter tires are required from December 1 to March 15.',
+        },
+    },
+    'CA-BC': {
+        code: 'CA-BC', name: 'British Columbia', depthUnit: '32nds',
+        legalMinimum32nds: 2, wetTractionDrop32nds: 4, snowWarning32nds: 6,
+        winter: {
+            from: { month: 9, day: 1 }, to: { month: 3, day: 30 }, required: true, minimum32nds: mm(3.5),
+            description: 'Most highways require winter or M+S tires with at least 3.5 mm of tread from October 1 to April 30.',
+        },
+    },
+    UK: {
+        code: 'UK', name: 'United Kingdom', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(4),
+    },
+    EU: {
+        code: 'EU', name: 'European Union', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(4),
+    },
+    DE: {
+        code: 'DE', name: 'Germany', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(4),
+        winter: {
+            from: { month: 9, day: 1 }, to: { month: 3, day: 30 }, required: false,
+            description: 'Winter tires are required in wintry conditions; 4 mm is the recommended minimum.',
+        },
+    },
+    AT: {
+        code: 'AT', name: 'Austria', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(5),
+        winter: {
+            from: { month: 10, day: 1 }, to: { month: 3, day: 15 }, required: false, minimum32nds: mm(4),
+            description: 'In wintry conditions from November 1 to April 15, winter tires with at least 4 mm of tread are required.',
+        },
+    },
+    CZ: {
+        code: 'CZ', name: 'Czechia', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(5),
+        winter: {
+            from: { month: 10, day: 1 }, to: { month: 2, day: 31 }, required: false, minimum32nds: mm(4),
+            description: 'In wintry conditions from November 1 to March 31, winter tires with at least 4 mm of tread are required.',
+        },
+    },
+    SE: {
+        code: 'SE', name: 'Sweden', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(4),
+        winter: {
+            from: { month: 11, day: 1 }, to: { month: 2, day: 31 }, required: false, minimum32nds: mm(3),
+            description: 'In winter conditions from December 1 to March 31, winter tires with at least 3 mm of tread are required.',
+        },
+    },
+    FI: {
+        code: 'FI', name: 'Finland', depthUnit: 'mm',
+        legalMinimum32nds: mm(1.6), wetTractionDrop32nds: mm(3), snowWarning32nds: mm(4),
+        winter: {
+            from: { month: 11, day: 1 }, to: { month: 1, day: 29 }, required: true, minimum32nds: mm(3),
+            description: 'Winter tires with at least 3 mm of tread are required from December 1 to the end of February.',
+        },
+    },
+};
+
+export const DEFAULT_JURISDICTION: JurisdictionCode = 'US';
+
+// ── Vehicle Positions ───────────────────────────────────────────────
+
+export const TIRE_POSITIONS: TirePosition[] = ['FL', 'FR', 'RL', 'RR', 'SPARE'];
+
+export const TIRE_POSITION_LABELS: Record<TirePosition, string> = {
+    FL: 'Front Left',
+    FR: 'Front Right',
+    RL: 'Rear Left',
+    RR: 'Rear Right',
+    SPARE: 'Spare',
+};
+
+export const AXLE_POSITIONS: Record<Axle, [TirePosition, TirePosition]> = {
+    front: ['FL', 'FR'],
+    rear: ['RL', 'RR'],
+};
+
+// Depth difference across an axle (or side to side) worth flagging
+export const AXLE_IMBALANCE_THRESHOLD = 2; // 32nds
+export const SIDE_MISMATCH_THRESHOLD = 2;  // 32nds
+
+// ── Rotation Planning ───────────────────────────────────────────────
+
+export const DEFAULT_ROTATION_INTERVAL_MILES = 6000;
+export const ROTATION_INTERVAL_OPTIONS = [5000, 6000, 7500, 10000];
+export const ROTATION_INTERVAL_OPTIONS_KM = [8000, 10000, 12000, 15000];
+export const ROTATION_PLAN_MAX_MILES = 300000; // planning horizon
+
+// Road crown tilts the car toward the curb, so curb-side tires carry a
+// little more load. Averages to 1.
+export const SIDE_WEAR_FACTOR: Record<'curb' | 'road', number> = { road: 0.97, curb: 1.03 };
+
+// Jurisdictions that drive on the left, so the curb is on the left
+export const LEFT_HAND_TRAFFIC: JurisdictionCode[] = ['UK'];
+
+// Where the tire in each position goes at a rotation
+export const ROTATION_PATTERNS: Record<RotationPattern, {
+    label: string;
+    description: string;
+    moves: Record<RoadPosition, RoadPosition>;
+}> = {
+    'forward-cross': {
+        label: 'Forward cross',
+        description: 'Rears cross to the front; fronts go straight back',
+        moves: { FL: 'RL', FR: 'RR', RL: 'FR', RR: 'FL' },
+    },
+    'rearward-cross': {
+        label: 'Rearward cross',
+        description: 'Fronts cross to the rear; rears go straight forward',
+        moves: { FL: 'RR', FR: 'RL', RL: 'FL', RR: 'FR' },
+    },
+    'x-pattern': {
+        label: 'X-pattern',
+        description: 'Every tire crosses to the opposite axle and side',
+        moves: { FL: 'RR', FR: 'RL', RL: 'FR', RR: 'FL' },
+    },
+    'front-to-back': {
+        label: 'Front to back',
+        description: 'Each tire swaps axles on the same side',
+        moves: { FL: 'RL', FR: 'RR', RL: 'FL', RR: 'FR' },
+    },
+};
+
+// The usual pattern for each drivetrain, preferred when patterns tie
+export const RECOMMENDED_ROTATION_PATTERN: Record<Drivetrain, RotationPattern> = {
+    FWD: 'forward-cross',
+    RWD: 'rearward-cross',
+    AWD: 'x-pattern',
+    '4WD': 'rearward-cross',
+};
+
+// ── Fleet ───────────────────────────────────────────────────────────
+
+export const FLEET_FORECAST_MONTHS = 12;
+export const MAX_FLEET_FORECAST_MONTHS = 36;
+export const DEFAULT_TIRE_PRICE_USD = 180; // per tire, installed, when a vehicle has no price set
+
 // ── Image Quality Thresholds ─────────────────────────────────────────
 
 export const IMAGE_QUALITY_MIN = 0.35;
+export const MAX_ANALYSIS_DIMENSION = 640; // px per side, matching the scan page's processing canvas
+export const MIN_IMAGE_DIMENSION = 16;     // px per side; anything thinner has no tread to measure
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_BATCH_IMAGES = 200; // per /api/analyze/batch request
+
+// ── Tread Region Detection ───────────────────────────────────────────
+
+export const TREAD_REGION = {
+    gridCells: 16,           // cells along the short side of the image
+    minCellPx: 8,
+    minCellGradient: 6,      // mean luminance gradient for a cell to count as textured
+    relativeThreshold: 0.35, // …and at least this share of the 90th-percentile cell
+    minBandShare: 0.3,       // share of textured cells for a row/column to be in the band
+    minSize: 0.2,            // smallest band, as a fraction of each side
+    padCells: 1,             // margin kept around the band so groove edges aren't cut
+};
+
+// The centre of the frame, where the scan page asks for the tread
+export const DEFAULT_TREAD_REGION: TreadRegion = {
+    x: 0.15,
+    y: 0.1,
+    width: 0.7,
+    height: 0.8,
+    orientation: 'vertical',
+    confidence: 0,
+    source: 'default',
+};
+
+// ── Groove Profile ───────────────────────────────────────────────────
+
+export const GROOVE_PROFILE = {
+    scanlines: 24,            // rows of the tread sampled across the grooves
+    minContrast: 0.15,        // groove darkness to count as a groove
+    minWidth: 0.02,           // fraction of the tread width
+    maxWidth: 0.25,
+    minContinuity: 0.6,       // circumferential grooves show on most scanlines
+    wearBarRatio: 0.45,       // a scanline this share of the groove's usual darkness or less is a bar
+    maxWearBarLength: 0.2,    // along the groove; longer light stretches are worn patches
+    flushDarkness: 0.08,      // a bar this close to the ribs is flush with the tread
+};
+
+// Molded wear bars run across the tread, so they show in several grooves at
+// the same point along it; a light spot in one groove is more likely a stone
+export const WEAR_BARS = {
+    rowTolerance: 0.06,       // along the tread; bars this close are one row
+    minGrooves: 2,            // grooves a row must cross
+    flushShare: 0.5,          // share of a row's bars that must be flush
+};
+
+// ── Live Camera Guidance ─────────────────────────────────────────────
+
+export const LIVE_GUIDANCE_INTERVAL_MS = 250;  // how often a video frame is assessed
+export const LIVE_GUIDANCE_DIMENSION = 160;    // px per side of the assessed frame
+export const AUTO_CAPTURE_STABLE_MS = 1500;    // frames must pass this long before auto-capture
+
+export const LIVE_GUIDANCE_THRESHOLDS = {
+    minLuminance: 0.2,    // mean frame luminance, 0–1
+    maxLuminance: 0.85,
+    minSharpness: 0.35,   // ImageQuality.blur
+    cellStdDev: 18,       // luminance std dev for a grid cell to count as tread
+    minTreadCells: 5,     // of the 3×3 grid
+    autoCapture: { blur: 0.5, brightness: 0.55, contrast: 0.45 },
+};
+
+export const CAPTURE_HINT_MESSAGES: Record<CaptureHint, string> = {
+    'too-dark': 'Too dark — find more light',
+    'too-bright': 'Too bright — avoid direct sun or glare',
+    'too-blurry': 'Too blurry — hold steady',
+    'move-closer': 'Move closer — fill the frame with tread',
+    'not-centered': 'Tread not centered — aim at the middle of the tread',
+};
+
+// ── Multi-frame Fusion ───────────────────────────────────────────────
+
+export const MAX_SCAN_FRAMES = 8;          // photos of one tire fused into one estimate
+export const LIVE_BURST_FRAMES = 4;        // frames the live camera takes per capture
+export const LIVE_BURST_INTERVAL_MS = 150;
+
+export const FRAME_FUSION = {
+    agreementBonus: 0.08,      // confidence added when every frame agrees
+    disagreementPenalty: 0.15, // confidence removed when frames disagree by a full uncertainty
+    minConfidence: 0.55,       // the uncalibrated estimators' range
+    maxConfidence: 0.9,
+};
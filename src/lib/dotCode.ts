@@ -0,0 +1,293 @@
+import type { DotCodeSource, DotDateCode, TireAge } from '@/types';
+import { TIRE_AGE_WARNING_MONTHS, DOT_OCR_MIN_CONFIDENCE } from './constants';
+import { toLuminance } from './imageUtils';
+
+/**
+ * Tire age from the sidewall DOT code.
+ *
+ * Since 2000 the DOT code ends in a four-digit date code: week then two-digit
+ * year, so "DOT U2LL LMLR 4419" was made in week 44 of 2019. Older three-digit
+ * codes are not supported — those tires are long past any sensible age limit.
+ */
+
+/**
+ * Find the date code in DOT text (OCR output or typed by the user). Takes the
+ * last four-digit group that is a valid week/year not in the future.
+ */
+export function parseDotCode(text: string, now: Date = new Date()): DotDateCode | null {
+    const groups = text.toUpperCase().split(/[^A-Z0-9]+/).filter(g => /^\d{4}$/.test(g));
+
+    for (let i = groups.length - 1; i >= 0; i--) {
+        const code = groups[i];
+        const week = parseInt(code.slice(0, 2), 10);
+        const year = 2000 + parseInt(code.slice(2), 10);
+        if (week < 1 || week > 53) continue;
+        if (manufactureDate(week, year) > now) continue;
+        return { code, week, year };
+    }
+
+    return null;
+}
+
+/**
+ * Age of a tire from its date code, with the over-age flag.
+ */
+export function tireAgeFromDotCode(
+    dateCode: DotDateCode,
+    source: DotCodeSource,
+    now: Date = new Date()
+): TireAge {
+    const made = manufactureDate(dateCode.week, dateCode.year);
+    let ageMonths = (now.getUTCFullYear() - made.getUTCFullYear()) * 12 + (now.getUTCMonth() - made.getUTCMonth());
+    if (now.getUTCDate() < made.getUTCDate()) ageMonths--;
+    ageMonths = Math.max(0, ageMonths);
+
+    return {
+        ...dateCode,
+        source,
+        ageMonths,
+        overAgeLimit: ageMonths >= TIRE_AGE_WARNING_MONTHS,
+    };
+}
+
+/**
+ * Approximate manufacture date: the first day of the given week.
+ */
+export function manufactureDate(week: number, year: number): Date {
+    return new Date(Date.UTC(year, 0, 1 + (week - 1) * 7));
+}
+
+export interface DotCodeRecognition extends DotDateCode {
+    text: string;       // everything read, unknown glyphs as '?'
+    confidence: number; // mean template match of the four date digits
+}
+
+/**
+ * Read the date code from a sidewall photo without any network OCR.
+ *
+ * The photo is thresholded, the densest text line is split into glyphs by
+ * column gaps, and each glyph is matched against built-in digit templates.
+ * Works best on a close, evenly lit crop of the code; returns null when no
+ * date code is read confidently so the caller can fall back to manual entry.
+ */
+export function recognizeDotCode(imageData: ImageData, now: Date = new Date()): DotCodeRecognition | null {
+    const { width, height } = imageData;
+    const mask = binarize(imageData);
+
+    const line = findTextLine(mask, width, height);
+    if (!line) return null;
+
+    const glyphs = segmentGlyphs(mask, width, line.top, line.bottom);
+    if (glyphs.length < 4) return null;
+
+    // Word gaps are wider than letter gaps
+    const lineHeight = line.bottom - line.top + 1;
+    let text = '';
+    const scores: number[] = [];
+    glyphs.forEach((glyph, i) => {
+        if (i > 0 && glyph.left - glyphs[i - 1].right > lineHeight * 0.6) {
+            text += ' ';
+            scores.push(0);
+        }
+        const { digit, score } = matchGlyph(mask, width, glyph);
+        text += score >= DOT_OCR_MIN_CONFIDENCE ? digit : '?';
+        scores.push(score);
+    });
+
+    const dateCode = parseDotCode(text, now);
+    if (!dateCode) return null;
+
+    // Scores of the glyphs that make up the chosen group
+    const start = text.lastIndexOf(dateCode.code);
+    const codeScores = scores.slice(start, start + 4);
+    const confidence = codeScores.reduce((sum, s) => sum + s, 0) / codeScores.length;
+    if (confidence < DOT_OCR_MIN_CONFIDENCE) return null;
+
+    return { ...dateCode, text, confidence: Math.round(confidence * 100) / 100 };
+}
+
+// ── Glyph Recognition ────────────────────────────────────────────────
+
+const GLYPH_COLS = 5;
+const GLYPH_ROWS = 7;
+
+// 5×7 digit font, trimmed to each glyph's own bounds when matched
+const DIGIT_FONT: Record<string, string[]> = {
+    '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+    '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+    '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+    '3': ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+    '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+    '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+    '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+    '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+    '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+    '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+};
+
+interface Box {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+const DIGIT_TEMPLATES = Object.entries(DIGIT_FONT).map(([digit, rows]) => {
+    const cells = new Uint8Array(GLYPH_COLS * GLYPH_ROWS);
+    rows.forEach((row, y) => [...row].forEach((c, x) => { cells[y * GLYPH_COLS + x] = c === '1' ? 1 : 0; }));
+    const box = boundsOf(cells, GLYPH_COLS, { left: 0, right: GLYPH_COLS - 1, top: 0, bottom: GLYPH_ROWS - 1 })!;
+    return { digit, grid: resample(cells, GLYPH_COLS, box), aspect: (box.right - box.left + 1) / (box.bottom - box.top + 1) };
+});
+
+function matchGlyph(mask: Uint8Array, width: number, glyph: Box): { digit: string; score: number } {
+    const grid = resample(mask, width, glyph);
+    const aspect = (glyph.right - glyph.left + 1) / (glyph.bottom - glyph.top + 1);
+
+    let best = { digit: '?', score: 0 };
+    for (const template of DIGIT_TEMPLATES) {
+        let same = 0;
+        for (let i = 0; i < grid.length; i++) if (grid[i] === template.grid[i]) same++;
+        // A narrow '1' stretched to the grid looks like a block — penalise aspect mismatch
+        const aspectPenalty = Math.min(0.3, Math.abs(aspect - template.aspect) * 0.5);
+        const score = same / grid.length - aspectPenalty;
+        if (score > best.score) best = { digit: template.digit, score };
+    }
+    return best;
+}
+
+/**
+ * Sample a box of a binary mask onto the 5×7 glyph grid (majority per cell).
+ */
+function resample(mask: Uint8Array, width: number, box: Box): Uint8Array {
+    const grid = new Uint8Array(GLYPH_COLS * GLYPH_ROWS);
+    const w = box.right - box.left + 1;
+    const h = box.bottom - box.top + 1;
+
+    for (let gy = 0; gy < GLYPH_ROWS; gy++) {
+        const y0 = box.top + Math.floor((gy * h) / GLYPH_ROWS);
+        const y1 = Math.max(y0 + 1, box.top + Math.floor(((gy + 1) * h) / GLYPH_ROWS));
+        for (let gx = 0; gx < GLYPH_COLS; gx++) {
+            const x0 = box.left + Math.floor((gx * w) / GLYPH_COLS);
+            const x1 = Math.max(x0 + 1, box.left + Math.floor(((gx + 1) * w) / GLYPH_COLS));
+            let on = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) on += mask[y * width + x];
+            }
+            grid[gy * GLYPH_COLS + gx] = on * 2 >= (x1 - x0) * (y1 - y0) ? 1 : 0;
+        }
+    }
+    return grid;
+}
+
+// ── Segmentation ─────────────────────────────────────────────────────
+
+/**
+ * Otsu threshold; the minority class is taken as text (embossed characters
+ * can read lighter or darker than the surrounding rubber).
+ */
+function binarize(imageData: ImageData): Uint8Array {
+    const lum = toLuminance(imageData);
+    const histogram = new Array(256).fill(0);
+    for (const v of lum) histogram[Math.min(255, Math.round(v))]++;
+
+    const total = lum.length;
+    let sumAll = 0;
+    for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+    let sumBelow = 0;
+    let countBelow = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+    for (let t = 0; t < 256; t++) {
+        countBelow += histogram[t];
+        if (countBelow === 0) continue;
+        const countAbove = total - countBelow;
+        if (countAbove === 0) break;
+        sumBelow += t * histogram[t];
+        const meanBelow = sumBelow / countBelow;
+        const meanAbove = (sumAll - sumBelow) / countAbove;
+        const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = t;
+        }
+    }
+
+    const mask = new Uint8Array(total);
+    let dark = 0;
+    for (let p = 0; p < total; p++) {
+        if (lum[p] <= threshold) dark++;
+    }
+    const textIsDark = dark <= total / 2;
+    for (let p = 0; p < total; p++) {
+        mask[p] = (lum[p] <= threshold) === textIsDark ? 1 : 0;
+    }
+    return mask;
+}
+
+/**
+ * The tallest run of rows containing text.
+ */
+function findTextLine(mask: Uint8Array, width: number, height: number): { top: number; bottom: number } | null {
+    const minOn = Math.max(1, Math.round(width * 0.02));
+    let best: { top: number; bottom: number } | null = null;
+    let start = -1;
+
+    for (let y = 0; y <= height; y++) {
+        let on = 0;
+        if (y < height) {
+            for (let x = 0; x < width; x++) on += mask[y * width + x];
+        }
+        if (on >= minOn && y < height) {
+            if (start < 0) start = y;
+        } else if (start >= 0) {
+            if (!best || y - 1 - start > best.bottom - best.top) best = { top: start, bottom: y - 1 };
+            start = -1;
+        }
+    }
+
+    // Too short to hold a readable glyph
+    return best && best.bottom - best.top + 1 >= GLYPH_ROWS ? best : null;
+}
+
+/**
+ * Split a text line into glyph boxes at empty columns.
+ */
+function segmentGlyphs(mask: Uint8Array, width: number, top: number, bottom: number): Box[] {
+    const glyphs: Box[] = [];
+    let start = -1;
+
+    for (let x = 0; x <= width; x++) {
+        let on = 0;
+        if (x < width) {
+            for (let y = top; y <= bottom; y++) on += mask[y * width + x];
+        }
+        if (on > 0 && x < width) {
+            if (start < 0) start = x;
+        } else if (start >= 0) {
+            const box = boundsOf(mask, width, { left: start, right: x - 1, top, bottom });
+            // Skip specks of noise
+            if (box && box.bottom - box.top + 1 >= (bottom - top + 1) * 0.5) glyphs.push(box);
+            start = -1;
+        }
+    }
+    return glyphs;
+}
+
+function boundsOf(mask: Uint8Array, width: number, area: Box): Box | null {
+    let box: Box | null = null;
+    for (let y = area.top; y <= area.bottom; y++) {
+        for (let x = area.left; x <= area.right; x++) {
+            if (!mask[y * width + x]) continue;
+            if (!box) {
+                box = { left: x, right: x, top: y, bottom: y };
+            } else {
+                box.left = Math.min(box.left, x);
+                box.right = Math.max(box.right, x);
+                box.top = Math.min(box.top, y);
+                box.bottom = Math.max(box.bottom, y);
+            }
+        }
+    }
+    return box;
+}
@@ -0,0 +1,55 @@
+import type { TreadEstimator } from '@/types';
+import { heuristicEstimator } from './treadEstimator';
+import { grooveProfileEstimator } from './grooveProfile';
+
+/**
+ * Registry of tread estimator backends.
+ *
+ * Backends register under a unique name; callers pick one by name (from a
+ * `?estimator=` query parameter or the NEXT_PUBLIC_TREAD_ESTIMATOR setting)
+ * and the name is recorded on the resulting AnalysisResult.
+ */
+
+export const DEFAULT_ESTIMATOR = 'heuristic';
+
+const estimators = new Map<string, TreadEstimator>();
+
+export function registerTreadEstimator(estimator: TreadEstimator): void {
+    if (estimators.has(estimator.name)) {
+        throw new Error(`Tread estimator already registered: ${estimator.name}`);
+    }
+    estimators.set(estimator.name, estimator);
+}
+
+export function getTreadEstimator(name: string = DEFAULT_ESTIMATOR): TreadEstimator {
+    const estimator = estimators.get(name);
+    if (!estimator) {
+        throw new Error(`Unknown tread estimator: ${name}`);
+    }
+    return estimator;
+}
+
+export function hasTreadEstimator(name: string): boolean {
+    return estimators.has(name);
+}
+
+export function listTreadEstimators(): TreadEstimator[] {
+    return [...estimators.values()];
+}
+
+/**
+ * Pick the estimator to use: an explicit request wins, then configuration,
+ * then the default. Unknown names fall through to the next option.
+ */
+export function resolveEstimatorName(requested?: string | null): string {
+    const configured = process.env.NEXT_PUBLIC_TREAD_ESTIMATOR;
+    for (const candidate of [requested, configured]) {
+        if (candidate && estimators.has(candidate)) return candidate;
+    }
+    return DEFAULT_ESTIMATOR;
+}
+
+// ── Built-in Backends ────────────────────────────────────────────────
+
+registerTreadEstimator(heuristicEstimator);
+registerTreadEstimator(grooveProfileEstimator);
@@ -0,0 +1,188 @@
+import type {
+    FleetTireStatus,
+    FleetVehicle,
+    FleetVehicleStatus,
+    ReplacementForecast,
+    ReplacementForecastMonth,
+    ScanRecord,
+    TirePosition,
+} from '@/types';
+import { predictWearTimeline, depthAfterMiles } from './wearModel';
+import { computeHealthScore } from './healthScore';
+import { fitWearRate, sortScanHistory } from './wearHistory';
+import { parseDotCode, tireAgeFromDotCode } from './dotCode';
+import { bucketForDepth } from './treadEstimator';
+import { resolveClimate } from './climate';
+import { resolveJurisdiction } from './jurisdiction';
+import { resolveTireProfile } from './tireProfile';
+import {
+    DEFAULT_MILES_PER_YEAR,
+    DEFAULT_TIRE_PRICE_USD,
+    FLEET_FORECAST_MONTHS,
+} from './constants';
+
+/**
+ * Fleet view: every vehicle's tires at their latest scan, projected to
+ * today, plus a month-by-month replacement forecast. Pure — the API route
+ * loads vehicles and scans from the store.
+ */
+
+const MS_PER_MONTH = 365.25 / 12 * 24 * 60 * 60 * 1000;
+
+/**
+ * A tire's status from its scan history (oldest first). The last scan's
+ * depth is worn forward by the miles driven since, so an old scan doesn't
+ * look healthier than the tire is today.
+ */
+export function fleetTireStatus(
+    history: ScanRecord[],
+    vehicle: FleetVehicle,
+    now: Date = new Date()
+): FleetTireStatus {
+    if (history.length === 0) {
+        throw new Error('At least one scan is required');
+    }
+    const lastScan = history[history.length - 1];
+    const { milesPerYear } = vehicle;
+    const fit = fitWearRate(history);
+    // The registered size is all we know of the tire (an LT size means a light-truck curve)
+    const tire = resolveTireProfile({ size: vehicle.tireSize });
+
+    const wearInput = {
+        milesPerYear,
+        ...resolveClimate(vehicle.zip),
+        jurisdiction: resolveJurisdiction(undefined, vehicle.zip),
+        rotation: 'normal' as const,
+        drivingStyle: 'normal' as const,
+        fittedWearRatePer1000Miles: fit?.ratePer1000Miles,
+        tireCategory: tire.tireCategory,
+        newTreadDepth32nds: tire.newTreadDepth32nds,
+        position: lastScan.position,
+    };
+
+    // Wear since the scan, along the curve the model would use for this tire
+    const { wearCurve } = predictWearTimeline({
+        ...wearInput,
+        depthRange: { min: lastScan.depth32nds, max: lastScan.depth32nds },
+    });
+    const monthsSinceScan = Math.max(0, (now.getTime() - new Date(lastScan.scannedAt).getTime()) / MS_PER_MONTH);
+    const depth = depthAfterMiles(wearCurve, lastScan.depth32nds, monthsSinceScan * (milesPerYear / 12));
+
+    const wearPrediction = predictWearTimeline({
+        ...wearInput,
+        depthRange: { min: depth, max: depth },
+        currentDepth32nds: depth,
+    });
+
+    const dateCode = lastScan.dotCode ? parseDotCode(lastScan.dotCode, now) : null;
+    const tireAge = dateCode ? tireAgeFromDotCode(dateCode, 'manual', now) : undefined;
+
+    const healthScore = computeHealthScore(
+        depth,
+        bucketForDepth(depth),
+        tireAge?.ageMonths,
+        lastScan.evenWear ?? true
+    );
+
+    return { position: lastScan.position, lastScan, healthScore, wearPrediction };
+}
+
+/**
+ * Status of every vehicle that is registered or has scans. Vehicles only
+ * known from scans get default settings. Sorted by the soonest legal-minimum
+ * date; vehicles with no scans go last.
+ */
+export function buildFleetOverview(
+    vehicles: FleetVehicle[],
+    scans: ScanRecord[],
+    now: Date = new Date()
+): FleetVehicleStatus[] {
+    const byId = new Map(vehicles.map(v => [v.id, v]));
+    for (const scan of scans) {
+        if (!byId.has(scan.vehicleId)) {
+            byId.set(scan.vehicleId, {
+                id: scan.vehicleId,
+                name: scan.vehicleId,
+                milesPerYear: DEFAULT_MILES_PER_YEAR,
+            });
+        }
+    }
+
+    const statuses = [...byId.values()].map((vehicle): FleetVehicleStatus => {
+        const histories = new Map<TirePosition, ScanRecord[]>();
+        for (const scan of scans) {
+            if (scan.vehicleId !== vehicle.id) continue;
+            histories.set(scan.position, [...histories.get(scan.position) ?? [], scan]);
+        }
+
+        const tires = [...histories.values()]
+            .map(history => fleetTireStatus(sortScanHistory(history), vehicle, now))
+            .sort((a, b) => a.wearPrediction.legalMinimumDate.getTime() - b.wearPrediction.legalMinimumDate.getTime());
+
+        return {
+            vehicle,
+            tires,
+            soonestLegalMinimumDate: tires[0]?.wearPrediction.legalMinimumDate ?? null,
+        };
+    });
+
+    return statuses.sort((a, b) => {
+        if (a.soonestLegalMinimumDate && b.soonestLegalMinimumDate) {
+            return a.soonestLegalMinimumDate.getTime() - b.soonestLegalMinimumDate.getTime();
+        }
+        if (a.soonestLegalMinimumDate) return -1;
+        if (b.soonestLegalMinimumDate) return 1;
+        return a.vehicle.name.localeCompare(b.vehicle.name);
+    });
+}
+
+/**
+ * Tires reaching the legal minimum in each of the next `months` calendar
+ * months (this month first, including anything already overdue), with the
+ * sizes to order and the expected spend. Spares are left out — they don't
+ * wear with mileage, so their dates mean nothing.
+ */
+export function forecastReplacements(
+    fleet: FleetVehicleStatus[],
+    months: number = FLEET_FORECAST_MONTHS,
+    now: Date = new Date()
+): ReplacementForecast {
+    const forecast: ReplacementForecastMonth[] = [];
+    for (let i = 0; i < months; i++) {
+        forecast.push({
+            month: monthKey(new Date(now.getFullYear(), now.getMonth() + i, 1)),
+            tireCount: 0,
+            sizes: {},
+            estimatedSpendUsd: 0,
+            tires: [],
+        });
+    }
+    const byMonth = new Map(forecast.map(m => [m.month, m]));
+
+    for (const { vehicle, tires } of fleet) {
+        for (const tire of tires) {
+            if (tire.position === 'SPARE') continue;
+            const due = tire.wearPrediction.legalMinimumDate;
+            const entry = byMonth.get(monthKey(due < now ? now : due));
+            if (!entry) continue;
+
+            const size = vehicle.tireSize || 'Unknown';
+            entry.tireCount++;
+            entry.sizes[size] = (entry.sizes[size] ?? 0) + 1;
+            entry.estimatedSpendUsd += vehicle.tirePriceUsd ?? DEFAULT_TIRE_PRICE_USD;
+            entry.tires.push({ vehicleId: vehicle.id, position: tire.position });
+        }
+    }
+
+    return {
+        months: forecast,
+        totalTires: forecast.reduce((sum, m) => sum + m.tireCount, 0),
+        totalSpendUsd: forecast.reduce((sum, m) => sum + m.estimatedSpendUsd, 0),
+    };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function monthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,82 @@
+import type { ImageQuality, TreadEstimate } from '@/types';
+import { FRAME_FUSION } from './constants';
+import { bucketForDepth, depthInterval } from './treadEstimator';
+
+/**
+ * Fuse per-frame tread estimates of the same tire into one.
+ *
+ * Each frame is weighted by its confidence and image quality over its
+ * variance. The fused uncertainty shrinks with more frames when they agree,
+ * but never below the spread between them; confidence rises with agreement
+ * and falls when the frames disagree by about their own uncertainty.
+ */
+
+export interface FrameEstimate {
+    estimate: TreadEstimate;
+    imageQuality: ImageQuality;
+}
+
+export interface FusedFrames {
+    estimate: TreadEstimate;
+    weights: number[];   // per input frame, summing to 1
+    spread32nds: number;
+    agreement: number;   // 0–1
+}
+
+export function fuseFrameEstimates(frames: FrameEstimate[]): FusedFrames {
+    if (frames.length === 0) {
+        throw new Error('At least one frame is required');
+    }
+    if (frames.length === 1) {
+        return { estimate: frames[0].estimate, weights: [1], spread32nds: 0, agreement: 1 };
+    }
+
+    const raw = frames.map(({ estimate, imageQuality }) =>
+        (estimate.confidence * Math.max(imageQuality.overall, 0.05)) / Math.max(estimate.uncertainty32nds, 0.1) ** 2
+    );
+    const total = raw.reduce((sum, w) => sum + w, 0);
+    const weights = raw.map(w => w / total);
+
+    const depth = weightedMean(frames.map(f => f.estimate.depth32nds), weights);
+    const spread = Math.sqrt(weightedMean(frames.map(f => (f.estimate.depth32nds - depth) ** 2), weights));
+    const meanUncertainty = weightedMean(frames.map(f => f.estimate.uncertainty32nds), weights);
+    const meanConfidence = weightedMean(frames.map(f => f.estimate.confidence), weights);
+
+    const agreement = clamp(1 - spread / meanUncertainty, 0, 1);
+    const uncertainty = round1(Math.max(meanUncertainty / Math.sqrt(frames.length), spread));
+    const confidence = clamp(
+        meanConfidence
+            + FRAME_FUSION.agreementBonus * agreement * (1 - 1 / frames.length)
+            - FRAME_FUSION.disagreementPenalty * (1 - agreement),
+        FRAME_FUSION.minConfidence,
+        FRAME_FUSION.maxConfidence
+    );
+
+    const fusedDepth = round1(depth);
+    return {
+        estimate: {
+            bucket: bucketForDepth(fusedDepth),
+            depth32nds: fusedDepth,
+            uncertainty32nds: uncertainty,
+            depthRange32nds: depthInterval(fusedDepth, uncertainty),
+            confidence: Math.round(confidence * 100) / 100,
+        },
+        weights,
+        spread32nds: Math.round(spread * 100) / 100,
+        agreement: Math.round(agreement * 100) / 100,
+    };
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+function weightedMean(values: number[], weights: number[]): number {
+    return values.reduce((sum, value, i) => sum + value * weights[i], 0);
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,203 @@
+import type { GrooveMeasurement, GrooveProfile, TreadEstimator, TreadEstimatorResult, WearBarMark } from '@/types';
+import { GROOVE_DEPTH_KNOTS, GROOVE_PROFILE, WEAR_BAR_HEIGHT_32NDS } from './constants';
+import { assessImageQuality, buildTreadEstimate, heuristicEstimator } from './treadEstimator';
+import { toLuminance } from './imageUtils';
+import { detectWearBars } from './wearBars';
+
+/**
+ * Structural tread analysis: instead of whole-image statistics, look at the
+ * grooves themselves.
+ *
+ * The input is an upright tread crop (`cropToTreadRegion`), so the
+ * circumferential grooves run top-to-bottom. Scanlines across the tread
+ * are averaged into a brightness profile; columns clearly darker than the
+ * ribs that stay dark on most scanlines are the major grooves. Within a
+ * groove, a short stretch that turns light is a tread-wear indicator bar,
+ * and a bar as light as the ribs is flush with the tread.
+ */
+export function analyzeGrooveProfile(tread: ImageData): GrooveProfile {
+    const { width, height } = tread;
+    const rows = scanlines(toLuminance(tread), width, height, Math.min(GROOVE_PROFILE.scanlines, height));
+    const across = smooth(rows[0].map((_, x) => mean(rows.map(row => row[x]))));
+    const ribLevel = percentile(across, 0.75);
+    if (ribLevel <= 0) return { grooves: [], wearBars: [], ribLevel: 0 };
+
+    const darkness = (lum: number) => clamp((ribLevel - lum) / ribLevel, 0, 1);
+    const grooves: GrooveMeasurement[] = [];
+
+    for (const [start, end] of runs(across.map(darkness), GROOVE_PROFILE.minContrast)) {
+        const grooveWidth = (end - start + 1) / width;
+        if (grooveWidth < GROOVE_PROFILE.minWidth || grooveWidth > GROOVE_PROFILE.maxWidth) continue;
+
+        const darknessAlong = rows.map(row => darkness(mean(row.slice(start, end + 1))));
+        const continuity = darknessAlong.filter(d => d >= GROOVE_PROFILE.minContrast).length / rows.length;
+        if (continuity < GROOVE_PROFILE.minContinuity) continue;
+
+        grooves.push({
+            center: round3((start + end + 1) / 2 / width),
+            width: round3(grooveWidth),
+            // The median ignores the few scanlines crossing a wear bar
+            darkness: round2(median(darknessAlong)),
+            continuity: round2(continuity),
+            darknessAlong: darknessAlong.map(round2),
+        });
+    }
+
+    return {
+        grooves,
+        wearBars: grooves.flatMap((groove, index) => findWearBars(groove, index)),
+        ribLevel: Math.round(ribLevel),
+    };
+}
+
+/**
+ * Depth from groove structure (registry name `groove-profile`): the darker
+ * the grooves against the ribs, the deeper they are, and a row of wear bars
+ * flush with the tread (`detectWearBars`) caps the depth at the bar height.
+ * With no grooves to measure it falls back on the texture heuristic, less
+ * confidently.
+ */
+export const grooveProfileEstimator: TreadEstimator = {
+    name: 'groove-profile',
+    label: 'Groove profile',
+    async estimate({ imageData, metadata }): Promise<TreadEstimatorResult> {
+        const profile = analyzeGrooveProfile(imageData);
+        const { grooves, wearBars } = profile;
+
+        if (grooves.length === 0) {
+            const fallback = await heuristicEstimator.estimate({ imageData, metadata });
+            return {
+                estimate: buildTreadEstimate(fallback.estimate.depth32nds, Math.max(0.55, fallback.estimate.confidence - 0.1)),
+                diagnostics: { ...fallback.diagnostics, grooveCount: 0 },
+            };
+        }
+
+        const totalWidth = grooves.reduce((sum, g) => sum + g.width, 0);
+        const grooveDarkness = grooves.reduce((sum, g) => sum + g.darkness * g.width, 0) / totalWidth;
+        let depth = darknessToDepth(grooveDarkness);
+        const indicators = detectWearBars(profile);
+        if (indicators.flush) depth = Math.min(depth, WEAR_BAR_HEIGHT_32NDS);
+
+        // More grooves and visible wear bars are more to go on
+        const quality = assessImageQuality(imageData);
+        const confidence = clamp(
+            0.55 + quality.overall * 0.2 + Math.min(grooves.length, 4) * 0.025 + (wearBars.length > 0 ? 0.05 : 0),
+            0.55,
+            0.9
+        );
+
+        return {
+            estimate: buildTreadEstimate(depth, Math.round(confidence * 100) / 100),
+            diagnostics: {
+                grooveCount: grooves.length,
+                meanGrooveWidth: round3(totalWidth / grooves.length),
+                meanGrooveDarkness: round2(grooveDarkness),
+                wearBarCount: wearBars.length,
+                wearBarRows: indicators.rows.length,
+                wearBarsFlush: indicators.flush ? 1 : 0,
+                imageQuality: quality.overall,
+            },
+        };
+    },
+};
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+/**
+ * Short light stretches along a groove. A bar is flush when it's about as
+ * light as the ribs.
+ */
+function findWearBars(groove: GrooveMeasurement, index: number): WearBarMark[] {
+    const { darknessAlong } = groove;
+    const threshold = groove.darkness * GROOVE_PROFILE.wearBarRatio;
+    const bars: WearBarMark[] = [];
+
+    for (const [start, end] of runs(darknessAlong.map(d => (d <= threshold ? 1 : 0)), 1)) {
+        if ((end - start + 1) / darknessAlong.length > GROOVE_PROFILE.maxWearBarLength) continue;
+        const lightest = Math.min(...darknessAlong.slice(start, end + 1));
+        bars.push({
+            groove: index,
+            position: round3((start + end + 1) / 2 / darknessAlong.length),
+            flush: lightest <= GROOVE_PROFILE.flushDarkness,
+        });
+    }
+    return bars;
+}
+
+/**
+ * Mean luminance per column for `count` horizontal bands of the image.
+ */
+function scanlines(lum: Float32Array, width: number, height: number, count: number): number[][] {
+    const rows: number[][] = [];
+    for (let i = 0; i < count; i++) {
+        const y0 = Math.floor((i * height) / count);
+        const y1 = Math.max(y0 + 1, Math.floor(((i + 1) * height) / count));
+        const row = new Array<number>(width).fill(0);
+        for (let y = y0; y < y1; y++) {
+            for (let x = 0; x < width; x++) row[x] += lum[y * width + x];
+        }
+        rows.push(row.map(v => v / (y1 - y0)));
+    }
+    return rows;
+}
+
+/**
+ * Index ranges where `values` is at or above `min`.
+ */
+function runs(values: number[], min: number): [number, number][] {
+    const out: [number, number][] = [];
+    let start = -1;
+    values.forEach((value, i) => {
+        if (value >= min) {
+            if (start < 0) start = i;
+        } else if (start >= 0) {
+            out.push([start, i - 1]);
+            start = -1;
+        }
+    });
+    if (start >= 0) out.push([start, values.length - 1]);
+    return out;
+}
+
+function darknessToDepth(darkness: number): number {
+    const d = clamp(darkness, 0, 1);
+    for (let i = 1; i < GROOVE_DEPTH_KNOTS.length; i++) {
+        const lo = GROOVE_DEPTH_KNOTS[i - 1];
+        const hi = GROOVE_DEPTH_KNOTS[i];
+        if (d <= hi.darkness) {
+            return lo.depth + ((d - lo.darkness) / (hi.darkness - lo.darkness)) * (hi.depth - lo.depth);
+        }
+    }
+    return GROOVE_DEPTH_KNOTS[GROOVE_DEPTH_KNOTS.length - 1].depth;
+}
+
+function smooth(values: number[]): number[] {
+    return values.map((_, i) => mean(values.slice(Math.max(0, i - 1), i + 2)));
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function percentile(values: number[], p: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,207 @@
+import type {
+    CalibrationMethod,
+    FrameFusion,
+    FrameResult,
+    GrooveProfile,
+    ImageQuality,
+    TireScanInput,
+    TirePosition,
+    TreadEstimate,
+    TreadEstimator,
+    TreadEstimatorMetadata,
+    TreadEstimatorResult,
+    TreadRegion,
+    WearBarDetection,
+    WearPatternResult,
+} from '@/types';
+import { assessImageQuality } from './treadEstimator';
+import { measureWithCoin, measureWithGauge, fuseCalibration } from './calibration';
+import { detectWearPattern } from './wearPattern';
+import { fuseFrameEstimates } from './frameFusion';
+import { cropToTreadRegion, detectTreadRegion } from './treadRegion';
+import { analyzeGrooveProfile } from './grooveProfile';
+import { detectWearBars } from './wearBars';
+
+/**
+ * The per-image half of an analysis: tread estimate, image quality, wear
+ * pattern and optional calibration. The scan page runs it on canvas pixels
+ * and /api/analyze runs it on server-decoded images, so both produce the
+ * same numbers for the same photo.
+ *
+ * Everything but calibration looks only at the tread band: the detected
+ * `treadRegion`, or one the user adjusted. The coin can sit outside it.
+ * The band's grooves and wear bars are measured whichever estimator runs,
+ * for the results page overlay.
+ */
+
+export interface TreadImageOptions {
+    estimator: TreadEstimator;
+    calibration?: CalibrationMethod;
+    gaugeReading32nds?: number; // required when calibration is 'gauge'
+    metadata?: TreadEstimatorMetadata;
+    treadRegion?: TreadRegion;  // overrides detection (on the first frame)
+}
+
+export interface TreadImageAnalysis {
+    treadEstimate: TreadEstimate;
+    imageQuality: ImageQuality;
+    wearPattern: WearPatternResult;
+    estimator: string;
+    diagnostics: Record<string, number>;
+    calibrationFailed: boolean; // a coin was requested but not found
+    frameFusion?: FrameFusion;  // present when several frames were fused
+    treadRegion: TreadRegion;   // of the first frame
+    grooveProfile: GrooveProfile; // within treadRegion
+    wearBars: WearBarDetection;   // from the best frame; may differ from grooveProfile's
+}
+
+export async function analyzeTreadImage(
+    imageData: ImageData,
+    options: TreadImageOptions
+): Promise<TreadImageAnalysis> {
+    const { estimator, metadata } = options;
+    const treadRegion = options.treadRegion ?? detectTreadRegion(imageData);
+    const tread = cropToTreadRegion(imageData, treadRegion);
+
+    const { estimate, diagnostics } = await estimator.estimate({ imageData: tread, metadata });
+    const imageQuality = assessImageQuality(tread);
+    const wearPattern = detectWearPattern(tread);
+    const grooveProfile = analyzeGrooveProfile(tread);
+    const { treadEstimate, calibrationFailed } = applyCalibration(estimate, [imageData], options);
+
+    return {
+        treadEstimate,
+        imageQuality,
+        wearPattern,
+        estimator: estimator.name,
+        diagnostics: { ...diagnostics, treadRegionConfidence: treadRegion.confidence },
+        calibrationFailed,
+        treadRegion,
+        grooveProfile,
+        wearBars: detectWearBars(grooveProfile),
+    };
+}
+
+/**
+ * Several photos of the same tire: frames that fail `assessImageQuality`
+ * are rejected (unless none pass, when the best one is kept), the estimator
+ * runs on the rest and their estimates are fused. Wear pattern and image
+ * quality come from the best frame; a coin may be found in any used frame.
+ * Each frame gets its own tread region; `options.treadRegion` replaces the
+ * first frame's, since that's the one the scan page shows. The groove
+ * profile is the first frame's too, as it's drawn over that photo, but the
+ * wear-bar verdict comes from the best frame: a frame left out of fusion
+ * shouldn't decide whether the tire is worn out.
+ */
+export async function analyzeTreadFrames(
+    frames: ImageData[],
+    options: TreadImageOptions
+): Promise<TreadImageAnalysis> {
+    if (frames.length === 0) {
+        throw new Error('At least one frame is required');
+    }
+    if (frames.length === 1) {
+        return analyzeTreadImage(frames[0], options);
+    }
+
+    const { estimator, metadata } = options;
+    const regions = frames.map((frame, i) => (i === 0 && options.treadRegion) || detectTreadRegion(frame));
+    const treads = frames.map((frame, i) => cropToTreadRegion(frame, regions[i]));
+    const qualities = treads.map(assessImageQuality);
+    const byQuality = frames.map((_, i) => i).sort((a, b) => qualities[b].overall - qualities[a].overall);
+    const acceptable = byQuality.filter(i => qualities[i].acceptable);
+    const used = acceptable.length > 0 ? acceptable : byQuality.slice(0, 1);
+    const best = used[0];
+
+    const results: TreadEstimatorResult[] = [];
+    for (const i of used) {
+        results.push(await estimator.estimate({ imageData: treads[i], metadata }));
+    }
+    const fused = fuseFrameEstimates(results.map(({ estimate }, k) => ({ estimate, imageQuality: qualities[used[k]] })));
+
+    const frameResults = qualities.map((imageQuality, index): FrameResult => {
+        const k = used.indexOf(index);
+        if (k < 0) return { index, imageQuality, used: false };
+        const { depth32nds, uncertainty32nds, confidence } = results[k].estimate;
+        return {
+            index,
+            imageQuality,
+            used: true,
+            depth32nds,
+            uncertainty32nds,
+            confidence,
+            weight: Math.round(fused.weights[k] * 100) / 100,
+        };
+    });
+
+    const { treadEstimate, calibrationFailed } = applyCalibration(fused.estimate, used.map(i => frames[i]), options);
+    const grooveProfile = analyzeGrooveProfile(treads[0]);
+
+    return {
+        treadEstimate,
+        imageQuality: qualities[best],
+        wearPattern: detectWearPattern(treads[best]),
+        estimator: estimator.name,
+        diagnostics: {
+            ...results[0].diagnostics,
+            framesUsed: used.length,
+            frameSpread32nds: fused.spread32nds,
+            treadRegionConfidence: regions[0].confidence,
+        },
+        calibrationFailed,
+        frameFusion: { frames: frameResults, spread32nds: fused.spread32nds, agreement: fused.agreement },
+        treadRegion: regions[0],
+        grooveProfile,
+        wearBars: detectWearBars(best === 0 ? grooveProfile : analyzeGrooveProfile(treads[best])),
+    };
+}
+
+/**
+ * The scan an analyzed image describes, ready for `buildAnalysis`.
+ */
+export function toScanInput(analysis: TreadImageAnalysis, position: TirePosition): TireScanInput {
+    const { treadEstimate } = analysis;
+    return {
+        position,
+        bucket: treadEstimate.bucket,
+        depthRange: treadEstimate.depthRange32nds,
+        depth32nds: treadEstimate.depth32nds,
+        uncertainty32nds: treadEstimate.uncertainty32nds,
+        confidence: treadEstimate.confidence,
+        calibration: treadEstimate.calibration,
+        imageQuality: analysis.imageQuality,
+        estimator: analysis.estimator,
+        wearPattern: analysis.wearPattern,
+        frameFusion: analysis.frameFusion,
+        treadRegion: analysis.treadRegion,
+        grooveProfile: analysis.grooveProfile,
+        wearBars: analysis.wearBars,
+    };
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+/**
+ * Fuse in the reference measurement when one was requested. A coin is
+ * looked for in each image in turn (best first).
+ */
+function applyCalibration(
+    estimate: TreadEstimate,
+    images: ImageData[],
+    { calibration, gaugeReading32nds }: TreadImageOptions
+): { treadEstimate: TreadEstimate; calibrationFailed: boolean } {
+    if (calibration === 'gauge') {
+        if (gaugeReading32nds == null || !Number.isFinite(gaugeReading32nds) || gaugeReading32nds < 0) {
+            throw new Error('A tread gauge reading is required for gauge calibration');
+        }
+        return { treadEstimate: fuseCalibration(estimate, measureWithGauge(gaugeReading32nds)), calibrationFailed: false };
+    }
+    if (calibration) {
+        for (const imageData of images) {
+            const measurement = measureWithCoin(imageData, calibration);
+            if (measurement) return { treadEstimate: fuseCalibration(estimate, measurement), calibrationFailed: false };
+        }
+        return { treadEstimate: estimate, calibrationFailed: true };
+    }
+    return { treadEstimate: estimate, calibrationFailed: false };
+}
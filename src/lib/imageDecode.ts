@@ -0,0 +1,46 @@
+import sharp from 'sharp';
+import { createImageData } from './imageUtils';
+import { MAX_IMAGE_BYTES, MAX_ANALYSIS_DIMENSION, MIN_IMAGE_DIMENSION } from './constants';
+
+/**
+ * Server-side image decoding (Node only — never import from client code).
+ *
+ * Produces the same pixels the scan page gets from its canvas: each side is
+ * capped at MAX_ANALYSIS_DIMENSION independently and the image is stretched
+ * to fit, exactly as `drawImage` does on the processing canvas.
+ */
+
+export async function decodeImage(buffer: Buffer): Promise<ImageData> {
+    if (buffer.length === 0) {
+        throw new Error('Image is empty');
+    }
+    if (buffer.length > MAX_IMAGE_BYTES) {
+        throw new Error(`Image is larger than ${Math.round(MAX_IMAGE_BYTES / (1024 * 1024))}MB`);
+    }
+
+    // Apply EXIF orientation the way browsers do when drawing
+    const image = sharp(buffer).autoOrient();
+    const { width, height } = (await image.metadata()).autoOrient;
+    if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+        throw new Error(`Image is smaller than ${MIN_IMAGE_DIMENSION}×${MIN_IMAGE_DIMENSION} px`);
+    }
+
+    const { data, info } = await image
+        .resize(Math.min(width, MAX_ANALYSIS_DIMENSION), Math.min(height, MAX_ANALYSIS_DIMENSION), { fit: 'fill' })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    return createImageData(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height);
+}
+
+/**
+ * Decode a base64 image, with or without a `data:image/...;base64,` prefix.
+ */
+export function decodeBase64Image(encoded: string): Promise<ImageData> {
+    const payload = encoded.replace(/^data:image\/[\w+.-]+;base64,/, '');
+    if (!/^[A-Za-z0-9+/=\s]+$/.test(payload)) {
+        return Promise.reject(new Error('Image is not valid base64'));
+    }
+    return decodeImage(Buffer.from(payload, 'base64'));
+}
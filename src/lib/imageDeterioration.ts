@@ -11,12 +11,21 @@
  * 4. Micro-crack noise that follows surface texture
  * 5. Edge softening for natural wear look
  * 6. Optional uneven shoulder wear (exaggerated outer 20%)
- * 7. Aging overlay with cinematic vignette
+ * 7. Detected wear pattern (center, shoulder or cupping) shaping the mask
+ * 8. Aging overlay with cinematic vignette
+ *
+ * The mask covers the tread region found at analysis time (the frame's
+ * centre when there is none), oriented along its grooves.
  */
 
+import type { TreadRegion, WearPattern } from '@/types';
+import { DEFAULT_TREAD_REGION } from './constants';
+
 export interface DeteriorationOptions {
     t: number;               // 0 = original, 1 = fully worn
     unevenWear: boolean;     // Apply shoulder-heavy wear
+    wearPattern?: WearPattern; // Detected pattern to project forward
+    treadRegion?: TreadRegion; // Where the tread band is in the image
     width: number;
     height: number;
 }
@@ -30,7 +39,7 @@ export function applyDeterioration(
     originalImage: HTMLImageElement,
     options: DeteriorationOptions
 ): void {
-    const { t, unevenWear, width, height } = options;
+    const { t, unevenWear, wearPattern, treadRegion = DEFAULT_TREAD_REGION, width, height } = options;
 
     // Draw original image
     ctx.drawImage(originalImage, 0, 0, width, height);
@@ -41,8 +50,8 @@ export function applyDeterioration(
     const imageData = ctx.getImageData(0, 0, width, height);
     const pixels = imageData.data;
 
-    // Create tread region mask (center 70% of image, vertically centered)
-    const treadMask = createTreadMask(width, height, unevenWear);
+    // Create tread region mask (an ellipse over the tread band)
+    const treadMask = createTreadMask(width, height, treadRegion, unevenWear, wearPattern);
 
     // 1. Reduce contrast in tread region (smooth weighted blend)
     applyContrastReduction(pixels, treadMask, t, width, height);
@@ -79,20 +88,26 @@ export function applyDeterioration(
 function createTreadMask(
     width: number,
     height: number,
-    unevenWear: boolean
+    region: TreadRegion,
+    unevenWear: boolean,
+    wearPattern?: WearPattern
 ): Float32Array {
     const mask = new Float32Array(width * height);
 
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const radiusX = width * 0.35;
-    const radiusY = height * 0.40;
+    const centerX = (region.x + region.width / 2) * width;
+    const centerY = (region.y + region.height / 2) * height;
+    const radiusX = Math.max(1, (region.width / 2) * width);
+    const radiusY = Math.max(1, (region.height / 2) * height);
+    const horizontal = region.orientation === 'horizontal';
 
     for (let y = 0; y < height; y++) {
         for (let x = 0; x < width; x++) {
-            const dx = (x - centerX) / radiusX;
-            const dy = (y - centerY) / radiusY;
-            const dist = Math.sqrt(dx * dx + dy * dy);
+            const ex = (x - centerX) / radiusX;
+            const ey = (y - centerY) / radiusY;
+            const dist = Math.sqrt(ex * ex + ey * ey);
+            // dx runs across the tread (shoulder to shoulder), dy along it
+            const dx = horizontal ? ey : ex;
+            const dy = horizontal ? ex : ey;
 
             let value = Math.max(0, 1.0 - dist);
             // Smoother falloff using smoothstep
@@ -109,6 +124,10 @@ function createTreadMask(
                 }
             }
 
+            if (wearPattern && wearPattern !== 'even') {
+                value = Math.min(1.0, value * patternWeight(wearPattern, dx, dy));
+            }
+
             mask[y * width + x] = value;
         }
     }
@@ -116,6 +135,29 @@ function createTreadMask(
     return mask;
 }
 
+/**
+ * Relative wear across the tread for a detected pattern. `dx` runs from the
+ * inner shoulder (-1, left) to the outer shoulder (+1, right).
+ */
+function patternWeight(pattern: WearPattern, dx: number, dy: number): number {
+    const edge = Math.min(1, Math.abs(dx));
+    switch (pattern) {
+        case 'center':
+            return 1.4 - edge * 0.6;
+        case 'both-shoulders':
+            return 0.8 + edge * 0.6;
+        case 'inner-shoulder':
+            return 1.0 - Math.max(-1, Math.min(1, dx)) * 0.4;
+        case 'outer-shoulder':
+            return 1.0 + Math.max(-1, Math.min(1, dx)) * 0.4;
+        case 'cupping':
+            // Scalloped patches around the circumference
+            return 1.0 + Math.sin(dy * Math.PI * 3) * 0.35;
+        default:
+            return 1.0;
+    }
+}
+
 // ── Effect Implementations ───────────────────────────────────────────
 
 function applyContrastReduction(
@@ -0,0 +1,66 @@
+/**
+ * Small ImageData helpers shared by the analysis modules. Everything here is
+ * plain typed-array work, so it runs the same in the browser and in Node.
+ */
+
+/**
+ * Build an ImageData-compatible object without relying on the DOM constructor.
+ */
+export function createImageData(data: Uint8ClampedArray, width: number, height: number): ImageData {
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+/**
+ * Copy a rectangle out of an image. The rectangle is clamped to the image.
+ */
+export function cropImageData(
+    imageData: ImageData,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): ImageData {
+    const x0 = Math.max(0, Math.floor(x));
+    const y0 = Math.max(0, Math.floor(y));
+    const w = Math.max(1, Math.min(imageData.width - x0, Math.round(width)));
+    const h = Math.max(1, Math.min(imageData.height - y0, Math.round(height)));
+
+    const out = new Uint8ClampedArray(w * h * 4);
+    for (let row = 0; row < h; row++) {
+        const srcStart = ((y0 + row) * imageData.width + x0) * 4;
+        out.set(imageData.data.subarray(srcStart, srcStart + w * 4), row * w * 4);
+    }
+    return createImageData(out, w, h);
+}
+
+/**
+ * Per-pixel luminance (0–255) as a flat array, row-major.
+ */
+export function toLuminance(imageData: ImageData): Float32Array {
+    const { data, width, height } = imageData;
+    const lum = new Float32Array(width * height);
+    for (let i = 0, p = 0; p < lum.length; i += 4, p++) {
+        lum[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    }
+    return lum;
+}
+
+/**
+ * The image turned a quarter turn clockwise.
+ */
+export function rotateQuarterTurn(imageData: ImageData): ImageData {
+    const { data, width, height } = imageData;
+    const out = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // (x, y) lands at column height-1-y, row x of the height×width result
+            const src = (y * width + x) * 4;
+            const dst = (x * height + (height - 1 - y)) * 4;
+            out[dst] = data[src];
+            out[dst + 1] = data[src + 1];
+            out[dst + 2] = data[src + 2];
+            out[dst + 3] = data[src + 3];
+        }
+    }
+    return createImageData(out, height, width);
+}
@@ -0,0 +1,84 @@
+import type { JurisdictionCode, JurisdictionRules, UnitSystem, WeatherMode } from '@/types';
+import { lookupClimate } from './climate';
+import { formatDepthLimit } from './units';
+import { DEFAULT_JURISDICTION, JURISDICTIONS } from './constants';
+
+/**
+ * Regional tread rules: legal minimum, recommended wet and snow depths and
+ * winter-tire requirements. The region is picked explicitly or inferred
+ * from a US ZIP, Canadian or UK postal code; the US rules are the default.
+ */
+
+// Forward sortation areas by province, for provinces with their own rules
+const CA_PROVINCE_BY_FSA_LETTER: Partial<Record<string, JurisdictionCode>> = {
+    G: 'CA-QC',
+    H: 'CA-QC',
+    J: 'CA-QC',
+    V: 'CA-BC',
+};
+
+export function isJurisdictionCode(code: unknown): code is JurisdictionCode {
+    return typeof code === 'string' && Object.hasOwn(JURISDICTIONS, code);
+}
+
+export function getJurisdictionRules(code: JurisdictionCode = DEFAULT_JURISDICTION): JurisdictionRules {
+    return JURISDICTIONS[code] ?? JURISDICTIONS[DEFAULT_JURISDICTION];
+}
+
+/**
+ * The jurisdiction for a scan: an explicit code wins, then the postal
+ * code's country (and province, in Canada), then the default.
+ */
+export function resolveJurisdiction(code?: string, postalCode?: string): JurisdictionCode {
+    if (isJurisdictionCode(code)) return code;
+    const found = lookupClimate(postalCode);
+    if (!found) return DEFAULT_JURISDICTION;
+    if (found.country === 'CA') {
+        const letter = found.postalCode.trim().charAt(0).toUpperCase();
+        return CA_PROVINCE_BY_FSA_LETTER[letter] ?? 'CA';
+    }
+    return found.country;
+}
+
+/**
+ * Warning and critical depths per weather mode. In the US these are the
+ * familiar 4/2, 5/3 and 6/4 (32nds); elsewhere they follow the local legal
+ * minimum, and in snow never drop below a winter-tire minimum.
+ */
+export function weatherThresholds(rules: JurisdictionRules): Record<WeatherMode, { warning: number; critical: number }> {
+    const { legalMinimum32nds, wetTractionDrop32nds, snowWarning32nds, winter } = rules;
+    const winterMinimum = winter?.minimum32nds ?? 0;
+    const snowCritical = Math.max(legalMinimum32nds + 2, winterMinimum);
+    return {
+        dry: { warning: wetTractionDrop32nds, critical: legalMinimum32nds },
+        wet: { warning: wetTractionDrop32nds + 1, critical: legalMinimum32nds + 1 },
+        snow: { warning: Math.max(snowWarning32nds, snowCritical + 1), critical: snowCritical },
+    };
+}
+
+/**
+ * Whether `date` falls in the jurisdiction's winter-tire period.
+ */
+export function isWinterRulePeriod(rules: JurisdictionRules, date: Date): boolean {
+    if (!rules.winter) return false;
+    const { from, to } = rules.winter;
+    const day = date.getMonth() * 100 + date.getDate();
+    const start = from.month * 100 + from.day;
+    const end = to.month * 100 + to.day;
+    return start <= end ? day >= start && day <= end : day >= start || day <= end;
+}
+
+/**
+ * The units the region's laws and advice are stated in.
+ */
+export function regionUnits(rules: JurisdictionRules): UnitSystem {
+    return rules.depthUnit === 'mm' ? 'metric' : 'imperial';
+}
+
+/**
+ * A threshold in the given units, or the way the region states it:
+ * "2/32"" or "1.6 mm".
+ */
+export function formatThreshold(depth32nds: number, rules: JurisdictionRules, units?: UnitSystem): string {
+    return formatDepthLimit(depth32nds, units ?? regionUnits(rules));
+}
@@ -1,21 +1,27 @@
-import { LLMExplanation, AnalysisResult, WeatherMode } from '@/types';
+import { LLMExplanation, AnalysisResult, UnitSystem, WeatherMode, WearPatternResult } from '@/types';
+import { WEAR_PATTERN_INFO, TIRE_AGE_WARNING_MONTHS, WEAR_BAR_HEIGHT_32NDS } from './constants';
+import { formatThreshold, getJurisdictionRules, regionUnits } from './jurisdiction';
+import { depthToUnits, formatDepth, formatDepthLimit, formatDistance } from './units';
 
 /**
  * Generate an AI explanation for the tire analysis.
  * Uses OpenAI API if available, falls back to template-based explanation.
+ * Depths and distances are written in `units`; by default the scan's own,
+ * or else the units of its region's tire laws.
  */
 export async function generateExplanation(
     analysis: AnalysisResult,
-    weatherMode: WeatherMode = 'dry'
+    weatherMode: WeatherMode = 'dry',
+    units: UnitSystem = analysis.units ?? regionUnits(getJurisdictionRules(analysis.wearPrediction.jurisdiction))
 ): Promise<LLMExplanation> {
     const apiKey = process.env.OPENAI_API_KEY;
 
     if (!apiKey) {
-        return generateFallbackExplanation(analysis, weatherMode);
+        return generateFallbackExplanation(analysis, weatherMode, units);
     }
 
     try {
-        const prompt = buildPrompt(analysis, weatherMode);
+        const prompt = buildPrompt(analysis, weatherMode, units);
 
         const response = await fetch('https://api.openai.com/v1/chat/completions', {
             method: 'POST',
@@ -53,36 +59,54 @@ export async function generateExplanation(
         };
     } catch (error) {
         console.error('LLM generation failed, using fallback:', error);
-        return generateFallbackExplanation(analysis, weatherMode);
+        return generateFallbackExplanation(analysis, weatherMode, units);
     }
 }
 
 // ── Prompt Builder ───────────────────────────────────────────────────
 
-function buildPrompt(analysis: AnalysisResult, weatherMode: WeatherMode): string {
-    const { treadEstimate, wearPrediction, healthScore } = analysis;
+function buildPrompt(analysis: AnalysisResult, weatherMode: WeatherMode, units: UnitSystem): string {
+    const { treadEstimate, wearPrediction, healthScore, wearPattern, tireAge, wearBars } = analysis;
+    const wearBarLine = wearBars?.flush
+        ? `\n- Wear Bars: seen flush with the tread — the tire is worn to the ${formatDepthLimit(WEAR_BAR_HEIGHT_32NDS, units)} indicators and must be replaced now, whatever the other readings suggest`
+        : '';
+    const ageLine = tireAge
+        ? `\n- Tire Age: ${tireAge.ageMonths} months (DOT week ${tireAge.week}/${tireAge.year})${tireAge.overAgeLimit ? ` — OVER ${TIRE_AGE_WARNING_MONTHS / 12} YEARS, recommend replacement regardless of tread` : ''}`
+        : '';
+    const patternLine = wearPattern && wearPattern.pattern !== 'even'
+        ? `\n- Wear Pattern: ${WEAR_PATTERN_INFO[wearPattern.pattern].label} (${wearPattern.severity}); likely causes: ${likelyCauses(wearPattern).join('; ')}`
+        : '';
+    const rules = getJurisdictionRules(wearPrediction.jurisdiction);
+    const rulesLine = `\n- Tread Rules (${rules.name}): legal minimum ${formatThreshold(rules.legalMinimum32nds, rules, units)}${rules.winter ? `; ${rules.winter.description}` : ''}`;
+    const unitsNote = units === 'metric'
+        ? ' Give any depths in millimetres and distances in kilometres.'
+        : ' Give any depths in 32nds of an inch and distances in miles.';
 
     return `Analyze this tire condition:
-- Tread Depth: ${treadEstimate.depthRange32nds.min}-${treadEstimate.depthRange32nds.max}/32" (${treadEstimate.bucket} condition)
+- Tread Depth: ${depthToUnits(treadEstimate.depth32nds, units).toFixed(1)} ± ${formatDepth(treadEstimate.uncertainty32nds, units)} (${treadEstimate.bucket} condition)
+- Annual Driving: ${formatDistance(wearPrediction.milesPerYear, units)}
 - Health Score: ${healthScore.score}/100
 - Risk Level: ${healthScore.riskLevel}
 - Estimated Remaining Life: ~${wearPrediction.remainingMonths} months
 - Weather Context: ${weatherMode} conditions
-- Confidence: ${Math.round(treadEstimate.confidence * 100)}%
+- Confidence: ${Math.round(treadEstimate.confidence * 100)}%${wearBarLine}${ageLine}${patternLine}${rulesLine}
 
-Provide analysis considering ${weatherMode} driving conditions. Be helpful and calm.`;
+Provide analysis considering ${weatherMode} driving conditions. Be helpful and calm.${unitsNote}`;
 }
 
 // ── Fallback Template ────────────────────────────────────────────────
 
 function generateFallbackExplanation(
     analysis: AnalysisResult,
-    weatherMode: WeatherMode
+    weatherMode: WeatherMode,
+    units: UnitSystem
 ): LLMExplanation {
     const { treadEstimate, wearPrediction, healthScore } = analysis;
     const { bucket } = treadEstimate;
     const { score, riskLevel } = healthScore;
     const { remainingMonths } = wearPrediction;
+    const rules = getJurisdictionRules(wearPrediction.jurisdiction);
+    const legalMinimum = formatThreshold(rules.legalMinimum32nds, rules, units);
 
     const narratives: Record<string, string> = {
         NEW: `Your tires appear to be in excellent condition with substantial tread remaining. Based on our analysis, you have approximately ${remainingMonths} months of safe driving ahead. Continue with regular rotation and inspection schedules to maximize tire life.`,
@@ -111,11 +135,11 @@ function generateFallbackExplanation(
         LOW: [
             `Health score of ${score}/100 — replacement recommended soon`,
             'Stopping distance in wet conditions significantly increased',
-            `Estimated ${remainingMonths} months until legal minimum`,
+            `Estimated ${remainingMonths} months until the ${legalMinimum} legal minimum`,
         ],
         CRITICAL: [
             `Health score of ${score}/100 — immediate attention needed`,
-            'Tire is at or near legal minimum tread depth',
+            `Tire is at or near the ${legalMinimum} legal minimum tread depth`,
             'Hydroplaning risk is extremely high in wet conditions',
         ],
     };
@@ -128,10 +152,49 @@ function generateFallbackExplanation(
         CRITICAL: 'Book a tire replacement appointment immediately for your safety.',
     };
 
+    // Uneven wear points at a fixable cause — surface it ahead of the generic insights
+    const keyInsights = [...(insights[bucket] || insights.MODERATE)];
+    const { wearPattern } = analysis;
+    if (wearPattern && wearPattern.pattern !== 'even') {
+        const [cause] = likelyCauses(wearPattern);
+        keyInsights.unshift(
+            `${WEAR_PATTERN_INFO[wearPattern.pattern].label} detected (${wearPattern.severity})${cause ? ` — ${cause.toLowerCase()}` : ''}`
+        );
+    }
+
+    // Age-expired rubber needs replacing however much tread is left
+    const { tireAge } = analysis;
+    let recommendedAction = actions[bucket] || actions.MODERATE;
+    if (tireAge?.overAgeLimit) {
+        const years = Math.floor(tireAge.ageMonths / 12);
+        keyInsights.unshift(`Tire is ${years} years old — rubber ages out after ${TIRE_AGE_WARNING_MONTHS / 12} years regardless of tread`);
+        if (bucket !== 'LOW' && bucket !== 'CRITICAL') {
+            recommendedAction = 'Plan a replacement because of age, even if the tread still looks healthy.';
+        }
+    }
+
+    // A winter-tire law can bite before the year-round legal minimum does
+    const winterMinimum = rules.winter?.minimum32nds;
+    if (winterMinimum != null && treadEstimate.depth32nds < winterMinimum) {
+        keyInsights.unshift(`Below the ${formatThreshold(winterMinimum, rules, units)} winter-tire minimum in ${rules.name} — ${rules.winter!.description}`);
+    }
+
+    // Flush wear bars are the most direct evidence there is, so they lead
+    if (analysis.wearBars?.flush) {
+        keyInsights.unshift(`Wear bars are flush with the tread — the tire is worn down to the ${formatDepthLimit(WEAR_BAR_HEIGHT_32NDS, units)} indicators`);
+    }
+
     return {
         narrative: narratives[bucket] || narratives.MODERATE,
-        keyInsights: insights[bucket] || insights.MODERATE,
-        recommendedAction: actions[bucket] || actions.MODERATE,
+        keyInsights,
+        recommendedAction,
         disclaimer: 'This is an estimate based on photo analysis and assumptions. For precise measurement, visit a certified tire professional.',
     };
 }
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+// The scan's own causes, or the pattern's stock ones when it sent none
+function likelyCauses(wearPattern: WearPatternResult): string[] {
+    return wearPattern.likelyCauses.length > 0 ? wearPattern.likelyCauses : WEAR_PATTERN_INFO[wearPattern.pattern].causes;
+}
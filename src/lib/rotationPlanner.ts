@@ -0,0 +1,190 @@
+import type {
+    Drivetrain,
+    JurisdictionCode,
+    RoadPosition,
+    RotationEvent,
+    RotationPattern,
+    RotationPlan,
+    RotationSimulation,
+    WearCurve,
+    WearPrediction,
+} from '@/types';
+import { depthAfterMiles, milesAtDepth, rotationWearModifier, scaleWearCurve, tireAxle } from './wearModel';
+import {
+    AXLE_WEAR_BY_DRIVETRAIN,
+    DEFAULT_DRIVETRAIN,
+    DEFAULT_JURISDICTION,
+    LEFT_HAND_TRAFFIC,
+    DEFAULT_ROTATION_INTERVAL_MILES,
+    LEGAL_MINIMUM_DEPTH,
+    RECOMMENDED_ROTATION_PATTERN,
+    ROTATION_PATTERNS,
+    ROTATION_PLAN_MAX_MILES,
+    SIDE_WEAR_FACTOR,
+} from './constants';
+
+/**
+ * Rotation planner: simulates each standard pattern from today's per-tire
+ * depths and recommends the one that keeps all four tires above the legal
+ * minimum longest. A tire keeps its own wear curve as it moves; the
+ * position it sits in sets how fast it follows that curve (axle for the
+ * drivetrain, plus a small curb-side penalty on whichever side the
+ * jurisdiction drives on).
+ */
+
+export interface RotationTire {
+    depth32nds: number;
+    wearCurve: WearCurve; // the tire's rotated-average curve; see `rotationTireFromPrediction`
+}
+
+export interface RotationPlanOptions {
+    milesPerYear: number;
+    drivetrain?: Drivetrain;
+    intervalMiles?: number;
+    jurisdiction?: JurisdictionCode; // which side the curb is on
+}
+
+const ROAD_POSITIONS: RoadPosition[] = ['FL', 'FR', 'RL', 'RR'];
+
+const MS_PER_MONTH = 365.25 / 12 * 24 * 60 * 60 * 1000;
+
+// Patterns within this many miles of the best count as a tie
+const TIE_MILES = 500;
+
+/**
+ * A tire for the planner from its wear prediction. A prediction for
+ * unrotated tires already wears at its axle's rate, so that is divided back
+ * out; the planner applies each position's rate itself.
+ */
+export function rotationTireFromPrediction(prediction: WearPrediction): RotationTire {
+    const { currentDepth32nds, wearCurve, wearRateSource, rotation, position, drivetrain } = prediction;
+    // A fitted rate was observed rather than built from modifiers
+    const modifier = wearRateSource === 'fitted' ? 1 : rotationWearModifier(rotation, position, drivetrain);
+    return { depth32nds: currentDepth32nds, wearCurve: scaleWearCurve(wearCurve, 1 / modifier) };
+}
+
+/**
+ * Simulate one pattern (null = never rotate) until the first tire reaches
+ * LEGAL_MINIMUM_DEPTH or the planning horizon.
+ */
+export function simulateRotation(
+    tires: Record<RoadPosition, RotationTire>,
+    pattern: RotationPattern | null,
+    options: RotationPlanOptions,
+    now: Date = new Date()
+): RotationSimulation {
+    const {
+        milesPerYear,
+        drivetrain = DEFAULT_DRIVETRAIN,
+        intervalMiles = DEFAULT_ROTATION_INTERVAL_MILES,
+        jurisdiction = DEFAULT_JURISDICTION,
+    } = options;
+    const stint = pattern ? intervalMiles : ROTATION_PLAN_MAX_MILES;
+
+    // Tires are identified by today's position; `at` says where each one is now
+    let at: Record<RoadPosition, RoadPosition> = { FL: 'FL', FR: 'FR', RL: 'RL', RR: 'RR' };
+    const depths = Object.fromEntries(ROAD_POSITIONS.map(p => [p, tires[p].depth32nds])) as Record<RoadPosition, number>;
+    const rotations: RotationEvent[] = [];
+    let miles = 0;
+    let firstWornTire: RoadPosition | null = null;
+
+    while (miles < ROTATION_PLAN_MAX_MILES) {
+        const leg = Math.min(stint, ROTATION_PLAN_MAX_MILES - miles);
+
+        // Does any tire reach the limit before the next rotation?
+        let wornAfter = Infinity;
+        for (const position of ROAD_POSITIONS) {
+            const tire = at[position];
+            const curve = positionCurve(tires[tire].wearCurve, position, drivetrain, jurisdiction);
+            const remaining = depths[tire] <= LEGAL_MINIMUM_DEPTH
+                ? 0
+                : milesAtDepth(curve, LEGAL_MINIMUM_DEPTH) - milesAtDepth(curve, depths[tire]);
+            if (remaining < wornAfter) {
+                wornAfter = remaining;
+                if (remaining <= leg) firstWornTire = tire;
+            }
+        }
+
+        const driven = Math.min(leg, wornAfter);
+        for (const position of ROAD_POSITIONS) {
+            const tire = at[position];
+            const curve = positionCurve(tires[tire].wearCurve, position, drivetrain, jurisdiction);
+            depths[tire] = depthAfterMiles(curve, depths[tire], driven);
+        }
+        miles += driven;
+        if (firstWornTire || !pattern || miles >= ROTATION_PLAN_MAX_MILES) break;
+
+        const { moves } = ROTATION_PATTERNS[pattern];
+        const next = { ...at };
+        for (const position of ROAD_POSITIONS) {
+            next[moves[position]] = at[position];
+        }
+        at = next;
+        rotations.push({ number: rotations.length + 1, milesFromNow: miles, date: dateAfterMiles(now, miles, milesPerYear) });
+    }
+
+    const monthsToLegalMinimum = milesPerYear > 0 ? miles / (milesPerYear / 12) : Infinity;
+    return {
+        pattern,
+        milesToLegalMinimum: Math.round(miles),
+        monthsToLegalMinimum,
+        legalMinimumDate: dateAfterMiles(now, miles, milesPerYear),
+        firstWornTire,
+        rotations,
+        finalDepths: Object.fromEntries(
+            ROAD_POSITIONS.map(p => [p, Math.round(depths[p] * 10) / 10])
+        ) as Record<RoadPosition, number>,
+    };
+}
+
+/**
+ * Simulate every pattern and recommend the one that lasts longest. Near
+ * ties go to the usual pattern for the drivetrain.
+ */
+export function planRotations(
+    tires: Record<RoadPosition, RotationTire>,
+    options: RotationPlanOptions,
+    now: Date = new Date()
+): RotationPlan {
+    const drivetrain = options.drivetrain ?? DEFAULT_DRIVETRAIN;
+    const intervalMiles = options.intervalMiles ?? DEFAULT_ROTATION_INTERVAL_MILES;
+    const preferred = RECOMMENDED_ROTATION_PATTERN[drivetrain];
+
+    const simulations = (Object.keys(ROTATION_PATTERNS) as RotationPattern[])
+        .map(pattern => simulateRotation(tires, pattern, { ...options, drivetrain, intervalMiles }, now))
+        .sort((a, b) => {
+            const difference = b.milesToLegalMinimum - a.milesToLegalMinimum;
+            if (Math.abs(difference) > TIE_MILES) return difference;
+            return Number(b.pattern === preferred) - Number(a.pattern === preferred) || difference;
+        });
+    const noRotation = simulateRotation(tires, null, { ...options, drivetrain, intervalMiles }, now);
+    const [recommended] = simulations;
+
+    return {
+        drivetrain,
+        intervalMiles,
+        recommended,
+        simulations,
+        noRotation,
+        gainMonths: Math.round(recommended.monthsToLegalMinimum - noRotation.monthsToLegalMinimum),
+    };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function positionCurve(
+    curve: WearCurve,
+    position: RoadPosition,
+    drivetrain: Drivetrain,
+    jurisdiction: JurisdictionCode
+): WearCurve {
+    const axle = tireAxle(position)!;
+    const curbSide = LEFT_HAND_TRAFFIC.includes(jurisdiction) ? 'L' : 'R';
+    const side = position.endsWith(curbSide) ? 'curb' : 'road';
+    return scaleWearCurve(curve, AXLE_WEAR_BY_DRIVETRAIN[drivetrain][axle] * SIDE_WEAR_FACTOR[side]);
+}
+
+function dateAfterMiles(now: Date, miles: number, milesPerYear: number): Date {
+    if (milesPerYear <= 0) return new Date(now.getTime() + 120 * MS_PER_MONTH);
+    return new Date(now.getTime() + (miles / (milesPerYear / 12)) * MS_PER_MONTH);
+}
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { FleetVehicle, ScanRecord, TirePosition } from '@/types';
+import { sortScanHistory } from './wearHistory';
+
+/**
+ * Local JSON-file store for scan history and fleet vehicles (server-side only).
+ *
+ * Scans live in `<data dir>/scans.json` and vehicles in `vehicles.json`,
+ * where the data dir defaults to `.treadsight/` in the working directory and
+ * can be moved with TREADSIGHT_DATA_DIR. Fine for a single instance; not a
+ * database. Updates within the process are queued one at a time so that
+ * concurrent requests don't overwrite each other's records.
+ */
+
+const SCANS_FILE = 'scans.json';
+const VEHICLES_FILE = 'vehicles.json';
+
+export function getDataDir(): string {
+    return process.env.TREADSIGHT_DATA_DIR || path.join(process.cwd(), '.treadsight');
+}
+
+/**
+ * Scan history for one tire, oldest first.
+ */
+export async function loadScanHistory(
+    vehicleId: string,
+    position: TirePosition
+): Promise<ScanRecord[]> {
+    const all = await readScans();
+    return sortScanHistory(all.filter(r => r.vehicleId === vehicleId && r.position === position));
+}
+
+/**
+ * All scans for a vehicle (every position), oldest first.
+ */
+export async function loadVehicleScans(vehicleId: string): Promise<ScanRecord[]> {
+    const all = await readScans();
+    return sortScanHistory(all.filter(r => r.vehicleId === vehicleId));
+}
+
+/**
+ * Every saved scan, oldest first.
+ */
+export async function loadAllScans(): Promise<ScanRecord[]> {
+    return sortScanHistory(await readScans());
+}
+
+export function saveScan(record: ScanRecord): Promise<void> {
+    return serialized(async () => {
+        const all = await readScans();
+        all.push(record);
+        await writeJson(SCANS_FILE, all);
+    });
+}
+
+// ── Fleet Vehicles ──────────────────────────────────────────────────
+
+export async function loadVehicles(): Promise<FleetVehicle[]> {
+    return readJson<FleetVehicle>(VEHICLES_FILE);
+}
+
+/**
+ * Add a vehicle, or replace the one with the same id.
+ */
+export function saveVehicle(vehicle: FleetVehicle): Promise<void> {
+    return serialized(async () => {
+        const all = (await loadVehicles()).filter(v => v.id !== vehicle.id);
+        all.push(vehicle);
+        await writeJson(VEHICLES_FILE, all);
+    });
+}
+
+/**
+ * Remove a vehicle's fleet entry. Its scans are kept.
+ * @returns false if there was no such vehicle
+ */
+export function deleteVehicle(id: string): Promise<boolean> {
+    return serialized(async () => {
+        const all = await loadVehicles();
+        const rest = all.filter(v => v.id !== id);
+        if (rest.length === all.length) return false;
+        await writeJson(VEHICLES_FILE, rest);
+        return true;
+    });
+}
+
+// ── File I/O ─────────────────────────────────────────────────────────
+
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write once every update queued before it has finished,
+ * whether or not they succeeded.
+ */
+function serialized<T>(update: () => Promise<T>): Promise<T> {
+    const result = updateQueue.then(update, update);
+    updateQueue = result.catch(() => undefined);
+    return result;
+}
+
+function readScans(): Promise<ScanRecord[]> {
+    return readJson<ScanRecord>(SCANS_FILE);
+}
+
+async function readJson<T>(file: string): Promise<T[]> {
+    try {
+        const raw = await fs.readFile(path.join(getDataDir(), file), 'utf8');
+        return JSON.parse(raw) as T[];
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+}
+
+async function writeJson<T>(file: string, records: T[]): Promise<void> {
+    const dir = getDataDir();
+    await fs.mkdir(dir, { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written file
+    const target = path.join(dir, file);
+    const tmp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(records, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+}
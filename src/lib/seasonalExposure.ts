@@ -0,0 +1,182 @@
+import type {
+    ClimateNormals,
+    JurisdictionRules,
+    MonthlyWeather,
+    RiskLevel,
+    SeasonalExposure,
+    SeasonalExposureMonth,
+    UnitSystem,
+    WearPrediction,
+    WeatherMode,
+} from '@/types';
+import { depthAfterMiles, monthsUntil } from './wearModel';
+import { getRiskLevelFromScore, scoreFromDepth } from './healthScore';
+import { calculateWeatherRisk } from './weatherRisk';
+import { formatThreshold, getJurisdictionRules, isWinterRulePeriod, weatherThresholds } from './jurisdiction';
+import { SEASONAL_EXPOSURE } from './constants';
+
+/**
+ * Seasonal exposure: when will the tire be thin during the months that
+ * test it? Monthly rain and snow chances come from the region's climate
+ * normals; the depth at the start of each month comes from the wear
+ * prediction's curve, and thresholds follow its jurisdiction. Every
+ * supported region is in the northern hemisphere, so January is the
+ * coldest month.
+ */
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const CONDITION_NAMES: Record<WeatherMode, string> = { dry: 'dry roads', wet: 'wet roads', snow: 'snow' };
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const RISK_ORDER: RiskLevel[] = ['Safe', 'Monitor', 'Plan Soon', 'Replace Now'];
+
+/**
+ * Typical weather for each calendar month (index 0 = January). Temperature
+ * follows a sine between the January and July means; snow days go to the
+ * months below the snowline, in proportion to how cold they are; rain days
+ * are spread evenly, leaning toward the wet season when there is one.
+ */
+export function monthlyWeather(normals: ClimateNormals): MonthlyWeather[] {
+    const { snowlineC, minSnowSpreadC, precipPeakAmplitude } = SEASONAL_EXPOSURE;
+    const temps = MONTH_NAMES.map((_, month) =>
+        normals.meanTempC - (normals.seasonalRangeC / 2) * Math.cos((2 * Math.PI * month) / 12)
+    );
+
+    // In mild climates no month is below the snowline, but the few snow days still fall in the coldest ones
+    const snowBelow = Math.max(snowlineC, Math.min(...temps) + minSnowSpreadC);
+    const snowWeights = temps.map(temp => Math.max(0, snowBelow - temp));
+    const snowWeightTotal = snowWeights.reduce((sum, w) => sum + w, 0);
+
+    const peak = normals.precipPeak === 'winter' ? 1 : normals.precipPeak === 'summer' ? -1 : 0;
+
+    return temps.map((meanTempC, month) => {
+        const precipDays = (normals.precipDays / 12) *
+            (1 + peak * precipPeakAmplitude * Math.cos((2 * Math.PI * month) / 12));
+        const snowDays = snowWeightTotal > 0 ? normals.snowDays * snowWeights[month] / snowWeightTotal : 0;
+        return {
+            month,
+            meanTempC: round1(meanTempC),
+            precipProbability: round2(Math.min(1, precipDays / DAYS_PER_MONTH)),
+            snowProbability: round2(Math.min(1, snowDays / DAYS_PER_MONTH)),
+        };
+    });
+}
+
+/**
+ * Month-by-month risk for the next `SEASONAL_EXPOSURE.months` months. Each
+ * month is judged in the harshest weather it regularly sees: snow in snowy
+ * months, rain in wet ones, dry otherwise.
+ */
+export function seasonalExposure(
+    prediction: WearPrediction,
+    normals: ClimateNormals,
+    now: Date = new Date(),
+    units?: UnitSystem
+): SeasonalExposure {
+    const { wearCurve, currentDepth32nds, milesPerYear, jurisdiction } = prediction;
+    const rules = getJurisdictionRules(jurisdiction);
+    const weather = monthlyWeather(normals);
+
+    const months: SeasonalExposureMonth[] = [];
+    for (let i = 0; i < SEASONAL_EXPOSURE.months; i++) {
+        const date = i === 0 ? new Date(now) : new Date(now.getFullYear(), now.getMonth() + i, 1);
+        const miles = Math.max(0, monthsUntil(date, now)) * (milesPerYear / 12);
+        const depth32nds = round1(depthAfterMiles(wearCurve, currentDepth32nds, miles));
+        const typical = weather[date.getMonth()];
+        months.push({ ...typical, date, depth32nds, ...monthRisk(depth32nds, typical, rules, units) });
+    }
+
+    const winterEntry = months.find(month => isSnowMonth(month) && !isSnowMonth(weather[(month.month + 11) % 12])) ?? null;
+    return { months, winterEntry, highlights: highlights(months, winterEntry, rules, units) };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function monthRisk(
+    depth32nds: number,
+    weather: MonthlyWeather,
+    rules: JurisdictionRules,
+    units?: UnitSystem
+): Pick<SeasonalExposureMonth, 'condition' | 'riskLevel' | 'description'> {
+    const baseRisk = getRiskLevelFromScore(scoreFromDepth(depth32nds));
+    const conditions: WeatherMode[] = ['dry'];
+    if (weather.precipProbability >= SEASONAL_EXPOSURE.wetMonthProbability) conditions.push('wet');
+    if (isSnowMonth(weather)) conditions.push('snow');
+
+    // Later conditions are harsher, so they win ties
+    let worst = { condition: 'dry' as WeatherMode, ...calculateWeatherRisk(depth32nds, baseRisk, 'dry', rules.code, units) };
+    for (const condition of conditions.slice(1)) {
+        const risk = calculateWeatherRisk(depth32nds, baseRisk, condition, rules.code, units);
+        if (RISK_ORDER.indexOf(risk.adjustedRiskLevel) >= RISK_ORDER.indexOf(worst.adjustedRiskLevel)) {
+            worst = { condition, ...risk };
+        }
+    }
+    return { condition: worst.condition, riskLevel: worst.adjustedRiskLevel, description: worst.description };
+}
+
+function isSnowMonth(weather: MonthlyWeather): boolean {
+    return weather.snowProbability >= SEASONAL_EXPOSURE.snowMonthProbability;
+}
+
+function highlights(
+    months: SeasonalExposureMonth[],
+    winterEntry: SeasonalExposureMonth | null,
+    rules: JurisdictionRules,
+    units?: UnitSystem
+): string[] {
+    const notes: string[] = [];
+    const { snow, wet } = weatherThresholds(rules);
+    const format = (depth32nds: number) => formatThreshold(depth32nds, rules, units);
+
+    if (winterEntry) {
+        const depth = format(winterEntry.depth32nds);
+        const name = MONTH_NAMES[winterEntry.month];
+        if (winterEntry.depth32nds <= snow.critical) {
+            notes.push(`You'll enter winter (${name}) at ${depth} — at or below the ${format(snow.critical)} snow safety limit.`);
+        } else if (winterEntry.depth32nds <= snow.warning) {
+            notes.push(`You'll enter winter (${name}) at ${depth} — below the ${format(snow.warning)} snow warning threshold.`);
+        } else {
+            notes.push(`You'll enter winter (${name}) at ${depth} — enough tread for snow.`);
+        }
+    }
+
+    const firstWetRisk = months.find(month =>
+        month.precipProbability >= SEASONAL_EXPOSURE.wetMonthProbability && month.depth32nds <= wet.warning
+    );
+    if (firstWetRisk) {
+        const rainDays = Math.round(firstWetRisk.precipProbability * DAYS_PER_MONTH);
+        notes.push(firstWetRisk === months[0]
+            ? `Your tread is already at or below ${format(wet.warning)} for wet roads, with rain on about ${rainDays} days this month.`
+            : `From ${MONTH_NAMES[firstWetRisk.month]} your tread is at or below ${format(wet.warning)} for wet roads, with rain on about ${rainDays} days that month.`);
+    }
+
+    // Winter-tire laws with their own minimum
+    const winterMinimum = rules.winter?.minimum32nds;
+    const belowWinterMinimum = winterMinimum != null
+        ? months.find(month => isWinterRulePeriod(rules, month.date) && month.depth32nds < winterMinimum)
+        : undefined;
+    if (belowWinterMinimum) {
+        notes.push(`By ${MONTH_NAMES[belowWinterMinimum.month]} your tread is below the ${format(winterMinimum!)} winter-tire minimum in ${rules.name}.`);
+    }
+
+    const firstCritical = months.find(month => month.riskLevel === 'Replace Now');
+    if (firstCritical && firstCritical !== months[0]) {
+        const reason = firstCritical.condition === 'dry' ? '' : ` for ${CONDITION_NAMES[firstCritical.condition]}`;
+        notes.push(`By ${MONTH_NAMES[firstCritical.month]} the tread needs replacing${reason}.`);
+    }
+
+    return notes;
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
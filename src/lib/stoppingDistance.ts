@@ -0,0 +1,83 @@
+import type { StoppingEstimate, TireCategory, WeatherMode } from '@/types';
+import {
+    CATEGORY_GRIP,
+    DEFAULT_TIRE_CATEGORY,
+    ROAD_FRICTION,
+    STOPPING_DISTANCE,
+} from './constants';
+
+/**
+ * Braking distance and hydroplaning onset for a tread depth.
+ *
+ * Braking follows d = v² / (2μg). Friction μ depends on the road: dry grip
+ * barely changes as the tread wears, but wet and snowy grip fall from their
+ * new-tire value toward a bald-tire floor. Wet grip also drops with speed.
+ * Hydroplaning onset starts from NASA's smooth-tire rule (≈ 10.35·√psi mph)
+ * and rises with tread depth, since the grooves carry water away.
+ */
+
+const FT_PER_S_PER_MPH = 5280 / 3600;
+
+export function estimateStopping(
+    depth32nds: number,
+    weatherMode: WeatherMode,
+    speedMph: number,
+    tireCategory: TireCategory = DEFAULT_TIRE_CATEGORY
+): StoppingEstimate {
+    const { reactionTimeS, gravityFtPerS2 } = STOPPING_DISTANCE;
+    const depth = Math.max(0, depth32nds);
+    const speed = Math.max(0, speedMph);
+    const friction = roadFriction(depth, weatherMode, speed, tireCategory);
+
+    const speedFtPerS = speed * FT_PER_S_PER_MPH;
+    const reactionDistanceFt = Math.round(speedFtPerS * reactionTimeS);
+    const brakingDistanceFt = Math.round((speedFtPerS * speedFtPerS) / (2 * friction * gravityFtPerS2));
+    const hydroplaningSpeedMph = weatherMode === 'dry' ? null : hydroplaningOnsetMph(depth);
+
+    return {
+        speedMph: speed,
+        weatherMode,
+        depth32nds: depth,
+        friction: Math.round(friction * 1000) / 1000,
+        reactionDistanceFt,
+        brakingDistanceFt,
+        stoppingDistanceFt: reactionDistanceFt + brakingDistanceFt,
+        hydroplaningSpeedMph,
+        hydroplaningRisk: hydroplaningSpeedMph != null && speed >= hydroplaningSpeedMph,
+    };
+}
+
+/**
+ * Speed (mph) above which the tire can aquaplane in standing water.
+ */
+export function hydroplaningOnsetMph(depth32nds: number): number {
+    const {
+        tirePressurePsi,
+        hydroplaningCoefficient,
+        hydroplaningTreadBase,
+        hydroplaningTreadPer32nd,
+        hydroplaningTreadMax,
+    } = STOPPING_DISTANCE;
+    const treadFactor = Math.min(
+        hydroplaningTreadMax,
+        hydroplaningTreadBase + hydroplaningTreadPer32nd * Math.max(0, depth32nds)
+    );
+    return Math.round(hydroplaningCoefficient * Math.sqrt(tirePressurePsi) * treadFactor);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function roadFriction(depth32nds: number, weatherMode: WeatherMode, speedMph: number, tireCategory: TireCategory): number {
+    const { referenceDepth32nds, depthScale32nds, wetSpeedLossPerMph, wetSpeedLossFromMph } = STOPPING_DISTANCE;
+    const road = ROAD_FRICTION[weatherMode];
+
+    // 0 when bald, 1 at the reference depth and above
+    const depth = Math.min(depth32nds, referenceDepth32nds);
+    const treadShare = (1 - Math.exp(-depth / depthScale32nds)) / (1 - Math.exp(-referenceDepth32nds / depthScale32nds));
+
+    let friction = road.worn + (road.new - road.worn) * treadShare;
+    if (weatherMode === 'wet') {
+        friction *= 1 - wetSpeedLossPerMph * Math.max(0, speedMph - wetSpeedLossFromMph);
+    }
+    return friction * CATEGORY_GRIP[tireCategory][weatherMode];
+}
@@ -0,0 +1,220 @@
+import type {
+    AnalysisResult,
+    DatePercentiles,
+    ScanRecord,
+    TireScanInput,
+    TreadEstimate,
+    UnitSystem,
+    VehicleProfile,
+    WearPrediction,
+    WearPredictionInput,
+} from '@/types';
+import { predictWearTimeline } from './wearModel';
+import { computeHealthScore } from './healthScore';
+import { fitWearRate } from './wearHistory';
+import { parseDotCode, tireAgeFromDotCode } from './dotCode';
+import { bucketForDepth, depthInterval } from './treadEstimator';
+import { DEFAULT_ESTIMATOR } from './estimatorRegistry';
+import { resolveTireProfile } from './tireProfile';
+import { displayMeasurements } from './units';
+import { detectWearBars } from './wearBars';
+import { MAX_CALIBRATED_DEPTH, MAX_TREAD_DEPTH, WEAR_BAR_HEIGHT_32NDS } from './constants';
+
+/**
+ * Turn one tire's tread estimate into a full analysis: wear prediction,
+ * health score and age. Pure — persistence of scan history is the caller's
+ * job — so the API routes and the CLI share it.
+ */
+
+export interface AnalysisContext {
+    milesPerYear: number;
+    climate: WearPredictionInput['climate'];
+    climateNormals?: WearPredictionInput['climateNormals'];
+    jurisdiction?: WearPredictionInput['jurisdiction'];
+    vehicleProfile?: VehicleProfile;
+    units?: UnitSystem; // display units; the analysis itself is in 32nds and miles
+}
+
+/**
+ * The scan's tire profile, with the older top-level `tireCategory` and
+ * `treadwear` fields filling its gaps.
+ */
+export function scanTireProfile(scan: TireScanInput) {
+    const profile = scan.tireProfile ?? {};
+    return resolveTireProfile({
+        ...profile,
+        category: profile.category ?? scan.tireCategory,
+        treadwear: profile.treadwear ?? scan.treadwear,
+    });
+}
+
+/**
+ * The depth a scan should be analyzed at. Prefers the continuous estimate;
+ * older clients only send a bucket + range.
+ *
+ * Uncalibrated estimates read tread relative to a new tire, on a 0 to
+ * MAX_TREAD_DEPTH scale, so they are rescaled to the tire's own new depth
+ * (an 11/32" LT tire reads 11/32" when new). Calibrated depths are absolute.
+ *
+ * Wear bars seen flush with the tread override all of that: the tire is at
+ * the 2/32" bar height at most, and CRITICAL.
+ */
+export function resolveScanDepth(scan: TireScanInput) {
+    const scale = scan.calibration ? 1 : scanTireProfile(scan).newTreadDepth32nds / MAX_TREAD_DEPTH;
+    const rescale = (value: number) => scale === 1 ? value : Math.round(value * scale * 10) / 10;
+
+    const depth32nds = rescale(scan.depth32nds ?? (scan.depthRange.min + scan.depthRange.max) / 2);
+    const uncertainty32nds = rescale(scan.uncertainty32nds ?? (scan.depthRange.max - scan.depthRange.min) / 2);
+    const bucket = scan.depth32nds != null ? bucketForDepth(depth32nds) : scan.bucket;
+    const depthRange = scan.depth32nds != null
+        ? depthInterval(depth32nds, uncertainty32nds, scan.calibration ? MAX_CALIBRATED_DEPTH : rescale(MAX_TREAD_DEPTH))
+        : { min: rescale(scan.depthRange.min), max: rescale(scan.depthRange.max) };
+
+    if (scanWearBars(scan)?.flush) {
+        const capped = Math.min(depth32nds, WEAR_BAR_HEIGHT_32NDS);
+        return {
+            depth32nds: capped,
+            uncertainty32nds,
+            bucket: 'CRITICAL' as const,
+            depthRange: depthInterval(capped, uncertainty32nds, WEAR_BAR_HEIGHT_32NDS),
+        };
+    }
+    return { depth32nds, uncertainty32nds, bucket, depthRange };
+}
+
+/**
+ * The scan's wear-bar verdict; older clients only send the groove profile.
+ */
+function scanWearBars(scan: TireScanInput) {
+    return scan.wearBars ?? (scan.grooveProfile ? detectWearBars(scan.grooveProfile) : undefined);
+}
+
+/**
+ * @param history  This tire's scans, oldest first and including this one;
+ *                 used to fit the wear rate once there is enough of it.
+ */
+export function buildAnalysis(
+    scan: TireScanInput,
+    context: AnalysisContext,
+    history?: ScanRecord[]
+): AnalysisResult {
+    const { confidence, imageQuality, estimator = DEFAULT_ESTIMATOR, wearPattern } = scan;
+    const { milesPerYear, climate, climateNormals, jurisdiction, vehicleProfile, units } = context;
+    const { depth32nds: depth, uncertainty32nds: uncertainty, bucket, depthRange } = resolveScanDepth(scan);
+    const tireProfile = scanTireProfile(scan);
+    const wearBars = scanWearBars(scan);
+
+    const fit = history ? fitWearRate(history) : null;
+
+    const dateCode = scan.dotCode ? parseDotCode(scan.dotCode) : null;
+    const tireAge = dateCode ? tireAgeFromDotCode(dateCode, scan.dotCodeSource ?? 'manual') : undefined;
+
+    // Run wear prediction
+    const wearInput: WearPredictionInput = {
+        depthRange,
+        currentDepth32nds: depth,
+        depthUncertainty32nds: uncertainty,
+        milesPerYear,
+        climate,
+        climateNormals,
+        rotation: 'normal',
+        drivingStyle: 'normal',
+        fittedWearRatePer1000Miles: fit?.ratePer1000Miles,
+        tireCategory: tireProfile.tireCategory,
+        treadwear: tireProfile.treadwear,
+        newTreadDepth32nds: tireProfile.newTreadDepth32nds,
+        curbWeightLb: vehicleProfile?.curbWeightLb,
+        position: scan.position,
+        drivetrain: vehicleProfile?.drivetrain,
+        jurisdiction,
+    };
+
+    const wearPrediction = predictWearTimeline(wearInput);
+
+    // Compute health score
+    const healthScore = computeHealthScore(
+        wearPrediction.currentDepth32nds,
+        bucket,
+        tireAge?.ageMonths,
+        wearPattern?.evenWear ?? true
+    );
+
+    const treadEstimate: TreadEstimate = {
+        bucket,
+        depth32nds: depth,
+        uncertainty32nds: uncertainty,
+        depthRange32nds: depthRange,
+        confidence,
+        calibration: scan.calibration,
+    };
+
+    return {
+        treadEstimate,
+        wearPrediction,
+        healthScore,
+        imageQuality,
+        estimator,
+        wearPattern,
+        tireAge,
+        history,
+        units,
+        frameFusion: scan.frameFusion,
+        treadRegion: scan.treadRegion,
+        grooveProfile: scan.grooveProfile,
+        wearBars,
+    };
+}
+
+/**
+ * JSON-safe copy of an analysis (dates as ISO strings), with its headline
+ * numbers in the display units it was requested in.
+ */
+export function serializeAnalysis(analysis: AnalysisResult) {
+    return {
+        ...analysis,
+        wearPrediction: serializeWearPrediction(analysis.wearPrediction),
+        measurements: analysis.units ? displayMeasurements(analysis, analysis.units) : undefined,
+    };
+}
+
+export function serializeWearPrediction(wearPrediction: WearPrediction) {
+    const { dateDistribution } = wearPrediction;
+    return {
+        ...wearPrediction,
+        wetTractionDropDate: wearPrediction.wetTractionDropDate.toISOString(),
+        legalMinimumDate: wearPrediction.legalMinimumDate.toISOString(),
+        tireDeadDate: wearPrediction.tireDeadDate.toISOString(),
+        winterMinimumDate: wearPrediction.winterMinimumDate?.toISOString(),
+        dateDistribution: {
+            ...dateDistribution,
+            wetTractionDrop: serializePercentiles(dateDistribution.wetTractionDrop),
+            legalMinimum: serializePercentiles(dateDistribution.legalMinimum),
+            tireDead: serializePercentiles(dateDistribution.tireDead),
+        },
+    };
+}
+
+/**
+ * Restore the Date fields of a wear prediction parsed from JSON (in place).
+ */
+export function reviveWearPrediction(parsed: WearPrediction): WearPrediction {
+    parsed.wetTractionDropDate = new Date(parsed.wetTractionDropDate);
+    parsed.legalMinimumDate = new Date(parsed.legalMinimumDate);
+    parsed.tireDeadDate = new Date(parsed.tireDeadDate);
+    if (parsed.winterMinimumDate) parsed.winterMinimumDate = new Date(parsed.winterMinimumDate);
+    const { dateDistribution } = parsed;
+    if (dateDistribution) {
+        dateDistribution.wetTractionDrop = revivePercentiles(dateDistribution.wetTractionDrop);
+        dateDistribution.legalMinimum = revivePercentiles(dateDistribution.legalMinimum);
+        dateDistribution.tireDead = revivePercentiles(dateDistribution.tireDead);
+    }
+    return parsed;
+}
+
+function serializePercentiles({ p10, p50, p90 }: DatePercentiles) {
+    return { p10: p10.toISOString(), p50: p50.toISOString(), p90: p90.toISOString() };
+}
+
+function revivePercentiles({ p10, p50, p90 }: DatePercentiles): DatePercentiles {
+    return { p10: new Date(p10), p50: new Date(p50), p90: new Date(p90) };
+}
@@ -0,0 +1,179 @@
+import type { TireCategory, TireProfile, TireSize, VehicleProfile } from '@/types';
+import {
+    TIRE_CATEGORIES,
+    DEFAULT_TIRE_CATEGORY,
+    UTQG_TREADWEAR_RANGE,
+    UTQG_TRACTION_GRADES,
+    UTQG_TEMPERATURE_GRADES,
+    TIRE_NEW_DEPTH_RANGE,
+    CURB_WEIGHT_RANGE_LB,
+    MIN_MODEL_YEAR,
+    DRIVETRAINS,
+} from './constants';
+
+/**
+ * Tire and vehicle profiles: sidewall size parsing, validation, and the
+ * wear-model inputs a profile implies (category, new tread depth).
+ */
+
+const MM_PER_INCH = 25.4;
+
+// P225/45R17 94W, 225/45ZR17, LT245/75R16 120/116S, 245/75R16LT
+const METRIC_SIZE = /^(P|LT|ST|T)?(\d{3})\/(\d{2,3})(Z?)([RDB-])(\d{2}(?:\.\d)?)(LT)?(?:(\d{2,3})(?:\/\d{2,3})?([A-Z]))?$/;
+// 31x10.50R15LT 109Q
+const FLOTATION_SIZE = /^(\d{2}(?:\.\d{1,2})?)X(\d{1,2}(?:\.\d{1,2})?)([RDB-])(\d{2}(?:\.\d)?)(LT)?(?:(\d{2,3})(?:\/\d{2,3})?([A-Z]))?$/;
+
+/**
+ * Parse a sidewall size. Spacing and case don't matter. Returns null when
+ * the text isn't a size this understands.
+ */
+export function parseTireSize(text: string): TireSize | null {
+    const compact = text.toUpperCase().replace(/\s+/g, '');
+
+    const metric = METRIC_SIZE.exec(compact);
+    if (metric) {
+        const [, prefix, width, aspect, zr, construction, rim, ltSuffix, load, speed] = metric;
+        const widthMm = parseInt(width, 10);
+        const aspectRatio = parseInt(aspect, 10);
+        const rimDiameterIn = parseFloat(rim);
+        const service = (prefix ?? null) as TireSize['service'];
+        return {
+            text: `${prefix ?? ''}${width}/${aspect}${zr}${construction === '-' ? 'D' : construction}${rim}${ltSuffix ?? ''}${serviceText(load, speed)}`,
+            service,
+            widthMm,
+            aspectRatio,
+            construction: construction === '-' ? 'D' : construction as TireSize['construction'],
+            rimDiameterIn,
+            overallDiameterIn: round1(rimDiameterIn + 2 * (widthMm * aspectRatio / 100) / MM_PER_INCH),
+            loadIndex: load ? parseInt(load, 10) : undefined,
+            speedRating: speed ?? (zr ? 'Z' : undefined),
+            lightTruck: service === 'LT' || ltSuffix != null,
+        };
+    }
+
+    const flotation = FLOTATION_SIZE.exec(compact);
+    if (flotation) {
+        const [, diameter, width, construction, rim, ltSuffix, load, speed] = flotation;
+        const overallDiameterIn = parseFloat(diameter);
+        const widthIn = parseFloat(width);
+        const rimDiameterIn = parseFloat(rim);
+        if (overallDiameterIn <= rimDiameterIn) return null;
+        return {
+            text: `${diameter}x${width}${construction === '-' ? 'D' : construction}${rim}${ltSuffix ?? ''}${serviceText(load, speed)}`,
+            service: 'LT',
+            widthMm: Math.round(widthIn * MM_PER_INCH),
+            aspectRatio: Math.round((overallDiameterIn - rimDiameterIn) / 2 / widthIn * 100),
+            construction: construction === '-' ? 'D' : construction as TireSize['construction'],
+            rimDiameterIn,
+            overallDiameterIn,
+            loadIndex: load ? parseInt(load, 10) : undefined,
+            speedRating: speed,
+            lightTruck: true,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * The wear-model inputs a profile implies. With no season type, an LT or
+ * flotation size means a light-truck tire; LT tires start deeper than
+ * passenger tires, so their new depth is never below the light-truck one.
+ */
+export function resolveTireProfile(profile: TireProfile = {}): {
+    size: TireSize | null;
+    tireCategory: TireCategory;
+    treadwear?: number;
+    newTreadDepth32nds: number;
+} {
+    const size = profile.size ? parseTireSize(profile.size) : null;
+    const tireCategory = profile.category ?? (size?.lightTruck ? 'light-truck' : DEFAULT_TIRE_CATEGORY);
+    const categoryDepth = Math.max(
+        TIRE_CATEGORIES[tireCategory].newDepth32nds,
+        size?.lightTruck ? TIRE_CATEGORIES['light-truck'].newDepth32nds : 0
+    );
+
+    return {
+        size,
+        tireCategory,
+        treadwear: profile.treadwear,
+        newTreadDepth32nds: profile.newTreadDepth32nds ?? categoryDepth,
+    };
+}
+
+/**
+ * Returns an error message for an invalid tire profile, or null.
+ */
+export function validateTireProfile(profile: TireProfile): string | null {
+    if (!isPlainObject(profile)) {
+        return 'Invalid tire profile';
+    }
+    for (const field of ['size', 'brand', 'model'] as const) {
+        if (profile[field] != null && typeof profile[field] !== 'string') {
+            return `Invalid tire ${field}: ${profile[field]}`;
+        }
+    }
+    if (profile.size && !parseTireSize(profile.size)) {
+        return `Invalid tire size: ${profile.size}`;
+    }
+    if (profile.category != null && !Object.hasOwn(TIRE_CATEGORIES, profile.category)) {
+        return `Invalid tire category: ${profile.category}`;
+    }
+    if (!inRange(profile.treadwear, UTQG_TREADWEAR_RANGE)) {
+        return `Invalid UTQG treadwear: ${profile.treadwear}`;
+    }
+    if (profile.traction != null && !UTQG_TRACTION_GRADES.includes(profile.traction)) {
+        return `Invalid UTQG traction grade: ${profile.traction}`;
+    }
+    if (profile.temperature != null && !UTQG_TEMPERATURE_GRADES.includes(profile.temperature)) {
+        return `Invalid UTQG temperature grade: ${profile.temperature}`;
+    }
+    if (!inRange(profile.newTreadDepth32nds, TIRE_NEW_DEPTH_RANGE)) {
+        return `Invalid new tread depth: ${profile.newTreadDepth32nds}`;
+    }
+    return null;
+}
+
+/**
+ * Returns an error message for an invalid vehicle profile, or null.
+ */
+export function validateVehicleProfile(profile: VehicleProfile, now: Date = new Date()): string | null {
+    if (!isPlainObject(profile)) {
+        return 'Invalid vehicle profile';
+    }
+    for (const field of ['make', 'model'] as const) {
+        if (profile[field] != null && typeof profile[field] !== 'string') {
+            return `Invalid vehicle ${field}: ${profile[field]}`;
+        }
+    }
+    if (profile.drivetrain != null && !DRIVETRAINS.includes(profile.drivetrain)) {
+        return `Invalid drivetrain: ${profile.drivetrain}`;
+    }
+    if (!inRange(profile.year, { min: MIN_MODEL_YEAR, max: now.getFullYear() + 1 })) {
+        return `Invalid model year: ${profile.year}`;
+    }
+    if (!inRange(profile.curbWeightLb, CURB_WEIGHT_RANGE_LB)) {
+        return `Invalid curb weight: ${profile.curbWeightLb}`;
+    }
+    return null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function serviceText(load?: string, speed?: string): string {
+    return load ? ` ${load}${speed}` : '';
+}
+
+// Profiles arrive as parsed JSON, so they may not be objects at all
+function isPlainObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function inRange(value: unknown, range: { min: number; max: number }): boolean {
+    if (value == null) return true;
+    return typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
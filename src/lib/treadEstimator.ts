@@ -1,36 +1,116 @@
-import { TreadEstimate, TreadBucket, ImageQuality, DepthRange } from '@/types';
-import { TREAD_BUCKETS, IMAGE_QUALITY_MIN } from './constants';
+import { TreadEstimate, TreadBucket, ImageQuality, DepthRange, TreadEstimator, TreadEstimatorResult } from '@/types';
+import {
+    TREAD_BUCKETS,
+    IMAGE_QUALITY_MIN,
+    MAX_TREAD_DEPTH,
+    SIGNAL_DEPTH_KNOTS,
+    DEPTH_UNCERTAINTY,
+} from './constants';
 
 /**
- * Estimate tread depth bucket from an image using canvas-based heuristics.
+ * Estimate tread depth from an image using canvas-based heuristics.
  * Uses edge density, contrast, and texture frequency as proxies for tread depth.
+ * Returns a continuous depth with an uncertainty interval, plus its bucket.
  *
  * This is a "good enough" demo estimator — not lab-accurate.
  */
 export function estimateTreadBucket(imageData: ImageData): TreadEstimate {
-    const quality = assessImageQuality(imageData);
+    return runHeuristic(imageData).estimate;
+}
+
+/**
+ * The texture heuristic as a pluggable estimator backend (registry name `heuristic`).
+ */
+export const heuristicEstimator: TreadEstimator = {
+    name: 'heuristic',
+    label: 'Texture heuristic',
+    async estimate({ imageData }) {
+        return runHeuristic(imageData);
+    },
+};
+
+/**
+ * Combined 0–1 tread signal for an image (or a crop of one).
+ * Higher edge density + texture variance = deeper grooves = more tread.
+ */
+export function calculateTreadSignal(imageData: ImageData) {
     const edgeDensity = calculateEdgeDensity(imageData);
     const textureVar = calculateTextureVariance(imageData);
     const contrastRatio = calculateContrastRatio(imageData);
+    const treadSignal = (edgeDensity * 0.45) + (textureVar * 0.35) + (contrastRatio * 0.20);
+    return { edgeDensity, textureVar, contrastRatio, treadSignal };
+}
+
+function runHeuristic(imageData: ImageData): TreadEstimatorResult {
+    const quality = assessImageQuality(imageData);
 
     // Combine metrics to estimate tread depth
-    // Higher edge density + texture variance = deeper grooves = more tread
-    const treadSignal = (edgeDensity * 0.45) + (textureVar * 0.35) + (contrastRatio * 0.20);
+    const { edgeDensity, textureVar, contrastRatio, treadSignal } = calculateTreadSignal(imageData);
 
-    // Map signal to bucket
-    const bucket = signalToBucket(treadSignal);
-    const depthRange = TREAD_BUCKETS[bucket];
+    // Map signal to a continuous depth
+    const depth = signalToDepth(treadSignal);
 
     // Confidence based on image quality
     const confidence = calculateConfidence(quality, treadSignal);
 
     return {
-        bucket,
-        depthRange32nds: { ...depthRange },
+        estimate: buildTreadEstimate(depth, confidence),
+        diagnostics: {
+            edgeDensity,
+            textureVariance: textureVar,
+            contrastRatio,
+            treadSignal,
+            imageQuality: quality.overall,
+        },
+    };
+}
+
+/**
+ * Assemble a TreadEstimate from a continuous depth: the uncertainty widens as
+ * confidence drops, and the bucket is derived from the depth.
+ */
+export function buildTreadEstimate(depth32nds: number, confidence: number): TreadEstimate {
+    const depth = Math.round(clamp(depth32nds, 0, MAX_TREAD_DEPTH) * 10) / 10;
+    const { atMaxConfidence, atMinConfidence } = DEPTH_UNCERTAINTY;
+    const confidenceFactor = clamp((0.9 - confidence) / 0.35, 0, 1);
+    const uncertainty = Math.round((atMaxConfidence + (atMinConfidence - atMaxConfidence) * confidenceFactor) * 10) / 10;
+
+    return {
+        bucket: bucketForDepth(depth),
+        depth32nds: depth,
+        uncertainty32nds: uncertainty,
+        depthRange32nds: depthInterval(depth, uncertainty),
         confidence,
     };
 }
 
+/**
+ * Display bucket for a continuous depth. Bucket ranges share their edges,
+ * so each edge belongs to the deeper bucket (6.0/32" is HEALTHY).
+ */
+export function bucketForDepth(depth32nds: number): TreadBucket {
+    if (depth32nds >= TREAD_BUCKETS.NEW.min) return 'NEW';
+    if (depth32nds >= TREAD_BUCKETS.HEALTHY.min) return 'HEALTHY';
+    if (depth32nds >= TREAD_BUCKETS.MODERATE.min) return 'MODERATE';
+    if (depth32nds >= TREAD_BUCKETS.LOW.min) return 'LOW';
+    return 'CRITICAL';
+}
+
+/**
+ * depth ± uncertainty, clamped to the physical range (0 to the tire's new
+ * depth).
+ */
+export function depthInterval(
+    depth32nds: number,
+    uncertainty32nds: number,
+    maxDepth32nds: number = MAX_TREAD_DEPTH
+): DepthRange {
+    return {
+        min: Math.round(Math.max(0, depth32nds - uncertainty32nds) * 10) / 10,
+        max: Math.round(Math.min(maxDepth32nds, depth32nds + uncertainty32nds) * 10) / 10,
+    };
+}
+
 /**
  * Assess the quality of the uploaded image
  */
@@ -105,6 +185,7 @@ function calculateEdgeDensity(imageData: ImageData): number {
     }
 
     const sampledPixels = ((height - 2) / 2) * ((width - 2) / 2);
+    if (sampledPixels <= 0) return 0;
     return Math.min(1.0, edgeCount / sampledPixels * 2.5);
 }
 
@@ -184,12 +265,21 @@ function calculateLaplacianVariance(imageData: ImageData): number {
     return sumSq / count - mean * mean;
 }
 
-function signalToBucket(signal: number): TreadBucket {
-    if (signal >= 0.7) return 'NEW';
-    if (signal >= 0.5) return 'HEALTHY';
-    if (signal >= 0.35) return 'MODERATE';
-    if (signal >= 0.2) return 'LOW';
-    return 'CRITICAL';
+function signalToDepth(signal: number): number {
+    const s = clamp(signal, 0, 1);
+    for (let i = 1; i < SIGNAL_DEPTH_KNOTS.length; i++) {
+        const lo = SIGNAL_DEPTH_KNOTS[i - 1];
+        const hi = SIGNAL_DEPTH_KNOTS[i];
+        if (s <= hi.signal) {
+            const f = (s - lo.signal) / (hi.signal - lo.signal);
+            return lo.depth + f * (hi.depth - lo.depth);
+        }
+    }
+    return MAX_TREAD_DEPTH;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
 }
 
 function calculateConfidence(quality: ImageQuality, signal: number): number {
@@ -0,0 +1,241 @@
+import type { TreadOrientation, TreadRegion } from '@/types';
+import { DEFAULT_TREAD_REGION, TREAD_REGION } from './constants';
+import { cropImageData, rotateQuarterTurn, toLuminance } from './imageUtils';
+
+export type TreadRegionHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+/**
+ * Find the tread band in a photo so background pavement, wheel rims and
+ * sidewall lettering don't count toward the tread signal.
+ *
+ * The image is split into a grid of cells scored by mean luminance gradient.
+ * Rows and columns where enough cells are textured bound the band; the
+ * dominant gradient direction inside it gives the groove orientation. When
+ * nothing stands out, the centre of the frame is assumed, as before.
+ *
+ * The estimator, quality check and wear-pattern detection run on
+ * `cropToTreadRegion`; the results page's deterioration mask follows the
+ * same region.
+ */
+export function detectTreadRegion(imageData: ImageData): TreadRegion {
+    const { width, height } = imageData;
+    const cell = Math.max(TREAD_REGION.minCellPx, Math.floor(Math.min(width, height) / TREAD_REGION.gridCells));
+    const cols = Math.floor(width / cell);
+    const rows = Math.floor(height / cell);
+    if (cols < 3 || rows < 3) return DEFAULT_TREAD_REGION;
+
+    const grid = cellGradients(imageData, cell, cols, rows);
+    const threshold = Math.max(
+        TREAD_REGION.minCellGradient,
+        TREAD_REGION.relativeThreshold * percentile(grid.energy, 0.9)
+    );
+    const textured = Array.from(grid.energy, e => e >= threshold);
+    if (!textured.some(Boolean)) return DEFAULT_TREAD_REGION;
+
+    const colRun = longestRun(shares(textured, cols, rows, 'column', 0, rows - 1), TREAD_REGION.minBandShare);
+    if (!colRun) return DEFAULT_TREAD_REGION;
+    const rowRun = longestRun(shares(textured, cols, rows, 'row', colRun[0], colRun[1]), TREAD_REGION.minBandShare);
+    if (!rowRun) return DEFAULT_TREAD_REGION;
+
+    const pad = TREAD_REGION.padCells;
+    const c0 = Math.max(0, colRun[0] - pad);
+    const c1 = Math.min(cols - 1, colRun[1] + pad);
+    const r0 = Math.max(0, rowRun[0] - pad);
+    const r1 = Math.min(rows - 1, rowRun[1] + pad);
+
+    // The last row and column also take the pixels left over by the grid
+    const x = (c0 * cell) / width;
+    const y = (r0 * cell) / height;
+    const right = c1 === cols - 1 ? 1 : ((c1 + 1) * cell) / width;
+    const bottom = r1 === rows - 1 ? 1 : ((r1 + 1) * cell) / height;
+    if (right - x < TREAD_REGION.minSize || bottom - y < TREAD_REGION.minSize) return DEFAULT_TREAD_REGION;
+
+    let gx = 0, gy = 0, inside = 0, insideTextured = 0, outsideTextured = 0;
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const i = r * cols + c;
+            const isInside = c >= c0 && c <= c1 && r >= r0 && r <= r1;
+            if (isInside) {
+                inside++;
+                if (textured[i]) {
+                    insideTextured++;
+                    gx += grid.gx[i];
+                    gy += grid.gy[i];
+                }
+            } else if (textured[i]) {
+                outsideTextured++;
+            }
+        }
+    }
+    const outside = cols * rows - inside;
+    const confidence = (insideTextured / inside) * (outside > 0 ? 1 - outsideTextured / outside : 1);
+
+    // Grooves running top-to-bottom change brightness across the frame
+    const orientation: TreadOrientation = gx >= gy ? 'vertical' : 'horizontal';
+
+    return {
+        x: round3(x),
+        y: round3(y),
+        width: round3(right - x),
+        height: round3(bottom - y),
+        orientation,
+        confidence: Math.round(confidence * 100) / 100,
+        source: 'detected',
+    };
+}
+
+/**
+ * The tread band cut out of the image. Grooves running across the frame are
+ * turned upright, so the band always runs top-to-bottom as
+ * `detectWearPattern` expects.
+ */
+export function cropToTreadRegion(imageData: ImageData, region: TreadRegion): ImageData {
+    const { width, height } = imageData;
+    const crop = cropImageData(imageData, region.x * width, region.y * height, region.width * width, region.height * height);
+    return region.orientation === 'horizontal' ? rotateQuarterTurn(crop) : crop;
+}
+
+/**
+ * Keep a hand-adjusted region inside the image and no smaller than the
+ * detector's minimum.
+ */
+export function clampTreadRegion(region: TreadRegion): TreadRegion {
+    const width = clamp(region.width, TREAD_REGION.minSize, 1);
+    const height = clamp(region.height, TREAD_REGION.minSize, 1);
+    return {
+        ...region,
+        x: round3(clamp(region.x, 0, 1 - width)),
+        y: round3(clamp(region.y, 0, 1 - height)),
+        width: round3(width),
+        height: round3(height),
+    };
+}
+
+/**
+ * Drag a corner (or the whole band, with 'move') by a fraction of the
+ * image. The opposite corner stays put and the band keeps its minimum size.
+ */
+export function adjustTreadRegion(region: TreadRegion, handle: TreadRegionHandle, dx: number, dy: number): TreadRegion {
+    if (handle === 'move') {
+        return clampTreadRegion({ ...region, x: region.x + dx, y: region.y + dy, source: 'manual' });
+    }
+
+    const min = TREAD_REGION.minSize;
+    let left = region.x;
+    let top = region.y;
+    let right = region.x + region.width;
+    let bottom = region.y + region.height;
+    if (handle === 'nw' || handle === 'sw') left = clamp(left + dx, 0, right - min);
+    else right = clamp(right + dx, left + min, 1);
+    if (handle === 'nw' || handle === 'ne') top = clamp(top + dy, 0, bottom - min);
+    else bottom = clamp(bottom + dy, top + min, 1);
+
+    return clampTreadRegion({ ...region, x: left, y: top, width: right - left, height: bottom - top, source: 'manual' });
+}
+
+/**
+ * A point given in upright-crop fractions (`across` the tread, `along` it)
+ * as fractions of the whole image, undoing the quarter turn for sideways
+ * grooves.
+ */
+export function fromTreadCoordinates(region: TreadRegion, across: number, along: number): { x: number; y: number } {
+    if (region.orientation === 'horizontal') {
+        return { x: region.x + along * region.width, y: region.y + (1 - across) * region.height };
+    }
+    return { x: region.x + across * region.width, y: region.y + along * region.height };
+}
+
+export function isTreadRegion(value: unknown): value is TreadRegion {
+    if (value == null || typeof value !== 'object') return false;
+    const { x, y, width, height, orientation, confidence, source } = value as Record<string, unknown>;
+    const fractions = [x, y, width, height, confidence];
+    return fractions.every(f => typeof f === 'number' && f >= 0 && f <= 1)
+        && (x as number) + (width as number) <= 1.001
+        && (y as number) + (height as number) <= 1.001
+        && (orientation === 'vertical' || orientation === 'horizontal')
+        && (source === 'detected' || source === 'default' || source === 'manual');
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+interface CellGradients {
+    energy: Float32Array; // mean |gx| + |gy| per cell
+    gx: Float32Array;
+    gy: Float32Array;
+}
+
+function cellGradients(imageData: ImageData, cell: number, cols: number, rows: number): CellGradients {
+    const { width, height } = imageData;
+    const lum = toLuminance(imageData);
+    const energy = new Float32Array(cols * rows);
+    const gx = new Float32Array(cols * rows);
+    const gy = new Float32Array(cols * rows);
+
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            let sx = 0, sy = 0, n = 0;
+            const yEnd = Math.min(height - 1, (r + 1) * cell);
+            const xEnd = Math.min(width - 1, (c + 1) * cell);
+            for (let y = Math.max(1, r * cell); y < yEnd; y++) {
+                for (let x = Math.max(1, c * cell); x < xEnd; x++) {
+                    const p = y * width + x;
+                    sx += Math.abs(lum[p + 1] - lum[p - 1]);
+                    sy += Math.abs(lum[p + width] - lum[p - width]);
+                    n++;
+                }
+            }
+            const i = r * cols + c;
+            gx[i] = n > 0 ? sx / n : 0;
+            gy[i] = n > 0 ? sy / n : 0;
+            energy[i] = gx[i] + gy[i];
+        }
+    }
+    return { energy, gx, gy };
+}
+
+/**
+ * Share of textured cells per column (over rows `from`–`to`), or per row
+ * (over columns `from`–`to`).
+ */
+function shares(textured: boolean[], cols: number, rows: number, axis: 'column' | 'row', from: number, to: number): number[] {
+    const count = axis === 'column' ? cols : rows;
+    const out: number[] = [];
+    for (let k = 0; k < count; k++) {
+        let hits = 0;
+        for (let j = from; j <= to; j++) {
+            if (textured[axis === 'column' ? j * cols + k : k * cols + j]) hits++;
+        }
+        out.push(hits / (to - from + 1));
+    }
+    return out;
+}
+
+/**
+ * First and last index of the longest run at or above `min`, or null. A
+ * single cell below it (a wide groove, a stone) doesn't break the run.
+ */
+function longestRun(values: number[], min: number): [number, number] | null {
+    let best: [number, number] | null = null;
+    let start = -1;
+    let last = -1;
+    values.forEach((value, i) => {
+        if (value < min) return;
+        if (start < 0 || i - last > 2) start = i;
+        last = i;
+        if (!best || last - start > best[1] - best[0]) best = [start, last];
+    });
+    return best;
+}
+
+function percentile(values: Float32Array, p: number): number {
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function round3(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,139 @@
+import type { AnalysisResult, DisplayMeasurements, UnitSystem } from '@/types';
+import { KM_PER_MILE, M_PER_FOOT, MM_PER_32ND } from './constants';
+
+/**
+ * Imperial / metric display units. The wear model, stored scans and API
+ * fields ending in `32nds` or `Miles` always stay in 32nds of an inch and
+ * miles; these helpers convert at the edges — form input, labels,
+ * explanations and exports.
+ */
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['imperial', 'metric'];
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+    return typeof value === 'string' && UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+// ── Conversions ──────────────────────────────────────────────────────
+
+/** Tread depth in the display unit: 32nds of an inch or millimetres. */
+export function depthToUnits(depth32nds: number, units: UnitSystem): number {
+    return units === 'metric' ? depth32nds * MM_PER_32ND : depth32nds;
+}
+
+export function depthFromUnits(depth: number, units: UnitSystem): number {
+    return units === 'metric' ? depth / MM_PER_32ND : depth;
+}
+
+/** Distance in the display unit: miles or kilometres. */
+export function distanceToUnits(miles: number, units: UnitSystem): number {
+    return units === 'metric' ? miles * KM_PER_MILE : miles;
+}
+
+export function distanceFromUnits(distance: number, units: UnitSystem): number {
+    return units === 'metric' ? distance / KM_PER_MILE : distance;
+}
+
+/** Speed in the display unit: mph or km/h. */
+export function speedToUnits(mph: number, units: UnitSystem): number {
+    return distanceToUnits(mph, units);
+}
+
+export function speedFromUnits(speed: number, units: UnitSystem): number {
+    return distanceFromUnits(speed, units);
+}
+
+/** Short lengths (stopping distances) in the display unit: feet or metres. */
+export function lengthToUnits(feet: number, units: UnitSystem): number {
+    return units === 'metric' ? feet * M_PER_FOOT : feet;
+}
+
+/** Wear rate per 1,000 display distance units, in the display depth unit. */
+export function wearRateToUnits(ratePer1000Miles: number, units: UnitSystem): number {
+    return depthToUnits(distanceFromUnits(ratePer1000Miles, units), units);
+}
+
+// ── Formatting ───────────────────────────────────────────────────────
+
+export function depthUnitLabel(units: UnitSystem): string {
+    return units === 'metric' ? 'mm' : '32nds';
+}
+
+export function distanceUnitLabel(units: UnitSystem): string {
+    return units === 'metric' ? 'km' : 'mi';
+}
+
+/** 5.0/32" or 4.0 mm */
+export function formatDepth(depth32nds: number, units: UnitSystem, digits = 1): string {
+    const value = depthToUnits(depth32nds, units).toFixed(digits);
+    return units === 'metric' ? `${value} mm` : `${value}/32"`;
+}
+
+/** A threshold, rounded the way limits are quoted: 2/32" or 1.6 mm */
+export function formatDepthLimit(depth32nds: number, units: UnitSystem): string {
+    const value = Math.round(depthToUnits(depth32nds, units) * 10) / 10;
+    return units === 'metric' ? `${value} mm` : `${value}/32"`;
+}
+
+/** 12,000 mi or 19,312 km */
+export function formatDistance(miles: number, units: UnitSystem): string {
+    return `${Math.round(distanceToUnits(miles, units)).toLocaleString()} ${distanceUnitLabel(units)}`;
+}
+
+/** 60 mph or 97 km/h */
+export function formatSpeed(mph: number, units: UnitSystem): string {
+    return `${Math.round(speedToUnits(mph, units))} ${units === 'metric' ? 'km/h' : 'mph'}`;
+}
+
+/** 205 ft or 62 m */
+export function formatLength(feet: number, units: UnitSystem): string {
+    return `${Math.round(lengthToUnits(feet, units))} ${units === 'metric' ? 'm' : 'ft'}`;
+}
+
+/** 0.45/32" per 1,000 mi or 0.22 mm per 1,000 km */
+export function formatWearRate(ratePer1000Miles: number, units: UnitSystem): string {
+    const rate = wearRateToUnits(ratePer1000Miles, units).toFixed(2);
+    return units === 'metric' ? `${rate} mm per 1,000 km` : `${rate}/32" per 1,000 mi`;
+}
+
+/**
+ * The option closest to `value`, for pickers whose choices differ by unit
+ * system (speeds, rotation intervals).
+ */
+export function nearestOption(options: number[], value: number): number {
+    return options.reduce((best, option) => Math.abs(option - value) < Math.abs(best - value) ? option : best);
+}
+
+/**
+ * Re-express a typed form value when the unit system changes, so a
+ * half-filled form keeps its meaning. Text that isn't a number is kept.
+ */
+export function convertInput(value: string, kind: 'depth' | 'distance', from: UnitSystem, to: UnitSystem): string {
+    const parsed = parseFloat(value);
+    if (from === to || value.trim() === '' || isNaN(parsed)) return value;
+    if (kind === 'distance') {
+        return String(Math.round(distanceToUnits(distanceFromUnits(parsed, from), to)));
+    }
+    return String(Math.round(depthToUnits(depthFromUnits(parsed, from), to) * 10) / 10);
+}
+
+/**
+ * An analysis's depth, uncertainty, annual distance and wear rate in the
+ * given display units.
+ */
+export function displayMeasurements(analysis: AnalysisResult, units: UnitSystem): DisplayMeasurements {
+    const { treadEstimate, wearPrediction } = analysis;
+    return {
+        units,
+        depthUnit: units === 'metric' ? 'mm' : '32nds',
+        distanceUnit: units === 'metric' ? 'km' : 'mi',
+        depth: round2(depthToUnits(treadEstimate.depth32nds, units)),
+        uncertainty: round2(depthToUnits(treadEstimate.uncertainty32nds, units)),
+        distancePerYear: Math.round(distanceToUnits(wearPrediction.milesPerYear, units)),
+        wearRatePer1000: round2(wearRateToUnits(wearPrediction.wearRatePer1000Miles, units)),
+    };
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,111 @@
+import type {
+    AnalysisResult,
+    Axle,
+    AxleImbalance,
+    TirePosition,
+    VehicleRollup,
+} from '@/types';
+import {
+    AXLE_POSITIONS,
+    AXLE_IMBALANCE_THRESHOLD,
+    SIDE_MISMATCH_THRESHOLD,
+    TIRE_POSITIONS,
+} from './constants';
+
+/**
+ * Roll per-position analyses up into a vehicle-level summary:
+ * worst tire, front/rear imbalance and which pair to replace first.
+ *
+ * The spare counts towards "worst tire" but never towards axle figures.
+ */
+export function computeVehicleRollup(
+    tires: Partial<Record<TirePosition, AnalysisResult>>
+): VehicleRollup {
+    const positions = TIRE_POSITIONS.filter(p => tires[p] != null);
+    if (positions.length === 0) {
+        throw new Error('At least one tire analysis is required');
+    }
+
+    // 1. Worst tire — lowest score, shallower tread breaks ties
+    const worstPosition = positions.reduce((worst, p) => {
+        const a = tires[p]!;
+        const w = tires[worst]!;
+        if (a.healthScore.score !== w.healthScore.score) {
+            return a.healthScore.score < w.healthScore.score ? p : worst;
+        }
+        return a.wearPrediction.currentDepth32nds < w.wearPrediction.currentDepth32nds ? p : worst;
+    });
+    const worst = tires[worstPosition]!;
+
+    // 2. Axle imbalance
+    const axleImbalance = calculateAxleImbalance(tires);
+
+    // 3. Which pair goes first
+    const replaceFirst = pickReplaceFirst(axleImbalance, worstPosition);
+
+    // 4. Left/right mismatch on the same axle
+    const sideToSideMismatch: TirePosition[] = [];
+    for (const [left, right] of Object.values(AXLE_POSITIONS)) {
+        const l = tires[left];
+        const r = tires[right];
+        if (!l || !r) continue;
+        const diff = Math.abs(l.wearPrediction.currentDepth32nds - r.wearPrediction.currentDepth32nds);
+        if (diff >= SIDE_MISMATCH_THRESHOLD) {
+            sideToSideMismatch.push(left, right);
+        }
+    }
+
+    return {
+        worstPosition,
+        worstScore: worst.healthScore.score,
+        worstRiskLevel: worst.healthScore.riskLevel,
+        axleImbalance,
+        replaceFirst,
+        sideToSideMismatch,
+    };
+}
+
+/**
+ * Mean current depth across the tires scanned on an axle, or null if none were.
+ */
+export function axleDepth(
+    tires: Partial<Record<TirePosition, AnalysisResult>>,
+    axle: Axle
+): number | null {
+    const depths = AXLE_POSITIONS[axle]
+        .map(p => tires[p]?.wearPrediction.currentDepth32nds)
+        .filter((d): d is number => d != null);
+    if (depths.length === 0) return null;
+    return Math.round((depths.reduce((sum, d) => sum + d, 0) / depths.length) * 100) / 100;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function calculateAxleImbalance(
+    tires: Partial<Record<TirePosition, AnalysisResult>>
+): AxleImbalance {
+    const frontDepth32nds = axleDepth(tires, 'front');
+    const rearDepth32nds = axleDepth(tires, 'rear');
+    const difference32nds = frontDepth32nds != null && rearDepth32nds != null
+        ? Math.round(Math.abs(frontDepth32nds - rearDepth32nds) * 100) / 100
+        : 0;
+
+    return {
+        frontDepth32nds,
+        rearDepth32nds,
+        difference32nds,
+        significant: difference32nds >= AXLE_IMBALANCE_THRESHOLD,
+    };
+}
+
+function pickReplaceFirst(imbalance: AxleImbalance, worstPosition: TirePosition): Axle | null {
+    const { frontDepth32nds, rearDepth32nds } = imbalance;
+    if (frontDepth32nds == null && rearDepth32nds == null) return null;
+    if (frontDepth32nds == null) return 'rear';
+    if (rearDepth32nds == null) return 'front';
+    if (frontDepth32nds !== rearDepth32nds) {
+        return frontDepth32nds < rearDepth32nds ? 'front' : 'rear';
+    }
+    // Equal axles: follow the single worst tire
+    return AXLE_POSITIONS.rear.includes(worstPosition) ? 'rear' : 'front';
+}
@@ -0,0 +1,52 @@
+import type { GrooveProfile, WearBarMark, WearBarRow, WearBarDetection } from '@/types';
+import { WEAR_BARS } from './constants';
+
+/**
+ * Find the tread-wear indicators among a groove profile's wear bars.
+ *
+ * The indicators are molded across the tread at 2/32", so they appear in
+ * several grooves at the same point along it. Bars are grouped into rows by
+ * position; a row that crosses enough grooves is a set of indicators, and
+ * one that is mostly flush with the tread means the tire is worn out —
+ * whatever the texture-based estimate says. With a single groove in view
+ * there is nothing to line up, so no row is trusted.
+ */
+export function detectWearBars(profile: GrooveProfile): WearBarDetection {
+    const rows: WearBarRow[] = [];
+
+    for (const bars of groupIntoRows(profile.wearBars)) {
+        const grooves = [...new Set(bars.map(bar => bar.groove))].sort((a, b) => a - b);
+        if (grooves.length < WEAR_BARS.minGrooves) continue;
+
+        const flushShare = bars.filter(bar => bar.flush).length / bars.length;
+        rows.push({
+            position: Math.round(mean(bars.map(bar => bar.position)) * 1000) / 1000,
+            grooves,
+            flush: flushShare >= WEAR_BARS.flushShare,
+        });
+    }
+
+    return { rows, flush: rows.some(row => row.flush) };
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+/**
+ * Bars within `rowTolerance` of the first bar in a row, in position order.
+ */
+function groupIntoRows(bars: WearBarMark[]): WearBarMark[][] {
+    const groups: WearBarMark[][] = [];
+    for (const bar of [...bars].sort((a, b) => a.position - b.position)) {
+        const current = groups[groups.length - 1];
+        if (current && bar.position - current[0].position <= WEAR_BARS.rowTolerance) {
+            current.push(bar);
+        } else {
+            groups.push([bar]);
+        }
+    }
+    return groups;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
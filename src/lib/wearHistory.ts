@@ -0,0 +1,52 @@
+import type { ScanRecord, WearRateFit } from '@/types';
+import { MIN_FIT_SCANS, MIN_FIT_MILES_SPAN, FITTED_WEAR_RATE_LIMITS } from './constants';
+
+/**
+ * Fit a wear rate (32nds per 1000 miles) from a tire's scan history using a
+ * least-squares line of depth against odometer.
+ *
+ * Returns null when there isn't enough history to beat the default rate:
+ * too few scans, too little mileage between them, or a fit showing no wear.
+ */
+export function fitWearRate(records: ScanRecord[]): WearRateFit | null {
+    if (records.length < MIN_FIT_SCANS) return null;
+
+    const miles = records.map(r => r.odometerMiles);
+    const milesSpan = Math.max(...miles) - Math.min(...miles);
+    if (milesSpan < MIN_FIT_MILES_SPAN) return null;
+
+    const n = records.length;
+    const meanX = miles.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = records.reduce((sum, r) => sum + r.depth32nds, 0) / n;
+
+    let covXY = 0;
+    let varX = 0;
+    for (const r of records) {
+        covXY += (r.odometerMiles - meanX) * (r.depth32nds - meanY);
+        varX += (r.odometerMiles - meanX) ** 2;
+    }
+
+    const slopePerMile = covXY / varX;
+    // Depth going up between scans is measurement noise, not negative wear
+    if (slopePerMile >= 0) return null;
+
+    const ratePer1000Miles = Math.min(
+        FITTED_WEAR_RATE_LIMITS.max,
+        Math.max(FITTED_WEAR_RATE_LIMITS.min, -slopePerMile * 1000)
+    );
+
+    return {
+        ratePer1000Miles: Math.round(ratePer1000Miles * 1000) / 1000,
+        scanCount: n,
+        milesSpan,
+    };
+}
+
+/**
+ * Sort scans oldest → newest by odometer, falling back to scan time.
+ */
+export function sortScanHistory(records: ScanRecord[]): ScanRecord[] {
+    return [...records].sort((a, b) =>
+        a.odometerMiles - b.odometerMiles || a.scannedAt.localeCompare(b.scannedAt)
+    );
+}
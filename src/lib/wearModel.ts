@@ -1,63 +1,115 @@
 import {
+    Axle,
+    DatePercentiles,
+    Drivetrain,
+    TireCategory,
+    TirePosition,
+    WearCurve,
+    WearDateDistribution,
     WearPredictionInput,
     WearPrediction,
+    WearRateSource,
 } from '@/types';
 import {
-    BASE_WEAR_RATE_PER_1000_MILES,
     WEAR_MODIFIERS,
-    WET_TRACTION_DROP_DEPTH,
-    LEGAL_MINIMUM_DEPTH,
+    TIRE_CATEGORIES,
+    DEFAULT_TIRE_CATEGORY,
+    TREADWEAR_RATE_EXPONENT,
+    TREADWEAR_RATE_LIMITS,
+    WEAR_SIMULATION,
+    VEHICLE_LOAD,
+    AXLE_POSITIONS,
+    AXLE_WEAR_BY_DRIVETRAIN,
+    DEFAULT_DRIVETRAIN,
+    DEFAULT_JURISDICTION,
 } from './constants';
+import { climateWearModifier } from './climate';
+import { getJurisdictionRules } from './jurisdiction';
 
 /**
  * Predict tire wear timeline based on current depth and driving parameters.
- * Uses a linear wear model with adjustment factors.
+ * Dates come from the tire's wear curve (category + UTQG treadwear, adjusted
+ * by the modifiers), or from a curve through the rate fitted from scan
+ * history when one is supplied. The P10/P50/P90 spread of each date comes
+ * from a seeded Monte Carlo over the uncertain inputs.
  */
 export function predictWearTimeline(input: WearPredictionInput): WearPrediction {
     const {
         depthRange,
+        currentDepth32nds,
         milesPerYear,
         climate,
+        climateNormals,
         rotation,
         drivingStyle,
+        fittedWearRatePer1000Miles,
+        tireCategory,
+        treadwear,
+        newTreadDepth32nds,
+        curbWeightLb,
+        position,
+        drivetrain = DEFAULT_DRIVETRAIN,
+        jurisdiction = DEFAULT_JURISDICTION,
+        seed = WEAR_SIMULATION.seed,
     } = input;
+    const rules = getJurisdictionRules(jurisdiction);
 
-    // Current depth is midpoint of the range
-    const currentDepth = (depthRange.min + depthRange.max) / 2;
+    // Continuous estimate when we have one, else midpoint of the range
+    const currentDepth = currentDepth32nds ?? (depthRange.min + depthRange.max) / 2;
 
     // Calculate adjusted wear rate
-    const climateModifier = WEAR_MODIFIERS.climate[climate] ?? 1.0;
-    const rotationModifier = WEAR_MODIFIERS.rotation[rotation] ?? 1.0;
+    const climateModifier = climateNormals ? climateWearModifier(climateNormals) : WEAR_MODIFIERS.climate[climate] ?? 1.0;
+    const rotationModifier = rotationWearModifier(rotation, position, drivetrain);
     const drivingModifier = WEAR_MODIFIERS.driving[drivingStyle] ?? 1.0;
+    const loadModifier = vehicleLoadModifier(curbWeightLb);
 
-    const adjustedWearRate =
-        BASE_WEAR_RATE_PER_1000_MILES * climateModifier * rotationModifier * drivingModifier;
-
-    // Miles per month
-    const milesPerMonth = milesPerYear / 12;
-
-    // 32nds lost per month
-    const depthLossPerMonth = (milesPerMonth / 1000) * adjustedWearRate;
+    // An observed rate already reflects climate, rotation, driving habits and load
+    const wearRateSource: WearRateSource = fittedWearRatePer1000Miles != null ? 'fitted' : 'default';
+    const wearCurve = buildWearCurve(currentDepth, {
+        tireCategory,
+        treadwear,
+        newTreadDepth32nds,
+        rateModifier: climateModifier * rotationModifier * drivingModifier * loadModifier,
+        fittedWearRatePer1000Miles,
+    });
 
     // Guard against zero or negative wear rate
-    if (depthLossPerMonth <= 0) {
+    if (milesPerYear <= 0 || wearCurve.ratePer1000Miles <= 0) {
         const farFuture = new Date();
         farFuture.setFullYear(farFuture.getFullYear() + 10);
+        const never: DatePercentiles = { p10: farFuture, p50: farFuture, p90: farFuture };
         return {
             currentDepth32nds: currentDepth,
-            wearRatePer1000Miles: adjustedWearRate,
+            wearRatePer1000Miles: wearCurve.ratePer1000Miles,
+            wearCurve,
+            milesPerYear,
             wetTractionDropDate: farFuture,
             legalMinimumDate: farFuture,
             tireDeadDate: farFuture,
+            winterMinimumDate: rules.winter?.minimum32nds != null ? farFuture : undefined,
             remainingMonths: 120,
             confidenceBand: 0.20,
+            dateDistribution: {
+                wetTractionDrop: never,
+                legalMinimum: never,
+                tireDead: never,
+                samples: 0,
+                seed,
+            },
+            wearRateSource,
+            rotation,
+            position,
+            drivetrain,
+            climateNormals,
+            tireCategory,
+            jurisdiction,
         };
     }
 
     // Calculate months until reaching key thresholds
-    const monthsToWetDrop = Math.max(0, (currentDepth - WET_TRACTION_DROP_DEPTH) / depthLossPerMonth);
-    const monthsToLegal = Math.max(0, (currentDepth - LEGAL_MINIMUM_DEPTH) / depthLossPerMonth);
-    const monthsToDeadRaw = Math.max(0, currentDepth / depthLossPerMonth);
+    const monthsToWetDrop = monthsToDepth(wearCurve, currentDepth, rules.wetTractionDrop32nds, milesPerYear);
+    const monthsToLegal = monthsToDepth(wearCurve, currentDepth, rules.legalMinimum32nds, milesPerYear);
+    const winterMinimum = rules.winter?.minimum32nds;
     // Tire is "dead" when it hits legal minimum
     const monthsToDead = monthsToLegal;
 
@@ -66,32 +118,206 @@ export function predictWearTimeline(input: WearPredictionInput): WearPrediction
     const wetTractionDropDate = addMonths(now, monthsToWetDrop);
     const legalMinimumDate = addMonths(now, monthsToLegal);
     const tireDeadDate = addMonths(now, monthsToDead);
+    const winterMinimumDate = winterMinimum != null
+        ? addMonths(now, monthsToDepth(wearCurve, currentDepth, winterMinimum, milesPerYear))
+        : undefined;
 
-    // Confidence band: wider for less reliable inputs
-    const confidenceBand = calculateConfidenceBand(currentDepth, milesPerYear);
+    // Spread of the dates over the uncertain inputs
+    const dateDistribution = simulateWearDates(input, currentDepth, now);
+    const confidenceBand = relativeSpread(dateDistribution.legalMinimum, now);
 
     return {
         currentDepth32nds: currentDepth,
-        wearRatePer1000Miles: adjustedWearRate,
+        wearRatePer1000Miles: wearCurve.ratePer1000Miles,
+        wearCurve,
+        milesPerYear,
         wetTractionDropDate,
         legalMinimumDate,
         tireDeadDate,
+        winterMinimumDate,
         remainingMonths: Math.round(monthsToDead),
         confidenceBand,
+        dateDistribution,
+        wearRateSource,
+        rotation,
+        position,
+        drivetrain,
+        climateNormals,
+        tireCategory,
+        jurisdiction,
+    };
+}
+
+const MS_PER_MONTH = 365.25 / 12 * 24 * 60 * 60 * 1000;
+
+// ── Wear Curves ──────────────────────────────────────────────────────
+
+/**
+ * The wear curve for a tire currently at `currentDepth`.
+ *
+ * @param newTreadDepth32nds  The tire's depth when new (spec sheet or
+ *        profile); defaults to the category's
+ * @param rateModifier  Climate × rotation × driving × load multiplier (default 1)
+ * @param fittedWearRatePer1000Miles  Observed steady rate; replaces the
+ *        category rate, treadwear and modifiers but keeps the curve's shape
+ */
+export function buildWearCurve(
+    currentDepth: number,
+    options: {
+        tireCategory?: TireCategory;
+        treadwear?: number;
+        newTreadDepth32nds?: number;
+        rateModifier?: number;
+        fittedWearRatePer1000Miles?: number;
+    } = {}
+): WearCurve {
+    const {
+        tireCategory = DEFAULT_TIRE_CATEGORY,
+        treadwear,
+        newTreadDepth32nds,
+        rateModifier = 1,
+        fittedWearRatePer1000Miles,
+    } = options;
+    const category = TIRE_CATEGORIES[tireCategory];
+
+    const base: WearCurve = {
+        // A tire can measure a little deeper than its nominal new depth
+        newDepth32nds: Math.max(newTreadDepth32nds ?? category.newDepth32nds, currentDepth),
+        ratePer1000Miles: category.ratePer1000Miles,
+        breakIn32nds: category.breakIn32nds,
+        breakInMiles: category.breakInMiles,
     };
+
+    if (fittedWearRatePer1000Miles != null) {
+        if (fittedWearRatePer1000Miles <= 0) return { ...base, ratePer1000Miles: 0 };
+        const curve = scaleWearCurve(base, fittedWearRatePer1000Miles / base.ratePer1000Miles);
+        return { ...curve, ratePer1000Miles: fittedWearRatePer1000Miles };
+    }
+
+    const treadwearFactor = treadwear != null && treadwear > 0
+        ? Math.min(TREADWEAR_RATE_LIMITS.max, Math.max(TREADWEAR_RATE_LIMITS.min,
+            (category.referenceTreadwear / treadwear) ** TREADWEAR_RATE_EXPONENT))
+        : 1;
+
+    return scaleWearCurve(base, treadwearFactor * rateModifier);
+}
+
+/**
+ * Wear-rate multiplier for a rotation habit. Rotated tires average out
+ * across both axles; unrotated ones wear at their axle's rate for the
+ * drivetrain, or a flat penalty when the position isn't known.
+ */
+export function rotationWearModifier(
+    rotation: WearPredictionInput['rotation'],
+    position?: TirePosition,
+    drivetrain: Drivetrain = DEFAULT_DRIVETRAIN
+): number {
+    if (rotation !== 'skip-rotations') return WEAR_MODIFIERS.rotation[rotation] ?? 1.0;
+    const axle = position ? tireAxle(position) : null;
+    return axle ? AXLE_WEAR_BY_DRIVETRAIN[drivetrain][axle] : WEAR_MODIFIERS.rotation['skip-rotations'];
+}
+
+/**
+ * The axle a position is on (null for the spare).
+ */
+export function tireAxle(position: TirePosition): Axle | null {
+    if (AXLE_POSITIONS.front.includes(position)) return 'front';
+    if (AXLE_POSITIONS.rear.includes(position)) return 'rear';
+    return null;
+}
+
+/**
+ * Wear-rate multiplier for a vehicle's curb weight (1 when unknown).
+ */
+export function vehicleLoadModifier(curbWeightLb?: number): number {
+    if (curbWeightLb == null || curbWeightLb <= 0) return 1;
+    const { referenceCurbWeightLb, exponent, min, max } = VEHICLE_LOAD;
+    return Math.min(max, Math.max(min, (curbWeightLb / referenceCurbWeightLb) ** exponent));
+}
+
+/**
+ * Speed a curve up (factor > 1) or slow it down: the tire follows the same
+ * depth profile in `1 / factor` of the miles.
+ */
+export function scaleWearCurve(curve: WearCurve, factor: number): WearCurve {
+    if (factor <= 0) return { ...curve, ratePer1000Miles: 0 };
+    return {
+        ...curve,
+        ratePer1000Miles: curve.ratePer1000Miles * factor,
+        breakInMiles: curve.breakInMiles / factor,
+    };
+}
+
+/**
+ * Depth after `miles` since new.
+ */
+export function depthAtMiles(curve: WearCurve, miles: number): number {
+    const { newDepth32nds, ratePer1000Miles, breakIn32nds, breakInMiles } = curve;
+    const m = Math.max(0, miles);
+    const breakIn = breakInMiles > 0 ? breakIn32nds * (1 - Math.exp(-m / breakInMiles)) : breakIn32nds;
+    return Math.max(0, newDepth32nds - (m / 1000) * ratePer1000Miles - breakIn);
+}
+
+/**
+ * Miles since new at which the curve reaches `depth` (0 at or above new
+ * depth, Infinity if the curve never gets there).
+ */
+export function milesAtDepth(curve: WearCurve, depth: number): number {
+    if (depth >= curve.newDepth32nds) return 0;
+    if (curve.ratePer1000Miles <= 0) {
+        return depth >= curve.newDepth32nds - curve.breakIn32nds ? 0 : Infinity;
+    }
+
+    // depthAtMiles is strictly decreasing, so bisect; the steady rate alone
+    // reaches `depth` by `hi`, so break-in only makes the answer smaller
+    let lo = 0;
+    let hi = ((curve.newDepth32nds - depth) / curve.ratePer1000Miles) * 1000;
+    for (let i = 0; i < 40; i++) {
+        const mid = (lo + hi) / 2;
+        if (depthAtMiles(curve, mid) > depth) lo = mid;
+        else hi = mid;
+    }
+    return hi;
+}
+
+/**
+ * Depth after driving `miles` more from `fromDepth`.
+ */
+export function depthAfterMiles(curve: WearCurve, fromDepth: number, miles: number): number {
+    if (miles <= 0) return fromDepth;
+    const start = milesAtDepth(curve, fromDepth);
+    if (!Number.isFinite(start)) return fromDepth;
+    return depthAtMiles(curve, start + miles);
+}
+
+/**
+ * Months of driving at `milesPerYear` to wear from `fromDepth` to `toDepth`.
+ */
+export function monthsToDepth(
+    curve: WearCurve,
+    fromDepth: number,
+    toDepth: number,
+    milesPerYear: number
+): number {
+    if (toDepth >= fromDepth) return 0;
+    if (milesPerYear <= 0) return Infinity;
+    const miles = milesAtDepth(curve, toDepth) - milesAtDepth(curve, fromDepth);
+    return Math.max(0, miles / (milesPerYear / 12));
 }
 
 /**
- * Calculate depth at a given time parameter t (0 = today, 1 = tire dead)
+ * Calculate depth at a given time parameter t (0 = today, 1 = end of the
+ * slider), following the same wear curve the predicted dates come from.
  */
 export function depthAtTime(
+    curve: WearCurve,
     currentDepth: number,
     t: number,
     totalMonths: number,
-    wearRatePerMonth: number
+    milesPerYear: number
 ): number {
-    const monthsElapsed = t * totalMonths;
-    const depth = currentDepth - monthsElapsed * wearRatePerMonth;
+    const milesDriven = t * totalMonths * (milesPerYear / 12);
+    const depth = depthAfterMiles(curve, currentDepth, milesDriven);
     return Math.max(0, Math.round(depth * 100) / 100);
 }
 
@@ -102,6 +328,13 @@ export function dateAtTime(t: number, totalMonths: number): Date {
     return addMonths(new Date(), t * totalMonths);
 }
 
+/**
+ * Months from now until `date` (negative if it has passed).
+ */
+export function monthsUntil(date: Date, now: Date = new Date()): number {
+    return (date.getTime() - now.getTime()) / MS_PER_MONTH;
+}
+
 /**
  * Get monthly wear rate from per-1000-miles rate and miles/year
  */
@@ -112,19 +345,135 @@ export function getMonthlyWearRate(
     return (milesPerYear / 12 / 1000) * wearRatePer1000Miles;
 }
 
+// ── Monte Carlo Dates ────────────────────────────────────────────────
+
+/**
+ * P10/P50/P90 threshold dates from `WEAR_SIMULATION.samples` draws of the
+ * starting depth (± its uncertainty), annual mileage, climate and driving
+ * style. The same input and seed always give the same dates.
+ */
+export function simulateWearDates(
+    input: WearPredictionInput,
+    currentDepth: number,
+    now: Date = new Date()
+): WearDateDistribution {
+    const {
+        depthRange,
+        depthUncertainty32nds = (depthRange.max - depthRange.min) / 2,
+        milesPerYear,
+        climate,
+        climateNormals,
+        rotation,
+        drivingStyle,
+        fittedWearRatePer1000Miles,
+        tireCategory,
+        treadwear,
+        newTreadDepth32nds,
+        curbWeightLb,
+        position,
+        drivetrain,
+        jurisdiction,
+        seed = WEAR_SIMULATION.seed,
+    } = input;
+    const { wetTractionDrop32nds, legalMinimum32nds } = getJurisdictionRules(jurisdiction);
+    const { samples, mileageSigma, climateSigma, drivingSigma, aggressiveShare, fittedRateSigma } = WEAR_SIMULATION;
+
+    const random = mulberry32(seed);
+    const climates = Object.values(WEAR_MODIFIERS.climate);
+    const knownClimate = climateNormals ? climateWearModifier(climateNormals) : WEAR_MODIFIERS.climate[climate] ?? 1.0;
+    const rotationModifier = rotationWearModifier(rotation, position, drivetrain);
+    const loadModifier = vehicleLoadModifier(curbWeightLb);
+
+    const wetMonths: number[] = [];
+    const legalMonths: number[] = [];
+    for (let i = 0; i < samples; i++) {
+        const depth = Math.max(0, currentDepth + gaussian(random) * depthUncertainty32nds);
+        const miles = milesPerYear * Math.exp(gaussian(random) * mileageSigma);
+
+        let curve: WearCurve;
+        if (fittedWearRatePer1000Miles != null) {
+            curve = buildWearCurve(depth, {
+                tireCategory,
+                newTreadDepth32nds,
+                fittedWearRatePer1000Miles: fittedWearRatePer1000Miles * Math.exp(gaussian(random) * fittedRateSigma),
+            });
+        } else {
+            // 'neutral' means we don't know the climate, so any is possible
+            const climateModifier = climate === 'neutral' && !climateNormals
+                ? climates[Math.floor(random() * climates.length)]
+                : knownClimate * Math.exp(gaussian(random) * climateSigma);
+            const style = drivingStyle === 'normal' && random() < aggressiveShare ? 'aggressive' : drivingStyle;
+            const drivingModifier = WEAR_MODIFIERS.driving[style] * Math.exp(gaussian(random) * drivingSigma);
+
+            curve = buildWearCurve(depth, {
+                tireCategory,
+                treadwear,
+                newTreadDepth32nds,
+                rateModifier: climateModifier * rotationModifier * drivingModifier * loadModifier,
+            });
+        }
+
+        wetMonths.push(monthsToDepth(curve, depth, wetTractionDrop32nds, miles));
+        legalMonths.push(monthsToDepth(curve, depth, legalMinimum32nds, miles));
+    }
+
+    const legalMinimum = datePercentiles(legalMonths, now);
+    return {
+        wetTractionDrop: datePercentiles(wetMonths, now),
+        legalMinimum,
+        tireDead: legalMinimum, // tire is "dead" at the legal minimum
+        samples,
+        seed,
+    };
+}
+
 // ── Helpers ──────────────────────────────────────────────────────────
 
+function datePercentiles(months: number[], now: Date): DatePercentiles {
+    const sorted = [...months].sort((a, b) => a - b);
+    return {
+        p10: addMonths(now, percentile(sorted, 0.1)),
+        p50: addMonths(now, percentile(sorted, 0.5)),
+        p90: addMonths(now, percentile(sorted, 0.9)),
+    };
+}
+
+function percentile(sorted: number[], q: number): number {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.min(sorted.length - 1, lo + 1);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Half the P10–P90 spread as a fraction of the median time remaining.
+ */
+function relativeSpread(dates: DatePercentiles, now: Date): number {
+    const median = dates.p50.getTime() - now.getTime();
+    if (median <= 0) return 0;
+    return Math.round(((dates.p90.getTime() - dates.p10.getTime()) / 2 / median) * 1000) / 1000;
+}
+
+// Small seeded PRNG — Math.random can't be seeded
+function mulberry32(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Standard normal draw (Box–Muller)
+function gaussian(random: () => number): number {
+    const u = 1 - random(); // (0, 1] so the log is finite
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
 function addMonths(date: Date, months: number): Date {
     const result = new Date(date);
     result.setMonth(result.getMonth() + Math.round(months));
     return result;
 }
-
-function calculateConfidenceBand(depth: number, milesPerYear: number): number {
-    // More confidence when tread is still deep and driving is average
-    let band = 0.175; // base ±17.5%
-    if (depth < 3) band += 0.025; // less confidence at low tread
-    if (milesPerYear > 18000) band += 0.015; // high mileage adds uncertainty
-    if (milesPerYear < 6000) band += 0.01;   // very low mileage too
-    return Math.min(0.20, Math.max(0.15, band));
-}
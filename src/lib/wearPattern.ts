@@ -0,0 +1,107 @@
+import type { WearPattern, WearPatternResult } from '@/types';
+import { WEAR_PATTERN_THRESHOLDS, WEAR_PATTERN_INFO } from './constants';
+import { calculateTreadSignal } from './treadEstimator';
+import { cropImageData } from './imageUtils';
+
+/**
+ * Detect uneven wear by comparing groove signal across the tread.
+ *
+ * The tread is assumed to run top-to-bottom in the frame (circumferential
+ * grooves vertical), photographed from in front of the tire: the left band is
+ * treated as the inner shoulder, the right band as the outer shoulder.
+ *
+ * - Center weaker than both shoulders → over-inflation
+ * - Both shoulders weaker than center → under-inflation
+ * - One shoulder weaker              → camber / toe
+ * - Signal rising and falling around the circumference → cupping
+ */
+export function detectWearPattern(imageData: ImageData): WearPatternResult {
+    const { width, height } = imageData;
+
+    // Shoulders are the outer 30% on each side
+    const shoulder = Math.max(1, Math.round(width * 0.3));
+    const inner = bandSignal(imageData, 0, shoulder);
+    const center = bandSignal(imageData, shoulder, width - 2 * shoulder);
+    const outer = bandSignal(imageData, width - shoulder, shoulder);
+    const bandSignals = { inner: round2(inner), center: round2(center), outer: round2(outer) };
+
+    let { pattern, deficit } = classifyBands(inner, center, outer);
+
+    if (pattern === 'even') {
+        const variation = circumferentialVariation(imageData, height);
+        if (variation != null && variation >= WEAR_PATTERN_THRESHOLDS.cuppingVariation) {
+            pattern = 'cupping';
+            deficit = variation;
+        }
+    }
+
+    return {
+        pattern,
+        severity: severityFor(pattern, deficit),
+        bandSignals,
+        evenWear: pattern === 'even',
+        likelyCauses: WEAR_PATTERN_INFO[pattern].causes,
+    };
+}
+
+// ── Internal ─────────────────────────────────────────────────────────
+
+function bandSignal(imageData: ImageData, x: number, bandWidth: number): number {
+    return calculateTreadSignal(cropImageData(imageData, x, 0, bandWidth, imageData.height)).treadSignal;
+}
+
+function classifyBands(inner: number, center: number, outer: number): { pattern: WearPattern; deficit: number } {
+    const { mild } = WEAR_PATTERN_THRESHOLDS;
+    const weaker = (a: number, b: number) => (b > 0 ? 1 - a / b : 0);
+
+    const candidates: { pattern: WearPattern; deficit: number }[] = [
+        { pattern: 'center', deficit: weaker(center, Math.min(inner, outer)) },
+        { pattern: 'both-shoulders', deficit: weaker(Math.max(inner, outer), center) },
+        { pattern: 'inner-shoulder', deficit: weaker(inner, Math.min(center, outer)) },
+        { pattern: 'outer-shoulder', deficit: weaker(outer, Math.min(center, inner)) },
+    ];
+
+    // The strongest clear deficit wins
+    const best = candidates.reduce((a, b) => (b.deficit > a.deficit ? b : a));
+    return best.deficit >= mild ? best : { pattern: 'even', deficit: 0 };
+}
+
+/**
+ * Coefficient of variation of the tread signal across horizontal strips, or
+ * null if the strips alternate too little to look like cupping.
+ */
+function circumferentialVariation(imageData: ImageData, height: number): number | null {
+    const strips = 6;
+    const stripHeight = Math.floor(height / strips);
+    if (stripHeight < 8) return null;
+
+    const signals: number[] = [];
+    for (let i = 0; i < strips; i++) {
+        signals.push(calculateTreadSignal(cropImageData(imageData, 0, i * stripHeight, imageData.width, stripHeight)).treadSignal);
+    }
+
+    const mean = signals.reduce((sum, v) => sum + v, 0) / strips;
+    if (mean <= 0) return null;
+    const std = Math.sqrt(signals.reduce((sum, v) => sum + (v - mean) ** 2, 0) / strips);
+
+    // Cupping alternates high/low; a single bright or dark patch doesn't
+    let signChanges = 0;
+    for (let i = 1; i < strips; i++) {
+        if (Math.sign(signals[i] - mean) !== Math.sign(signals[i - 1] - mean)) signChanges++;
+    }
+    if (signChanges < 3) return null;
+
+    return std / mean;
+}
+
+function severityFor(pattern: WearPattern, deficit: number): WearPatternResult['severity'] {
+    if (pattern === 'even') return 'none';
+    const { moderate, severe } = WEAR_PATTERN_THRESHOLDS;
+    if (deficit >= severe) return 'severe';
+    if (deficit >= moderate) return 'moderate';
+    return 'mild';
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -1,19 +1,25 @@
-import { WeatherMode, RiskLevel, WeatherRiskResult } from '@/types';
-import { WEATHER_RISK_MULTIPLIERS, WEATHER_DEPTH_THRESHOLDS } from './constants';
+import { WeatherMode, RiskLevel, WeatherRiskResult, JurisdictionCode, UnitSystem } from '@/types';
+import { WEATHER_RISK_MULTIPLIERS } from './constants';
+import { formatThreshold, getJurisdictionRules, weatherThresholds } from './jurisdiction';
 
 /**
  * Calculate weather-adjusted risk level for a given tread depth.
  *
  * In wet conditions, tires lose traction sooner.
  * In snow, risk escalates much earlier.
+ * Thresholds follow the jurisdiction's legal minimum and winter-tire rules.
  */
 export function calculateWeatherRisk(
     depth32nds: number,
     baseRiskLevel: RiskLevel,
-    weatherMode: WeatherMode
+    weatherMode: WeatherMode,
+    jurisdiction?: JurisdictionCode,
+    units?: UnitSystem
 ): WeatherRiskResult {
     const multiplier = WEATHER_RISK_MULTIPLIERS[weatherMode];
-    const thresholds = WEATHER_DEPTH_THRESHOLDS[weatherMode];
+    const rules = getJurisdictionRules(jurisdiction);
+    const thresholds = weatherThresholds(rules)[weatherMode];
+    const winterMinimum = rules.winter?.minimum32nds;
 
     let adjustedRisk: RiskLevel = baseRiskLevel;
     let description = '';
@@ -29,6 +35,9 @@ export function calculateWeatherRisk(
         description = weatherMode === 'wet'
             ? 'Dangerously low tread for wet conditions. Hydroplaning risk is high.'
             : 'Critically insufficient tread for snow. Loss of control likely on ice or packed snow.';
+        if (weatherMode === 'snow' && winterMinimum != null && depth32nds < winterMinimum) {
+            description += ` Below the ${formatThreshold(winterMinimum, rules, units)} winter-tire minimum in ${rules.name}.`;
+        }
     } else if (depth32nds <= thresholds.warning) {
         adjustedRisk = escalateRisk(baseRiskLevel, 1);
         description = weatherMode === 'wet'
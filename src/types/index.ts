@@ -8,15 +8,58 @@ export type WeatherMode = 'dry' | 'wet' | 'snow';
 
 export type DrivingStyle = 'normal' | 'aggressive' | 'skip-rotations';
 
+export type TirePosition = 'FL' | 'FR' | 'RL' | 'RR' | 'SPARE';
+
+export type Axle = 'front' | 'rear';
+
+export type RoadPosition = Exclude<TirePosition, 'SPARE'>;
+
 export interface DepthRange {
   min: number; // in 32nds of an inch
   max: number;
 }
 
+// Display units only — the model always works in 32nds of an inch and miles
+export type UnitSystem = 'imperial' | 'metric';
+
+export type CalibrationMethod = 'penny' | 'quarter' | 'gauge';
+
+export interface CalibrationMeasurement {
+  method: CalibrationMethod;
+  depth32nds: number;       // absolute depth measured against the reference
+  uncertainty32nds: number;
+  confidence: number;       // 0–1, how sure we are the reference was found
+}
+
 export interface TreadEstimate {
-  bucket: TreadBucket;
-  depthRange32nds: DepthRange;
-  confidence: number; // 0.55 – 0.9
+  bucket: TreadBucket;           // display bucket, derived from depth32nds
+  depth32nds: number;            // continuous depth estimate
+  uncertainty32nds: number;      // ± half-width of the interval
+  depthRange32nds: DepthRange;   // depth32nds ± uncertainty32nds, clamped
+  confidence: number; // 0.55 – 0.9 (up to 0.97 when calibrated)
+  calibration?: CalibrationMeasurement; // present when fused with a reference measurement
+}
+
+export interface TreadEstimatorMetadata {
+  source?: 'upload' | 'camera' | 'server';
+  fileName?: string;
+  capturedAt?: string; // ISO timestamp
+}
+
+export interface TreadEstimatorInput {
+  imageData: ImageData;
+  metadata?: TreadEstimatorMetadata;
+}
+
+export interface TreadEstimatorResult {
+  estimate: TreadEstimate;
+  diagnostics: Record<string, number>; // estimator-specific intermediate signals
+}
+
+export interface TreadEstimator {
+  name: string;  // registry key, e.g. 'heuristic'
+  label: string; // human-readable name for the UI
+  estimate(input: TreadEstimatorInput): Promise<TreadEstimatorResult>;
 }
 
 export interface ImageQuality {
@@ -27,22 +70,308 @@ export interface ImageQuality {
   acceptable: boolean;
 }
 
+export interface FrameResult {
+  index: number;              // position in the order the frames were taken
+  imageQuality: ImageQuality;
+  used: boolean;              // went into the fused estimate
+  depth32nds?: number;        // frames rejected for quality aren't estimated
+  uncertainty32nds?: number;
+  confidence?: number;
+  weight?: number;            // share of the fused depth, 0–1
+}
+
+export interface FrameFusion {
+  frames: FrameResult[];
+  spread32nds: number;        // weighted std dev of the used frames' depths
+  agreement: number;          // 0–1; 1 = frames agree well within their uncertainty
+}
+
+export type TreadOrientation = 'vertical' | 'horizontal'; // direction the grooves run in the frame
+
+/**
+ * Where the tread band sits in a photo, as fractions (0–1) of its width and
+ * height, so it applies at any display size.
+ */
+export interface TreadRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  orientation: TreadOrientation;
+  confidence: number;         // 0–1; 0 when detection fell back to the default
+  source: 'detected' | 'default' | 'manual';
+}
+
+/**
+ * Grooves and wear bars measured along scanlines across the upright tread
+ * crop. Positions are fractions of the crop: `center` across the tread
+ * (0 = left), `position` along it (0 = top).
+ */
+export interface GrooveMeasurement {
+  center: number;
+  width: number;           // fraction of the tread width
+  darkness: number;        // 0–1; how much darker than the ribs
+  continuity: number;      // share of scanlines where the groove shows
+  darknessAlong: number[]; // darkness per scanline, top to bottom
+}
+
+export interface WearBarMark {
+  groove: number;          // index into GrooveProfile.grooves
+  position: number;
+  flush: boolean;          // level with the ribs around it
+}
+
+export interface GrooveProfile {
+  grooves: GrooveMeasurement[];
+  wearBars: WearBarMark[];
+  ribLevel: number;        // luminance of the tread surface, 0–255
+}
+
+/**
+ * Wear bars lined up across the tread: the molded tread-wear indicators, as
+ * opposed to a stone or a light patch in a single groove.
+ */
+export interface WearBarRow {
+  position: number;        // along the upright crop (0 = top)
+  grooves: number[];       // indexes into GrooveProfile.grooves
+  flush: boolean;
+}
+
+export interface WearBarDetection {
+  rows: WearBarRow[];
+  flush: boolean;          // a row is flush with the tread: the tire is at 2/32"
+}
+
+export type CaptureHint = 'too-dark' | 'too-bright' | 'too-blurry' | 'move-closer' | 'not-centered';
+
+export interface LiveFrameGuidance {
+  quality: ImageQuality;
+  hints: CaptureHint[];  // most important first; empty when the frame is usable
+  ready: boolean;        // passes the auto-capture thresholds
+}
+
+export type WearPattern =
+  | 'even'
+  | 'center'          // over-inflation
+  | 'both-shoulders'  // under-inflation
+  | 'inner-shoulder'  // negative camber / toe
+  | 'outer-shoulder'  // positive camber / toe
+  | 'cupping';        // worn suspension / imbalance
+
+export interface WearPatternResult {
+  pattern: WearPattern;
+  severity: 'none' | 'mild' | 'moderate' | 'severe';
+  bandSignals: { inner: number; center: number; outer: number }; // 0–1 groove signal per band
+  evenWear: boolean;
+  likelyCauses: string[];
+}
+
+export type DotCodeSource = 'ocr' | 'manual';
+
+export interface DotDateCode {
+  code: string; // four digits, WWYY
+  week: number; // 1–53
+  year: number; // four-digit year
+}
+
+export interface TireAge extends DotDateCode {
+  source: DotCodeSource;
+  ageMonths: number;
+  overAgeLimit: boolean; // older than TIRE_AGE_WARNING_MONTHS, whatever the tread
+}
+
+export type TireCategory = 'all-season' | 'touring' | 'performance' | 'winter' | 'light-truck';
+
+// ── Tire & Vehicle Profile ──────────────────────────────────────────
+
+export type UtqgTraction = 'AA' | 'A' | 'B' | 'C';
+
+export type UtqgTemperature = 'A' | 'B' | 'C';
+
+export type Drivetrain = 'FWD' | 'RWD' | 'AWD' | '4WD';
+
+/**
+ * A sidewall size, parsed: P-metric / Euro-metric (`P225/45R17 94W`),
+ * LT-metric (`LT245/75R16 120/116S`) or flotation (`31x10.50R15LT`).
+ */
+export interface TireSize {
+  text: string;             // normalized, e.g. "225/45R17 94W"
+  service: 'P' | 'LT' | 'ST' | 'T' | null; // null for Euro-metric (no prefix)
+  widthMm: number;
+  aspectRatio: number;      // sidewall height as % of width
+  construction: 'R' | 'D' | 'B';
+  rimDiameterIn: number;
+  overallDiameterIn: number;
+  loadIndex?: number;       // single-fitment load index
+  speedRating?: string;
+  lightTruck: boolean;      // LT-metric or flotation
+}
+
+/**
+ * What the driver knows about the tire. Everything is optional; gaps fall
+ * back to the category defaults.
+ */
+export interface TireProfile {
+  size?: string;
+  brand?: string;
+  model?: string;
+  category?: TireCategory; // season type
+  treadwear?: number;      // UTQG treadwear rating, e.g. 500
+  traction?: UtqgTraction;
+  temperature?: UtqgTemperature;
+  newTreadDepth32nds?: number; // from the spec sheet; defaults by category
+}
+
+export interface VehicleProfile {
+  make?: string;
+  model?: string;
+  year?: number;
+  drivetrain?: Drivetrain;
+  curbWeightLb?: number;
+}
+
+/**
+ * Depth vs. miles for a tire since new: a fast break-in loss over the first
+ * few thousand miles on top of a steady rate.
+ * depth(m) = newDepth − rate·m/1000 − breakIn·(1 − e^(−m/breakInMiles))
+ */
+export interface WearCurve {
+  newDepth32nds: number;
+  ratePer1000Miles: number; // steady-state loss after break-in
+  breakIn32nds: number;     // extra loss spread over the first few thousand miles
+  breakInMiles: number;     // distance over which break-in loss decays (e-folding)
+}
+
+// ── Climate ─────────────────────────────────────────────────────────
+
+export type ClimateLabel = 'cold' | 'moderate' | 'hot' | 'neutral';
+
+/**
+ * Climate normals for a region (roughly 1991–2020), from the bundled
+ * offline dataset.
+ */
+export interface ClimateNormals {
+  meanTempC: number;       // annual mean
+  seasonalRangeC: number;  // July mean − January mean
+  precipDays: number;      // days a year with measurable precipitation
+  snowDays: number;        // days a year with measurable snowfall
+  precipPeak?: 'winter' | 'summer'; // wet season, when there is a marked one
+}
+
+export interface ClimateProfile {
+  postalCode: string;
+  country: 'US' | 'CA' | 'UK';
+  region: string;          // e.g. "Seattle, WA"
+  normals: ClimateNormals;
+  climate: Exclude<ClimateLabel, 'neutral'>; // coarse label for older callers
+}
+
+// ── Jurisdiction ────────────────────────────────────────────────────
+
+export type JurisdictionCode = 'US' | 'CA' | 'CA-QC' | 'CA-BC' | 'UK' | 'EU' | 'DE' | 'AT' | 'CZ' | 'SE' | 'FI';
+
+/**
+ * Winter-tire rule for part of the year. Dates are inclusive and may wrap
+ * the new year (e.g. Nov 1 – Apr 15).
+ */
+export interface WinterTireRule {
+  from: { month: number; day: number }; // month 0 = January
+  to: { month: number; day: number };
+  required: boolean;       // mandatory for the whole period, not only in wintry conditions
+  minimum32nds?: number;   // minimum tread on winter tires, when stricter than the legal minimum
+  description: string;
+}
+
+export interface JurisdictionRules {
+  code: JurisdictionCode;
+  name: string;
+  depthUnit: '32nds' | 'mm';   // how the law and local advice state depths
+  legalMinimum32nds: number;
+  wetTractionDrop32nds: number; // recommended: replace before this for wet roads
+  snowWarning32nds: number;     // recommended: replace before this for snow
+  winter?: WinterTireRule;
+}
+
+// ── Seasonal Exposure ───────────────────────────────────────────────
+
+export interface MonthlyWeather {
+  month: number;              // 0 = January
+  meanTempC: number;
+  precipProbability: number;  // chance of measurable precipitation on a given day
+  snowProbability: number;    // chance of measurable snowfall on a given day
+}
+
+export interface SeasonalExposureMonth extends MonthlyWeather {
+  date: Date;                 // first of the month (today for the current month)
+  depth32nds: number;         // projected depth on `date`
+  condition: WeatherMode;     // the weather that sets the month's risk
+  riskLevel: RiskLevel;
+  description: string;
+}
+
+export interface SeasonalExposure {
+  months: SeasonalExposureMonth[];
+  winterEntry: SeasonalExposureMonth | null; // first month of the next snow season
+  highlights: string[];
+}
+
 export interface WearPredictionInput {
   depthRange: DepthRange;
+  currentDepth32nds?: number; // continuous estimate; defaults to the range midpoint
   milesPerYear: number;
-  climate: 'cold' | 'moderate' | 'hot' | 'neutral';
+  climate: ClimateLabel;
+  climateNormals?: ClimateNormals; // continuous climate effect; replaces the `climate` bucket
   rotation: 'normal' | 'skip-rotations';
   drivingStyle: 'normal' | 'aggressive';
+  fittedWearRatePer1000Miles?: number; // observed rate from scan history; overrides the default + modifiers
+  tireCategory?: TireCategory; // defaults to all-season
+  treadwear?: number;          // UTQG treadwear rating, e.g. 500
+  newTreadDepth32nds?: number; // overrides the category's new depth
+  curbWeightLb?: number;       // heavier vehicles wear tires faster
+  position?: TirePosition;     // with drivetrain, sets the axle rate when tires aren't rotated
+  drivetrain?: Drivetrain;     // defaults to FWD
+  jurisdiction?: JurisdictionCode; // sets the legal and wet-traction thresholds; defaults to US
+  depthUncertainty32nds?: number; // ± on the starting depth; defaults to half the depth range
+  seed?: number;               // Monte Carlo seed, for reproducible date bands
+}
+
+export interface DatePercentiles {
+  p10: Date;
+  p50: Date;
+  p90: Date;
 }
 
+// Spread of threshold dates over simulated starting depth, mileage, climate
+// and driving style
+export interface WearDateDistribution {
+  wetTractionDrop: DatePercentiles;
+  legalMinimum: DatePercentiles;
+  tireDead: DatePercentiles;
+  samples: number;
+  seed: number;
+}
+
+export type WearRateSource = 'default' | 'fitted';
+
 export interface WearPrediction {
   currentDepth32nds: number;
-  wearRatePer1000Miles: number; // 32nds lost per 1000 miles
-  wetTractionDropDate: Date;   // when crossing 4/32
-  legalMinimumDate: Date;      // when crossing 2/32
-  tireDeadDate: Date;          // when reaching ≤2/32
+  wearRatePer1000Miles: number; // 32nds lost per 1000 miles, after break-in
+  wearCurve: WearCurve;         // the curve the dates were computed from
+  milesPerYear: number;
+  wetTractionDropDate: Date;   // when crossing the wet-traction depth (4/32 in the US)
+  legalMinimumDate: Date;      // when crossing the legal minimum (2/32 in the US)
+  tireDeadDate: Date;          // when reaching the legal minimum
+  winterMinimumDate?: Date;    // when crossing a stricter winter-tire minimum, where there is one
   remainingMonths: number;
-  confidenceBand: number;      // ±percentage (0.15–0.20)
+  confidenceBand: number;      // ±fraction of remaining life, from the P10–P90 spread of the legal-minimum date
+  dateDistribution: WearDateDistribution;
+  wearRateSource: WearRateSource;
+  rotation: WearPredictionInput['rotation']; // rotation habit the curve assumes
+  position?: TirePosition;
+  drivetrain: Drivetrain;      // as modeled (the default when unknown)
+  climateNormals?: ClimateNormals; // the region's normals, when the postal code was known
+  tireCategory?: TireCategory;      // as given; all-season when absent
+  jurisdiction: JurisdictionCode;   // whose thresholds the dates use
 }
 
 export interface HealthScoreResult {
@@ -57,6 +386,18 @@ export interface WeatherRiskResult {
   description: string;
 }
 
+export interface StoppingEstimate {
+  speedMph: number;
+  weatherMode: WeatherMode;
+  depth32nds: number;
+  friction: number;                    // effective tire–road friction coefficient
+  reactionDistanceFt: number;          // covered before the brakes are applied
+  brakingDistanceFt: number;
+  stoppingDistanceFt: number;          // reaction + braking
+  hydroplaningSpeedMph: number | null; // onset in standing water; null on dry roads
+  hydroplaningRisk: boolean;           // speedMph is at or above the onset
+}
+
 export interface CTAAction {
   label: string;
   description: string;
@@ -71,11 +412,207 @@ export interface LLMExplanation {
   disclaimer: string;
 }
 
+export interface ScanRecord {
+  id: string;
+  vehicleId: string;
+  position: TirePosition;
+  scannedAt: string;     // ISO timestamp
+  odometerMiles: number;
+  depth32nds: number;
+  bucket: TreadBucket;
+  dotCode?: string;   // sidewall WWYY date code, when one was given
+  evenWear?: boolean; // false when the scan showed uneven wear
+}
+
+export interface WearRateFit {
+  ratePer1000Miles: number; // 32nds lost per 1000 miles
+  scanCount: number;
+  milesSpan: number;
+}
+
 export interface AnalysisResult {
   treadEstimate: TreadEstimate;
   wearPrediction: WearPrediction;
   healthScore: HealthScoreResult;
   imageQuality: ImageQuality;
+  estimator: string;      // registry name of the tread estimator used
+  wearPattern?: WearPatternResult;
+  tireAge?: TireAge;
+  history?: ScanRecord[]; // oldest first, including this scan
+  units?: UnitSystem;     // display units the scan was requested in
+  frameFusion?: FrameFusion;
+  treadRegion?: TreadRegion; // of the photo shown on the results page
+  grooveProfile?: GrooveProfile;
+  wearBars?: WearBarDetection; // flush bars override the depth estimate
+}
+
+/**
+ * An analysis's headline numbers in its display units, sent alongside the
+ * internal (32nds, miles) fields in API responses.
+ */
+export interface DisplayMeasurements {
+  units: UnitSystem;
+  depthUnit: 'mm' | '32nds';
+  distanceUnit: 'km' | 'mi';
+  depth: number;
+  uncertainty: number;
+  distancePerYear: number;
+  wearRatePer1000: number; // depth unit per 1,000 distance units
+}
+
+export interface TireScanInput {
+  position: TirePosition;
+  bucket: TreadBucket;
+  depthRange: DepthRange;
+  confidence: number;
+  imageQuality: ImageQuality;
+  estimator?: string;
+  depth32nds?: number;       // continuous estimate; bucket is derived from it when present
+  uncertainty32nds?: number;
+  calibration?: CalibrationMeasurement;
+  wearPattern?: WearPatternResult;
+  dotCode?: string; // sidewall DOT date code (WWYY)
+  dotCodeSource?: DotCodeSource;
+  tireCategory?: TireCategory;
+  treadwear?: number; // UTQG treadwear rating
+  tireProfile?: TireProfile; // takes precedence over tireCategory / treadwear
+  frameFusion?: FrameFusion; // per-frame results when several photos were fused
+  treadRegion?: TreadRegion; // tread band the estimate was cropped to
+  grooveProfile?: GrooveProfile; // measured within treadRegion
+  wearBars?: WearBarDetection;   // decides the override; from grooveProfile when absent
+}
+
+export interface AxleImbalance {
+  frontDepth32nds: number | null; // mean of FL/FR
+  rearDepth32nds: number | null;  // mean of RL/RR
+  difference32nds: number;        // |front − rear|
+  significant: boolean;
+}
+
+export interface VehicleRollup {
+  worstPosition: TirePosition;
+  worstScore: number;
+  worstRiskLevel: RiskLevel;
+  axleImbalance: AxleImbalance;
+  replaceFirst: Axle | null;      // pair to replace first (null if no axle data)
+  sideToSideMismatch: TirePosition[]; // positions whose partner differs by >= threshold
+}
+
+export interface VehicleAnalysisResult {
+  tires: Partial<Record<TirePosition, AnalysisResult>>;
+  rollup: VehicleRollup;
+}
+
+export interface BatchResultRow {
+  file: string;
+  status: 'ok' | 'error';
+  error?: string;
+  bucket?: TreadBucket;
+  depth32nds?: number;
+  uncertainty32nds?: number;
+  depthMm?: number;          // metric batches only
+  uncertaintyMm?: number;
+  confidence?: number;
+  healthScore?: number;
+  riskLevel?: RiskLevel;
+  remainingMonths?: number;
+  wetTractionDropDate?: string; // YYYY-MM-DD
+  legalMinimumDate?: string;
+  legalMinimumDateP10?: string; // 80% range of the legal-minimum date
+  legalMinimumDateP90?: string;
+  tireDeadDate?: string;
+  imageBlur?: number;
+  imageBrightness?: number;
+  imageContrast?: number;
+  imageQuality?: number;
+  imageAcceptable?: boolean;
+  wearPattern?: WearPattern;
+  estimator?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  analyzed: number;
+  failed: number;
+  replaceNow: number;
+}
+
+export interface FleetVehicle {
+  id: string;             // same as ScanRecord.vehicleId
+  name: string;
+  milesPerYear: number;
+  zip?: string;
+  tireSize?: string;      // e.g. '225/45R17'
+  tirePriceUsd?: number;  // per tire, for the spend forecast
+  updatedAt?: string;     // ISO timestamp; unset for vehicles only known from scans
+}
+
+export interface FleetTireStatus {
+  position: TirePosition;
+  lastScan: ScanRecord;
+  healthScore: HealthScoreResult;
+  wearPrediction: WearPrediction; // projected from the last scan to today
+}
+
+export interface FleetVehicleStatus {
+  vehicle: FleetVehicle;
+  tires: FleetTireStatus[];      // soonest legal minimum first
+  soonestLegalMinimumDate: Date | null;
+}
+
+export interface ReplacementForecastMonth {
+  month: string; // YYYY-MM
+  tireCount: number;
+  sizes: Record<string, number>; // tire size → count ('Unknown' when not set)
+  estimatedSpendUsd: number;
+  tires: { vehicleId: string; position: TirePosition }[];
+}
+
+export interface ReplacementForecast {
+  months: ReplacementForecastMonth[]; // first month includes overdue tires
+  totalTires: number;
+  totalSpendUsd: number;
+}
+
+// P10–P90 range of a threshold date on the time-travel slider
+// ── Rotation Planning ───────────────────────────────────────────────
+
+export type RotationPattern = 'forward-cross' | 'rearward-cross' | 'x-pattern' | 'front-to-back';
+
+export interface RotationEvent {
+  number: number;      // 1 for the first rotation
+  milesFromNow: number;
+  date: Date;
+}
+
+/**
+ * One pattern simulated from today's depths until the first tire reaches
+ * the legal minimum (or the planning horizon).
+ */
+export interface RotationSimulation {
+  pattern: RotationPattern | null;     // null: never rotated
+  milesToLegalMinimum: number;
+  monthsToLegalMinimum: number;
+  legalMinimumDate: Date;
+  firstWornTire: RoadPosition | null;  // by today's position; null if none within the horizon
+  rotations: RotationEvent[];          // rotations before that date
+  finalDepths: Record<RoadPosition, number>; // by today's position
+}
+
+export interface RotationPlan {
+  drivetrain: Drivetrain;
+  intervalMiles: number;
+  recommended: RotationSimulation;
+  simulations: RotationSimulation[];   // every pattern, longest-lasting first
+  noRotation: RotationSimulation;
+  gainMonths: number;                  // recommended vs. never rotating
+}
+
+export interface ThresholdBand {
+  fromT: number; // slider position (0..1)
+  toT: number;
+  from: Date;
+  to: Date;
 }
 
 export interface TimeTravelState {
@@ -88,3 +625,20 @@ export interface TimeTravelState {
   skipRotations: boolean;
   aggressiveDriving: boolean;
 }
+
+/**
+ * Front vs. rear tires when rotations are skipped: both start at today's
+ * depth and wear at their axle's rate for the drivetrain.
+ */
+export interface AxleDivergence {
+  drivetrain: Drivetrain;
+  axle: Axle | null;        // the scanned tire's axle
+  front: AxleWearState;
+  rear: AxleWearState;
+}
+
+export interface AxleWearState {
+  rateFactor: number;       // vs. rotated tires
+  depth32nds: number;       // at the slider position
+  legalMinimumMonths: number;
+}